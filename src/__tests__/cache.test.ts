@@ -0,0 +1,170 @@
+/**
+ * Tests for the snapshot cache: configuration, hits, and the three ways a
+ * snapshot goes stale (TTL, database modification time, invalidateCache).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setBackend } from '../backend.js';
+import { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import {
+  cacheConfigFromEnv,
+  configureCache,
+  getCacheStats,
+  getSnapshot,
+  invalidateCache,
+  filterByTags,
+  byDate,
+} from '../cache.js';
+import { configureLogger, loggerConfigFromEnv } from '../logger.js';
+import type { TaskData } from '../types.js';
+
+let store: FakeStore;
+let backend: FakeBackend;
+let runs: number;
+
+beforeEach(() => {
+  store = new FakeStore();
+  backend = new FakeBackend(store);
+  runs = 0;
+  const run = backend.run.bind(backend);
+  backend.run = (...args) => {
+    runs++;
+    return run(...args);
+  };
+  setBackend(backend);
+  configureCache({ ttlMs: 60_000 });
+  configureLogger({ level: 'debug' });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  configureCache({ ttlMs: 0 });
+  configureLogger(loggerConfigFromEnv());
+  setBackend(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('cacheConfigFromEnv', () => {
+  it('is disabled unless a TTL is set', () => {
+    expect(cacheConfigFromEnv({})).toEqual({ ttlMs: 0 });
+    expect(cacheConfigFromEnv({ OMNIFOCUS_CACHE_TTL_MS: '30000' })).toEqual({ ttlMs: 30000 });
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => cacheConfigFromEnv({ OMNIFOCUS_CACHE_TTL_MS: '-1' })).toThrow('Invalid OMNIFOCUS_CACHE_TTL_MS: -1');
+    expect(() => cacheConfigFromEnv({ OMNIFOCUS_CACHE_TTL_MS: 'soon' })).toThrow('Invalid OMNIFOCUS_CACHE_TTL_MS');
+  });
+});
+
+describe('getSnapshot', () => {
+  it('returns null without running anything when disabled', async () => {
+    configureCache({ ttlMs: 0 });
+    expect(await getSnapshot()).toBeNull();
+    expect(runs).toBe(0);
+  });
+
+  it('captures tasks, projects, folders, tags and project membership', async () => {
+    const folder = store.addFolder({ name: 'Work' });
+    const project = store.addProject({ name: 'Launch', folderId: folder.id });
+    const tag = store.addTag({ name: 'Deep work' });
+    const task = store.addTask({ name: 'Write copy', projectId: project.id, tagIds: [tag.id] });
+    store.addTask({ name: 'Inbox item' });
+
+    const snapshot = await getSnapshot();
+    expect(snapshot?.tasks.map((t) => t.name)).toEqual(['Inbox item', 'Write copy']);
+    expect(snapshot?.tasks[1]).toMatchObject({ projectName: 'Launch', tags: ['Deep work'] });
+    expect(snapshot?.projects).toMatchObject([{ name: 'Launch', folderName: 'Work', taskCount: 1 }]);
+    expect(snapshot?.folders).toMatchObject([{ name: 'Work', projectCount: 1 }]);
+    expect(snapshot?.tags).toMatchObject([{ name: 'Deep work', taskCount: 1 }]);
+    expect(snapshot?.projectTaskIds).toEqual({ [project.id]: [task.id] });
+  });
+
+  it('serves repeated reads from one fetch and logs the hits', async () => {
+    store.addTask({ name: 'A' });
+    const before = getCacheStats();
+    const first = await getSnapshot();
+    const second = await getSnapshot();
+
+    expect(second).toBe(first);
+    expect(runs).toBe(1);
+    const after = getCacheStats();
+    expect([after.hits - before.hits, after.misses - before.misses]).toEqual([1, 1]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/"msg":"Snapshot cache hit","ageMs":\d+\}$/));
+  });
+
+  it('shares one fetch between concurrent callers', async () => {
+    const [a, b] = await Promise.all([getSnapshot(), getSnapshot()]);
+    expect(a).toBe(b);
+    expect(runs).toBe(1);
+  });
+
+  it('refetches once the TTL has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    configureCache({ ttlMs: 1000 });
+    await getSnapshot();
+    vi.setSystemTime(Date.now() + 999);
+    await getSnapshot();
+    expect(runs).toBe(1);
+
+    vi.setSystemTime(Date.now() + 1);
+    await getSnapshot();
+    expect(runs).toBe(2);
+  });
+
+  it('refetches when the database changes outside the server', async () => {
+    await getSnapshot();
+    store.addTask({ name: 'Added in the OmniFocus UI' });
+
+    const snapshot = await getSnapshot();
+    expect(runs).toBe(2);
+    expect(snapshot?.tasks.map((t) => t.name)).toEqual(['Added in the OmniFocus UI']);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"msg":"Snapshot cache invalidated","reason":"OmniFocus database changed"'));
+  });
+
+  it('refetches after invalidateCache, and does not keep a fetch that was running then', async () => {
+    backend.modificationTime = async () => null;
+    let started!: () => void;
+    const fetchStarted = new Promise<void>((resolve) => { started = resolve; });
+    const run = backend.run;
+    backend.run = async (...args) => {
+      started();
+      return run(...args);
+    };
+    const running = getSnapshot();
+    await fetchStarted;
+    invalidateCache('test');
+    await running;
+    await getSnapshot();
+    expect(runs).toBe(2);
+
+    invalidateCache('test');
+    await getSnapshot();
+    expect(runs).toBe(3);
+  });
+
+  it('stops waiting when the caller aborts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(getSnapshot(controller.signal)).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+});
+
+describe('query helpers', () => {
+  const task = (name: string, tags: string[], dueDate: string | null = null) => ({ name, tags, dueDate }) as TaskData;
+
+  it('filters by tags like generateTagFilter', () => {
+    const tasks = [task('both', ['Home', 'Errand']), task('home', ['Home']), task('none', [])];
+    const names = (mode: 'all' | 'any' | 'none') => filterByTags(tasks, ['Home', 'Errand'], mode).map((t) => t.name);
+    expect(names('all')).toEqual(['both']);
+    expect(names('any')).toEqual(['both', 'home']);
+    expect(names('none')).toEqual(['none']);
+    expect(filterByTags(tasks, [], 'all')).toBe(tasks);
+  });
+
+  it('sorts by ISO date', () => {
+    const tasks = [task('b', [], '2026-02-01T00:00:00.000Z'), task('a', [], '2026-01-01T00:00:00.000Z')];
+    expect(tasks.sort(byDate('dueDate')).map((t) => t.name)).toEqual(['a', 'b']);
+  });
+});
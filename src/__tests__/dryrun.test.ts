@@ -0,0 +1,178 @@
+/**
+ * Tests for dry runs: the changes mutating tools report they would make,
+ * against the fake backend through a real MCP client-server connection, with
+ * the store left as it was.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { setBackend } from '../backend.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { configureJournal, journalConfigFromEnv, listJournal } from '../journal.js';
+import { configureDryRun, dryRunConfigFromEnv, withDryRunOutput, type PlannedChange } from '../dryrun.js';
+import { DeletedOutputSchema } from '../outputs.js';
+import { connectClient, useFakeBackend, type TestClient } from './harness.js';
+
+let store: FakeStore;
+let client: TestClient;
+
+beforeEach(async () => {
+  configureJournal({ enabled: true, file: null, maxEntries: 1000 });
+  configureDryRun({ always: false });
+  store = new FakeStore();
+  useFakeBackend(store);
+  client = await connectClient('dryrun-test-client');
+});
+
+afterEach(async () => {
+  await client.close();
+  setBackend(null);
+  configureJournal(journalConfigFromEnv({}));
+  configureDryRun(dryRunConfigFromEnv({}));
+});
+
+interface DryRunOutput {
+  dryRun: true;
+  tool: string;
+  changes: PlannedChange[];
+  failures?: Array<Record<string, unknown>>;
+  notes?: string[];
+}
+
+async function plan(name: string, args: Record<string, unknown>): Promise<DryRunOutput> {
+  const outcome = await client.call(name, { ...args, dryRun: true });
+  expect(outcome.isError, outcome.text).toBe(false);
+  expect(outcome.text).toMatch(/^Dry run, nothing was changed/);
+  return JSON.parse(outcome.text.slice(outcome.text.indexOf('\n') + 1)) as DryRunOutput;
+}
+
+describe('dryRunConfigFromEnv', () => {
+  it('reads MCP_DRY_RUN', () => {
+    expect(dryRunConfigFromEnv({})).toEqual({ always: false });
+    expect(dryRunConfigFromEnv({ MCP_DRY_RUN: '1' })).toEqual({ always: true });
+    expect(() => dryRunConfigFromEnv({ MCP_DRY_RUN: 'true' })).toThrow('Invalid MCP_DRY_RUN: true');
+  });
+});
+
+describe('dry runs', () => {
+  it('offers the flag on tools that are not read-only only', async () => {
+    const { tools } = await client.listTools();
+    const flagged = tools.filter((tool) => 'dryRun' in (tool.inputSchema.properties ?? {})).map((tool) => tool.name);
+    expect(flagged).toContain('omnifocus_update_task');
+    expect(flagged).toContain('omnifocus_undo_change');
+    expect(flagged).not.toContain('omnifocus_list_inbox');
+    expect(flagged).not.toContain('omnifocus_list_recent_changes');
+  });
+
+  it('advertises the tool output and the plan as separate schemas', async () => {
+    const { tools } = await client.listTools();
+    const schema = tools.find((tool) => tool.name === 'omnifocus_delete_folder')?.outputSchema as {
+      type: string;
+      oneOf: Array<{ required: string[]; properties: Record<string, unknown> }>;
+    };
+    expect(schema.type).toBe('object');
+    expect(schema.oneOf.map((option) => option.required)).toEqual([['deleted', 'name'], ['dryRun', 'tool', 'changes']]);
+    expect(schema.oneOf[1].properties.dryRun).toMatchObject({ const: true });
+  });
+
+  it('checks outputs against the tool output or the plan, each in full', () => {
+    const schema = withDryRunOutput(DeletedOutputSchema);
+    expect(schema.safeParse({ deleted: true, name: 'Work' }).success).toBe(true);
+    expect(schema.safeParse({ dryRun: true, tool: 'omnifocus_delete_folder', changes: [] }).success).toBe(true);
+    expect(schema.safeParse({ deleted: true }).success).toBe(false);
+    expect(schema.safeParse({ dryRun: true, tool: 'omnifocus_delete_folder' }).success).toBe(false);
+    expect(schema.safeParse({ deleted: true, name: 'Work', dryRun: true }).success).toBe(false);
+  });
+
+  it('reports old and new values without changing or journaling anything', async () => {
+    const project = store.addProject({ name: 'Errands' });
+    const task = store.addTask({ name: 'Buy milk', note: 'Oat', flagged: false });
+    const output = await plan('omnifocus_update_task', { taskId: task.id, name: 'Buy bread', note: null, flagged: true, projectName: 'Errands' });
+
+    expect(output.changes).toEqual([{
+      kind: 'task',
+      action: 'update',
+      id: task.id,
+      name: 'Buy milk',
+      fields: {
+        name: { before: 'Buy milk', after: 'Buy bread' },
+        note: { before: 'Oat', after: '' },
+        flagged: { before: false, after: true },
+        projectId: { before: null, after: project.id },
+        projectName: { before: null, after: 'Errands' },
+        inInbox: { before: true, after: false },
+      },
+    }]);
+    expect(store.getTask(task.id)).toMatchObject({ name: 'Buy milk', note: 'Oat', flagged: false, projectId: null });
+    expect(listJournal()).toHaveLength(0);
+  });
+
+  it('describes what a create would make, and tags it would skip', async () => {
+    const project = store.addProject({ name: 'House' });
+    store.addTag({ name: 'Home' });
+    const output = await plan('omnifocus_create_task', { name: 'Paint', projectName: 'House', tagNames: ['Home', 'Weekend'], dueDate: '2026-01-05T10:00:00' });
+
+    expect(output.changes).toHaveLength(1);
+    expect(output.changes[0]).toMatchObject({
+      kind: 'task',
+      action: 'create',
+      id: null,
+      values: { name: 'Paint', projectId: project.id, tags: ['Home'], flagged: false },
+    });
+    expect(output.notes).toEqual(['Tag "Weekend" does not exist and is not applied.']);
+    expect(store.tasks.size).toBe(0);
+  });
+
+  it('lists the objects a batch would fail on', async () => {
+    const task = store.addTask({ name: 'Water plants', repetition: { rule: 'FREQ=WEEKLY;INTERVAL=1', method: 'Fixed' } });
+    const output = await plan('omnifocus_batch_complete_task', { taskIds: [task.id, 'missing'] });
+
+    expect(output.changes).toEqual([{ kind: 'task', action: 'update', id: task.id, name: 'Water plants', fields: { completed: { before: false, after: true } } }]);
+    expect(output.failures).toEqual([{ taskId: 'missing', code: 'NOT_FOUND', error: 'Task not found' }]);
+    expect(output.notes).toEqual(['Completing "Water plants" makes OmniFocus create its next occurrence.']);
+    expect(store.getTask(task.id).completed).toBe(false);
+  });
+
+  it('reports what a delete would remove', async () => {
+    const project = store.addProject({ name: 'Old' });
+    store.addTask({ name: 'Leftover', projectId: project.id });
+    const output = await plan('omnifocus_delete_project', { projectName: 'Old' });
+
+    expect(output.changes).toMatchObject([{ kind: 'project', action: 'delete', id: project.id, values: { name: 'Old', taskCount: 1 } }]);
+    expect(output.notes?.[0]).toBe('Its 1 task(s) are deleted with it.');
+    expect(store.projects.has(project.id)).toBe(true);
+  });
+
+  it('fails the way the tool would', async () => {
+    const task = store.addTask({ name: 'Task' });
+    for (const [name, args] of [
+      ['omnifocus_update_task', { taskId: task.id }],
+      ['omnifocus_complete_task', { taskId: 'missing' }],
+      ['omnifocus_add_tag_to_task', { taskId: task.id, tagName: 'Nope' }],
+    ] as const) {
+      const dry = await client.call(name, { ...args, dryRun: true });
+      const real = await client.call(name, args);
+      const [planned, actual] = [JSON.parse(dry.text).error, JSON.parse(real.text).error];
+      expect(dry.isError).toBe(true);
+      expect(planned.code).toBe(actual.code);
+      expect(actual.message.endsWith(planned.message), `${planned.message} / ${actual.message}`).toBe(true);
+    }
+  });
+
+  it('plans an undo', async () => {
+    const task = store.addTask({ name: 'Once' });
+    await client.call('omnifocus_update_task', { taskId: task.id, flagged: true });
+    const output = await plan('omnifocus_undo_change', { changeId: listJournal()[0].id });
+
+    expect(output.changes).toMatchObject([{ id: task.id, action: 'update', fields: { flagged: { before: true, after: false } } }]);
+    expect(store.getTask(task.id).flagged).toBe(true);
+    expect(listJournal()).toHaveLength(1);
+  });
+
+  it('applies to every mutating call with MCP_DRY_RUN', async () => {
+    configureDryRun({ always: true });
+    const outcome = await client.call('omnifocus_create_folder', { name: 'Scratch' });
+    expect(outcome.text).toMatch(/^Dry run, nothing was changed/);
+    expect(store.folders.size).toBe(0);
+    expect((await client.call('omnifocus_list_folders')).isError).toBe(false);
+  });
+});
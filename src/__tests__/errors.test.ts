@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the OmniFocus error taxonomy: reading the JXA wrapper's error
+ * envelope, classifying backend failures, and the tool error result shape.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  OmniFocusError,
+  OmniFocusAmbiguousMatchError,
+  OmniFocusNotFoundError,
+  OmniFocusNotRunningError,
+  OmniFocusPermissionError,
+  OmniFocusScriptError,
+  OmniFocusTimeoutError,
+  OmniFocusValidationError,
+  classifyBackendError,
+  isTransientError,
+  parseScriptError,
+  toolErrorResult,
+} from '../errors.js';
+
+function envelope(fields: { code?: string | null; message: string; errorNumber?: number | null; details?: unknown }) {
+  return JSON.stringify({
+    omnifocusError: { code: null, errorNumber: null, details: null, ...fields },
+  });
+}
+
+describe('parseScriptError', () => {
+  it('returns null for ordinary output', () => {
+    expect(parseScriptError('{"id":"t1"}')).toBeNull();
+    expect(parseScriptError('[]')).toBeNull();
+    expect(parseScriptError('')).toBeNull();
+  });
+
+  it('rebuilds coded errors thrown by scripts', () => {
+    const error = parseScriptError(envelope({ code: 'NOT_FOUND', message: 'Task not found with ID: x' }));
+    expect(error).toBeInstanceOf(OmniFocusNotFoundError);
+    expect(error).toMatchObject({ code: 'NOT_FOUND', message: 'Task not found with ID: x' });
+  });
+
+  it('keeps the details of an ambiguous match', () => {
+    const matches = [{ id: 'a', name: 'Report A' }, { id: 'b', name: 'Report B' }];
+    const error = parseScriptError(envelope({ code: 'AMBIGUOUS_MATCH', message: 'Multiple tasks', details: { matches } }));
+    expect(error).toBeInstanceOf(OmniFocusAmbiguousMatchError);
+    expect(error?.details).toEqual({ matches });
+  });
+
+  it('classifies uncoded errors by AppleEvent error number', () => {
+    expect(parseScriptError(envelope({ message: "Application isn't running.", errorNumber: -600 }))).toBeInstanceOf(OmniFocusNotRunningError);
+    expect(parseScriptError(envelope({ message: 'Not authorized to send Apple events', errorNumber: -1743 }))).toBeInstanceOf(OmniFocusPermissionError);
+  });
+
+  it('reports anything else as a script error, keeping the error number', () => {
+    const error = parseScriptError(envelope({ message: "Can't get object.", errorNumber: -1728 }));
+    expect(error).toBeInstanceOf(OmniFocusScriptError);
+    expect(error?.message).toBe("OmniFocus script error: Can't get object. (-1728)");
+  });
+});
+
+describe('classifyBackendError', () => {
+  it('passes OmniFocus errors through unchanged', () => {
+    const error = new OmniFocusTimeoutError(1000);
+    expect(classifyBackendError(error)).toBe(error);
+  });
+
+  it('uses a trailing AppleEvent error number when there is one', () => {
+    expect(classifyBackendError(new Error('execution error: Error: Application isn\'t running. (-600)')).code).toBe('NOT_RUNNING');
+    expect(classifyBackendError(new Error('execution error: Not authorized to send Apple events to OmniFocus. (-1743)')).code).toBe('PERMISSION_DENIED');
+  });
+
+  it('falls back to osascript\'s English and Dutch wording', () => {
+    expect(classifyBackendError(new Error('The application is not running.')).code).toBe('NOT_RUNNING');
+    expect(classifyBackendError(new Error('execution error: not allowed')).code).toBe('PERMISSION_DENIED');
+    expect(classifyBackendError(new Error('Toegang niet toegestaan')).code).toBe('PERMISSION_DENIED');
+  });
+
+  it('wraps everything else as a script error', () => {
+    const error = classifyBackendError(new Error('something odd'));
+    expect(error).toBeInstanceOf(OmniFocusScriptError);
+    expect(error.message).toBe('OmniFocus script error: something odd');
+  });
+});
+
+describe('toolErrorResult', () => {
+  const body = (result: ReturnType<typeof toolErrorResult>) =>
+    JSON.parse((result.content[0] as { text: string }).text);
+
+  it('returns the code, the prefixed message and the details', () => {
+    const result = toolErrorResult(new OmniFocusAmbiguousMatchError('Multiple tasks', { matches: [] }), 'Error completing task');
+    expect(result.isError).toBe(true);
+    expect(body(result)).toEqual({
+      error: { code: 'AMBIGUOUS_MATCH', message: 'Error completing task: Multiple tasks', details: { matches: [] } },
+    });
+  });
+
+  it('leaves out empty details and the prefix when there is no context', () => {
+    expect(body(toolErrorResult(new OmniFocusValidationError('No fields to update were provided')))).toEqual({
+      error: { code: 'VALIDATION', message: 'No fields to update were provided' },
+    });
+  });
+
+  it('reports errors from outside the taxonomy as script errors', () => {
+    expect(body(toolErrorResult(new Error('bad'), 'Error creating task')).error).toEqual({
+      code: 'SCRIPT_ERROR',
+      message: 'Error creating task: bad',
+    });
+    expect(body(toolErrorResult('plain string')).error.code).toBe('SCRIPT_ERROR');
+  });
+
+  it('includes the retries made before the call gave up', () => {
+    const error = new OmniFocusScriptError('OmniFocus script error: AppleEvent timed out. (-1712)');
+    error.retries = 3;
+    expect(body(toolErrorResult(error)).error).toEqual({ code: 'SCRIPT_ERROR', message: error.message, retries: 3 });
+  });
+
+  it('gives every error class its own code', () => {
+    expect(new OmniFocusTimeoutError(5000)).toMatchObject({ code: 'TIMEOUT', details: { timeoutMs: 5000 } });
+    expect(new OmniFocusNotRunningError()).toBeInstanceOf(OmniFocusError);
+  });
+});
+
+describe('isTransientError', () => {
+  it('accepts AppleEvent timeouts and OmniFocus not running', () => {
+    expect(isTransientError(classifyBackendError(new Error('OmniFocus got an error: AppleEvent timed out. (-1712)')))).toBe(true);
+    expect(isTransientError(parseScriptError(JSON.stringify({
+      omnifocusError: { code: null, message: 'AppleEvent timed out.', errorNumber: -1712, details: null },
+    }))!)).toBe(true);
+    expect(isTransientError(new OmniFocusNotRunningError())).toBe(true);
+  });
+
+  it('rejects everything else', () => {
+    expect(isTransientError(new OmniFocusNotFoundError('Task not found'))).toBe(false);
+    expect(isTransientError(new OmniFocusPermissionError())).toBe(false);
+    expect(isTransientError(new OmniFocusTimeoutError(1000))).toBe(false);
+    expect(isTransientError(classifyBackendError(new Error("Can't get object. (-1728)")))).toBe(false);
+  });
+});
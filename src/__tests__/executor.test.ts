@@ -2,18 +2,33 @@
  * Unit tests for the JXA executor.
  *
  * child_process.exec is mocked so no osascript / OmniFocus is ever invoked.
- * These cover the success path, the stderr-only path, the friendly error
- * translations, non-Error rejections, and JSON parsing.
+ * These run on the one-process-per-call osascript backend and cover the
+ * success path, the stderr-only path, the friendly error translations,
+ * non-Error rejections, and JSON parsing. The queue, timeout and cancellation
+ * tests at the end swap in a backend whose calls the test settles by hand, and
+ * the retry tests one that fails a scripted number of times.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
 
 vi.mock('child_process', () => ({
   exec: vi.fn(),
 }));
 
 import { exec } from 'child_process';
-import { executeOmniFocusScript, executeAndParseJSON } from '../executor.js';
+import { readFileSync } from 'fs';
+import {
+  executeOmniFocusScript,
+  executeAndParseJSON,
+  configureExecutor,
+  executorConfigFromEnv,
+  getExecutorStats,
+  runInCallContext,
+  type CallContext,
+} from '../executor.js';
+import { OmniFocusTimeoutError, OmniFocusCancelledError } from '../errors.js';
+import { setBackend, type OmniFocusBackend } from '../backend.js';
+import { OsascriptBackend } from '../backends/osascript.js';
 
 // promisify(exec) without exec[promisify.custom] resolves with the single value
 // passed after the error arg, so we hand it a { stdout, stderr } object.
@@ -27,6 +42,11 @@ function onExec(cb: (callback: (err: unknown, value?: unknown) => void) => void)
 
 beforeEach(() => {
   vi.clearAllMocks();
+  setBackend(new OsascriptBackend());
+});
+
+afterAll(() => {
+  setBackend(null);
 });
 
 describe('executeOmniFocusScript', () => {
@@ -49,6 +69,33 @@ describe('executeOmniFocusScript', () => {
     expect(String(call[0])).toContain('omnifocus-script-');
   });
 
+  it('hands osascript an abort signal so a stopped call kills the process', async () => {
+    onExec(cb => cb(null, { stdout: 'x', stderr: '' }));
+
+    await executeOmniFocusScript('x');
+
+    const options = vi.mocked(exec).mock.calls[0][1] as { signal?: AbortSignal };
+    expect(options.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('hands params to osascript as a JSON file, not as script source', async () => {
+    let script = '';
+    let paramsJson = '';
+    vi.mocked(exec).mockImplementation(((command: string, ...rest: unknown[]) => {
+      const [scriptPath, paramsPath] = [...command.matchAll(/"([^"]+)"/g)].map(m => m[1]);
+      script = readFileSync(scriptPath, 'utf-8');
+      paramsJson = readFileSync(paramsPath, 'utf-8');
+      (rest[rest.length - 1] as (err: unknown, value?: unknown) => void)(null, { stdout: 'x', stderr: '' });
+      return {} as never;
+    }) as never);
+
+    await executeOmniFocusScript('return params.name;', { name: 'Say "hi" ${evil}' });
+
+    expect(script).toContain('const params = ');
+    expect(script).not.toContain('${evil}');
+    expect(JSON.parse(paramsJson)).toEqual({ name: 'Say "hi" ${evil}' });
+  });
+
   it('throws stderr content when there is no stdout', async () => {
     onExec(cb => cb(null, { stdout: '', stderr: 'boom from stderr' }));
 
@@ -79,6 +126,21 @@ describe('executeOmniFocusScript', () => {
     await expect(executeOmniFocusScript('x')).rejects.toThrow('OmniFocus script error: something odd');
   });
 
+  it('turns the script error envelope into a coded error', async () => {
+    const envelope = JSON.stringify({
+      omnifocusError: { code: 'NOT_FOUND', message: 'Task not found with ID: t9', errorNumber: null, details: null },
+    });
+    onExec(cb => cb(null, { stdout: envelope + '\n', stderr: '' }));
+
+    await expect(executeOmniFocusScript('x')).rejects.toMatchObject({ code: 'NOT_FOUND', message: 'Task not found with ID: t9' });
+  });
+
+  it('codes backend failures too', async () => {
+    onExec(cb => cb(new Error('The application is not running.')));
+
+    await expect(executeOmniFocusScript('x')).rejects.toMatchObject({ code: 'NOT_RUNNING' });
+  });
+
   it('re-throws a non-Error rejection unchanged', async () => {
     onExec(cb => cb('plain string failure'));
 
@@ -100,3 +162,280 @@ describe('executeAndParseJSON', () => {
     await expect(executeAndParseJSON('x')).rejects.toThrow('Failed to parse OmniFocus response: not json at all');
   });
 });
+
+// ---------------------------------------------------------------------------
+// Execution queue, timeouts and cancellation (against a controllable backend)
+// ---------------------------------------------------------------------------
+
+interface HeldCall {
+  script: string;
+  signal?: AbortSignal;
+  resolve: (stdout: string) => void;
+}
+
+/** Backend whose calls stay pending until the test resolves them. */
+function holdingBackend() {
+  const calls: HeldCall[] = [];
+  const backend: OmniFocusBackend = {
+    name: 'holding',
+    run: (script, _params, signal) =>
+      new Promise<string>((resolve, reject) => {
+        calls.push({ script, signal, resolve });
+        signal?.addEventListener('abort', () => reject(new Error('killed')));
+      }),
+  };
+  return { backend, calls };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('execution queue', () => {
+  let held: ReturnType<typeof holdingBackend>;
+
+  beforeEach(() => {
+    held = holdingBackend();
+    setBackend(held.backend);
+    configureExecutor({ concurrency: 1, timeoutMs: 0 });
+  });
+
+  afterAll(() => {
+    configureExecutor(executorConfigFromEnv({}));
+  });
+
+  it('runs one script at a time by default, in order', async () => {
+    const first = executeOmniFocusScript('FIRST');
+    const second = executeOmniFocusScript('SECOND');
+    await tick();
+
+    expect(held.calls).toHaveLength(1);
+    expect(held.calls[0].script).toContain('FIRST');
+    expect(getExecutorStats()).toEqual({ active: 1, pending: 1 });
+
+    held.calls[0].resolve('one');
+    await expect(first).resolves.toBe('one');
+    await tick();
+    expect(held.calls).toHaveLength(2);
+    expect(held.calls[1].script).toContain('SECOND');
+
+    held.calls[1].resolve('two');
+    await expect(second).resolves.toBe('two');
+    expect(getExecutorStats()).toEqual({ active: 0, pending: 0 });
+  });
+
+  it('runs up to the configured concurrency at once', async () => {
+    configureExecutor({ concurrency: 2 });
+    const calls = ['A', 'B', 'C'].map(s => executeOmniFocusScript(s));
+    await tick();
+
+    expect(held.calls).toHaveLength(2);
+    held.calls.forEach(c => c.resolve('ok'));
+    await tick();
+    expect(held.calls).toHaveLength(3);
+    held.calls[2].resolve('ok');
+    await expect(Promise.all(calls)).resolves.toEqual(['ok', 'ok', 'ok']);
+  });
+
+  it('starts waiting calls when concurrency is raised', async () => {
+    const calls = ['A', 'B'].map(s => executeOmniFocusScript(s));
+    await tick();
+    expect(held.calls).toHaveLength(1);
+
+    configureExecutor({ concurrency: 2 });
+    expect(held.calls).toHaveLength(2);
+    held.calls.forEach(c => c.resolve('ok'));
+    await Promise.all(calls);
+  });
+
+  it('stops a script that runs past the timeout with a distinct error', async () => {
+    configureExecutor({ timeoutMs: 20 });
+
+    const call = executeOmniFocusScript('HANG');
+
+    await expect(call).rejects.toBeInstanceOf(OmniFocusTimeoutError);
+    await expect(call).rejects.toThrow('Timed out after 0.02s waiting for OmniFocus');
+    expect(held.calls[0].signal?.aborted).toBe(true);
+  });
+
+  it('honours a per-call timeout override', async () => {
+    const call = executeOmniFocusScript('HANG', {}, { timeoutMs: 20 });
+
+    await expect(call).rejects.toBeInstanceOf(OmniFocusTimeoutError);
+  });
+
+  it('starts the timeout when the script starts, not while it waits in the queue', async () => {
+    configureExecutor({ timeoutMs: 50 });
+    const first = executeOmniFocusScript('FIRST');
+    const second = executeOmniFocusScript('SECOND');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    held.calls[0].resolve('one');
+    await first;
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    // 60ms after it was queued, but only ~30ms after it started.
+    held.calls[1].resolve('two');
+    await expect(second).resolves.toBe('two');
+  });
+
+  it('settles on timeout even when the backend ignores the signal', async () => {
+    setBackend({ name: 'stuck', run: () => new Promise<string>(() => {}) });
+
+    await expect(executeOmniFocusScript('x', {}, { timeoutMs: 20 })).rejects.toBeInstanceOf(OmniFocusTimeoutError);
+    expect(getExecutorStats().active).toBe(0);
+  });
+
+  it('kills a running script when the caller aborts', async () => {
+    const controller = new AbortController();
+    const call = executeOmniFocusScript('RUNNING', {}, { signal: controller.signal });
+    await tick();
+
+    controller.abort();
+
+    await expect(call).rejects.toBeInstanceOf(OmniFocusCancelledError);
+    expect(held.calls[0].signal?.aborted).toBe(true);
+  });
+
+  it('drops a queued call whose caller aborts before it starts', async () => {
+    const controller = new AbortController();
+    const first = executeOmniFocusScript('FIRST');
+    const queued = executeOmniFocusScript('QUEUED', {}, { signal: controller.signal });
+    await tick();
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(OmniFocusCancelledError);
+    expect(getExecutorStats().pending).toBe(0);
+
+    held.calls[0].resolve('one');
+    await first;
+    await tick();
+    expect(held.calls.map(c => c.script).some(s => s.includes('QUEUED'))).toBe(false);
+  });
+
+  it('rejects an already-aborted call without running it', async () => {
+    await expect(executeOmniFocusScript('x', {}, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(OmniFocusCancelledError);
+    expect(held.calls).toHaveLength(0);
+  });
+
+  it('passes the options through executeAndParseJSON', async () => {
+    const controller = new AbortController();
+    const call = executeAndParseJSON('x', {}, { signal: controller.signal });
+    await tick();
+    controller.abort();
+
+    await expect(call).rejects.toBeInstanceOf(OmniFocusCancelledError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Retries after transient failures
+// ---------------------------------------------------------------------------
+
+describe('retries', () => {
+  let outcomes: Array<string | Error>;
+  let runs: number;
+
+  beforeEach(() => {
+    outcomes = [];
+    runs = 0;
+    setBackend({
+      name: 'scripted',
+      run: async () => {
+        const outcome = outcomes[Math.min(runs++, outcomes.length - 1)];
+        if (outcome instanceof Error) throw outcome;
+        return outcome;
+      },
+    });
+    configureExecutor({ concurrency: 1, timeoutMs: 0, retries: 3, retryDelayMs: 1 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    configureExecutor(executorConfigFromEnv({}));
+    vi.restoreAllMocks();
+  });
+
+  const busy = () => new Error('execution error: OmniFocus got an error: AppleEvent timed out. (-1712)');
+  const read = (context: CallContext = { retryable: true, retries: 0 }) =>
+    runInCallContext(context, () => executeOmniFocusScript('READ'));
+
+  it('retries a retryable call after an AppleEvent timeout, doubling the delay', async () => {
+    outcomes = [busy(), busy(), 'ok'];
+    const context = { retryable: true, retries: 0 };
+
+    await expect(read(context)).resolves.toBe('ok');
+    expect(runs).toBe(3);
+    expect(context.retries).toBe(2);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"retry":1,"retries":3,"delayMs":1}'));
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"retry":2,"retries":3,"delayMs":2}'));
+  });
+
+  it('retries while OmniFocus is still launching', async () => {
+    outcomes = [new Error('Application isn\'t running. (-600)'), 'ok'];
+    await expect(read()).resolves.toBe('ok');
+    expect(runs).toBe(2);
+  });
+
+  it('retries transient errors the script reported', async () => {
+    outcomes = [JSON.stringify({ omnifocusError: { code: null, message: 'AppleEvent timed out.', errorNumber: -1712, details: null } }), 'ok'];
+    await expect(read()).resolves.toBe('ok');
+  });
+
+  it('gives up after the configured retries and reports how many were made', async () => {
+    outcomes = [busy()];
+    const error = await read().catch((e: unknown) => e);
+    expect(error).toMatchObject({ code: 'SCRIPT_ERROR', retries: 3 });
+    expect(runs).toBe(4);
+  });
+
+  it('does not retry calls that are not retryable', async () => {
+    outcomes = [busy(), 'ok'];
+    const context = { retryable: false, retries: 0 };
+    await expect(read(context)).rejects.toMatchObject({ code: 'SCRIPT_ERROR' });
+    await expect(executeOmniFocusScript('OUTSIDE A TOOL CALL')).resolves.toBe('ok');
+    expect(runs).toBe(2);
+    expect(context.retries).toBe(0);
+  });
+
+  it('lets the call override its context', async () => {
+    outcomes = [busy(), 'ok'];
+    await expect(executeOmniFocusScript('SNAPSHOT', {}, { retryable: true })).resolves.toBe('ok');
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    outcomes = [new Error('Can\'t get object. (-1728)'), 'ok'];
+    const error = await read().catch((e: unknown) => e);
+    expect(error).toMatchObject({ code: 'SCRIPT_ERROR' });
+    expect((error as { retries?: number }).retries).toBeUndefined();
+    expect(runs).toBe(1);
+  });
+
+  it('stops waiting to retry when the caller aborts', async () => {
+    configureExecutor({ retryDelayMs: 60_000 });
+    outcomes = [busy(), 'ok'];
+    const controller = new AbortController();
+    const call = runInCallContext({ retryable: true, retries: 0 }, () => executeOmniFocusScript('READ', {}, { signal: controller.signal }));
+    await tick();
+    controller.abort();
+    await expect(call).rejects.toBeInstanceOf(OmniFocusCancelledError);
+    expect(runs).toBe(1);
+  });
+});
+
+describe('executorConfigFromEnv', () => {
+  it('defaults to one script at a time and a 60s timeout', () => {
+    expect(executorConfigFromEnv({})).toEqual({ concurrency: 1, timeoutMs: 60_000, retries: 3, retryDelayMs: 250, fixtures: 'off', fixturesPath: null });
+  });
+
+  it('reads OMNIFOCUS_CONCURRENCY and OMNIFOCUS_SCRIPT_TIMEOUT_MS', () => {
+    expect(executorConfigFromEnv({ OMNIFOCUS_CONCURRENCY: '3', OMNIFOCUS_SCRIPT_TIMEOUT_MS: '0' })).toMatchObject({ concurrency: 3, timeoutMs: 0 });
+  });
+
+  it('reads OMNIFOCUS_RETRIES and OMNIFOCUS_RETRY_DELAY_MS', () => {
+    expect(executorConfigFromEnv({ OMNIFOCUS_RETRIES: '0', OMNIFOCUS_RETRY_DELAY_MS: '1000' })).toMatchObject({ retries: 0, retryDelayMs: 1000 });
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => executorConfigFromEnv({ OMNIFOCUS_RETRIES: '-1' })).toThrow('Invalid OMNIFOCUS_RETRIES: -1');
+    expect(() => executorConfigFromEnv({ OMNIFOCUS_CONCURRENCY: '0' })).toThrow('Invalid OMNIFOCUS_CONCURRENCY: 0');
+    expect(() => executorConfigFromEnv({ OMNIFOCUS_SCRIPT_TIMEOUT_MS: 'soon' })).toThrow('Invalid OMNIFOCUS_SCRIPT_TIMEOUT_MS: soon');
+  });
+});
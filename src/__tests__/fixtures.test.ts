@@ -0,0 +1,142 @@
+/**
+ * Tests for recording and replaying executor traffic.
+ *
+ * A session of tool calls is recorded against the fake backend, then replayed
+ * with a backend that fails every call: the tools must answer exactly as they
+ * did while recording. Fixtures captured on a Mac replay the same way.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { server, setBackend, configureExecutor, executeOmniFocusScript, FakeBackend, FakeStore } from '../index.js';
+import type { OmniFocusBackend } from '../index.js';
+import { executorConfigFromEnv } from '../executor.js';
+import { fixtureKey, normalizeScript, type FixtureFile } from '../fixtures.js';
+
+let client: Client;
+let clientTransport: InMemoryTransport;
+let serverTransport: InMemoryTransport;
+let dir: string;
+let path: string;
+let backendCalls: number;
+
+const unreachable: OmniFocusBackend = {
+  name: 'unreachable',
+  async run() {
+    backendCalls++;
+    throw new Error('replay must not reach the backend');
+  },
+};
+
+beforeAll(async () => {
+  [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'fixtures-client', version: '1.0.0' });
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  dir = mkdtempSync(join(tmpdir(), 'omnifocus-fixtures-'));
+});
+
+afterAll(async () => {
+  await clientTransport.close();
+  await serverTransport.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  path = join(dir, `${Math.random().toString(36).slice(2)}.json`);
+  backendCalls = 0;
+});
+
+afterEach(() => {
+  configureExecutor({ fixtures: 'off', fixturesPath: null });
+  setBackend(null);
+});
+
+async function call(name: string, args: Record<string, unknown> = {}): Promise<string> {
+  const result = (await client.callTool({ name, arguments: args })) as { content: Array<{ text: string }> };
+  return result.content[0].text;
+}
+
+async function session(): Promise<string[]> {
+  return [
+    await call('omnifocus_list_inbox'),
+    await call('omnifocus_create_task', { name: 'Buy milk', flagged: true }),
+    await call('omnifocus_list_inbox'),
+    await call('omnifocus_get_flagged_tasks'),
+    await call('omnifocus_complete_task', { taskName: 'Buy milk' }),
+    await call('omnifocus_complete_task', { taskName: 'Nothing by this name' }),
+    await call('omnifocus_list_inbox'),
+  ];
+}
+
+describe('fixture keys', () => {
+  it('ignores whitespace and params key order', () => {
+    expect(normalizeScript('\n  var a = 1;\n\n    a;\n')).toBe('var a = 1; a;');
+    expect(fixtureKey('var a = 1;\n  a;', { x: 1, y: { b: 2, a: 1 } }))
+      .toBe(fixtureKey('  var a = 1; a;', { y: { a: 1, b: 2 }, x: 1 }));
+  });
+
+  it('tells apart scripts and params', () => {
+    expect(fixtureKey('a;', {})).not.toBe(fixtureKey('b;', {}));
+    expect(fixtureKey('a;', { name: 'x' })).not.toBe(fixtureKey('a;', { name: 'y' }));
+  });
+});
+
+describe('record and replay', () => {
+  it('replays a recorded session without the backend', async () => {
+    setBackend(new FakeBackend(new FakeStore()));
+    configureExecutor({ fixtures: 'record', fixturesPath: path });
+    const recorded = await session();
+
+    const file = JSON.parse(readFileSync(path, 'utf8')) as FixtureFile;
+    expect(file.version).toBe(1);
+    expect(file.recordings.length).toBeGreaterThanOrEqual(7);
+    expect(recorded[2]).toContain('Buy milk');
+    expect(recorded[5]).toContain('NOT_FOUND');
+
+    setBackend(unreachable);
+    configureExecutor({ fixtures: 'replay', fixturesPath: path });
+    expect(await session()).toEqual(recorded);
+    expect(backendCalls).toBe(0);
+  });
+
+  it('serves repeated scripts in recorded order, then repeats the last response', async () => {
+    writeFileSync(path, JSON.stringify({
+      version: 1,
+      recordings: ['"first"', '"second"'].map((stdout) => ({ key: fixtureKey('COUNT', {}), script: 'COUNT', params: {}, stdout })),
+    }));
+    setBackend(unreachable);
+    configureExecutor({ fixtures: 'replay', fixturesPath: path });
+
+    const outputs = [];
+    for (let i = 0; i < 3; i++) outputs.push(await executeOmniFocusScript('  COUNT\n'));
+    expect(outputs).toEqual(['"first"', '"second"', '"second"']);
+  });
+
+  it('fails with SCRIPT_ERROR when a script was never recorded', async () => {
+    writeFileSync(path, JSON.stringify({ version: 1, recordings: [] }));
+    setBackend(unreachable);
+    configureExecutor({ fixtures: 'replay', fixturesPath: path });
+
+    await expect(executeOmniFocusScript('UNRECORDED', { id: 'abc' })).rejects.toMatchObject({
+      code: 'SCRIPT_ERROR',
+      details: { fixtureKey: fixtureKey('UNRECORDED', { id: 'abc' }), params: { id: 'abc' } },
+    });
+    expect(backendCalls).toBe(0);
+  });
+});
+
+describe('executorConfigFromEnv fixtures', () => {
+  it('reads OMNIFOCUS_FIXTURES and OMNIFOCUS_FIXTURES_PATH', () => {
+    expect(executorConfigFromEnv({ OMNIFOCUS_FIXTURES: 'replay', OMNIFOCUS_FIXTURES_PATH: '/tmp/f.json' }))
+      .toMatchObject({ fixtures: 'replay', fixturesPath: '/tmp/f.json' });
+  });
+
+  it('rejects unknown modes and a missing path', () => {
+    expect(() => executorConfigFromEnv({ OMNIFOCUS_FIXTURES: 'rewind' })).toThrow('Invalid OMNIFOCUS_FIXTURES: rewind');
+    expect(() => executorConfigFromEnv({ OMNIFOCUS_FIXTURES: 'record' })).toThrow('OMNIFOCUS_FIXTURES=record needs OMNIFOCUS_FIXTURES_PATH');
+  });
+});
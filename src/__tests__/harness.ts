@@ -0,0 +1,53 @@
+/**
+ * Shared setup for tests that drive the server end to end: the fake backend
+ * in place of osascript, and an MCP client connected to a server over an
+ * in-memory transport.
+ */
+
+import { expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { setBackend } from '../backend.js';
+import { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { createMcpServer } from '../server.js';
+
+/** Runs scripts against `store` from now on; `setBackend(null)` undoes it. */
+export function useFakeBackend(store: FakeStore = new FakeStore()): FakeBackend {
+  const backend = new FakeBackend(store);
+  setBackend(backend);
+  return backend;
+}
+
+export interface CallOutcome {
+  isError: boolean;
+  text: string;
+}
+
+/** An MCP client with a shorthand for tool calls. */
+export class TestClient extends Client {
+  /** Calls a tool; its first text block and whether it is an error result. */
+  async call(name: string, args: Record<string, unknown> = {}): Promise<CallOutcome> {
+    const result = (await this.callTool({ name, arguments: args })) as {
+      isError?: boolean;
+      content: Array<{ type: string; text: string }>;
+    };
+    return { isError: result.isError === true, text: result.content[0].text };
+  }
+}
+
+/** A client connected to `server`, a new one from createMcpServer() by default. */
+export async function connectClient(name: string, server: McpServer = createMcpServer()): Promise<TestClient> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new TestClient({ name, version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+// Tool output is either bare JSON or a one-line summary followed by JSON.
+export function payload<T>(outcome: CallOutcome): T {
+  expect(outcome.isError, outcome.text).toBe(false);
+  return JSON.parse(outcome.text.slice(outcome.text.search(/[[{]/))) as T;
+}
@@ -3,15 +3,30 @@
  *
  * These tests spin up the real HTTP server on an ephemeral port and speak
  * JSON-RPC over fetch, verifying auth (Bearer header and path token),
- * session lifecycle, and MCP handshake. The OmniFocus boundary is never hit:
- * only handshake and tools/list are exercised.
+ * session lifecycle (concurrent sessions, LRU eviction, idle expiry), scoped
+ * API tokens, rate limiting and lockout, Host/Origin checks, TLS and Unix
+ * sockets, readiness and metrics, request logging, resource update streams, and MCP handshake. OmniFocus is only reached
+ * through stand-in backends; otherwise only handshake and
+ * tools/list are exercised.
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import type { Server } from 'node:http';
-import { startHttpServer } from '../http.js';
-// Side-effect import: registers all tools on the shared server instance
-import '../index.js';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { request, type RequestOptions, type Server } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { TLSSocket } from 'node:tls';
+import { execFileSync, spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { startHttpServer, type HttpServerOptions } from '../http.js';
+import { setBackend } from '../backend.js';
+import { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { OmniFocusNotRunningError } from '../errors.js';
+import { configureLogger, loggerConfigFromEnv } from '../logger.js';
+import { listJournal } from '../journal.js';
+import { configureSubscriptions, subscriptionConfigFromEnv } from '../subscriptions.js';
 
 const TOKEN = 'test-token-1234567890abcdef';
 
@@ -49,17 +64,42 @@ async function initializeSession(url: string, headers: Record<string, string>):
   return sessionId as string;
 }
 
-beforeAll(async () => {
-  httpServer = await startHttpServer({ port: 0, host: '127.0.0.1', authToken: TOKEN });
-  const address = httpServer.address();
+async function listen(options: Partial<HttpServerOptions> = {}): Promise<{ server: Server; url: string }> {
+  const server = await startHttpServer({ port: 0, host: '127.0.0.1', authToken: TOKEN, ...options });
+  const address = server.address();
   if (address === null || typeof address === 'string') {
     throw new Error('Expected a bound TCP address');
   }
-  baseUrl = `http://127.0.0.1:${address.port}`;
+  return { server, url: `http://127.0.0.1:${address.port}` };
+}
+
+function stop(server: Server): Promise<void> {
+  return new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+/** Status of a tools/list request in `sessionId`. */
+async function listToolsStatus(url: string, sessionId: string, id = 10, token = TOKEN): Promise<number> {
+  const res = await fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: { ...JSON_HEADERS, authorization: `Bearer ${token}`, 'mcp-session-id': sessionId },
+    body: JSON.stringify({ jsonrpc: '2.0', id, method: 'tools/list' }),
+  });
+  await res.text();
+  return res.status;
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  ({ server: httpServer, url: baseUrl } = await listen());
 });
 
 afterAll(async () => {
-  await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  await stop(httpServer);
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  configureLogger(loggerConfigFromEnv());
 });
 
 describe('startHttpServer', () => {
@@ -76,6 +116,73 @@ describe('health endpoint', () => {
   });
 });
 
+describe('readiness and metrics endpoints', () => {
+  afterEach(() => {
+    setBackend(null);
+  });
+
+  it('reports ready when OmniFocus answers', async () => {
+    setBackend(new FakeBackend());
+    const { server, url } = await listen({ readyCacheMs: 0 });
+    const res = await fetch(`${url}/ready`, { headers: { authorization: `Bearer ${TOKEN}` } });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: 'ready' });
+    await stop(server);
+  });
+
+  it('reports unavailable with the error, reusing the result for readyCacheMs', async () => {
+    const run = vi.fn(async () => {
+      throw new OmniFocusNotRunningError();
+    });
+    setBackend({ name: 'broken', run });
+    const { server, url } = await listen({ readyCacheMs: 60_000 });
+    const auth = { headers: { authorization: `Bearer ${TOKEN}` } };
+    const res = await fetch(`${url}/ready`, auth);
+    expect(res.status).toBe(503);
+    expect(await res.json()).toMatchObject({ status: 'unavailable', error: { code: 'NOT_RUNNING' } });
+    expect((await fetch(`${url}/ready`, auth)).status).toBe(503);
+    expect(run).toHaveBeenCalledTimes(1);
+    await stop(server);
+  });
+
+  it('does not probe OmniFocus for requests without a valid token', async () => {
+    const run = vi.fn(async () => 'OmniFocus');
+    setBackend({ name: 'counting', run });
+    const { server, url } = await listen({ readyCacheMs: 0 });
+    expect((await fetch(`${url}/ready`)).status).toBe(401);
+    expect((await fetch(`${url}/ready`, { headers: { authorization: 'Bearer wrong-token' } })).status).toBe(401);
+    expect(run).not.toHaveBeenCalled();
+    await stop(server);
+  });
+
+  it('serves Prometheus metrics to authenticated clients only', async () => {
+    expect((await fetch(`${baseUrl}/metrics`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/metrics`, { headers: { authorization: 'Bearer wrong-token' } })).status).toBe(401);
+
+    const sessionId = await initializeSession(`${baseUrl}/mcp`, { authorization: `Bearer ${TOKEN}` });
+    expect(await listToolsStatus(baseUrl, sessionId)).toBe(200);
+    const res = await fetch(`${baseUrl}/metrics`, { headers: { authorization: `Bearer ${TOKEN}` } });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+    const text = await res.text();
+    expect(text).toContain('# TYPE omnifocus_tool_calls_total counter');
+    expect(text).toMatch(/^omnifocus_http_sessions_active [1-9]\d*$/m);
+  });
+
+  it('serves metrics only to tokens with the read scope', async () => {
+    const { server, url } = await listen({
+      tokens: [
+        { name: 'reader', token: 'reader-token-1234567890', scopes: ['read'] },
+        { name: 'writer', token: 'writer-token-1234567890', scopes: ['write'] },
+      ],
+    });
+    const metricsStatus = async (token: string) => (await fetch(`${url}/metrics`, { headers: { authorization: `Bearer ${token}` } })).status;
+    expect(await metricsStatus('reader-token-1234567890')).toBe(200);
+    expect(await metricsStatus('writer-token-1234567890')).toBe(403);
+    await stop(server);
+  });
+});
+
 describe('authentication', () => {
   it('rejects a request without credentials', async () => {
     const res = await fetch(`${baseUrl}/mcp`, {
@@ -173,28 +280,481 @@ describe('MCP over HTTP', () => {
     expect(res.status).toBe(404);
   });
 
-  it('replaces the active session on a new initialize (single-session semantics)', async () => {
-    const url = `${baseUrl}/mcp`;
-    const auth = { authorization: `Bearer ${TOKEN}` };
+  it('returns 404 for a path token that is not valid percent-encoding', async () => {
+    const res = await fetch(`${baseUrl}/mcp/%E0`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify(initializeBody()),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('closes the server of a session whose initialize is refused', async () => {
+    const close = vi.spyOn(McpServer.prototype, 'close');
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...JSON_HEADERS, accept: 'application/json', authorization: `Bearer ${TOKEN}` },
+      body: JSON.stringify(initializeBody()),
+    });
+    expect(res.status).toBe(406);
+    expect(res.headers.get('mcp-session-id')).toBeNull();
+    expect(close).toHaveBeenCalledTimes(1);
+    close.mockRestore();
+  });
 
+  it('rejects a request without a session that is not an initialize', async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...JSON_HEADERS, authorization: `Bearer ${TOKEN}` },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('sessions', () => {
+  const auth = { authorization: `Bearer ${TOKEN}` };
+
+  it('keeps concurrent sessions side by side', async () => {
+    const url = `${baseUrl}/mcp`;
     const sessionA = await initializeSession(url, auth);
     const sessionB = await initializeSession(url, auth);
     expect(sessionB).not.toBe(sessionA);
 
-    // Session A is gone: a spec-compliant client re-initializes on 404.
-    const staleRes = await fetch(url, {
-      method: 'POST',
-      headers: { ...JSON_HEADERS, ...auth, 'mcp-session-id': sessionA },
-      body: JSON.stringify({ jsonrpc: '2.0', id: 4, method: 'tools/list' }),
+    // Neither initialize kicked the other session off, and both serve requests at once.
+    const statuses = await Promise.all([
+      listToolsStatus(baseUrl, sessionA, 4),
+      listToolsStatus(baseUrl, sessionB, 5),
+      listToolsStatus(baseUrl, sessionA, 6),
+    ]);
+    expect(statuses).toEqual([200, 200, 200]);
+  });
+
+  it('closes a session on DELETE', async () => {
+    const sessionId = await initializeSession(`${baseUrl}/mcp`, auth);
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { ...auth, 'mcp-session-id': sessionId },
+    });
+    expect(res.status).toBe(200);
+    expect(await listToolsStatus(baseUrl, sessionId)).toBe(404);
+  });
+
+  it('evicts the least recently used session beyond maxSessions', async () => {
+    const { server, url } = await listen({ maxSessions: 2 });
+    try {
+      const first = await initializeSession(`${url}/mcp`, auth);
+      const second = await initializeSession(`${url}/mcp`, auth);
+      // Using the first session makes the second the least recently used.
+      expect(await listToolsStatus(url, first)).toBe(200);
+      const third = await initializeSession(`${url}/mcp`, auth);
+
+      expect(await listToolsStatus(url, second)).toBe(404);
+      expect(await listToolsStatus(url, first)).toBe(200);
+      expect(await listToolsStatus(url, third)).toBe(200);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('expires sessions that have been idle for sessionIdleMs', async () => {
+    configureLogger({ level: 'info' });
+    const { server, url } = await listen({ sessionIdleMs: 200 });
+    try {
+      const idle = await initializeSession(`${url}/mcp`, auth);
+      const active = await initializeSession(`${url}/mcp`, auth);
+      for (let i = 0; i < 3; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(await listToolsStatus(url, active)).toBe(200);
+      }
+      expect(await listToolsStatus(url, idle)).toBe(404);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining(`"sessionId":"${idle}","reason":"idle"}`));
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('sends resource updates on the SSE stream, which keeps the session from going idle', async () => {
+    const store = new FakeStore();
+    setBackend(new FakeBackend(store));
+    configureSubscriptions({ pollMs: 20 });
+    const { server, url } = await listen({ sessionIdleMs: 200 });
+    const stream = new AbortController();
+    try {
+      const sessionId = await initializeSession(`${url}/mcp`, auth);
+      const headers = { ...auth, 'mcp-session-id': sessionId };
+      const sse = await fetch(`${url}/mcp`, { headers: { ...headers, accept: 'text/event-stream' }, signal: stream.signal });
+      expect(sse.status).toBe(200);
+      const subscribed = await fetch(`${url}/mcp`, {
+        method: 'POST',
+        headers: { ...JSON_HEADERS, ...headers },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'resources/subscribe', params: { uri: 'omnifocus://inbox' } }),
+      });
+      expect(await subscribed.json()).toMatchObject({ id: 2, result: {} });
+
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      store.addTask({ name: 'Captured' });
+      const reader = sse.body!.getReader();
+      let events = '';
+      while (!events.includes('notifications/resources/updated')) {
+        events += new TextDecoder().decode((await reader.read()).value);
+      }
+      expect(events).toContain('"uri":"omnifocus://inbox"');
+      expect(await listToolsStatus(url, sessionId)).toBe(200);
+    } finally {
+      stream.abort();
+      await stop(server);
+      setBackend(null);
+      configureSubscriptions(subscriptionConfigFromEnv({}));
+    }
+  });
+
+  it('rejects an invalid maxSessions', async () => {
+    await expect(startHttpServer({ port: 0, authToken: TOKEN, maxSessions: 0 })).rejects.toThrow('Invalid maxSessions: 0');
+  });
+});
+
+describe('scoped API tokens', () => {
+  const READER = 'reader-token-1234567890';
+
+  it('gives a scoped token a session with only its tools, which other tokens cannot use', async () => {
+    const { server, url } = await listen({ tokens: [{ name: 'reader', token: READER, scopes: ['read'] }] });
+    try {
+      const sessionId = await initializeSession(`${url}/mcp/${READER}`, {});
+      const res = await fetch(`${url}/mcp`, {
+        method: 'POST',
+        headers: { ...JSON_HEADERS, authorization: `Bearer ${READER}`, 'mcp-session-id': sessionId },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+      });
+      const names = ((await res.json()) as { result: { tools: Array<{ name: string }> } }).result.tools.map((t) => t.name);
+      expect(names).toContain('omnifocus_list_inbox');
+      expect(names).not.toContain('omnifocus_create_task');
+
+      expect(await listToolsStatus(url, sessionId, 3, TOKEN)).toBe(403);
+      expect(await listToolsStatus(url, await initializeSession(`${url}/mcp`, { authorization: `Bearer ${TOKEN}` }), 4, READER)).toBe(403);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('refuses an API token that is the same as the auth token', async () => {
+    await expect(startHttpServer({ port: 0, authToken: TOKEN, tokens: [{ name: 'copy', token: TOKEN, scopes: ['read'] }] }))
+      .rejects.toThrow('API token "copy" is the same as the auth token');
+  });
+});
+
+describe('rate limiting', () => {
+  const auth = { authorization: `Bearer ${TOKEN}` };
+
+  function post(url: string, headers: Record<string, string>): Promise<Response> {
+    return fetch(`${url}/mcp`, { method: 'POST', headers: { ...JSON_HEADERS, ...headers }, body: JSON.stringify(initializeBody()) });
+  }
+
+  it('answers 429 with Retry-After once a token has used its allowance', async () => {
+    const { server, url } = await listen({ rateLimit: { tokenPerMinute: 2 } });
+    try {
+      const statuses = [];
+      for (let i = 0; i < 3; i++) {
+        const res = await post(url, auth);
+        statuses.push(res.status);
+        if (res.status === 429) expect(res.headers.get('retry-after')).toBe('30');
+        await res.text();
+      }
+      expect(statuses).toEqual([200, 200, 429]);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('limits each client IP behind a trusted proxy separately', async () => {
+    const { server, url } = await listen({ rateLimit: { ipPerMinute: 1, trustedProxies: ['127.0.0.1'] } });
+    try {
+      const from = (ip: string) => post(url, { ...auth, 'cf-connecting-ip': ip }).then(async (res) => (await res.text(), res.status));
+      expect(await from('203.0.113.1')).toBe(200);
+      expect(await from('203.0.113.1')).toBe(429);
+      expect(await from('203.0.113.2')).toBe(200);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('locks an IP out after repeated wrong tokens, even with the right one', async () => {
+    const { server, url } = await listen({ rateLimit: { maxAuthFailures: 3, authLockoutMs: 60_000 } });
+    try {
+      for (let i = 0; i < 3; i++) {
+        const res = await post(url, { authorization: 'Bearer wrong-token' });
+        expect(res.status).toBe(401);
+        await res.text();
+      }
+      const locked = await post(url, auth);
+      expect(locked.status).toBe(429);
+      expect(Number(locked.headers.get('retry-after'))).toBeGreaterThan(50);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"ip":"127.0.0.1","lockoutMs":60000,"failures":3}'));
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('counts wrong owner tokens at the OAuth endpoints', async () => {
+    const { server, url } = await listen({ oauth: {}, rateLimit: { maxAuthFailures: 2 } });
+    try {
+      for (let i = 0; i < 2; i++) {
+        const res = await fetch(`${url}/oauth/grants`, { headers: { authorization: 'Bearer wrong-token' } });
+        expect(res.status).toBe(401);
+        await res.text();
+      }
+      const res = await fetch(`${url}/oauth/grants`, { headers: auth });
+      expect(res.status).toBe(429);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('does not count requests without credentials as failures', async () => {
+    const { server, url } = await listen({ rateLimit: { maxAuthFailures: 1 } });
+    try {
+      const anonymous = await post(url, {});
+      expect(anonymous.status).toBe(401);
+      await anonymous.text();
+      const res = await post(url, auth);
+      expect(res.status).toBe(200);
+      await res.text();
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('rejects invalid limits', async () => {
+    await expect(startHttpServer({ port: 0, authToken: TOKEN, rateLimit: { ipPerMinute: -1 } }))
+      .rejects.toThrow('Invalid rateLimit.ipPerMinute: -1');
+  });
+});
+
+describe('Host and Origin validation', () => {
+  const auth = { authorization: `Bearer ${TOKEN}` };
+
+  function initialize(url: string, headers: Record<string, string>): Promise<Response> {
+    return fetch(`${url}/mcp`, { method: 'POST', headers: { ...JSON_HEADERS, ...auth, ...headers }, body: JSON.stringify(initializeBody()) });
+  }
+
+  /** fetch cannot set Host, so rebinding-style requests go through node:http. */
+  function withHost(url: string, path: string, host: string): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+      const body = JSON.stringify(initializeBody());
+      const req = request(`${url}${path}`, { method: path === '/mcp' ? 'POST' : 'GET', headers: { ...JSON_HEADERS, ...auth, host }, agent: false }, (res) => {
+        let text = '';
+        res.on('data', (chunk) => { text += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text }));
+      });
+      req.on('error', reject);
+      req.end(path === '/mcp' ? body : undefined);
     });
-    expect(staleRes.status).toBe(404);
+  }
+
+  it('refuses a rebinding-style request naming a foreign Host', async () => {
+    const res = await withHost(baseUrl, '/mcp', 'attacker.example.com');
+    expect(res.status).toBe(403);
+    expect(JSON.parse(res.body)).toMatchObject({ error: { message: 'Host not allowed: attacker.example.com' } });
+  });
+
+  it('accepts localhost names and configured hosts', async () => {
+    const { server, url } = await listen({ allowedHosts: ['omnifocus.example.com'] });
+    try {
+      const port = new URL(url).port;
+      for (const host of [`localhost:${port}`, `127.0.0.1:${port}`, 'omnifocus.example.com', 'omnifocus.example.com:8443', 'OmniFocus.example.com']) {
+        expect((await withHost(url, '/mcp', host)).status).toBe(200);
+      }
+      expect((await withHost(url, '/mcp', 'other.example.com')).status).toBe(403);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('accepts the host of the OAuth public URL', async () => {
+    const { server, url } = await listen({ oauth: { publicUrl: 'https://tunnel.example.com' } });
+    try {
+      expect((await withHost(url, '/.well-known/oauth-authorization-server', 'tunnel.example.com')).status).toBe(200);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('refuses browser requests from other sites', async () => {
+    const res = await initialize(baseUrl, { origin: 'https://evil.example.com' });
+    expect(res.status).toBe(403);
+    expect(res.headers.get('access-control-allow-origin')).toBeNull();
+    expect(await res.json()).toMatchObject({ error: { message: 'Cross-origin requests from https://evil.example.com are not allowed' } });
+  });
 
-    // Session B works.
-    const freshRes = await fetch(url, {
+  it('accepts requests from its own origin', async () => {
+    const res = await initialize(baseUrl, { origin: baseUrl });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('access-control-allow-origin')).toBeNull();
+    await res.text();
+  });
+
+  it('serves approved web clients with CORS, including preflights', async () => {
+    const app = 'https://app.example.com';
+    const { server, url } = await listen({ allowedOrigins: [app] });
+    try {
+      const preflight = await fetch(`${url}/mcp`, {
+        method: 'OPTIONS',
+        headers: { origin: app, 'access-control-request-method': 'POST', 'access-control-request-headers': 'authorization, content-type' },
+      });
+      expect(preflight.status).toBe(204);
+      expect(preflight.headers.get('access-control-allow-origin')).toBe(app);
+      expect(preflight.headers.get('access-control-allow-headers')).toContain('mcp-session-id');
+
+      const res = await initialize(url, { origin: app });
+      expect(res.status).toBe(200);
+      expect(res.headers.get('access-control-allow-origin')).toBe(app);
+      expect(res.headers.get('access-control-expose-headers')).toContain('mcp-session-id');
+      await res.text();
+    } finally {
+      await stop(server);
+    }
+  });
+});
+
+describe('logging', () => {
+  afterEach(() => {
+    setBackend(null);
+  });
+
+  /** The JSON log lines written to stderr so far. */
+  function logLines(): Array<Record<string, unknown>> {
+    return vi.mocked(console.error).mock.calls.map(([line]) => JSON.parse(line as string));
+  }
+
+  it('ties a request, the tool it called and its scripts together with one request ID', async () => {
+    setBackend(new FakeBackend());
+    configureLogger({ level: 'debug' });
+    vi.mocked(console.error).mockClear();
+    const sessionId = await initializeSession(`${baseUrl}/mcp/${TOKEN}`, {});
+    const res = await fetch(`${baseUrl}/mcp/${TOKEN}`, {
       method: 'POST',
-      headers: { ...JSON_HEADERS, ...auth, 'mcp-session-id': sessionB },
-      body: JSON.stringify({ jsonrpc: '2.0', id: 5, method: 'tools/list' }),
+      headers: { ...JSON_HEADERS, 'mcp-session-id': sessionId },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'tools/call',
+        params: { name: 'omnifocus_create_task', arguments: { name: 'Renew passport' } },
+      }),
+    });
+    expect(res.status).toBe(200);
+    await res.text();
+    const requestId = res.headers.get('x-request-id');
+    expect(requestId).toBeTruthy();
+
+    const related = logLines().filter((line) => line.requestId === requestId);
+    // The second script is the journal reading back the created task.
+    expect(related.map((line) => line.msg)).toEqual(['Script finished', 'Script finished', 'Tool call', 'HTTP request']);
+    expect(related[0]).toMatchObject({ level: 'debug', tool: 'omnifocus_create_task', backend: 'fake', outcome: 'ok' });
+    expect(related[2]).toMatchObject({
+      level: 'info',
+      tool: 'omnifocus_create_task',
+      sessionId,
+      rpcId: 7,
+      principal: 'owner',
+      arguments: { name: '[redacted]' },
+      outcome: 'ok',
+    });
+    expect(related[3]).toMatchObject({ path: '/mcp/:token', rpcMethod: 'tools/call', status: 200, ip: '127.0.0.1' });
+    expect(listJournal().at(-1)).toMatchObject({ tool: 'omnifocus_create_task', requestId, sessionId, principal: 'owner' });
+    const written = vi.mocked(console.error).mock.calls.join('\n');
+    expect(written).not.toContain(TOKEN);
+    expect(written).not.toContain('Renew passport');
+  });
+
+  it('keeps a request ID set by a proxy in front', async () => {
+    const res = await fetch(`${baseUrl}/health`, { headers: { 'x-request-id': 'cf-ray-8a1b2c3d' } });
+    expect(res.headers.get('x-request-id')).toBe('cf-ray-8a1b2c3d');
+    const invented = await fetch(`${baseUrl}/health`, { headers: { 'x-request-id': 'not a valid id' } });
+    expect(invented.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
+
+describe('listening', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'omnifocus-http-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Status of an initialize request, plus the certificate fingerprint over TLS. */
+  function initializeVia(options: RequestOptions, secure = false): Promise<{ status: number; fingerprint?: string }> {
+    return new Promise((resolve, reject) => {
+      const send = secure ? httpsRequest : request;
+      const req = send({ ...options, path: '/mcp', method: 'POST', agent: false, headers: { ...JSON_HEADERS, host: 'localhost', authorization: `Bearer ${TOKEN}` } }, (res) => {
+        const fingerprint = secure ? (res.socket as TLSSocket).getPeerCertificate().fingerprint256 : undefined;
+        res.resume();
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, fingerprint }));
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify(initializeBody()));
     });
-    expect(freshRes.status).toBe(200);
+  }
+
+  it('listens on a Unix socket with the requested mode', async () => {
+    const socketPath = join(dir, 'mcp.sock');
+    const server = await startHttpServer({ port: 0, authToken: TOKEN, socketPath, socketMode: 0o660 });
+    try {
+      expect(statSync(socketPath).mode & 0o777).toBe(0o660);
+      expect((await initializeVia({ socketPath })).status).toBe(200);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('creates the socket owner-only and restores the umask afterwards', async () => {
+    const umask = vi.spyOn(process, 'umask');
+    const socketPath = join(dir, 'umask.sock');
+    const server = await startHttpServer({ port: 0, authToken: TOKEN, socketPath, socketMode: 0o660 });
+    try {
+      expect(umask).toHaveBeenCalledTimes(2);
+      expect(umask).toHaveBeenNthCalledWith(1, 0o177);
+      expect(umask).toHaveBeenNthCalledWith(2, umask.mock.results[0].value);
+      expect(statSync(socketPath).mode & 0o777).toBe(0o660);
+    } finally {
+      umask.mockRestore();
+      await stop(server);
+    }
+  });
+
+  it('refuses to replace a file that is not a socket', async () => {
+    const socketPath = join(dir, 'not-a-socket');
+    writeFileSync(socketPath, '');
+    await expect(startHttpServer({ port: 0, authToken: TOKEN, socketPath })).rejects.toThrow('it exists and is not a socket');
+  });
+
+  const hasOpenssl = spawnSync('openssl', ['version']).status === 0;
+
+  it.skipIf(!hasOpenssl)('serves HTTPS and picks up a renewed certificate on SIGHUP', async () => {
+    const cert = join(dir, 'cert.pem');
+    const key = join(dir, 'key.pem');
+    const issue = () => execFileSync('openssl', [
+      'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-subj', '/CN=localhost', '-days', '1', '-keyout', key, '-out', cert,
+    ], { stdio: 'ignore' });
+    issue();
+    configureLogger({ level: 'info' });
+    const { server, url } = await listen({ tls: { cert, key } });
+    try {
+      const port = Number(new URL(url).port);
+      const first = await initializeVia({ host: '127.0.0.1', port, rejectUnauthorized: false }, true);
+      expect(first.status).toBe(200);
+
+      issue();
+      process.emit('SIGHUP', 'SIGHUP');
+      const second = await initializeVia({ host: '127.0.0.1', port, rejectUnauthorized: false }, true);
+      expect(second.status).toBe(200);
+      expect(second.fingerprint).not.toBe(first.fingerprint);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining(`"msg":"Reloaded TLS certificate","cert":${JSON.stringify(cert)}}`));
+    } finally {
+      await stop(server);
+    }
   });
 });
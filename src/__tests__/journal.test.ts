@@ -0,0 +1,218 @@
+/**
+ * Tests for the change journal: what mutating tools record, listing it, and
+ * undoing changes against the fake backend, through a real MCP client-server
+ * connection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setBackend } from '../backend.js';
+import type { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { captureIds, configureJournal, journalConfigFromEnv, listJournal } from '../journal.js';
+import { connectClient, payload, useFakeBackend, type TestClient } from './harness.js';
+
+let store: FakeStore;
+let backend: FakeBackend;
+let client: TestClient;
+
+beforeEach(async () => {
+  configureJournal({ enabled: true, file: null, maxEntries: 1000 });
+  store = new FakeStore();
+  backend = useFakeBackend(store);
+  client = await connectClient('journal-test-client');
+});
+
+afterEach(async () => {
+  await client.close();
+  setBackend(null);
+  configureJournal(journalConfigFromEnv({}));
+});
+
+/** ID of the latest journal entry. */
+function latestChange(): string {
+  return listJournal().at(-1)!.id;
+}
+
+async function undoLatest(): Promise<{ changes: Array<{ id: string; name: string; action: string }>; notes: string[] }> {
+  return payload(await client.call('omnifocus_undo_change', { changeId: latestChange() }));
+}
+
+describe('journalConfigFromEnv', () => {
+  it('journals in memory by default', () => {
+    expect(journalConfigFromEnv({})).toEqual({ enabled: true, file: null, maxEntries: 1000 });
+    expect(journalConfigFromEnv({ OMNIFOCUS_JOURNAL: '0', OMNIFOCUS_JOURNAL_FILE: '/tmp/j.jsonl', OMNIFOCUS_JOURNAL_MAX_ENTRIES: '50' }))
+      .toEqual({ enabled: false, file: '/tmp/j.jsonl', maxEntries: 50 });
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => journalConfigFromEnv({ OMNIFOCUS_JOURNAL: 'yes' })).toThrow('Invalid OMNIFOCUS_JOURNAL: yes');
+    expect(() => journalConfigFromEnv({ OMNIFOCUS_JOURNAL_MAX_ENTRIES: '0' })).toThrow('Invalid OMNIFOCUS_JOURNAL_MAX_ENTRIES: 0');
+  });
+});
+
+describe('recording', () => {
+  it('records the fields a call changed, and nothing for calls that changed nothing', async () => {
+    const task = store.addTask({ name: 'Draft', flagged: false });
+    await client.call('omnifocus_update_task', { taskId: task.id, name: 'Final', flagged: true });
+    await client.call('omnifocus_update_task', { taskId: task.id, flagged: true });
+    await client.call('omnifocus_complete_task', { taskId: 'missing' });
+
+    const listed = payload<{ count: number; changes: Array<Record<string, unknown>> }>(await client.call('omnifocus_list_recent_changes'));
+    expect(listed.count).toBe(1);
+    expect(listed.changes[0]).toMatchObject({
+      tool: 'omnifocus_update_task',
+      undoable: true,
+      changes: [{
+        kind: 'task',
+        id: task.id,
+        name: 'Final',
+        action: 'updated',
+        fields: { name: { before: 'Draft', after: 'Final' }, flagged: { before: false, after: true } },
+      }],
+    });
+  });
+
+  it('lists newest first, filtered by object', async () => {
+    const first = store.addTask({ name: 'First' });
+    const second = store.addTask({ name: 'Second' });
+    await client.call('omnifocus_update_task', { taskId: first.id, flagged: true });
+    await client.call('omnifocus_update_task', { taskId: second.id, flagged: true });
+    await client.call('omnifocus_create_project', { name: 'Launch' });
+
+    const all = payload<{ changes: Array<{ tool: string }> }>(await client.call('omnifocus_list_recent_changes', { limit: 2 }));
+    expect(all.changes.map((c) => c.tool)).toEqual(['omnifocus_create_project', 'omnifocus_update_task']);
+    const filtered = payload<{ count: number }>(await client.call('omnifocus_list_recent_changes', { objectId: first.id }));
+    expect(filtered.count).toBe(1);
+  });
+
+  it('reads its targets by ID without visiting every object', async () => {
+    const ids = [store.addTask({ name: 'One' }).id, store.addTask({ name: 'Two' }).id, 'missing'];
+    const eventsFor = async () => {
+      const before = backend.appleEvents;
+      expect((await captureIds('task', ids)).map((record) => record?.name ?? null)).toEqual(['One', 'Two', null]);
+      return backend.appleEvents - before;
+    };
+    const small = await eventsFor();
+    for (let i = 0; i < 200; i++) store.addTask({ name: `More ${i}` });
+    expect(await eventsFor()).toBe(small);
+  });
+
+  it('is not kept when disabled', async () => {
+    configureJournal({ enabled: false });
+    await client.call('omnifocus_create_task', { name: 'Untracked' });
+    expect((await client.call('omnifocus_list_recent_changes')).text).toBe('No changes recorded.');
+  });
+
+  it('appends entries to a 0600 file and reads them back', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'omnifocus-journal-'));
+    try {
+      const file = join(dir, 'journal.jsonl');
+      configureJournal({ file });
+      await client.call('omnifocus_create_task', { name: 'Persisted' });
+
+      const lines = readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({ tool: 'omnifocus_create_task', changes: [{ before: null, after: { name: 'Persisted' } }] });
+      expect(statSync(file).mode & 0o777).toBe(0o600);
+
+      configureJournal({ file });
+      expect(listJournal().map((entry) => entry.id)).toEqual([lines[0].id]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('undo', () => {
+  it('restores old field values, tags included', async () => {
+    const tag = store.addTag({ name: 'Errand' });
+    const task = store.addTask({ name: 'Buy milk', note: 'Oat', tagIds: [tag.id], dueDate: new Date('2026-01-05T10:00:00Z') });
+    await client.call('omnifocus_update_task', { taskId: task.id, name: 'Buy bread', note: null, dueDate: null, flagged: true });
+    await client.call('omnifocus_remove_tag_from_task', { taskId: task.id, tagName: 'Errand' });
+
+    await undoLatest();
+    expect(store.getTask(task.id).tagIds).toEqual([tag.id]);
+    await client.call('omnifocus_undo_change', { changeId: listJournal()[0].id });
+    expect(store.getTask(task.id)).toMatchObject({ name: 'Buy milk', note: 'Oat', flagged: false, dueDate: new Date('2026-01-05T10:00:00Z') });
+  });
+
+  it('reopens completed and dropped tasks', async () => {
+    const done = store.addTask({ name: 'Done' });
+    const dropped = store.addTask({ name: 'Dropped' });
+    await client.call('omnifocus_batch_complete_task', { taskIds: [done.id] });
+    await client.call('omnifocus_complete_task', { taskId: dropped.id, action: 'drop' });
+
+    await undoLatest();
+    await client.call('omnifocus_undo_change', { changeId: listJournal()[0].id });
+    expect(store.getTask(done.id)).toMatchObject({ completed: false, dropped: false });
+    expect(store.getTask(dropped.id)).toMatchObject({ completed: false, dropped: false });
+  });
+
+  it('notes the next occurrence a repeating task left behind', async () => {
+    const task = store.addTask({ name: 'Water plants', dueDate: new Date('2026-01-05T10:00:00Z'), repetition: { rule: 'FREQ=WEEKLY;INTERVAL=1', method: 'Fixed' } });
+    await client.call('omnifocus_complete_task', { taskId: task.id });
+
+    const undo = await undoLatest();
+    expect(store.getTask(task.id).completed).toBe(false);
+    expect(undo.notes).toEqual(['Completing "Water plants" created its next occurrence, which was left in place.']);
+  });
+
+  it('recreates a deleted task with its subtasks, note and tags in its project', async () => {
+    const tag = store.addTag({ name: 'Home' });
+    const project = store.addProject({ name: 'House' });
+    const parent = store.addTask({ name: 'Paint', note: 'Blue', projectId: project.id, tagIds: [tag.id] });
+    store.addTask({ name: 'Buy paint', parentTaskId: parent.id, flagged: true });
+    await client.call('omnifocus_delete_task', { taskName: 'Paint' });
+    expect(store.tasks.size).toBe(0);
+
+    const undo = await undoLatest();
+    expect(undo.changes.map((c) => c.action)).toEqual(['created', 'created']);
+    const [paint, buy] = [...store.tasks.values()];
+    expect(paint).toMatchObject({ name: 'Paint', note: 'Blue', projectId: project.id, tagIds: [tag.id], parentTaskId: null });
+    expect(buy).toMatchObject({ name: 'Buy paint', flagged: true, projectId: project.id, parentTaskId: paint.id });
+
+    // Undoing the undo deletes them again, the subtask along with its parent.
+    const redo = await undoLatest();
+    expect(redo.changes.map((c) => [c.name, c.action])).toEqual([['Paint', 'deleted'], ['Buy paint', 'deleted']]);
+    expect(store.tasks.size).toBe(0);
+  });
+
+  it('deletes what a create made', async () => {
+    await client.call('omnifocus_create_task', { name: 'Oops' });
+    await client.call('omnifocus_create_folder', { name: 'Scratch' });
+
+    await undoLatest();
+    await client.call('omnifocus_undo_change', { changeId: listJournal()[0].id });
+    expect(store.tasks.size).toBe(0);
+    expect(store.folders.size).toBe(0);
+  });
+
+  it('restores a reviewed project', async () => {
+    const project = store.addProject({ name: 'Garden', nextReviewDate: new Date('2026-01-01T00:00:00Z') });
+    await client.call('omnifocus_mark_project_reviewed', { projectId: project.id });
+
+    await undoLatest();
+    expect(store.projects.get(project.id)).toMatchObject({ lastReviewDate: null, nextReviewDate: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  it('refuses changes that were undone already or cannot be', async () => {
+    const task = store.addTask({ name: 'Once' });
+    await client.call('omnifocus_update_task', { taskId: task.id, flagged: true });
+    const changeId = latestChange();
+    await client.call('omnifocus_undo_change', { changeId });
+    const again = await client.call('omnifocus_undo_change', { changeId });
+    expect(again.isError).toBe(true);
+    expect(JSON.parse(again.text).error).toMatchObject({ code: 'VALIDATION', details: { undoneBy: latestChange() } });
+
+    const project = store.addProject({ name: 'Gone' });
+    await client.call('omnifocus_delete_project', { projectId: project.id });
+    const deleted = await client.call('omnifocus_undo_change', { changeId: latestChange() });
+    expect(JSON.parse(deleted.text).error.code).toBe('VALIDATION');
+
+    const missing = await client.call('omnifocus_undo_change', { changeId: 'nope' });
+    expect(JSON.parse(missing.text).error.code).toBe('NOT_FOUND');
+  });
+});
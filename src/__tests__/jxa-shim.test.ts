@@ -0,0 +1,406 @@
+/**
+ * Tests that run the generated JXA directly against the fake backend's object
+ * model.
+ *
+ * The helper and mapper scripts are executed the way osascript would run them
+ * (with the same app/doc preamble), so a misspelled property, a setter that
+ * OmniFocus rejects, or a wrong value type fails here instead of only on a Mac.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { wrapJxaScript } from '../executor.js';
+import { parseScriptError } from '../errors.js';
+import {
+  generateFindTaskScript,
+  generateTagFilter,
+  generateSetProjectStatusScript,
+  generateSetRepetitionScript,
+  generateClearRepetitionScript,
+  buildRRule,
+} from '../helpers.js';
+import { TASK_MAPPER, PROJECT_MAPPER, FOLDER_MAPPER, TAG_MAPPER, PERSPECTIVE_MAPPER } from '../mappers.js';
+
+let store: FakeStore;
+let backend: FakeBackend;
+
+beforeEach(() => {
+  store = new FakeStore();
+  backend = new FakeBackend(store);
+});
+
+// Scripts report errors through the wrapper's envelope; throw them like the executor does.
+async function run(script: string, params: Record<string, unknown> = {}): Promise<string> {
+  const output = await backend.run(wrapJxaScript(script), params);
+  const error = parseScriptError(output);
+  if (error) throw error;
+  return output;
+}
+
+async function runJSON<T>(script: string, params: Record<string, unknown> = {}): Promise<T> {
+  return JSON.parse(await run(script, params)) as T;
+}
+
+describe('generateFindTaskScript', () => {
+  it('finds a task by ID', async () => {
+    const task = store.addTask({ name: 'Call mom' });
+    const name = await run(`${generateFindTaskScript('id')} task.name();`, { taskId: task.id });
+    expect(name).toBe('Call mom');
+  });
+
+  it('prefers an exact name match over partial matches', async () => {
+    store.addTask({ name: 'Report' });
+    store.addTask({ name: 'Report final' });
+    const name = await run(`${generateFindTaskScript('name')} task.name();`, { taskName: 'Report' });
+    expect(name).toBe('Report');
+  });
+
+  it('falls back to a unique case-insensitive partial match', async () => {
+    store.addTask({ name: 'Buy Stamps' });
+    const name = await run(`${generateFindTaskScript('name')} task.name();`, { taskName: 'stamps' });
+    expect(name).toBe('Buy Stamps');
+  });
+
+  it('lists IDs and projects when the name is ambiguous', async () => {
+    const project = store.addProject({ name: 'Work' });
+    const first = store.addTask({ name: 'Draft A', projectId: project.id });
+    const second = store.addTask({ name: 'Draft B' });
+    await expect(run(generateFindTaskScript('name'), { taskName: 'draft' })).rejects.toThrow(
+      `Multiple tasks found matching 'draft'. Please use taskId or be more specific:\n` +
+      `- Draft B (ID: ${second.id})\n- Draft A (ID: ${first.id}, Project: Work)`
+    );
+    await expect(run(generateFindTaskScript('name'), { taskName: 'draft' })).rejects.toMatchObject({
+      code: 'AMBIGUOUS_MATCH',
+      details: { matches: [{ id: second.id, name: 'Draft B' }, { id: first.id, name: 'Draft A' }] },
+    });
+  });
+
+  it('reports a missing ID or name', async () => {
+    await expect(run(generateFindTaskScript('id'), { taskId: 'nope' })).rejects.toThrow('Task not found with ID: nope');
+    await expect(run(generateFindTaskScript('name'), { taskName: 'nope' })).rejects.toThrow('No task found matching name: nope');
+    await expect(run(generateFindTaskScript('id'), { taskId: 'nope' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('generateTagFilter', () => {
+  beforeEach(() => {
+    const home = store.addTag({ name: 'Home' });
+    const errand = store.addTag({ name: 'Errand' });
+    store.addTask({ name: 'both', tagIds: [home.id, errand.id] });
+    store.addTask({ name: 'home', tagIds: [home.id] });
+    store.addTask({ name: 'none' });
+  });
+
+  const tags = ['Home', 'Errand'];
+  const filtered = (mode: 'all' | 'any' | 'none') => runJSON<string[]>(`
+    ${TASK_MAPPER}
+    var tasks = mapTasks(doc.inboxTasks);
+    ${generateTagFilter(tags, mode)}
+    JSON.stringify(tasks.map(function(t) { return t.name; }));
+  `, { tags });
+
+  it('filters by all, any, and none of the tags', async () => {
+    expect(await filtered('all')).toEqual(['both']);
+    expect(await filtered('any')).toEqual(['both', 'home']);
+    expect(await filtered('none')).toEqual(['none']);
+  });
+
+  it('generates nothing without tags', () => {
+    expect(generateTagFilter([], 'all')).toBe('');
+    expect(generateTagFilter(undefined, 'none')).toBe('');
+  });
+});
+
+describe('generateSetProjectStatusScript', () => {
+  it.each([
+    ['on hold', 'on hold status', false],
+    ['done', 'done status', true],
+    ['dropped', 'dropped status', false],
+    ['active', 'active status', false],
+  ])('sets %s', async (status, expected, completed) => {
+    const project = store.addProject({ name: 'P', status: 'done' });
+    const result = await runJSON<{ status: string; completed: boolean }>(`
+      var project = doc.flattenedProjects.byId("${project.id}");
+      ${generateSetProjectStatusScript(status)}
+      JSON.stringify({ status: project.status(), completed: project.completed() });
+    `);
+    expect(result).toEqual({ status: expected, completed });
+  });
+
+  it('rejects assigning done directly, as OmniFocus does', async () => {
+    store.addProject({ name: 'P' });
+    await expect(run(`doc.flattenedProjects()[0].status = "done status";`)).rejects.toThrow(
+      'Use the mark completed/dropped verb instead. (-10000)'
+    );
+  });
+});
+
+describe('repetition rules', () => {
+  it('sets a rule through the Omni Automation bridge and reads it back via the mapper', async () => {
+    const task = store.addTask({ name: 'Water plants', dueDate: new Date('2026-03-02T09:00:00Z') });
+    const { ruleString, method } = buildRRule({ frequency: 'weekly', daysOfWeek: ['Monday', 'Thursday'] });
+    const mapped = await runJSON<{ repetitionRule: string; repetitionMethod: string }>(`
+      ${TASK_MAPPER}
+      var task = doc.flattenedTasks.byId("${task.id}");
+      ${generateSetRepetitionScript('task', ruleString, method)}
+      JSON.stringify(mapTask(task));
+    `);
+    expect(mapped.repetitionRule).toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH');
+    expect(mapped.repetitionMethod).toBe('fixed repetition');
+  });
+
+  it('rolls a repeating task forward when it is completed', async () => {
+    const task = store.addTask({
+      name: 'Standup',
+      dueDate: new Date(2026, 2, 2, 9),
+      repetition: { rule: 'FREQ=DAILY;INTERVAL=1', method: 'Fixed' },
+    });
+    await run(`doc.flattenedTasks.byId("${task.id}").markComplete();`);
+
+    const next = [...store.tasks.values()].filter((t) => !t.completed);
+    expect(next).toHaveLength(1);
+    expect(next[0].name).toBe('Standup');
+    expect(next[0].dueDate).toEqual(new Date(2026, 2, 3, 9));
+  });
+
+  it('leaves no clone behind when the rule is cleared before dropping', async () => {
+    const task = store.addTask({ name: 'Old habit', repetition: { rule: 'FREQ=DAILY;INTERVAL=1', method: 'Fixed' } });
+    await run(`
+      var task = doc.flattenedTasks.byId("${task.id}");
+      ${generateClearRepetitionScript('task')}
+      task.markDropped();
+    `);
+    expect([...store.tasks.values()].map((t) => t.dropped)).toEqual([true]);
+  });
+
+  it('rejects assigning the rule directly through JXA (-1700)', async () => {
+    const task = store.addTask({ name: 'T' });
+    await expect(run(`doc.flattenedTasks.byId("${task.id}").repetitionRule = "FREQ=DAILY";`)).rejects.toThrow('(-1700)');
+  });
+});
+
+describe('mappers', () => {
+  it('maps a subtask with tags, dates, and its project', async () => {
+    const project = store.addProject({ name: 'Launch' });
+    const tag = store.addTag({ name: 'Deep work' });
+    const parent = store.addTask({ name: 'Write copy', projectId: project.id });
+    store.addTask({
+      name: 'Headline',
+      parentTaskId: parent.id,
+      tagIds: [tag.id],
+      note: 'Short',
+      dueDate: new Date('2026-04-01T10:00:00Z'),
+      estimatedMinutes: 30,
+    });
+
+    const mapped = await runJSON<Array<Record<string, unknown>>>(`
+      ${TASK_MAPPER}
+      JSON.stringify(doc.flattenedTasks().map(mapTask));
+    `);
+    expect(mapped[1]).toMatchObject({
+      name: 'Headline',
+      note: 'Short',
+      dueDate: '2026-04-01T10:00:00.000Z',
+      estimatedMinutes: 30,
+      tags: ['Deep work'],
+      projectName: 'Launch',
+      inInbox: false,
+      parentTaskId: parent.id,
+      parentTaskName: 'Write copy',
+      hasChildren: false,
+    });
+    expect(mapped[0]).toMatchObject({ hasChildren: true, childTaskCount: 1, parentTaskId: null });
+  });
+
+  it('maps projects, folders, tags, and perspectives', async () => {
+    const folder = store.addFolder({ name: 'Work' });
+    const project = store.addProject({ name: 'Launch', folderId: folder.id, sequential: true });
+    store.addTask({ name: 'A', projectId: project.id });
+    store.addTag({ name: 'Home', status: 'dropped' });
+
+    const mapped = await runJSON<Record<string, unknown>>(`
+      ${PROJECT_MAPPER}
+      ${FOLDER_MAPPER}
+      ${TAG_MAPPER}
+      ${PERSPECTIVE_MAPPER}
+      JSON.stringify({
+        project: mapProject(doc.flattenedProjects()[0]),
+        folder: mapFolder(doc.flattenedFolders()[0]),
+        tag: mapTag(doc.flattenedTags()[0]),
+        perspectives: mapPerspectives(2),
+      });
+    `);
+    expect(mapped).toMatchObject({
+      project: { name: 'Launch', status: 'active status', folderName: 'Work', taskCount: 1, sequential: true },
+      folder: { name: 'Work', status: 'active', projectCount: 1, folderCount: 0, parentName: null },
+      tag: { name: 'Home', status: 'dropped', taskCount: 0 },
+      perspectives: [{ id: null, name: 'Inbox' }, { id: null, name: 'Projects' }],
+    });
+  });
+});
+
+describe('bulk mappers', () => {
+  function seed(taskCount: number) {
+    const folder = store.addFolder({ name: 'Work' });
+    const project = store.addProject({ name: 'Launch', folderId: folder.id, nextReviewDate: new Date('2026-05-01T00:00:00Z') });
+    store.addProject({ name: 'Loose', status: 'on hold' });
+    const tag = store.addTag({ name: 'Deep work' });
+    const parent = store.addTask({ name: 'Write copy', projectId: project.id, flagged: true });
+    store.addTask({
+      name: 'Headline',
+      projectId: project.id,
+      parentTaskId: parent.id,
+      tagIds: [tag.id],
+      note: 'Short',
+      dueDate: new Date('2026-04-01T10:00:00Z'),
+      plannedDate: new Date('2026-03-30T08:00:00Z'),
+      estimatedMinutes: 30,
+      repetition: { rule: 'FREQ=WEEKLY;INTERVAL=1', method: 'DueDate' },
+    });
+    store.addTask({ name: 'Inbox item', assignedProjectId: project.id, completed: true });
+    for (let i = 3; i < taskCount; i++) {
+      store.addTask({ name: `Task ${i}`, projectId: i % 2 ? project.id : null, tagIds: i % 3 ? [] : [tag.id] });
+    }
+  }
+
+  it('maps tasks exactly like mapTask', async () => {
+    seed(12);
+    const { bulk, single } = await runJSON<{ bulk: unknown[]; single: unknown[] }>(`
+      ${TASK_MAPPER}
+      JSON.stringify({ bulk: mapTasks(doc.flattenedTasks), single: doc.flattenedTasks().map(mapTask) });
+    `);
+    expect(bulk).toHaveLength(12);
+    expect(bulk).toEqual(single);
+  });
+
+  it('maps projects exactly like mapProject', async () => {
+    seed(6);
+    const { bulk, single } = await runJSON<{ bulk: unknown[]; single: unknown[] }>(`
+      ${PROJECT_MAPPER}
+      JSON.stringify({ bulk: mapProjects(doc.flattenedProjects), single: doc.flattenedProjects().map(mapProject) });
+    `);
+    expect(bulk).toHaveLength(2);
+    expect(bulk).toEqual(single);
+  });
+
+  it('maps each object on its own when an item disappears between column reads', async () => {
+    seed(12);
+    // Deletes a task right after the IDs are read, as a sync or the user might.
+    const { tasks, projects } = await runJSON<{ tasks: Record<string, unknown>[]; projects: Record<string, unknown>[] }>(`
+      ${TASK_MAPPER}
+      ${PROJECT_MAPPER}
+      function deletingAfterIds(spec, deleteOne) {
+        return new Proxy(spec, { get: function(target, key) {
+          if (key !== "id") return target[key];
+          return function() { var ids = target.id(); deleteOne(); return ids; };
+        } });
+      }
+      var tasks = mapTasks(deletingAfterIds(doc.flattenedTasks, function() {
+        app.delete(doc.flattenedTasks.whose({name: "Task 4"})()[0]);
+      }));
+      var projects = mapProjects(deletingAfterIds(doc.flattenedProjects, function() {
+        app.delete(doc.flattenedProjects.whose({name: "Loose"})()[0]);
+      }));
+      JSON.stringify({ tasks: tasks, projects: projects });
+    `);
+    expect(tasks).toHaveLength(11);
+    expect(tasks.map((t) => t.name)).not.toContain('Task 4');
+    const task5 = tasks.find((t) => t.name === 'Task 5');
+    expect(task5).toMatchObject({ id: [...store.tasks.values()].find((t) => t.name === 'Task 5')?.id, projectName: 'Launch' });
+    expect(projects.map((p) => p.name)).toEqual(['Launch']);
+  });
+
+  it('maps only what a whose() clause selects, and nothing for an empty one', async () => {
+    seed(6);
+    const names = await runJSON<string[][]>(`
+      ${TASK_MAPPER}
+      JSON.stringify([
+        mapTasks(doc.flattenedTasks.whose({flagged: true})).map(function(t) { return t.name; }),
+        mapTasks(doc.flattenedTasks.whose({name: "nope"})),
+      ]);
+    `);
+    expect(names).toEqual([['Write copy'], []]);
+  });
+
+  it('sends a fixed number of Apple events however many tasks there are', async () => {
+    const eventsFor = async (script: string) => {
+      const before = backend.appleEvents;
+      await run(`${TASK_MAPPER} JSON.stringify(${script});`);
+      return backend.appleEvents - before;
+    };
+
+    seed(20);
+    const bulkSmall = await eventsFor('mapTasks(doc.flattenedTasks)');
+    const singleSmall = await eventsFor('doc.flattenedTasks().map(mapTask)');
+    for (let i = 0; i < 180; i++) store.addTask({ name: `More ${i}` });
+    const bulkLarge = await eventsFor('mapTasks(doc.flattenedTasks)');
+    const singleLarge = await eventsFor('doc.flattenedTasks().map(mapTask)');
+
+    expect(bulkLarge).toBe(bulkSmall);
+    expect(bulkLarge).toBeLessThan(25);
+    expect(singleLarge).toBeGreaterThan(singleSmall * 9);
+  });
+});
+
+describe('object model strictness', () => {
+  it('fails on a misspelled property, like osascript', async () => {
+    store.addTask({ name: 'T' });
+    await expect(run(`doc.flattenedTasks()[0].dueDat();`)).rejects.toThrow("Can't get object. (-1728)");
+    await expect(run(`doc.flattenedTasks()[0].dueDat();`)).rejects.toMatchObject({ code: 'SCRIPT_ERROR' });
+  });
+
+  it('fails when assigning a property the dictionary does not define', async () => {
+    store.addTask({ name: 'T' });
+    await expect(run(`doc.flattenedTasks()[0].flaged = true;`)).rejects.toThrow("Can't set flaged. (-10003)");
+  });
+
+  it('fails when assigning a read-only property', async () => {
+    store.addTask({ name: 'T' });
+    await expect(run(`doc.flattenedTasks()[0].id = "x";`)).rejects.toThrow("Can't set id. (-10003)");
+  });
+
+  it('fails on values of the wrong type', async () => {
+    store.addProject({ name: 'P' });
+    store.addTask({ name: 'T' });
+    await expect(run(`doc.flattenedProjects()[0].reviewInterval = 7;`)).rejects.toThrow('(-1700)');
+    await expect(run(`doc.flattenedTasks()[0].dueDate = "2026-01-01";`)).rejects.toThrow('(-1700)');
+  });
+
+  it('fails when using an object after it was deleted', async () => {
+    store.addTask({ name: 'T' });
+    await expect(run(`
+      var t = doc.flattenedTasks()[0];
+      app.delete(t);
+      t.name();
+    `)).rejects.toThrow("Can't get object. (-1728)");
+  });
+});
+
+describe('element collections', () => {
+  beforeEach(() => {
+    store.addTask({ name: 'Alpha', flagged: true });
+    store.addTask({ name: 'Beta' });
+    store.addTask({ name: 'Alphabet', dueDate: new Date('2026-05-01T00:00:00Z') });
+  });
+
+  const names = (expression: string) =>
+    runJSON<string[]>(`JSON.stringify(${expression}.name());`);
+
+  it('reads properties in bulk', async () => {
+    expect(await names('doc.flattenedTasks')).toEqual(['Alpha', 'Beta', 'Alphabet']);
+  });
+
+  it('filters with whose()', async () => {
+    expect(await names('doc.flattenedTasks.whose({ flagged: true })')).toEqual(['Alpha']);
+    expect(await names('doc.flattenedTasks.whose({ name: { _beginsWith: "Alpha" } })')).toEqual(['Alpha', 'Alphabet']);
+    expect(await names('doc.flattenedTasks.whose({ _not: [{ name: { _contains: "lph" } }] })')).toEqual(['Beta']);
+    expect(await names('doc.flattenedTasks.whose({ _or: [{ flagged: true }, { name: "Beta" }] })')).toEqual(['Alpha', 'Beta']);
+    expect(await names('doc.flattenedTasks.whose({ dueDate: { _greaterThan: new Date("2026-01-01") } })')).toEqual(['Alphabet']);
+  });
+
+  it('looks up by ID and name', async () => {
+    expect(await run(`doc.flattenedTasks.byName("Beta").name();`)).toBe('Beta');
+    await expect(run(`doc.flattenedTasks.byId("missing").name();`)).rejects.toThrow("Can't get object. (-1728)");
+  });
+});
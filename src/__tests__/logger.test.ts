@@ -0,0 +1,117 @@
+/**
+ * Tests for the structured logger: line format, levels, the file
+ * destination, context fields and the redaction policy.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { addLogContext, configureLogger, logger, loggerConfigFromEnv, redact, withLogContext } from '../logger.js';
+
+/** The JSON lines written to stderr so far. */
+function lines(): Array<Record<string, unknown>> {
+  return vi.mocked(console.error).mock.calls.map(([line]) => JSON.parse(line as string));
+}
+
+beforeEach(() => {
+  configureLogger({ level: 'debug', file: null, logContent: false });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  configureLogger(loggerConfigFromEnv());
+  vi.restoreAllMocks();
+});
+
+describe('loggerConfigFromEnv', () => {
+  it('logs info and up to stderr, without task content, by default', () => {
+    expect(loggerConfigFromEnv({})).toEqual({ level: 'info', file: null, logContent: false });
+    expect(loggerConfigFromEnv({ OMNIFOCUS_LOG_LEVEL: 'debug', OMNIFOCUS_LOG_FILE: '/tmp/of.log', OMNIFOCUS_LOG_CONTENT: '1' }))
+      .toEqual({ level: 'debug', file: '/tmp/of.log', logContent: true });
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => loggerConfigFromEnv({ OMNIFOCUS_LOG_LEVEL: 'verbose' })).toThrow('Invalid OMNIFOCUS_LOG_LEVEL: verbose');
+    expect(() => loggerConfigFromEnv({ OMNIFOCUS_LOG_CONTENT: 'yes' })).toThrow('Invalid OMNIFOCUS_LOG_CONTENT: yes');
+  });
+});
+
+describe('logger', () => {
+  it('writes one JSON object per line, dropping levels below the threshold', () => {
+    configureLogger({ level: 'warn' });
+    logger.info('Not written');
+    logger.warn('Written', { attempt: 2 });
+
+    expect(lines()).toEqual([{ time: expect.any(String), level: 'warn', msg: 'Written', attempt: 2 }]);
+  });
+
+  it('adds the context to lines logged across awaits, innermost fields last', async () => {
+    await withLogContext({ requestId: 'r1' }, async () => {
+      addLogContext({ principal: 'owner' });
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      await withLogContext({ tool: 'omnifocus_list_inbox' }, async () => {
+        logger.info('Inside');
+      });
+      logger.info('Outside');
+    });
+    logger.info('Without');
+
+    expect(lines().map(({ time: _time, ...rest }) => rest)).toEqual([
+      { level: 'info', msg: 'Inside', requestId: 'r1', principal: 'owner', tool: 'omnifocus_list_inbox' },
+      { level: 'info', msg: 'Outside', requestId: 'r1', principal: 'owner' },
+      { level: 'info', msg: 'Without' },
+    ]);
+  });
+
+  it('appends to a file created with mode 0600', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'omnifocus-log-'));
+    try {
+      const file = join(dir, 'server.log');
+      configureLogger({ file });
+      logger.info('First');
+      logger.error('Second', { error: new Error('boom') });
+
+      const written = readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      expect(written.map((entry) => entry.msg)).toEqual(['First', 'Second']);
+      expect(written[1].error).toMatchObject({ name: 'Error', message: 'boom' });
+      expect(statSync(file).mode & 0o777).toBe(0o600);
+      expect(console.error).not.toHaveBeenCalled();
+    } finally {
+      configureLogger({ file: null });
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('fails to configure a file that cannot be opened', () => {
+    expect(() => configureLogger({ file: '/nonexistent/dir/server.log' })).toThrow(/^Cannot open log file \/nonexistent\/dir\/server.log/);
+  });
+});
+
+describe('redact', () => {
+  const call = {
+    arguments: { taskId: 'abc', taskName: 'Call the bank', note: 'PIN 1234', tags: ['Finance'], flagged: true },
+    headers: { authorization: 'Bearer secret', 'x-request-id': 'r1' },
+    oauth: { code: 'c0de', refresh_token: 'r3fresh', accessToken: 'acc3ss' },
+  };
+
+  it('replaces secrets and task content, keeping IDs and other fields', () => {
+    expect(redact(call, false)).toEqual({
+      arguments: { taskId: 'abc', taskName: '[redacted]', note: '[redacted]', tags: '[redacted]', flagged: true },
+      headers: { authorization: '[redacted]', 'x-request-id': 'r1' },
+      oauth: { code: '[redacted]', refresh_token: '[redacted]', accessToken: '[redacted]' },
+    });
+  });
+
+  it('keeps task content when it may be logged, but never secrets', () => {
+    expect(redact(call, true)).toMatchObject({
+      arguments: { taskName: 'Call the bank', note: 'PIN 1234', tags: ['Finance'] },
+      headers: { authorization: '[redacted]' },
+    });
+  });
+
+  it('applies to every line written', () => {
+    logger.info('Tool call', { arguments: { projectName: 'Taxes', limit: 5 }, token: 'abc' });
+    expect(lines()[0]).toMatchObject({ arguments: { projectName: '[redacted]', limit: 5 }, token: '[redacted]' });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Benchmark: mapping a large database one task at a time (mapTask over
+ * doc.flattenedTasks()) against the bulk mapper (mapTasks over an element
+ * specifier), run against the fake backend.
+ *
+ * Run with `npm run bench`. Wall time here only measures the fake; the Apple
+ * event counts printed first are what dominate under osascript, where every
+ * event is a round trip to OmniFocus.
+ */
+
+import { bench, describe } from 'vitest';
+import { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { wrapJxaScript } from '../executor.js';
+import { TASK_MAPPER } from '../mappers.js';
+
+const TASK_COUNT = 8000;
+
+function seed(): FakeStore {
+  const store = new FakeStore();
+  const tags = ['Home', 'Work', 'Errand', 'Waiting'].map((name) => store.addTag({ name }));
+  const projects = Array.from({ length: 80 }, (_, i) => store.addProject({ name: `Project ${i}` }));
+  for (let i = 0; i < TASK_COUNT; i++) {
+    store.addTask({
+      name: `Task ${i}`,
+      note: i % 4 === 0 ? `Note for task ${i}` : '',
+      projectId: i % 10 === 0 ? null : projects[i % projects.length].id,
+      flagged: i % 7 === 0,
+      completed: i % 5 === 0,
+      dueDate: i % 3 === 0 ? new Date(Date.UTC(2026, 0, 1 + (i % 60))) : null,
+      tagIds: [tags[i % tags.length].id],
+    });
+  }
+  return store;
+}
+
+const backend = new FakeBackend(seed());
+
+const paths = {
+  'per task (mapTask)': `
+    ${TASK_MAPPER}
+    var tasks = doc.flattenedTasks().filter(function(t) { return t.flagged() && !t.completed(); });
+    JSON.stringify(tasks.map(mapTask));
+  `,
+  'bulk (mapTasks + whose)': `
+    ${TASK_MAPPER}
+    JSON.stringify(mapTasks(doc.flattenedTasks.whose({_and: [{flagged: true}, {completed: false}]})));
+  `,
+};
+
+for (const [name, script] of Object.entries(paths)) {
+  const before = backend.appleEvents;
+  await backend.run(wrapJxaScript(script), {});
+  console.log(`${name}: ${backend.appleEvents - before} Apple events for ${TASK_COUNT} tasks`);
+}
+
+describe(`flagged tasks from ${TASK_COUNT} tasks`, () => {
+  for (const [name, script] of Object.entries(paths)) {
+    bench(name, async () => {
+      await backend.run(wrapJxaScript(script), {});
+    }, { iterations: 5, time: 0 });
+  }
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for the Prometheus metrics: rendering, and what the server records
+ * as tools run (calls, errors by code, script latency), read back through
+ * the omnifocus_get_metrics tool as a stdio client would.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setBackend } from '../backend.js';
+import { probeOmniFocus } from '../executor.js';
+import { OmniFocusNotRunningError } from '../errors.js';
+import { Counter, Histogram, observe, renderMetrics, toolCalls, toolErrors, scriptDuration } from '../metrics.js';
+import { connectClient, useFakeBackend } from './harness.js';
+
+beforeEach(() => {
+  useFakeBackend();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setBackend(null);
+  vi.restoreAllMocks();
+});
+
+function textOf(result: unknown): string {
+  return (result as { content: Array<{ text: string }> }).content[0].text;
+}
+
+describe('rendering', () => {
+  it('renders counters with escaped labels', () => {
+    const counter = new Counter('test_render_total', 'A test counter.');
+    counter.inc({ tool: 'say "hi"\n' }, 2);
+    expect(counter.get({ tool: 'say "hi"\n' })).toBe(2);
+    expect(renderMetrics()).toContain(
+      '# HELP test_render_total A test counter.\n# TYPE test_render_total counter\ntest_render_total{tool="say \\"hi\\"\\n"} 2\n'
+    );
+  });
+
+  it('renders histograms with cumulative buckets', () => {
+    const histogram = new Histogram('test_render_seconds', 'A test histogram.', [0.1, 1]);
+    histogram.observe({ backend: 'fake' }, 0.05);
+    histogram.observe({ backend: 'fake' }, 0.5);
+    histogram.observe({ backend: 'fake' }, 5);
+    const text = renderMetrics();
+    expect(text).toContain('test_render_seconds_bucket{backend="fake",le="0.1"} 1\n');
+    expect(text).toContain('test_render_seconds_bucket{backend="fake",le="1"} 2\n');
+    expect(text).toContain('test_render_seconds_bucket{backend="fake",le="+Inf"} 3\n');
+    expect(text).toContain('test_render_seconds_sum{backend="fake"} 5.55\n');
+    expect(text).toContain('test_render_seconds_count{backend="fake"} 3\n');
+  });
+
+  it('adds up observed values until their sources stop reporting', () => {
+    const stopFirst = observe('test_observed', 'A test gauge.', 'gauge', () => 2);
+    const stopSecond = observe('test_observed', 'A test gauge.', 'gauge', () => 3);
+    expect(renderMetrics()).toContain('\ntest_observed 5\n');
+    stopFirst();
+    expect(renderMetrics()).toContain('\ntest_observed 3\n');
+    stopSecond();
+    expect(renderMetrics()).toContain('\ntest_observed 0\n');
+  });
+});
+
+describe('tool metrics', () => {
+  it('counts calls, errors by code and script latency', async () => {
+    const client = await connectClient('metrics-test-client');
+    const calls = toolCalls.get({ tool: 'omnifocus_complete_task' });
+    const notFound = toolErrors.get({ tool: 'omnifocus_complete_task', code: 'NOT_FOUND' });
+    const scripts = scriptDuration.count({ backend: 'fake', outcome: 'ok' });
+
+    await client.callTool({ name: 'omnifocus_list_inbox', arguments: {} });
+    const result = await client.callTool({ name: 'omnifocus_complete_task', arguments: { taskId: 'missing' } });
+    expect(result.isError).toBe(true);
+
+    expect(toolCalls.get({ tool: 'omnifocus_complete_task' })).toBe(calls + 1);
+    expect(toolErrors.get({ tool: 'omnifocus_complete_task', code: 'NOT_FOUND' })).toBe(notFound + 1);
+    expect(scriptDuration.count({ backend: 'fake', outcome: 'ok' })).toBeGreaterThan(scripts);
+    await client.close();
+  });
+
+  it('dumps the metrics through omnifocus_get_metrics', async () => {
+    const client = await connectClient('metrics-test-client');
+    await client.callTool({ name: 'omnifocus_list_inbox', arguments: {} });
+
+    const text = textOf(await client.callTool({ name: 'omnifocus_get_metrics', arguments: {} }));
+    expect(text).toContain('# TYPE omnifocus_tool_calls_total counter');
+    expect(text).toMatch(/omnifocus_tool_calls_total\{tool="omnifocus_list_inbox"\} \d+/);
+    expect(text).toContain('# TYPE omnifocus_script_duration_seconds histogram');
+    expect(text).toContain('omnifocus_queue_active_scripts 0');
+
+    const json = JSON.parse(textOf(await client.callTool({ name: 'omnifocus_get_metrics', arguments: { format: 'json' } })));
+    const calls = json.find((family: { name: string }) => family.name === 'omnifocus_tool_calls_total');
+    expect(calls.type).toBe('counter');
+    expect(calls.samples).toContainEqual(expect.objectContaining({ labels: { tool: 'omnifocus_get_metrics' } }));
+    await client.close();
+  });
+});
+
+describe('probeOmniFocus', () => {
+  it('returns null when OmniFocus answers', async () => {
+    expect(await probeOmniFocus()).toBeNull();
+  });
+
+  it('returns the error when it does not', async () => {
+    setBackend({ name: 'broken', run: async () => { throw new OmniFocusNotRunningError(); } });
+    const error = await probeOmniFocus();
+    expect(error?.code).toBe('NOT_RUNNING');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for name suggestions: ranking, omnifocus_suggest_names and argument
+ * completion for prompts and resource templates, against the fake backend
+ * through a real MCP client-server connection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setBackend } from '../backend.js';
+import type { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { OmniFocusPermissionError } from '../errors.js';
+import { rankNames, type NameKind } from '../names.js';
+import { connectClient, useFakeBackend, type CallOutcome, type TestClient } from './harness.js';
+
+let store: FakeStore;
+let backend: FakeBackend;
+let client: TestClient;
+
+beforeEach(async () => {
+  store = new FakeStore();
+  backend = useFakeBackend(store);
+  client = await connectClient('names-test-client');
+});
+
+afterEach(async () => {
+  await client.close();
+  setBackend(null);
+});
+
+const tags = (...names: string[]) => names.map((name) => ({ kind: 'tag' as NameKind, id: null, name }));
+
+describe('rankNames', () => {
+  it('ranks exact, prefix, word, substring and fuzzy matches in that order', () => {
+    const ranked = rankNames('home', tags('Homework', 'At Home', 'Chromehome', 'Hmoe', 'home', 'Office', 'Home Office'));
+    expect(ranked.map((s) => [s.name, s.match])).toEqual([
+      ['home', 'exact'],
+      ['Homework', 'prefix'],
+      ['Home Office', 'prefix'],
+      ['At Home', 'word'],
+      ['Chromehome', 'substring'],
+      ['Hmoe', 'fuzzy'],
+    ]);
+  });
+
+  it('ignores case and accents and tolerates typos', () => {
+    expect(rankNames('cafe', tags('Café')).map((s) => s.match)).toEqual(['exact']);
+    expect(rankNames('Groceires', tags('Groceries')).map((s) => s.match)).toEqual(['fuzzy']);
+    expect(rankNames('grcrs', tags('Groceries')).map((s) => s.match)).toEqual(['fuzzy']);
+    expect(rankNames('xyz', tags('Groceries'))).toEqual([]);
+  });
+
+  it('suggests a repeated name once per kind', () => {
+    expect(rankNames('', [...tags('Home', 'Home'), { kind: 'folder', id: 'f1', name: 'Home' }])).toHaveLength(2);
+  });
+});
+
+interface Suggestions {
+  count: number;
+  suggestions: Array<{ kind: string; name: string; id: string | null; match: string }>;
+}
+
+function suggest(args: Record<string, unknown>): Promise<CallOutcome> {
+  return client.call('omnifocus_suggest_names', args);
+}
+
+describe('omnifocus_suggest_names', () => {
+  it('suggests names of every kind', async () => {
+    const project = store.addProject({ name: 'Groceries' });
+    store.addTag({ name: 'Grocery Store' });
+    store.addFolder({ name: 'Errands' });
+
+    const { isError, text } = await suggest({ query: 'grocer' });
+    expect(isError).toBe(false);
+    const output = JSON.parse(text) as Suggestions;
+    expect(output.suggestions).toEqual([
+      { kind: 'project', name: 'Groceries', id: project.id, match: 'prefix' },
+      { kind: 'tag', name: 'Grocery Store', id: expect.any(String), match: 'prefix' },
+    ]);
+  });
+
+  it('filters by kind and limits the suggestions', async () => {
+    store.addProject({ name: 'Weekly' });
+    for (const name of ['Work', 'Waiting', 'Weekend']) store.addTag({ name });
+
+    const output = JSON.parse((await suggest({ query: 'w', nameType: 'tags', limit: 2 })).text) as Suggestions;
+    expect(output.suggestions.map((s) => s.name)).toEqual(['Work', 'Waiting']);
+  });
+
+  it('suggests perspective names', async () => {
+    const output = JSON.parse((await suggest({ query: 'forcast', nameType: 'perspectives' })).text) as Suggestions;
+    expect(output.suggestions[0]).toMatchObject({ kind: 'perspective', name: 'Forecast', match: 'fuzzy' });
+  });
+
+  it('says when nothing matches', async () => {
+    expect(await suggest({ query: 'nothing' })).toEqual({ isError: false, text: 'No names found matching "nothing".' });
+  });
+});
+
+describe('completion/complete', () => {
+  it('is advertised', () => {
+    expect(client.getServerCapabilities()?.completions).toBeDefined();
+  });
+
+  it('completes folder arguments of prompts', async () => {
+    store.addFolder({ name: 'Work' });
+    store.addFolder({ name: 'Personal' });
+    const { completion } = await client.complete({
+      ref: { type: 'ref/prompt', name: 'weekly_review' },
+      argument: { name: 'folder', value: 'wo' },
+    });
+    expect(completion.values).toEqual(['Work']);
+  });
+
+  it('completes tag names in the tag template', async () => {
+    store.addTag({ name: 'Deep Work' });
+    store.addTag({ name: 'Errand' });
+    const { completion } = await client.complete({
+      ref: { type: 'ref/resource', uri: 'omnifocus://tag/{name}' },
+      argument: { name: 'name', value: 'de' },
+    });
+    expect(completion.values).toEqual(['Deep Work']);
+  });
+
+  it('offers at most 100 values and everything for an empty value', async () => {
+    for (let i = 0; i < 120; i++) store.addTag({ name: `Tag ${i}` });
+    const { completion } = await client.complete({
+      ref: { type: 'ref/resource', uri: 'omnifocus://tag/{name}' },
+      argument: { name: 'name', value: '' },
+    });
+    expect(completion).toMatchObject({ total: 120, hasMore: true });
+    expect(completion.values).toHaveLength(100);
+  });
+
+  it('offers nothing when OmniFocus cannot be read', async () => {
+    vi.spyOn(backend, 'run').mockRejectedValue(new OmniFocusPermissionError());
+    const { completion } = await client.complete({
+      ref: { type: 'ref/prompt', name: 'project_kickoff' },
+      argument: { name: 'folder', value: 'w' },
+    });
+    expect(completion.values).toEqual([]);
+  });
+});
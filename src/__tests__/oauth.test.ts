@@ -0,0 +1,424 @@
+/**
+ * Tests for the OAuth 2.1 authorization server of the HTTP transport.
+ *
+ * The client side of each flow uses the MCP SDK's own OAuth helpers
+ * (discovery, registration, PKCE, token exchange and refresh), so these also
+ * check that standard MCP clients can talk to the server. The user's trip to
+ * the consent page is played by fetch: it reads the form and submits it.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  discoverAuthorizationServerMetadata,
+  discoverOAuthProtectedResourceMetadata,
+  exchangeAuthorization,
+  extractResourceMetadataUrl,
+  refreshAuthorization,
+  registerClient,
+  startAuthorization,
+} from '@modelcontextprotocol/sdk/client/auth.js';
+import type { AuthorizationServerMetadata, OAuthClientInformationFull, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer } from '../http.js';
+import type { OAuthConfig } from '../oauth.js';
+import type { RateLimitConfig } from '../ratelimit.js';
+
+const TOKEN = 'owner-token-1234567890abcdef';
+const REDIRECT = 'http://localhost:8976/callback';
+
+let dir: string;
+let httpServer: Server;
+let baseUrl: string;
+let metadata: AuthorizationServerMetadata;
+
+// Most tests register a client of their own, more than the default registration limit allows.
+async function listen(oauth: OAuthConfig = {}, rateLimit: RateLimitConfig = { registerPerMinute: 0 }): Promise<{ server: Server; url: string }> {
+  const server = await startHttpServer({ port: 0, host: '127.0.0.1', authToken: TOKEN, oauth, rateLimit });
+  const address = server.address();
+  if (address === null || typeof address === 'string') {
+    throw new Error('Expected a bound TCP address');
+  }
+  return { server, url: `http://127.0.0.1:${address.port}` };
+}
+
+function stop(server: Server): Promise<void> {
+  return new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+async function metadataOf(url: string): Promise<AuthorizationServerMetadata> {
+  return url === baseUrl ? metadata : ((await discoverAuthorizationServerMetadata(url)) as AuthorizationServerMetadata);
+}
+
+async function register(url = baseUrl, overrides: Record<string, unknown> = {}): Promise<OAuthClientInformationFull> {
+  return registerClient(url, {
+    metadata: await metadataOf(url),
+    clientMetadata: { client_name: 'Test connector', redirect_uris: [REDIRECT], token_endpoint_auth_method: 'none', ...overrides },
+  });
+}
+
+/** Submits the consent form the authorization URL shows, as the user would. */
+async function consent(authorizationUrl: URL, ownerToken: string, decision = 'approve'): Promise<Response> {
+  const page = await fetch(authorizationUrl);
+  expect(page.status).toBe(200);
+  const html = await page.text();
+  const form = new URLSearchParams();
+  for (const [, name, value] of html.matchAll(/<input type="hidden" name="([^"]+)" value="([^"]*)">/g)) {
+    form.set(name, value.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code))));
+  }
+  form.set('owner_token', ownerToken);
+  form.set('decision', decision);
+  return fetch(new URL('/authorize', authorizationUrl), {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    body: form,
+    redirect: 'manual',
+  });
+}
+
+/** Runs the whole authorization code flow for `client` and returns its tokens. */
+async function authorize(client: OAuthClientInformationFull, url = baseUrl, scope?: string): Promise<OAuthTokens> {
+  const resource = new URL(`${url}/mcp`);
+  const metadata = await metadataOf(url);
+  const { authorizationUrl, codeVerifier } = await startAuthorization(url, {
+    metadata, clientInformation: client, redirectUrl: REDIRECT, state: 'xyz', resource, scope,
+  });
+  const approved = await consent(authorizationUrl, TOKEN);
+  expect(approved.status).toBe(302);
+  const callback = new URL(approved.headers.get('location') as string);
+  expect(callback.origin + callback.pathname).toBe(REDIRECT);
+  expect(callback.searchParams.get('state')).toBe('xyz');
+  return exchangeAuthorization(url, {
+    metadata,
+    clientInformation: client,
+    authorizationCode: callback.searchParams.get('code') as string,
+    codeVerifier,
+    redirectUri: REDIRECT,
+    resource,
+  });
+}
+
+/** Status of an initialize request to /mcp with `accessToken`. */
+async function mcpStatus(accessToken: string, url = baseUrl): Promise<number> {
+  const res = await fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0', id: 1, method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'oauth-test', version: '1.0.0' } },
+    }),
+  });
+  await res.text();
+  return res.status;
+}
+
+/** Names of the tools an MCP session opened with `accessToken` offers. */
+async function toolNames(accessToken: string): Promise<string[]> {
+  const client = new Client({ name: 'oauth-test', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+    requestInit: { headers: { authorization: `Bearer ${accessToken}` } },
+  }));
+  try {
+    return (await client.listTools()).tools.map((tool) => tool.name);
+  } finally {
+    await client.close();
+  }
+}
+
+function form(url: string, body: Record<string, string>): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(body),
+  });
+}
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'omnifocus-oauth-'));
+  ({ server: httpServer, url: baseUrl } = await listen());
+  metadata = (await discoverAuthorizationServerMetadata(baseUrl)) as AuthorizationServerMetadata;
+});
+
+afterAll(async () => {
+  await stop(httpServer);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('discovery', () => {
+  it('points unauthenticated MCP requests at the protected resource metadata', async () => {
+    const res = await fetch(`${baseUrl}/mcp`, { method: 'POST' });
+    expect(res.status).toBe(401);
+    const resourceMetadataUrl = extractResourceMetadataUrl(res);
+    expect(resourceMetadataUrl?.toString()).toBe(`${baseUrl}/.well-known/oauth-protected-resource/mcp`);
+
+    const resource = await discoverOAuthProtectedResourceMetadata(`${baseUrl}/mcp`, { resourceMetadataUrl });
+    expect(resource).toMatchObject({ resource: `${baseUrl}/mcp`, authorization_servers: [baseUrl] });
+  });
+
+  it('publishes authorization server metadata', () => {
+    expect(metadata).toMatchObject({
+      issuer: baseUrl,
+      authorization_endpoint: `${baseUrl}/authorize`,
+      token_endpoint: `${baseUrl}/token`,
+      registration_endpoint: `${baseUrl}/register`,
+      revocation_endpoint: `${baseUrl}/revoke`,
+      code_challenge_methods_supported: ['S256'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      scopes_supported: ['read', 'write', 'delete'],
+    });
+  });
+
+  it('uses the configured public URL', async () => {
+    const { server, url } = await listen({ publicUrl: 'https://omnifocus.example.com/' });
+    try {
+      const res = await fetch(`${url}/.well-known/oauth-authorization-server`);
+      expect(await res.json()).toMatchObject({ issuer: 'https://omnifocus.example.com', token_endpoint: 'https://omnifocus.example.com/token' });
+    } finally {
+      await stop(server);
+    }
+  });
+});
+
+describe('dynamic client registration', () => {
+  it('registers public clients without a secret and confidential ones with one', async () => {
+    const publicClient = await register();
+    expect(publicClient.client_id).toBeTruthy();
+    expect(publicClient.client_secret).toBeUndefined();
+
+    const confidential = await register(baseUrl, { token_endpoint_auth_method: 'client_secret_post' });
+    expect(confidential.client_secret).toBeTruthy();
+  });
+
+  it('rejects redirect URIs that would send codes over plain HTTP', async () => {
+    const res = await fetch(`${baseUrl}/register`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: ['http://evil.example.com/callback'] }),
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: 'invalid_redirect_uri' });
+  });
+
+  it('limits registrations per IP', async () => {
+    const { server, url } = await listen({}, { registerPerMinute: 2 });
+    try {
+      await register(url);
+      await register(url);
+      const res = await fetch(`${url}/register`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ redirect_uris: [REDIRECT] }),
+      });
+      expect(res.status).toBe(429);
+      expect(res.headers.get('retry-after')).toBeTruthy();
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('keeps at most 100 clients and forgets those not approved within an hour', async () => {
+    const { server, url } = await listen();
+    try {
+      const approved = await register(url);
+      const tokens = await authorize(approved, url);
+      for (let i = 1; i < 100; i++) await register(url);
+      await expect(register(url)).rejects.toThrow(/too many registered clients/i);
+
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now + 60 * 60_000);
+      await register(url);
+      // The approved client survives, and its refresh token still works.
+      const refreshed = await refreshAuthorization(url, { metadata: await metadataOf(url), clientInformation: approved, refreshToken: tokens.refresh_token as string });
+      expect(refreshed.access_token).toBeTruthy();
+    } finally {
+      vi.restoreAllMocks();
+      await stop(server);
+    }
+  });
+});
+
+describe('authorization code flow', () => {
+  it('issues tokens that open an MCP session, and rotates refresh tokens', async () => {
+    const client = await register();
+    const tokens = await authorize(client);
+    expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 3600 });
+    expect(await mcpStatus(tokens.access_token)).toBe(200);
+
+    const refreshed = await refreshAuthorization(baseUrl, { metadata, clientInformation: client, refreshToken: tokens.refresh_token as string });
+    expect(await mcpStatus(refreshed.access_token)).toBe(200);
+    await expect(refreshAuthorization(baseUrl, { metadata, clientInformation: client, refreshToken: tokens.refresh_token as string }))
+      .rejects.toThrow(/refresh token/i);
+  });
+
+  it('revokes the grant when a rotated-out refresh token is presented again', async () => {
+    const client = await register();
+    const tokens = await authorize(client);
+    const refreshed = await refreshAuthorization(baseUrl, { metadata, clientInformation: client, refreshToken: tokens.refresh_token as string });
+
+    // Whoever copied the first refresh token replays it after the client rotated it.
+    await expect(refreshAuthorization(baseUrl, { metadata, clientInformation: client, refreshToken: tokens.refresh_token as string }))
+      .rejects.toThrow(/refresh token/i);
+    expect(await mcpStatus(refreshed.access_token)).toBe(401);
+    await expect(refreshAuthorization(baseUrl, { metadata, clientInformation: client, refreshToken: refreshed.refresh_token as string }))
+      .rejects.toThrow(/refresh token/i);
+  });
+
+  it('shows who is asking on the consent page and needs the owner token to approve', async () => {
+    const client = await register();
+    const { authorizationUrl } = await startAuthorization(baseUrl, { metadata, clientInformation: client, redirectUrl: REDIRECT });
+    const page = await fetch(authorizationUrl);
+    expect(page.headers.get('x-frame-options')).toBe('DENY');
+    expect(await page.text()).toContain('<strong>Test connector</strong>');
+
+    const rejected = await consent(authorizationUrl, 'not-the-owner');
+    expect(rejected.status).toBe(401);
+    expect(await rejected.text()).toContain('not this server&#39;s auth token');
+  });
+
+  it('sends the client access_denied when the owner denies', async () => {
+    const client = await register();
+    const { authorizationUrl } = await startAuthorization(baseUrl, { metadata, clientInformation: client, redirectUrl: REDIRECT, state: 's1' });
+    const denied = await consent(authorizationUrl, '', 'deny');
+    const callback = new URL(denied.headers.get('location') as string);
+    expect(Object.fromEntries(callback.searchParams)).toEqual({ error: 'access_denied', state: 's1' });
+  });
+
+  it('refuses to redirect to an unregistered URI', async () => {
+    const client = await register();
+    const res = await fetch(`${baseUrl}/authorize?response_type=code&client_id=${client.client_id}&redirect_uri=${encodeURIComponent('https://evil.example.com/')}&code_challenge=x&code_challenge_method=S256`, { redirect: 'manual' });
+    expect(res.status).toBe(400);
+    expect(res.headers.get('location')).toBeNull();
+  });
+
+  it('rejects a wrong PKCE verifier and a reused code', async () => {
+    const client = await register();
+    const { authorizationUrl, codeVerifier } = await startAuthorization(baseUrl, { metadata, clientInformation: client, redirectUrl: REDIRECT });
+    const code = new URL((await consent(authorizationUrl, TOKEN)).headers.get('location') as string).searchParams.get('code') as string;
+
+    const exchange = (verifier: string) => form(`${baseUrl}/token`, {
+      grant_type: 'authorization_code', code, code_verifier: verifier, redirect_uri: REDIRECT, client_id: client.client_id,
+    });
+    const wrong = await exchange(`${codeVerifier}-tampered`);
+    expect(wrong.status).toBe(400);
+    expect(await wrong.json()).toMatchObject({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    // The failed attempt used the code up.
+    expect(await (await exchange(codeVerifier)).json()).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  it('authenticates confidential clients at the token endpoint', async () => {
+    const client = await register(baseUrl, { token_endpoint_auth_method: 'client_secret_post' });
+    const res = await form(`${baseUrl}/token`, { grant_type: 'refresh_token', refresh_token: 'x', client_id: client.client_id, client_secret: 'wrong' });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: 'invalid_client' });
+
+    expect(await mcpStatus((await authorize(client)).access_token)).toBe(200);
+  });
+
+  it('answers invalid_client to Basic credentials that are not valid percent-encoding', async () => {
+    const client = await register(baseUrl, { token_endpoint_auth_method: 'client_secret_basic' });
+    const res = await fetch(`${baseUrl}/token`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+        authorization: `Basic ${Buffer.from(`${client.client_id}:%E0`).toString('base64')}`,
+      },
+      body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: 'x' }),
+    });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: 'invalid_client' });
+  });
+});
+
+describe('scopes', () => {
+  it('limits a client that asked for scopes to the tools of those scopes', async () => {
+    const client = await register();
+    const { authorizationUrl } = await startAuthorization(baseUrl, { metadata, clientInformation: client, redirectUrl: REDIRECT, scope: 'read' });
+    expect(await (await fetch(authorizationUrl)).text()).toContain('wants to read your OmniFocus');
+
+    const readOnly = await toolNames((await authorize(client, baseUrl, 'read')).access_token);
+    expect(readOnly).toContain('omnifocus_list_inbox');
+    expect(readOnly).not.toContain('omnifocus_create_task');
+    expect(readOnly).not.toContain('omnifocus_delete_task');
+
+    const everything = await toolNames((await authorize(client)).access_token);
+    expect(everything).toContain('omnifocus_create_task');
+    expect(everything).toContain('omnifocus_delete_task');
+  });
+
+  it('sends the client invalid_scope for a scope it does not know', async () => {
+    const client = await register();
+    const { authorizationUrl } = await startAuthorization(baseUrl, { metadata, clientInformation: client, redirectUrl: REDIRECT, scope: 'read admin' });
+    const res = await fetch(authorizationUrl, { redirect: 'manual' });
+    expect(res.status).toBe(302);
+    expect(new URL(res.headers.get('location') as string).searchParams.get('error')).toBe('invalid_scope');
+  });
+});
+
+describe('revocation', () => {
+  it('lets a client revoke its refresh token, which ends its access tokens too', async () => {
+    const client = await register();
+    const tokens = await authorize(client);
+    const res = await form(`${baseUrl}/revoke`, { token: tokens.refresh_token as string, client_id: client.client_id });
+    expect(res.status).toBe(200);
+    expect(await mcpStatus(tokens.access_token)).toBe(401);
+  });
+
+  it('lets the owner list grants and revoke one without touching the others', async () => {
+    const kept = await authorize(await register());
+    const revoked = await authorize(await register(baseUrl, { client_name: 'Old laptop' }));
+    const owner = { authorization: `Bearer ${TOKEN}` };
+
+    expect((await fetch(`${baseUrl}/oauth/grants`)).status).toBe(401);
+    const { grants } = (await (await fetch(`${baseUrl}/oauth/grants`, { headers: owner })).json()) as {
+      grants: Array<{ id: string; clientName: string }>;
+    };
+    const grant = grants.find((g) => g.clientName === 'Old laptop');
+    expect(grant).toBeDefined();
+
+    const res = await fetch(`${baseUrl}/oauth/grants/${grant?.id}`, { method: 'DELETE', headers: owner });
+    expect(res.status).toBe(204);
+    expect(await mcpStatus(revoked.access_token)).toBe(401);
+    expect(await mcpStatus(kept.access_token)).toBe(200);
+  });
+});
+
+describe('persistence', () => {
+  it('keeps clients and grants in the state file across restarts', async () => {
+    const stateFile = join(dir, 'oauth.json');
+    const first = await listen({ stateFile });
+    let tokens: OAuthTokens;
+    try {
+      tokens = await authorize(await register(first.url), first.url);
+    } finally {
+      await stop(first.server);
+    }
+    expect(statSync(stateFile).mode & 0o777).toBe(0o600);
+
+    const second = await listen({ stateFile, publicUrl: first.url });
+    try {
+      expect(await mcpStatus(tokens.access_token, second.url)).toBe(200);
+    } finally {
+      await stop(second.server);
+    }
+  });
+
+  it('refuses to start with a state file it cannot use', async () => {
+    const stateFile = join(dir, 'corrupt.json');
+    writeFileSync(stateFile, '{"clients":{},"grants":[]');
+    await expect(listen({ stateFile })).rejects.toThrow(`Cannot read OAuth state file ${stateFile}`);
+    writeFileSync(stateFile, JSON.stringify({ clients: {}, grants: { g1: { id: 'g1' } }, accessTokens: {} }));
+    await expect(listen({ stateFile })).rejects.toThrow(`Invalid OAuth state file ${stateFile}: grants.g1.clientId: Required`);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for the Host and Origin checks of the HTTP transport.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyOrigin, corsPreflightHeaders, isAllowedHost, LOOPBACK_HOSTS } from '../origin.js';
+
+describe('isAllowedHost', () => {
+  it('matches host names on any port and host:port entries on theirs', () => {
+    const allowed = [...LOOPBACK_HOSTS, 'omnifocus.example.com', 'lan.example.com:3000'];
+    expect(isAllowedHost('localhost:3000', allowed)).toBe(true);
+    expect(isAllowedHost('[::1]:3000', allowed)).toBe(true);
+    expect(isAllowedHost('OMNIFOCUS.example.com', allowed)).toBe(true);
+    expect(isAllowedHost('lan.example.com:3000', allowed)).toBe(true);
+    expect(isAllowedHost('lan.example.com:4000', allowed)).toBe(false);
+    expect(isAllowedHost('localhost.attacker.example', allowed)).toBe(false);
+    expect(isAllowedHost(undefined, allowed)).toBe(false);
+    expect(isAllowedHost('anything', ['*'])).toBe(true);
+  });
+});
+
+describe('classifyOrigin', () => {
+  const approved = ['https://app.example.com/'];
+
+  it('tells apart non-browser, same-origin, approved and foreign requests', () => {
+    expect(classifyOrigin(undefined, 'localhost:3000', approved)).toBe('none');
+    expect(classifyOrigin('http://localhost:3000', 'localhost:3000', approved)).toBe('same');
+    expect(classifyOrigin('https://app.example.com', 'localhost:3000', approved)).toBe('cors');
+    expect(classifyOrigin('https://app.example.com.evil.test', 'localhost:3000', approved)).toBe('forbidden');
+    expect(classifyOrigin('null', 'localhost:3000', approved)).toBe('forbidden');
+  });
+
+  it('approves every origin with *', () => {
+    expect(classifyOrigin('https://anywhere.example', 'localhost:3000', ['*'])).toBe('cors');
+  });
+});
+
+describe('corsPreflightHeaders', () => {
+  it('echoes the origin and allows the MCP headers', () => {
+    expect(corsPreflightHeaders('https://app.example.com')).toMatchObject({
+      'access-control-allow-origin': 'https://app.example.com',
+      'access-control-allow-methods': 'GET, POST, DELETE, OPTIONS',
+      vary: 'Origin',
+    });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Unit tests for the persistent osascript worker backend.
+ *
+ * child_process.spawn is mocked with a fake child process that speaks the
+ * worker's line protocol, so no osascript / OmniFocus is ever invoked. These
+ * cover request/response matching, reuse of one process, restart after a
+ * crash, health checks and the executor's lifecycle helpers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+
+vi.mock('child_process', () => ({
+  spawn: vi.fn(),
+  exec: vi.fn(),
+}));
+
+import { spawn } from 'child_process';
+import { OsascriptWorker, OsascriptWorkerBackend, WORKER_SCRIPT } from '../backends/osascript-worker.js';
+import { setBackend } from '../backend.js';
+import { checkExecutorHealth, executeOmniFocusScript, shutdownExecutor } from '../executor.js';
+
+interface WorkerRequest {
+  id: number;
+  script?: string;
+  params?: Record<string, unknown>;
+  ping?: boolean;
+}
+
+/** Decides how the fake worker answers a request; undefined means never. */
+type Responder = (request: WorkerRequest, child: FakeChild) => Record<string, unknown> | undefined;
+
+class FakeChild extends EventEmitter {
+  stdin = new PassThrough();
+  stdout = new PassThrough();
+  stderr = new PassThrough();
+  requests: WorkerRequest[] = [];
+  killed = false;
+
+  constructor(respond: Responder) {
+    super();
+    let buffer = '';
+    this.stdin.setEncoding('utf8');
+    this.stdin.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const request = JSON.parse(buffer.slice(0, newline)) as WorkerRequest;
+        buffer = buffer.slice(newline + 1);
+        this.requests.push(request);
+        const response = respond(request, this);
+        if (response) this.stdout.write(JSON.stringify({ id: request.id, ...response }) + '\n');
+      }
+    });
+  }
+
+  kill(): boolean {
+    this.crash(null, 'SIGTERM');
+    return true;
+  }
+
+  crash(code: number | null, signal: string | null = null): void {
+    if (this.killed) return;
+    this.killed = true;
+    this.emit('exit', code, signal);
+  }
+}
+
+const echo: Responder = (request) =>
+  request.ping ? { ok: true, result: 'pong' } : { ok: true, result: JSON.stringify(request.params) };
+
+let children: FakeChild[];
+
+function onSpawn(respond: Responder) {
+  vi.mocked(spawn).mockImplementation((() => {
+    const child = new FakeChild(respond);
+    children.push(child);
+    return child;
+  }) as never);
+}
+
+let backend: OsascriptWorkerBackend;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  children = [];
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  backend = new OsascriptWorkerBackend({ healthCheckIntervalMs: 0, healthCheckTimeoutMs: 50 });
+});
+
+afterEach(async () => {
+  await backend.close();
+  setBackend(null);
+  vi.mocked(console.error).mockRestore();
+});
+
+describe('OsascriptWorkerBackend', () => {
+  it('starts one osascript process running the REPL script', async () => {
+    onSpawn(echo);
+
+    await backend.run('x', {});
+
+    expect(spawn).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(spawn).mock.calls[0][0]).toBe('osascript');
+    expect(vi.mocked(spawn).mock.calls[0][1]).toEqual(['-l', 'JavaScript', '-e', WORKER_SCRIPT]);
+  });
+
+  it('reuses the same process for consecutive calls', async () => {
+    onSpawn(echo);
+
+    await backend.run('a', {});
+    await backend.run('b', {});
+    await backend.run('c', {});
+
+    expect(spawn).toHaveBeenCalledTimes(1);
+    expect(children[0].requests.map(r => r.script)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('runs concurrent calls on separate workers and keeps them for reuse', async () => {
+    onSpawn((request, child) => {
+      setTimeout(() => child.stdout.write(JSON.stringify({ id: request.id, ...echo(request, child) }) + '\n'), 5);
+      return undefined;
+    });
+
+    await Promise.all([backend.run('a', {}), backend.run('b', {})]);
+    await Promise.all([backend.run('c', {}), backend.run('d', {})]);
+
+    expect(spawn).toHaveBeenCalledTimes(2);
+    expect(backend.size).toBe(2);
+  });
+
+  it('sends params as data alongside the script', async () => {
+    onSpawn(echo);
+
+    const result = await backend.run('return params.name;', { name: 'Say "hi" ${evil}' });
+
+    expect(children[0].requests[0]).toMatchObject({ script: 'return params.name;', params: { name: 'Say "hi" ${evil}' } });
+    expect(JSON.parse(result)).toEqual({ name: 'Say "hi" ${evil}' });
+  });
+
+  it('matches responses to calls by id, whatever order they arrive in', async () => {
+    const held: WorkerRequest[] = [];
+    onSpawn((request, child) => {
+      held.push(request);
+      if (held.length === 2) {
+        for (const r of [...held].reverse()) child.stdout.write(JSON.stringify({ id: r.id, ok: true, result: r.script }) + '\n');
+      }
+      return undefined;
+    });
+    const worker = new OsascriptWorker(() => {});
+
+    const results = await Promise.all([worker.run('first', {}), worker.run('second', {})]);
+    worker.close();
+
+    expect(results).toEqual(['first', 'second']);
+  });
+
+  it('reassembles responses split across stdout chunks', async () => {
+    onSpawn((request, child) => {
+      const line = JSON.stringify({ id: request.id, ok: true, result: 'ünïcode ✓' }) + '\n';
+      child.stdout.write(line.slice(0, 10));
+      setTimeout(() => child.stdout.write(line.slice(10)), 5);
+      return undefined;
+    });
+
+    await expect(backend.run('x', {})).resolves.toBe('ünïcode ✓');
+  });
+
+  it('rejects script errors in osascript\'s stderr shape', async () => {
+    onSpawn(() => ({ ok: false, error: "Error: Can't get object. (-1728)" }));
+
+    await expect(backend.run('x', {})).rejects.toThrow("execution error: Error: Can't get object. (-1728)");
+  });
+
+  it('rejects pending calls when the worker crashes and starts a new one on the next call', async () => {
+    onSpawn((request, child) => {
+      if (request.script === 'crash') {
+        child.stderr.write('osascript: fatal');
+        setTimeout(() => child.crash(1), 5);
+        return undefined;
+      }
+      return { ok: true, result: 'ok' };
+    });
+
+    await expect(backend.run('crash', {})).rejects.toThrow('osascript worker exited (code 1: osascript: fatal)');
+    await expect(backend.run('after', {})).resolves.toBe('ok');
+
+    expect(spawn).toHaveBeenCalledTimes(2);
+    expect(backend.starts).toBe(2);
+  });
+
+  it('treats output that is not a response as a broken worker', async () => {
+    onSpawn((request, child) => {
+      child.stdout.write('garbage\n');
+      return undefined;
+    });
+
+    await expect(backend.run('x', {})).rejects.toThrow('unexpected output: garbage');
+    expect(children[0].killed).toBe(true);
+  });
+
+  it('kills the worker running an aborted call; the next call starts a new one', async () => {
+    onSpawn((request, child) => (request.script === 'hang' ? undefined : echo(request, child)));
+    const controller = new AbortController();
+
+    const hanging = backend.run('hang', {}, controller.signal);
+    controller.abort();
+
+    await expect(hanging).rejects.toThrow('osascript worker exited (aborted)');
+    expect(children[0].killed).toBe(true);
+    await expect(backend.run('next', {})).resolves.toBe('{}');
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves other workers alone when a call is aborted', async () => {
+    onSpawn((request, child) => (request.script === 'hang' ? undefined : echo(request, child)));
+    const controller = new AbortController();
+    const slow = new OsascriptWorkerBackend({ healthCheckIntervalMs: 0 });
+
+    const hanging = slow.run('hang', {}, controller.signal);
+    const other = slow.run('other', {});
+    controller.abort();
+
+    await expect(hanging).rejects.toThrow('aborted');
+    await expect(other).resolves.toBe('{}');
+    expect(children[1].killed).toBe(false);
+    await slow.close();
+  });
+
+  it('reports a healthy worker that answers pings', async () => {
+    onSpawn(echo);
+
+    await expect(backend.healthCheck()).resolves.toBe(true);
+    expect(children[0].requests[0].ping).toBe(true);
+  });
+
+  it('replaces a worker that stops answering pings', async () => {
+    onSpawn((request, child) => (child === children[0] ? undefined : echo(request, child)));
+
+    await expect(backend.healthCheck()).resolves.toBe(false);
+    expect(children[0].killed).toBe(true);
+
+    await expect(backend.healthCheck()).resolves.toBe(true);
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not ping a worker that is busy running a script', async () => {
+    onSpawn(() => undefined);
+
+    const running = backend.run('slow', {});
+    await expect(backend.healthCheck()).resolves.toBe(true);
+    expect(children[0].requests).toHaveLength(1);
+
+    await backend.close();
+    await expect(running).rejects.toThrow('osascript worker exited (closed)');
+  });
+
+  it('pings an idle worker on the configured interval', async () => {
+    vi.useFakeTimers();
+    try {
+      onSpawn(echo);
+      const checked = new OsascriptWorkerBackend({ healthCheckIntervalMs: 1000 });
+      await checked.run('x', {});
+
+      await vi.advanceTimersByTimeAsync(2500);
+
+      expect(children[0].requests.filter(r => r.ping)).toHaveLength(2);
+      await checked.close();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('executor lifecycle', () => {
+  it('checkExecutorHealth delegates to the active backend', async () => {
+    onSpawn(echo);
+    setBackend(backend);
+
+    await expect(checkExecutorHealth()).resolves.toBe(true);
+    expect(children[0].requests[0].ping).toBe(true);
+  });
+
+  it('shutdownExecutor stops the worker; the next call starts a new one', async () => {
+    onSpawn(echo);
+    setBackend(backend);
+
+    await executeOmniFocusScript('x', {});
+    await shutdownExecutor();
+    expect(children[0].killed).toBe(true);
+
+    await executeOmniFocusScript('y', {});
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+});
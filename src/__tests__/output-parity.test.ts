@@ -0,0 +1,213 @@
+/**
+ * Output-drift guard.
+ *
+ * Every tool declares an output schema from outputs.ts and returns matching
+ * structuredContent next to its text. This test checks that (a) each
+ * registerTool() block names an output schema, and (b) calling every tool
+ * against the fake backend returns structuredContent that the strict schema
+ * accepts and that carries the same data as the JSON in the text block.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import type { ZodTypeAny } from 'zod';
+import * as outputs from '../outputs.js';
+import { setBackend } from '../backend.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { configureJournal, journalConfigFromEnv } from '../journal.js';
+import { connectClient, useFakeBackend, type TestClient } from './harness.js';
+
+const TOOL_FILES = ['tasks', 'projects', 'folders', 'tags', 'reviews', 'perspectives', 'search', 'diagnostics', 'journal'];
+
+/** Tool name to the name of the output schema its registerTool() block declares. */
+function collectOutputSchemas(): Map<string, string | null> {
+  const declared = new Map<string, string | null>();
+  for (const file of TOOL_FILES) {
+    const src = readFileSync(new URL(`../tools/${file}.ts`, import.meta.url), 'utf8');
+    for (const raw of src.split('server.registerTool(').slice(1)) {
+      const name = raw.match(/^\s*"(\w+)"/)?.[1];
+      if (!name) continue;
+      declared.set(name, raw.match(/outputSchema:\s*(\w+OutputSchema)/)?.[1] ?? null);
+    }
+  }
+  return declared;
+}
+
+const declared = collectOutputSchemas();
+const schemas = outputs as unknown as Record<string, ZodTypeAny | undefined>;
+
+interface Seed {
+  work: string;
+  budget: string;
+  errand: string;
+  capture: string;
+  draft: string;
+}
+
+interface Case {
+  tool: string;
+  args: (seed: Seed) => Record<string, unknown>;
+  /** What the JSON in the text block holds, when it is not the whole output. */
+  textData?: (output: Record<string, unknown>) => unknown;
+}
+
+const tomorrow = () => new Date(Date.now() + 86_400_000);
+
+/** One call per tool against the seeded store; each runs on a fresh store. */
+const CASES: Case[] = [
+  { tool: 'omnifocus_list_inbox', args: () => ({}) },
+  { tool: 'omnifocus_create_task', args: () => ({ name: 'Call bank', projectName: 'Budget', tagNames: ['Errand'] }) },
+  { tool: 'omnifocus_complete_task', args: ({ capture }) => ({ taskId: capture }) },
+  { tool: 'omnifocus_update_task', args: ({ draft }) => ({ taskId: draft, flagged: true, estimatedMinutes: 30 }) },
+  { tool: 'omnifocus_delete_task', args: ({ capture }) => ({ taskId: capture }) },
+  { tool: 'omnifocus_batch_complete_task', args: ({ capture, draft }) => ({ taskIds: [capture, draft, 'missing'] }) },
+  { tool: 'omnifocus_update_task_note', args: ({ draft }) => ({ taskId: draft, note: 'More', append: true }) },
+  { tool: 'omnifocus_get_due_tasks', args: () => ({ daysAhead: 3 }) },
+  { tool: 'omnifocus_get_flagged_tasks', args: () => ({}) },
+  { tool: 'omnifocus_get_planned_tasks', args: () => ({ daysAhead: 3 }) },
+  { tool: 'omnifocus_list_projects', args: () => ({}) },
+  { tool: 'omnifocus_get_project_tasks', args: ({ budget }) => ({ projectId: budget }) },
+  { tool: 'omnifocus_create_project', args: () => ({ name: 'Garden', folderName: 'Work', sequential: true }) },
+  { tool: 'omnifocus_update_project', args: ({ budget }) => ({ projectId: budget, status: 'on hold' }) },
+  { tool: 'omnifocus_delete_project', args: ({ budget }) => ({ projectId: budget }) },
+  { tool: 'omnifocus_update_project_note', args: ({ budget }) => ({ projectId: budget, note: 'Q3' }) },
+  { tool: 'omnifocus_list_folders', args: () => ({}) },
+  { tool: 'omnifocus_create_folder', args: () => ({ name: 'Clients', parentFolderName: 'Work' }) },
+  { tool: 'omnifocus_update_folder', args: ({ work }) => ({ folderId: work, name: 'Job' }) },
+  { tool: 'omnifocus_delete_folder', args: ({ work }) => ({ folderId: work }) },
+  { tool: 'omnifocus_list_tags', args: () => ({}) },
+  { tool: 'omnifocus_add_tag_to_task', args: ({ draft }) => ({ taskId: draft, tagName: 'Errand' }) },
+  { tool: 'omnifocus_remove_tag_from_task', args: ({ capture }) => ({ taskId: capture, tagName: 'Errand' }) },
+  { tool: 'omnifocus_batch_add_tag', args: ({ capture, draft }) => ({ taskIds: [capture, draft], tagName: 'Errand' }) },
+  { tool: 'omnifocus_batch_remove_tag', args: ({ capture, draft }) => ({ taskIds: [capture, draft], tagName: 'Errand' }) },
+  { tool: 'omnifocus_get_projects_for_review', args: () => ({ daysAhead: 7 }) },
+  { tool: 'omnifocus_mark_project_reviewed', args: ({ budget }) => ({ projectId: budget }) },
+  { tool: 'omnifocus_batch_mark_reviewed', args: ({ budget }) => ({ projectIds: [budget, 'missing'] }) },
+  { tool: 'omnifocus_list_perspectives', args: () => ({}) },
+  { tool: 'omnifocus_get_perspective_tasks', args: () => ({ perspectiveName: 'Inbox' }) },
+  { tool: 'omnifocus_search', args: () => ({ query: 'a' }) },
+  { tool: 'omnifocus_suggest_names', args: () => ({ query: 'w' }) },
+  { tool: 'omnifocus_get_metrics', args: () => ({ format: 'json' }), textData: (output) => output.metrics },
+  { tool: 'omnifocus_list_recent_changes', args: () => ({}) },
+];
+
+let store: FakeStore;
+let client: TestClient;
+let seed: Seed;
+
+beforeEach(async () => {
+  configureJournal({ enabled: true, file: null, maxEntries: 1000 });
+  store = new FakeStore();
+  useFakeBackend(store);
+  const work = store.addFolder({ name: 'Work' });
+  const budget = store.addProject({ name: 'Budget', folderId: work.id, nextReviewDate: tomorrow() });
+  const errand = store.addTag({ name: 'Errand' });
+  const capture = store.addTask({ name: 'Capture', flagged: true, dueDate: tomorrow(), plannedDate: tomorrow(), tagIds: [errand.id] });
+  const draft = store.addTask({ name: 'Draft', projectId: budget.id });
+  seed = { work: work.id, budget: budget.id, errand: errand.id, capture: capture.id, draft: draft.id };
+  client = await connectClient('output-parity-test-client');
+});
+
+afterEach(async () => {
+  await client.close();
+  setBackend(null);
+  configureJournal(journalConfigFromEnv({}));
+});
+
+interface ToolOutcome {
+  text: string;
+  output: Record<string, unknown>;
+}
+
+async function call(name: string, args: Record<string, unknown>): Promise<ToolOutcome> {
+  const result = (await client.callTool({ name, arguments: args })) as {
+    isError?: boolean;
+    content: Array<{ text: string }>;
+    structuredContent?: Record<string, unknown>;
+  };
+  expect(result.isError === true, result.content[0].text).toBe(false);
+  expect(result.structuredContent, `${name} returned no structuredContent`).toBeDefined();
+  return { text: result.content[0].text, output: result.structuredContent! };
+}
+
+/** The JSON in a text block: the whole text, or what follows a summary line. */
+function textJson(text: string): unknown {
+  if (text.startsWith('{') || text.startsWith('[')) return JSON.parse(text);
+  const start = text.search(/:\n[{[]/);
+  return start === -1 ? undefined : JSON.parse(text.slice(start + 2));
+}
+
+function expectParity(tool: string, outcome: ToolOutcome, schema: ZodTypeAny, textData = (o: Record<string, unknown>): unknown => o): void {
+  const parsed = schema.safeParse(outcome.output);
+  expect(parsed.success, `${tool}: ${parsed.success ? '' : parsed.error.message}`).toBe(true);
+  const json = textJson(outcome.text);
+  if (json !== undefined) expect(json).toEqual(textData(outcome.output));
+}
+
+describe('output schemas are declared', () => {
+  it('discovers every registered tool', () => {
+    // Guard against the parser silently matching nothing.
+    expect(declared.size).toBeGreaterThanOrEqual(35);
+  });
+
+  for (const [tool, schemaName] of declared) {
+    it(`${tool}: declares an output schema from outputs.ts`, () => {
+      expect(schemaName, 'no outputSchema in its registerTool() block').not.toBeNull();
+      expect(schemas[schemaName!], `${schemaName} is not exported by outputs.ts`).toBeDefined();
+    });
+  }
+
+  it('advertises an object output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name).sort()).toEqual([...declared.keys()].sort());
+    for (const tool of tools) expect(tool.outputSchema?.type, tool.name).toBe('object');
+  });
+});
+
+describe('structuredContent matches the output schema and the text', () => {
+  it('covers every tool', () => {
+    expect(CASES.map((c) => c.tool).concat('omnifocus_undo_change').sort()).toEqual([...declared.keys()].sort());
+  });
+
+  for (const { tool, args, textData } of CASES) {
+    it(tool, async () => {
+      expectParity(tool, await call(tool, args(seed)), schemas[declared.get(tool)!]!, textData);
+    });
+  }
+
+  it('omnifocus_undo_change', async () => {
+    await call('omnifocus_update_task', { taskId: seed.draft, name: 'Redraft' });
+    const { output } = await call('omnifocus_list_recent_changes', { limit: 1 });
+    const [latest] = output.changes as Array<{ id: string }>;
+    expectParity('omnifocus_undo_change', await call('omnifocus_undo_change', { changeId: latest.id }), outputs.UndoOutputSchema);
+  });
+
+  it('empty results', async () => {
+    const empty: Array<[string, Record<string, unknown>]> = [
+      ['omnifocus_list_inbox', { includeCompleted: false }],
+      ['omnifocus_get_flagged_tasks', {}],
+      ['omnifocus_get_due_tasks', { daysAhead: 0, includeOverdue: false }],
+      ['omnifocus_get_perspective_tasks', { perspectiveName: 'Review' }],
+      ['omnifocus_search', { query: 'nothing like it' }],
+      ['omnifocus_suggest_names', { query: 'nothing like it' }],
+    ];
+    store.getTask(seed.capture).completed = true;
+    store.getTask(seed.draft).completed = true;
+    for (const [tool, args] of empty) {
+      expectParity(tool, await call(tool, args), schemas[declared.get(tool)!]!);
+    }
+  });
+
+  it('dry runs', async () => {
+    const dryRuns: Array<[string, Record<string, unknown>]> = [
+      ['omnifocus_create_task', { name: 'Call bank' }],
+      ['omnifocus_update_project', { projectId: seed.budget, flagged: true }],
+      ['omnifocus_batch_complete_task', { taskIds: [seed.capture, 'missing'] }],
+      ['omnifocus_delete_folder', { folderId: seed.work }],
+    ];
+    for (const [tool, args] of dryRuns) {
+      const outcome = await call(tool, { ...args, dryRun: true });
+      expect(outcome.output.dryRun).toBe(true);
+      expectParity(tool, outcome, outputs.DryRunOutputSchema);
+    }
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for the GTD workflow prompts: their arguments, and the OmniFocus data
+ * they embed from the fake backend, through a real MCP client-server
+ * connection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setBackend } from '../backend.js';
+import type { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { OmniFocusNotRunningError } from '../errors.js';
+import { connectClient, useFakeBackend, type TestClient } from './harness.js';
+
+let store: FakeStore;
+let backend: FakeBackend;
+let client: TestClient;
+
+beforeEach(async () => {
+  store = new FakeStore();
+  backend = useFakeBackend(store);
+  client = await connectClient('prompts-test-client');
+});
+
+afterEach(async () => {
+  await client.close();
+  setBackend(null);
+});
+
+/** The text of the prompt's single message. */
+async function prompt(name: string, args: Record<string, string> = {}): Promise<string> {
+  const { messages } = await client.getPrompt({ name, arguments: args });
+  expect(messages).toHaveLength(1);
+  expect(messages[0].role).toBe('user');
+  return (messages[0].content as { text: string }).text;
+}
+
+/** The JSON of the data section titled `title` in `text`. */
+function sectionData<T>(text: string, title: string): T {
+  const start = text.indexOf(`## ${title}\n\n`);
+  expect(start, title).toBeGreaterThanOrEqual(0);
+  const body = text.slice(start + title.length + 5);
+  const end = body.indexOf('\n\n## ');
+  return JSON.parse(end === -1 ? body : body.slice(0, end)) as T;
+}
+
+const inDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(12, 0, 0, 0);
+  return date;
+};
+
+const isoDay = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+describe('prompts/list', () => {
+  it('lists the prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(['weekly_review', 'process_inbox', 'plan_my_day', 'project_kickoff']);
+    const args = Object.fromEntries(prompts.map((p) => [p.name, p.arguments?.map((a) => `${a.name}${a.required ? '*' : ''}`)]));
+    expect(args).toEqual({
+      weekly_review: ['folder'],
+      process_inbox: ['limit'],
+      plan_my_day: ['date', 'energy'],
+      project_kickoff: ['name*', 'outcome', 'folder'],
+    });
+  });
+});
+
+describe('weekly_review', () => {
+  it('embeds the inbox, the projects due for review and the week ahead', async () => {
+    const work = store.addFolder({ name: 'Work' });
+    store.addProject({ name: 'Budget', folderId: work.id, nextReviewDate: inDays(2) });
+    store.addProject({ name: 'Garden', nextReviewDate: inDays(3) });
+    store.addProject({ name: 'Later', nextReviewDate: inDays(30) });
+    store.addTask({ name: 'Capture' });
+    store.addTask({ name: 'Report', dueDate: inDays(4) });
+
+    const text = await prompt('weekly_review');
+    expect(text).toContain('omnifocus_mark_project_reviewed');
+    expect(sectionData<Array<{ name: string }>>(text, 'Inbox').map((t) => t.name)).toEqual(['Capture', 'Report']);
+    expect(sectionData<Array<{ name: string }>>(text, 'Projects due for review in the next 7 days').map((p) => p.name)).toEqual(['Budget', 'Garden']);
+    expect(sectionData<Array<{ name: string }>>(text, 'Tasks due in the next 7 days (and overdue)').map((t) => t.name)).toEqual(['Report']);
+  });
+
+  it('reviews one folder', async () => {
+    const work = store.addFolder({ name: 'Work' });
+    store.addProject({ name: 'Budget', folderId: work.id, nextReviewDate: inDays(2) });
+    store.addProject({ name: 'Garden', nextReviewDate: inDays(3) });
+
+    const text = await prompt('weekly_review', { folder: 'work' });
+    expect(text).toContain('"work" folder');
+    expect(sectionData<Array<{ name: string }>>(text, 'Projects due for review in the next 7 days').map((p) => p.name)).toEqual(['Budget']);
+  });
+});
+
+describe('process_inbox', () => {
+  it('embeds up to `limit` remaining inbox items', async () => {
+    for (const name of ['One', 'Two', 'Three']) store.addTask({ name });
+    store.addTask({ name: 'Done', completed: true });
+
+    const text = await prompt('process_inbox', { limit: '2' });
+    expect(sectionData<Array<{ name: string }>>(text, 'Inbox').map((t) => t.name)).toEqual(['One', 'Two']);
+    await expect(prompt('process_inbox', { limit: '0' })).rejects.toThrow(/Invalid arguments for prompt process_inbox/);
+  });
+});
+
+describe('plan_my_day', () => {
+  it('embeds what is due by the date, with the energy guidance', async () => {
+    store.addTask({ name: 'Late', dueDate: inDays(-1) });
+    store.addTask({ name: 'Soon', dueDate: inDays(1) });
+    store.addTask({ name: 'Later', dueDate: inDays(5) });
+
+    const text = await prompt('plan_my_day', { date: isoDay(inDays(1)), energy: 'low' });
+    expect(text).toContain('My energy is low');
+    expect(sectionData<Array<{ name: string }>>(text, `Tasks due by ${isoDay(inDays(1))} (and overdue)`).map((t) => t.name)).toEqual(['Late', 'Soon']);
+    expect(sectionData<number>(text, 'Inbox count')).toBe(3);
+  });
+
+  it('plans today by default and rejects past or invalid dates', async () => {
+    expect(await prompt('plan_my_day')).toMatch(/^Help me plan today\./);
+    await expect(prompt('plan_my_day', { date: isoDay(inDays(-1)) })).rejects.toThrow(/Date must be between today and 30 days from now/);
+    await expect(prompt('plan_my_day', { date: '2026-02-30' })).rejects.toThrow(/Invalid date: 2026-02-30/);
+    await expect(prompt('plan_my_day', { energy: 'manic' })).rejects.toThrow(/Invalid arguments for prompt plan_my_day/);
+  });
+});
+
+describe('project_kickoff', () => {
+  it('includes the name, outcome and folder, and the deadlines ahead', async () => {
+    store.addTask({ name: 'Report', dueDate: inDays(10) });
+
+    const text = await prompt('project_kickoff', { name: 'Move house', outcome: 'Living in the new flat', folder: 'Home' });
+    expect(text).toContain('"Move house" in the "Home" folder');
+    expect(text).toContain('Living in the new flat');
+    expect(text).toContain('folderName "Home"');
+    expect(sectionData<Array<{ name: string }>>(text, 'Tasks due in the next 14 days (and overdue)').map((t) => t.name)).toEqual(['Report']);
+    await expect(client.getPrompt({ name: 'project_kickoff', arguments: {} })).rejects.toThrow(/Invalid arguments/);
+  });
+});
+
+describe('when OmniFocus cannot be read', () => {
+  it('says so in place of the data', async () => {
+    vi.spyOn(backend, 'run').mockRejectedValue(new OmniFocusNotRunningError());
+    const text = await prompt('process_inbox');
+    expect(text).toMatch(/## Inbox\n\nCould not be read from OmniFocus \(.+\)\. Use the tools to look it up\./);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for the token buckets, failed-authentication lockout and client IP
+ * resolution behind the HTTP transport's abuse protection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AuthLockout, RateLimiter, clientIp } from '../ratelimit.js';
+
+describe('RateLimiter', () => {
+  it('allows a minute of requests at once, then one per refill interval', () => {
+    const limiter = new RateLimiter(60);
+    for (let i = 0; i < 60; i++) expect(limiter.take('a', 0)).toBe(0);
+    expect(limiter.take('a', 0)).toBe(1000);
+    expect(limiter.take('a', 500)).toBe(500);
+    expect(limiter.take('a', 1000)).toBe(0);
+    expect(limiter.take('a', 1000)).toBe(1000);
+  });
+
+  it('keeps a bucket per key and never refills beyond its size', () => {
+    const limiter = new RateLimiter(2);
+    expect([limiter.take('a', 0), limiter.take('a', 0), limiter.take('b', 0)]).toEqual([0, 0, 0]);
+    expect(limiter.take('a', 0)).toBe(30_000);
+    expect([limiter.take('a', 600_000), limiter.take('a', 600_000), limiter.take('a', 600_000)]).toEqual([0, 0, 30_000]);
+  });
+
+  it('is disabled at 0', () => {
+    const limiter = new RateLimiter(0);
+    for (let i = 0; i < 1000; i++) expect(limiter.take('a')).toBe(0);
+  });
+});
+
+describe('AuthLockout', () => {
+  it('locks a key out after maxFailures failures in a row', () => {
+    const lockout = new AuthLockout(3, 60_000);
+    expect([lockout.fail('ip', 0), lockout.fail('ip', 1), lockout.fail('ip', 2)]).toEqual([false, false, true]);
+    expect(lockout.lockedFor('ip', 2)).toBe(60_000);
+    expect(lockout.lockedFor('other', 2)).toBe(0);
+    expect(lockout.lockedFor('ip', 60_002)).toBe(0);
+  });
+
+  it('forgets failures after a success or a quiet lockout period', () => {
+    const lockout = new AuthLockout(2, 60_000);
+    lockout.fail('ip', 0);
+    lockout.succeed('ip');
+    expect(lockout.fail('ip', 1)).toBe(false);
+    expect(lockout.fail('ip', 60_002)).toBe(false);
+    expect(lockout.fail('ip', 60_003)).toBe(true);
+  });
+
+  it('is disabled at 0', () => {
+    const lockout = new AuthLockout(0, 60_000);
+    for (let i = 0; i < 100; i++) expect(lockout.fail('ip')).toBe(false);
+    expect(lockout.lockedFor('ip')).toBe(0);
+  });
+});
+
+describe('clientIp', () => {
+  it('trusts CF-Connecting-IP only from a trusted proxy', () => {
+    const headers = { 'cf-connecting-ip': '203.0.113.7' };
+    expect(clientIp('::ffff:127.0.0.1', headers, ['127.0.0.1'])).toBe('203.0.113.7');
+    expect(clientIp('198.51.100.1', headers, ['127.0.0.1'])).toBe('198.51.100.1');
+    expect(clientIp('127.0.0.1', headers, [])).toBe('127.0.0.1');
+    expect(clientIp('127.0.0.1', {}, ['127.0.0.1'])).toBe('127.0.0.1');
+  });
+});
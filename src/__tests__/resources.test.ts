@@ -0,0 +1,149 @@
+/**
+ * Tests for the MCP resources: templates and fixed resources read against the
+ * fake backend, and resources/list paging, through a real MCP client-server
+ * connection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { setBackend } from '../backend.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { createMcpServer } from '../server.js';
+import { RESOURCE_PAGE_SIZE } from '../resources.js';
+import { connectClient, useFakeBackend, type TestClient } from './harness.js';
+
+let store: FakeStore;
+let client: TestClient;
+
+beforeEach(async () => {
+  store = new FakeStore();
+  useFakeBackend(store);
+  client = await connectClient('resources-test-client');
+});
+
+afterEach(async () => {
+  await client.close();
+  setBackend(null);
+});
+
+async function read<T>(uri: string): Promise<T> {
+  const { contents } = await client.readResource({ uri });
+  expect(contents).toHaveLength(1);
+  expect(contents[0]).toMatchObject({ uri, mimeType: 'application/json' });
+  return JSON.parse(contents[0].text as string) as T;
+}
+
+describe('resource templates', () => {
+  it('lists the templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      'omnifocus://task/{id}',
+      'omnifocus://project/{id}',
+      'omnifocus://folder/{id}',
+      'omnifocus://tag/{name}',
+    ]);
+  });
+
+  it('reads a task', async () => {
+    const task = store.addTask({ name: 'Call Sam', flagged: true });
+    expect(await read(`omnifocus://task/${task.id}`)).toMatchObject({ id: task.id, name: 'Call Sam', flagged: true });
+  });
+
+  it('reads a project with its remaining tasks', async () => {
+    const project = store.addProject({ name: 'Launch' });
+    store.addTask({ name: 'Write post', projectId: project.id });
+    store.addTask({ name: 'Old', projectId: project.id, completed: true });
+    const data = await read<{ project: { name: string }; tasks: Array<{ name: string }> }>(`omnifocus://project/${project.id}`);
+    expect(data.project.name).toBe('Launch');
+    expect(data.tasks.map((t) => t.name)).toEqual(['Write post']);
+  });
+
+  it('reads a folder with its projects and folders', async () => {
+    const folder = store.addFolder({ name: 'Work' });
+    store.addFolder({ name: 'Clients', parentId: folder.id });
+    store.addProject({ name: 'Budget', folderId: folder.id });
+    const data = await read<{ folder: { name: string }; projects: Array<{ name: string }>; folders: Array<{ name: string }> }>(`omnifocus://folder/${folder.id}`);
+    expect(data).toMatchObject({ folder: { name: 'Work' }, projects: [{ name: 'Budget' }], folders: [{ name: 'Clients' }] });
+  });
+
+  it('reads a tag by its encoded name', async () => {
+    const tag = store.addTag({ name: 'Deep Work' });
+    store.addTask({ name: 'Write', tagIds: [tag.id] });
+    store.addTask({ name: 'Outline', tagIds: [tag.id], completed: true });
+    const data = await read<{ tag: { name: string }; tasks: Array<{ name: string }> }>('omnifocus://tag/Deep%20Work');
+    expect(data.tag.name).toBe('Deep Work');
+    expect(data.tasks.map((t) => t.name)).toEqual(['Write']);
+  });
+
+  it('fails with resource-not-found for unknown objects', async () => {
+    await expect(client.readResource({ uri: 'omnifocus://task/missing' })).rejects.toMatchObject({
+      code: -32002,
+      message: expect.stringContaining('Task not found with ID: missing'),
+    });
+  });
+
+  it('fails with invalid params for malformed percent-encoding', async () => {
+    await expect(client.readResource({ uri: 'omnifocus://task/%E0' })).rejects.toMatchObject({
+      code: -32602,
+      message: expect.stringContaining('Invalid percent-encoding in resource URI: %E0'),
+    });
+  });
+});
+
+describe('fixed resources', () => {
+  it('reads the inbox', async () => {
+    store.addTask({ name: 'Capture' });
+    store.addTask({ name: 'Done', completed: true });
+    const data = await read<{ count: number; tasks: Array<{ name: string }> }>('omnifocus://inbox');
+    expect(data.count).toBe(1);
+    expect(data.tasks[0].name).toBe('Capture');
+  });
+
+  it("reads today's forecast", async () => {
+    const at = (days: number, hours: number) => {
+      const date = new Date();
+      date.setDate(date.getDate() + days);
+      date.setHours(hours, 0, 0, 0);
+      return date;
+    };
+    store.addTask({ name: 'Late', dueDate: at(-2, 9) });
+    store.addTask({ name: 'Today', dueDate: at(0, 17) });
+    store.addTask({ name: 'Planned', plannedDate: at(0, 10) });
+    store.addTask({ name: 'Tomorrow', dueDate: at(1, 9) });
+    const data = await read<Record<string, Array<{ name: string }>>>('omnifocus://forecast/today');
+    expect(data.overdue.map((t) => t.name)).toEqual(['Late']);
+    expect(data.dueToday.map((t) => t.name)).toEqual(['Today']);
+    expect(data.plannedToday.map((t) => t.name)).toEqual(['Planned']);
+  });
+});
+
+describe('resources/list', () => {
+  it('lists the fixed resources, projects, folders and tags', async () => {
+    const project = store.addProject({ name: 'Launch' });
+    store.addTag({ name: 'Deep Work' });
+    const { resources, nextCursor } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toEqual([
+      'omnifocus://inbox',
+      'omnifocus://forecast/today',
+      `omnifocus://project/${project.id}`,
+      'omnifocus://tag/Deep%20Work',
+    ]);
+    expect(nextCursor).toBeUndefined();
+  });
+
+  it('pages through long lists', async () => {
+    for (let i = 0; i < RESOURCE_PAGE_SIZE; i++) store.addTag({ name: `Tag ${i}` });
+    const first = await client.listResources();
+    expect(first.resources).toHaveLength(RESOURCE_PAGE_SIZE);
+    const second = await client.listResources({ cursor: first.nextCursor });
+    expect(second.resources.map((r) => r.name)).toEqual(['Tag 98', 'Tag 99']);
+    expect(second.nextCursor).toBeUndefined();
+
+    await expect(client.listResources({ cursor: 'bogus' })).rejects.toThrow(/Invalid cursor/);
+  });
+
+  it('is not offered to tokens without the read scope', async () => {
+    await client.close();
+    client = await connectClient('resources-test-client', createMcpServer({ token: { name: 'writer', token: 'secret', scopes: ['write'] } }));
+    expect(client.getServerCapabilities()?.resources).toBeUndefined();
+  });
+});
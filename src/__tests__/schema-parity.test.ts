@@ -13,7 +13,7 @@ import { describe, it, expect } from 'vitest';
 import { readFileSync } from 'node:fs';
 import * as schemas from '../schemas.js';
 
-const TOOL_FILES = ['tasks', 'projects', 'folders', 'tags', 'reviews', 'perspectives', 'search'];
+const TOOL_FILES = ['tasks', 'projects', 'folders', 'tags', 'reviews', 'perspectives', 'search', 'diagnostics', 'journal'];
 
 interface ToolBlock {
   schemaName: string;
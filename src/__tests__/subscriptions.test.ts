@@ -0,0 +1,101 @@
+/**
+ * Tests for resource subscriptions: change notifications from polling the
+ * fake backend, and the per-session limit, through a real MCP client-server
+ * connection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { setBackend } from '../backend.js';
+import type { FakeBackend } from '../backends/fake.js';
+import { FakeStore } from '../backends/fake-store.js';
+import { configureSubscriptions, subscriptionConfigFromEnv } from '../subscriptions.js';
+import { connectClient, useFakeBackend, type TestClient } from './harness.js';
+
+let store: FakeStore;
+let backend: FakeBackend;
+let client: TestClient;
+let updated: string[];
+
+beforeEach(async () => {
+  configureSubscriptions({ pollMs: 20, maxPerSession: 2 });
+  store = new FakeStore();
+  backend = useFakeBackend(store);
+  client = await connectClient('subscriptions-test-client');
+  updated = [];
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updated.push(notification.params.uri);
+  });
+});
+
+afterEach(async () => {
+  await client.close();
+  setBackend(null);
+  configureSubscriptions(subscriptionConfigFromEnv({}));
+});
+
+/** Waits for a few poll intervals. */
+const polls = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+describe('subscriptionConfigFromEnv', () => {
+  it('reads the poll interval and limit', () => {
+    expect(subscriptionConfigFromEnv({})).toEqual({ pollMs: 30000, maxPerSession: 50 });
+    expect(subscriptionConfigFromEnv({ MCP_SUBSCRIPTION_POLL_MS: '5000', MCP_MAX_SUBSCRIPTIONS: '10' })).toEqual({ pollMs: 5000, maxPerSession: 10 });
+    expect(() => subscriptionConfigFromEnv({ MCP_SUBSCRIPTION_POLL_MS: '10' })).toThrow('Invalid MCP_SUBSCRIPTION_POLL_MS: 10');
+  });
+});
+
+describe('resources/subscribe', () => {
+  it('is advertised', () => {
+    expect(client.getServerCapabilities()?.resources).toMatchObject({ subscribe: true });
+  });
+
+  it('notifies when a subscribed resource changes, once per change', async () => {
+    const task = store.addTask({ name: 'Draft' });
+    const uri = `omnifocus://task/${task.id}`;
+    await client.subscribeResource({ uri });
+
+    await polls();
+    expect(updated).toEqual([]);
+    await client.call('omnifocus_update_task', { taskId: task.id, flagged: true });
+    await polls();
+    expect(updated).toEqual([uri]);
+  });
+
+  it('only re-reads resources after the database changed', async () => {
+    const task = store.addTask({ name: 'Draft' });
+    await client.subscribeResource({ uri: `omnifocus://task/${task.id}` });
+    await polls();
+
+    const run = vi.spyOn(backend, 'run');
+    await polls();
+    expect(run).not.toHaveBeenCalled();
+    store.touch();
+    await polls();
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('notifies when the object is deleted', async () => {
+    const project = store.addProject({ name: 'Launch' });
+    await client.subscribeResource({ uri: `omnifocus://project/${project.id}` });
+    store.deleteProject(project.id);
+    await polls();
+    expect(updated).toEqual([`omnifocus://project/${project.id}`]);
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    await client.subscribeResource({ uri: 'omnifocus://inbox' });
+    await client.unsubscribeResource({ uri: 'omnifocus://inbox' });
+    store.addTask({ name: 'New' });
+    await polls();
+    expect(updated).toEqual([]);
+  });
+
+  it('rejects unknown resources and subscriptions over the limit', async () => {
+    await expect(client.subscribeResource({ uri: 'omnifocus://task/missing' })).rejects.toMatchObject({ code: -32002 });
+    await client.subscribeResource({ uri: 'omnifocus://inbox' });
+    await client.subscribeResource({ uri: 'omnifocus://forecast/today' });
+    await client.subscribeResource({ uri: 'omnifocus://inbox' });
+    await expect(client.subscribeResource({ uri: 'omnifocus://tag/Home' })).rejects.toThrow(/At most 2 resource subscriptions per session/);
+  });
+});
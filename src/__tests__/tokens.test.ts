@@ -0,0 +1,100 @@
+/**
+ * Tests for scoped API tokens: the token file format, the scope each tool
+ * needs, and a token-restricted server hiding and refusing tools.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer } from '../server.js';
+import { parseTokensFile, requiredScope, toolDenial, type ApiToken } from '../tokens.js';
+
+const SECRET = 'scoped-token-1234567890';
+
+describe('parseTokensFile', () => {
+  it('reads named tokens with scopes and tool lists', () => {
+    expect(parseTokensFile({
+      tokens: [
+        { name: 'phone', token: SECRET, scopes: ['read', 'write'], denyTools: ['omnifocus_delete_task'] },
+        { name: 'dashboard', token: `${SECRET}-2`, scopes: ['read'], allowTools: ['omnifocus_get_due_tasks'] },
+      ],
+    })).toEqual([
+      { name: 'phone', token: SECRET, scopes: ['read', 'write'], denyTools: ['omnifocus_delete_task'] },
+      { name: 'dashboard', token: `${SECRET}-2`, scopes: ['read'], allowTools: ['omnifocus_get_due_tasks'] },
+    ]);
+  });
+
+  it('rejects malformed entries with the offending field', () => {
+    expect(() => parseTokensFile([])).toThrow('Expected an object with a "tokens" array');
+    expect(() => parseTokensFile({ tokens: [{ name: 'a', token: 'short', scopes: ['read'] }] }))
+      .toThrow('tokens[0].token must be a string of at least 16 characters');
+    expect(() => parseTokensFile({ tokens: [{ name: 'a', token: SECRET, scopes: ['admin'] }] }))
+      .toThrow('tokens[0].scopes must list one or more of read, write, delete (got "admin")');
+    expect(() => parseTokensFile({ tokens: [{ name: 'a', token: SECRET, scopes: [] }] })).toThrow('tokens[0].scopes');
+    expect(() => parseTokensFile({ tokens: [{ name: 'a', token: SECRET, scopes: ['read'], allowTools: 'omnifocus_search' }] }))
+      .toThrow('tokens[0].allowTools must be an array of strings');
+  });
+
+  it('rejects duplicate names and secrets', () => {
+    const entry = { name: 'a', token: SECRET, scopes: ['read'] };
+    expect(() => parseTokensFile({ tokens: [entry, { ...entry, token: `${SECRET}-2` }] })).toThrow('Duplicate token name: a');
+    expect(() => parseTokensFile({ tokens: [entry, { ...entry, name: 'b' }] })).toThrow("tokens[1].token is the same as another token's");
+  });
+});
+
+describe('tool access', () => {
+  it('derives the scope a tool needs from its annotations', () => {
+    expect(requiredScope({ readOnlyHint: true })).toBe('read');
+    expect(requiredScope({ readOnlyHint: false, destructiveHint: false })).toBe('write');
+    expect(requiredScope({ readOnlyHint: false, destructiveHint: true })).toBe('delete');
+    expect(requiredScope(undefined)).toBe('delete');
+  });
+
+  it('applies the deny list, then the allow list, then the scopes', () => {
+    const token: ApiToken = { name: 't', token: SECRET, scopes: ['read'], allowTools: ['a', 'b'], denyTools: ['b'] };
+    const readOnly = { readOnlyHint: true };
+    expect(toolDenial(token, 'a', readOnly)).toBeNull();
+    expect(toolDenial(token, 'b', readOnly)).toBe('API token "t" may not call b: the tool is on its deny list');
+    expect(toolDenial(token, 'c', readOnly)).toBe('API token "t" may not call c: the tool is not on its allow list');
+    expect(toolDenial(token, 'a', { destructiveHint: false })).toBe('API token "t" may not call a: it needs the "write" scope');
+  });
+});
+
+describe('token-restricted server', () => {
+  const token: ApiToken = { name: 'reader', token: SECRET, scopes: ['read'], denyTools: ['omnifocus_search'] };
+  let client: Client;
+  let clientTransport: InMemoryTransport;
+  let serverTransport: InMemoryTransport;
+
+  beforeAll(async () => {
+    [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'tokens-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), createMcpServer({ token }).connect(serverTransport)]);
+  });
+
+  afterAll(async () => {
+    await clientTransport.close();
+    await serverTransport.close();
+  });
+
+  it('lists only the tools the token may call', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map((t) => t.name);
+    expect(names).toContain('omnifocus_list_inbox');
+    expect(names).not.toContain('omnifocus_search');
+    expect(names).not.toContain('omnifocus_create_folder');
+    expect(names).not.toContain('omnifocus_delete_project');
+    expect(tools.every((t) => t.annotations?.readOnlyHint === true)).toBe(true);
+  });
+
+  it('refuses other tools before anything runs', async () => {
+    for (const name of ['omnifocus_create_folder', 'omnifocus_search']) {
+      const result = (await client.callTool({ name, arguments: { name: 'Nope', query: 'x' } })) as {
+        isError: boolean;
+        content: Array<{ text: string }>;
+      };
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(`MCP error -32602: Tool ${name} disabled`);
+    }
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * OmniFocus backends.
+ *
+ * A backend runs a complete JXA script (app/doc preamble included) and returns
+ * its raw stdout. The executor owns everything around that call: wrapping the
+ * script, trimming output and translating failures into friendly errors.
+ *
+ * Tool arguments never become script source. They travel alongside the script
+ * as data, and every backend exposes them to it as a global `params` object
+ * parsed from JSON, so a task called "import taxes" is just a string.
+ *
+ * - `osascript` (default): the real OmniFocus on macOS, through one
+ *   persistent osascript worker process (OMNIFOCUS_OSASCRIPT_WORKER=0 falls
+ *   back to spawning osascript for every call).
+ * - `fake`: an in-memory OmniFocus document that runs the same generated
+ *   scripts in Node, so the whole server works on Linux CI and dev boxes.
+ *
+ * Selected with OMNIFOCUS_BACKEND; tests swap backends with setBackend().
+ */
+
+import { OsascriptBackend } from "./backends/osascript.js";
+import { OsascriptWorkerBackend } from "./backends/osascript-worker.js";
+import { FakeBackend } from "./backends/fake.js";
+
+/** Data handed to a script as its `params` global. */
+export type ScriptParams = Record<string, unknown>;
+
+export interface OmniFocusBackend {
+  /** Short identifier used in logs ("osascript", "fake", ...). */
+  readonly name: string;
+  /**
+   * Runs a complete JXA script and resolves with its stdout. `params` must be
+   * JSON-serializable; the script reads it as the global `params`. When
+   * `signal` aborts, the backend should stop the script and reject.
+   */
+  run(script: string, params: ScriptParams, signal?: AbortSignal): Promise<string>;
+  /**
+   * Checks that the backend can still run scripts, repairing it if it can
+   * (e.g. replacing a hung worker process). Stateless backends omit it.
+   */
+  healthCheck?(): Promise<boolean>;
+  /**
+   * A value that changes whenever the OmniFocus database does (for osascript,
+   * the database's modification time), or null when it cannot be told.
+   * Backends that cannot tell omit it.
+   */
+  modificationTime?(): Promise<number | null>;
+  /** Releases processes or other resources held by the backend. */
+  close?(): Promise<void>;
+}
+
+let activeBackend: OmniFocusBackend | null = null;
+
+/**
+ * Creates the backend named by OMNIFOCUS_BACKEND.
+ */
+export function createBackendFromEnv(env: NodeJS.ProcessEnv = process.env): OmniFocusBackend {
+  const name = env.OMNIFOCUS_BACKEND ?? "osascript";
+  switch (name) {
+    case "osascript":
+      return env.OMNIFOCUS_OSASCRIPT_WORKER === "0" ? new OsascriptBackend() : new OsascriptWorkerBackend();
+    case "fake":
+      return new FakeBackend();
+    default:
+      throw new Error(`Unknown OMNIFOCUS_BACKEND: ${name} (expected "osascript" or "fake")`);
+  }
+}
+
+/**
+ * Returns the active backend, creating it from the environment on first use.
+ */
+export function getBackend(): OmniFocusBackend {
+  if (!activeBackend) {
+    activeBackend = createBackendFromEnv();
+  }
+  return activeBackend;
+}
+
+/**
+ * Replaces the active backend, closing the previous one. Pass null to fall
+ * back to the environment again.
+ */
+export function setBackend(backend: OmniFocusBackend | null): void {
+  if (activeBackend && activeBackend !== backend) {
+    void activeBackend.close?.();
+  }
+  activeBackend = backend;
+}
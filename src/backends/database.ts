@@ -0,0 +1,41 @@
+/**
+ * Locates OmniFocus's database on disk so callers can tell when it changed
+ * without sending OmniFocus an AppleEvent.
+ *
+ * The database is an `OmniFocus.ofocus` package inside the app's sandbox
+ * container. OmniFocus saves by adding a transaction file to the package, so
+ * the package directory's modification time moves on every change, including
+ * changes made in the OmniFocus UI or synced from another device.
+ * OMNIFOCUS_DATABASE_PATH overrides the location.
+ */
+
+import { stat } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+
+const CONTAINERS = [
+  "com.omnigroup.OmniFocus4",
+  "com.omnigroup.OmniFocus3",
+  "com.omnigroup.OmniFocus3.MacAppStore",
+];
+
+export function databaseCandidates(env: NodeJS.ProcessEnv = process.env): string[] {
+  if (env.OMNIFOCUS_DATABASE_PATH) return [env.OMNIFOCUS_DATABASE_PATH];
+  return CONTAINERS.map((container) =>
+    join(homedir(), "Library", "Containers", container, "Data", "Library", "Application Support", "OmniFocus", "OmniFocus.ofocus"));
+}
+
+/**
+ * Modification time (ms since the epoch) of the first database that exists,
+ * or null when none is found.
+ */
+export async function databaseModificationTime(env: NodeJS.ProcessEnv = process.env): Promise<number | null> {
+  for (const path of databaseCandidates(env)) {
+    try {
+      return (await stat(path)).mtimeMs;
+    } catch {
+      // Not this one; try the next location.
+    }
+  }
+  return null;
+}
@@ -0,0 +1,671 @@
+/**
+ * JXA object model over the in-memory FakeStore.
+ *
+ * Implements the slice of OmniFocus's scripting dictionary that the generated
+ * scripts use, with JXA's calling conventions: properties are read by calling
+ * them (`task.name()`) and written by assignment (`task.name = "x"`), element
+ * collections are callable (`doc.flattenedTasks()`) and also expose bulk
+ * property reads (`doc.flattenedTasks.name()`, chained as in
+ * `doc.flattenedTasks.tags.name()`), `whose()` filters, `byId()`, `push` for
+ * creation and `app.add`/`app.remove`/`app.delete` for relationships.
+ *
+ * `appleEvents` counts the round trips osascript would make: every property
+ * read or write, command, collection fetch and bulk read is one event, while
+ * building specifiers (`whose()`, `byId()`, indexing) is free.
+ *
+ * Objects are strict the way JXA is: calling a property the dictionary does not
+ * define fails with -1728, assigning one fails with -10003, and values of the
+ * wrong type fail with -1700. A typo in a generated script therefore fails here
+ * just as it would under osascript.
+ */
+
+import vm from "node:vm";
+import {
+  FakeStore,
+  reviewIntervalMs,
+  type FakeFolder,
+  type FakeProject,
+  type FakeTag,
+  type FakeTask,
+  type ReviewInterval,
+} from "./fake-store.js";
+
+type Kind = "task" | "project" | "folder" | "tag";
+type JxaObject = Record<string, unknown>;
+
+interface Ref {
+  kind: Kind;
+  id: string;
+  /** Set for objects made with app.Task() etc. until they are pushed. */
+  detached?: FakeTask | FakeProject | FakeFolder | FakeTag;
+}
+
+interface Accessor<R> {
+  get: (record: R) => unknown;
+  set?: (record: R, value: unknown) => void;
+}
+
+interface ElementHooks {
+  push?: (item: unknown) => void;
+  add?: (item: unknown) => void;
+  remove?: (item: unknown) => void;
+}
+
+/** Error shaped like an osascript execution error: "<message> (<code>)". */
+export function jxaError(message: string, code: number): Error {
+  return new Error(`${message} (${code})`);
+}
+
+// Scripts run in their own realm, so Date values fail instanceof checks.
+function isDate(value: unknown): value is Date {
+  return Object.prototype.toString.call(value) === "[object Date]";
+}
+
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined) return null;
+  if (!isDate(value) || Number.isNaN(value.getTime())) {
+    throw jxaError("Can't convert types.", -1700);
+  }
+  return new Date(value.getTime());
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw jxaError("Can't convert types.", -1700);
+  }
+  return value;
+}
+
+const REPETITION_METHOD_NAMES: Record<string, string> = {
+  Fixed: "fixed repetition",
+  DueDate: "due again after completion",
+  DeferUntilDate: "start again after completion",
+};
+
+export class JxaObjectModel {
+  /** Apple events sent so far; see the class comment for what counts. */
+  appleEvents = 0;
+
+  private readonly refs = new WeakMap<object, Ref>();
+  private readonly hooks = new WeakMap<object, ElementHooks>();
+  private readonly resolvers = new WeakMap<object, () => JxaObject[]>();
+  private readonly wrappers = new Map<string, JxaObject>();
+  private quiet = 0;
+  /** Bumped by every change, so collections re-resolve only after one. */
+  private generation = 0;
+
+  constructor(private readonly store: FakeStore) {}
+
+  // --------------------------------------------------------------------------
+  // Plumbing
+  // --------------------------------------------------------------------------
+
+  private event(): void {
+    if (this.quiet === 0) this.appleEvents++;
+  }
+
+  /** An event that changes the document. */
+  private mutation(): void {
+    this.event();
+    this.generation++;
+    this.store.touch();
+  }
+
+  /** Runs work that happens inside OmniFocus, so it sends no further events. */
+  private silently<T>(work: () => T): T {
+    this.quiet++;
+    try {
+      return work();
+    } finally {
+      this.quiet--;
+    }
+  }
+
+  /**
+   * A callable element collection. Calling it returns the current items;
+   * reading any other property returns a bulk accessor over the items.
+   */
+  private elements(resolve: () => JxaObject[], hooks: ElementHooks = {}): JxaObject {
+    // A bulk read per property would otherwise re-run whose() filters each time.
+    let cache: { generation: number; items: JxaObject[] } | undefined;
+    const current = () => {
+      if (cache?.generation !== this.generation) {
+        cache = { generation: this.generation, items: this.silently(resolve) };
+      }
+      return cache.items;
+    };
+    const items = () => current().slice();
+    const fn = () => {
+      this.event();
+      return items();
+    };
+    const collection = new Proxy(fn, {
+      get: (target, prop) => {
+        if (typeof prop === "symbol") return Reflect.get(target, prop);
+        if (prop === "push") {
+          if (!hooks.push) throw jxaError("Can't make or move that element into that container.", -10024);
+          return (...pushed: unknown[]) => {
+            this.mutation();
+            this.silently(() => pushed.forEach((item) => hooks.push!(item)));
+            return items().length;
+          };
+        }
+        if (prop === "length") {
+          this.event();
+          return items().length;
+        }
+        if (/^\d+$/.test(prop)) return items()[Number(prop)];
+        if (prop === "whose") {
+          return (clause: unknown) => this.elements(() => current().filter((item) => this.matches(item, clause)));
+        }
+        if (prop === "byId" || prop === "byName") {
+          const key = prop === "byId" ? "id" : "name";
+          return (value: unknown) =>
+            this.silently(() => current().find((item) => (item[key] as () => unknown)() === value)) ?? this.missingObject();
+        }
+        return this.bulk(() => current().map((item) => this.read(item, prop)));
+      },
+    });
+    this.hooks.set(collection, hooks);
+    this.resolvers.set(collection, items);
+    return collection as unknown as JxaObject;
+  }
+
+  /**
+   * A bulk property read such as `doc.flattenedTasks.name`. Calling it returns
+   * one value per item in a single event; reading a further property chains
+   * through the values, so `doc.flattenedTasks.tags.name()` returns each
+   * task's tag names. Missing values stay null.
+   */
+  private bulk(values: () => unknown[]): JxaObject {
+    const fn = () => {
+      this.event();
+      return this.silently(values);
+    };
+    return new Proxy(fn, {
+      get: (target, prop) => {
+        if (typeof prop === "symbol") return Reflect.get(target, prop);
+        return this.bulk(() => values().map((value) => this.read(value, prop)));
+      },
+    }) as unknown as JxaObject;
+  }
+
+  /** Reads `prop` from one value of a bulk read, mapping over nested lists. */
+  private read(value: unknown, prop: string): unknown {
+    if (value === null || value === undefined) return null;
+    if (Array.isArray(value)) return value.map((item) => this.read(item, prop));
+    const property = (value as JxaObject)[prop];
+    const resolve = typeof property === "function" ? this.resolvers.get(property) : undefined;
+    if (resolve) return resolve();
+    if (typeof property !== "function") throw jxaError("Can't get object.", -1728);
+    return (property as () => unknown)();
+  }
+
+  private makeObject<R>(ref: Ref, accessors: Record<string, Accessor<R>>, methods: Record<string, (record: R) => unknown> = {}): JxaObject {
+    // Wrappers only look their record up by ID, so attached objects can be shared.
+    const key = `${ref.kind}:${ref.id}`;
+    const cached = ref.detached ? undefined : this.wrappers.get(key);
+    if (cached) return cached;
+    const record = (): R => {
+      if (ref.detached) return ref.detached as R;
+      const maps = { task: this.store.tasks, project: this.store.projects, folder: this.store.folders, tag: this.store.tags };
+      const found = maps[ref.kind].get(ref.id);
+      if (!found) throw jxaError("Can't get object.", -1728);
+      return found as R;
+    };
+    const obj: JxaObject = {};
+    for (const [name, accessor] of Object.entries(accessors)) {
+      Object.defineProperty(obj, name, {
+        enumerable: true,
+        get: () => {
+          const value = accessor.get(record());
+          if (typeof value === "function") return value;
+          return () => {
+            this.event();
+            return value;
+          };
+        },
+        set: (value: unknown) => {
+          if (!accessor.set) throw jxaError(`Can't set ${name}.`, -10003);
+          this.mutation();
+          this.silently(() => accessor.set!(record(), value));
+        },
+      });
+    }
+    for (const [name, method] of Object.entries(methods)) {
+      obj[name] = () => {
+        this.mutation();
+        return this.silently(() => method(record()));
+      };
+    }
+    const strict = new Proxy(obj, {
+      get: (target, prop, receiver) => {
+        if (typeof prop === "symbol" || prop in target) return Reflect.get(target, prop, receiver);
+        // JSON.stringify and Promise resolution probe these; plain undefined is right.
+        if (prop === "toJSON" || prop === "then") return undefined;
+        return () => { throw jxaError("Can't get object.", -1728); };
+      },
+      set: (target, prop, value, receiver) => {
+        if (typeof prop === "string" && !(prop in target)) {
+          throw jxaError(`Can't set ${prop}.`, -10003);
+        }
+        return Reflect.set(target, prop, value, receiver);
+      },
+    });
+    this.refs.set(strict, ref);
+    if (!ref.detached) this.wrappers.set(key, strict);
+    return strict;
+  }
+
+  /** What byId()/byName() return for no match: any use fails with -1728. */
+  private missingObject(): JxaObject {
+    return new Proxy({}, {
+      get: (_target, prop) => (typeof prop === "symbol" ? undefined : () => { throw jxaError("Can't get object.", -1728); }),
+    });
+  }
+
+  /**
+   * Evaluates a JXA whose() clause: `{prop: value}`, `{prop: {_contains: x}}`
+   * (also _equals, _beginsWith, _endsWith, _greaterThan[Equals],
+   * _lessThan[Equals]), and `{_and: [...]}`, `{_or: [...]}`, `{_not: [...]}`.
+   */
+  private matches(item: JxaObject, clause: unknown): boolean {
+    if (typeof clause !== "object" || clause === null) throw jxaError("Can't convert types.", -1700);
+    return Object.entries(clause).every(([key, condition]) => {
+      if (key === "_and") return (condition as unknown[]).every((c) => this.matches(item, c));
+      if (key === "_or") return (condition as unknown[]).some((c) => this.matches(item, c));
+      if (key === "_not") return !(condition as unknown[]).every((c) => this.matches(item, c));
+      return this.compare((item[key] as () => unknown)(), condition);
+    });
+  }
+
+  private compare(value: unknown, condition: unknown): boolean {
+    const plain = (v: unknown) => (isDate(v) ? v.getTime() : v);
+    const isOperator = typeof condition === "object" && condition !== null && !isDate(condition)
+      && Object.keys(condition).every((k) => k.startsWith("_"));
+    if (!isOperator) return plain(value) === plain(condition);
+
+    return Object.entries(condition as Record<string, unknown>).every(([op, operand]) => {
+      const a = plain(value) as string | number | null;
+      const b = plain(operand) as string | number;
+      switch (op) {
+        case "_equals": return a === b;
+        case "_contains": return typeof a === "string" && a.includes(String(b));
+        case "_beginsWith": return typeof a === "string" && a.startsWith(String(b));
+        case "_endsWith": return typeof a === "string" && a.endsWith(String(b));
+        case "_greaterThan": return a !== null && a > b;
+        case "_greaterThanEquals": return a !== null && a >= b;
+        case "_lessThan": return a !== null && a < b;
+        case "_lessThanEquals": return a !== null && a <= b;
+        default: throw jxaError(`Unknown whose() operator: ${op}`, -1700);
+      }
+    });
+  }
+
+  private refOf(value: unknown, kind?: Kind): Ref {
+    const ref = typeof value === "object" && value !== null ? this.refs.get(value) : undefined;
+    if (!ref || (kind && ref.kind !== kind)) {
+      throw jxaError("Can't convert types.", -1700);
+    }
+    return ref;
+  }
+
+  /** Inserts a detached object into the store, returning its record. */
+  private attach<R>(value: unknown, kind: Kind): R {
+    const ref = this.refOf(value, kind);
+    if (!ref.detached) throw jxaError("Can't make or move that element into that container.", -10024);
+    const record = ref.detached;
+    ref.detached = undefined;
+    const maps = { task: this.store.tasks, project: this.store.projects, folder: this.store.folders, tag: this.store.tags };
+    (maps[kind] as Map<string, unknown>).set(record.id, record);
+    return record as R;
+  }
+
+  // --------------------------------------------------------------------------
+  // Object wrappers
+  // --------------------------------------------------------------------------
+
+  task(id: string, detached?: FakeTask): JxaObject {
+    const store = this.store;
+    return this.makeObject<FakeTask>({ kind: "task", id, detached }, {
+      id: { get: (t) => t.id },
+      name: { get: (t) => t.name, set: (t, v) => { t.name = String(v); } },
+      note: { get: (t) => t.note, set: (t, v) => { t.note = v == null ? "" : String(v); } },
+      completed: { get: (t) => t.completed },
+      completionDate: { get: (t) => t.completionDate },
+      dropped: { get: (t) => t.dropped },
+      droppedDate: { get: (t) => t.droppedDate },
+      flagged: { get: (t) => t.flagged, set: (t, v) => { t.flagged = Boolean(v); } },
+      dueDate: { get: (t) => t.dueDate, set: (t, v) => { t.dueDate = toDate(v); } },
+      deferDate: { get: (t) => t.deferDate, set: (t, v) => { t.deferDate = toDate(v); } },
+      plannedDate: { get: (t) => t.plannedDate, set: (t, v) => { t.plannedDate = toDate(v); } },
+      estimatedMinutes: { get: (t) => t.estimatedMinutes, set: (t, v) => { t.estimatedMinutes = toNumberOrNull(v); } },
+      inInbox: { get: (t) => t.projectId === null },
+      containingProject: { get: (t) => (t.projectId ? this.project(t.projectId) : null) },
+      assignedContainer: {
+        get: (t) => (t.projectId === null && t.assignedProjectId ? this.project(t.assignedProjectId) : null),
+        set: (t, v) => {
+          const target = this.refOf(v, "project");
+          if (t.projectId === null) {
+            t.assignedProjectId = target.id;
+          } else {
+            this.moveTask(t, target.id);
+          }
+        },
+      },
+      parentTask: { get: (t) => (t.parentTaskId ? this.task(t.parentTaskId) : null) },
+      repetitionRule: {
+        get: (t) => (t.repetition
+          ? { recurrence: t.repetition.rule, repetitionMethod: REPETITION_METHOD_NAMES[t.repetition.method] ?? t.repetition.method }
+          : null),
+        set: () => { throw jxaError("Can't convert types.", -1700); },
+      },
+      tasks: {
+        get: (t) => this.elements(() => store.childTasks(t.id).map((c) => this.task(c.id)), {
+          push: (item) => {
+            const child = this.attach<FakeTask>(item, "task");
+            child.parentTaskId = t.id;
+            child.projectId = t.projectId;
+          },
+        }),
+      },
+      flattenedTasks: {
+        get: (t) => this.elements(() => this.descendants(t).map((c) => this.task(c.id))),
+      },
+      tags: {
+        get: (t) => this.elements(() => t.tagIds.map((tagId) => this.tag(tagId)), {
+          add: (item) => {
+            const tagRef = this.refOf(item, "tag");
+            if (!t.tagIds.includes(tagRef.id)) t.tagIds.push(tagRef.id);
+          },
+          remove: (item) => {
+            const tagRef = this.refOf(item, "tag");
+            t.tagIds = t.tagIds.filter((tagId) => tagId !== tagRef.id);
+          },
+        }),
+      },
+    }, {
+      markComplete: (t) => {
+        t.completed = true;
+        t.completionDate = new Date();
+        store.repeatTask(t);
+      },
+      markIncomplete: (t) => {
+        t.completed = false;
+        t.completionDate = null;
+        t.dropped = false;
+        t.droppedDate = null;
+      },
+      markDropped: (t) => {
+        t.dropped = true;
+        t.droppedDate = new Date();
+        store.repeatTask(t);
+      },
+    });
+  }
+
+  project(id: string, detached?: FakeProject): JxaObject {
+    return this.makeObject<FakeProject>({ kind: "project", id, detached }, {
+      id: { get: (p) => p.id },
+      name: { get: (p) => p.name, set: (p, v) => { p.name = String(v); } },
+      note: { get: (p) => p.note, set: (p, v) => { p.note = v == null ? "" : String(v); } },
+      status: {
+        get: (p) => `${p.status} status`,
+        set: (p, v) => {
+          if (v === "active status") {
+            p.status = "active";
+            p.completionDate = null;
+          } else if (v === "on hold status") {
+            p.status = "on hold";
+          } else if (v === "done status" || v === "dropped status") {
+            throw jxaError("Use the mark completed/dropped verb instead.", -10000);
+          } else {
+            throw jxaError("Can't convert types.", -1700);
+          }
+        },
+      },
+      completed: { get: (p) => p.status === "done" },
+      completionDate: { get: (p) => p.completionDate },
+      flagged: { get: (p) => p.flagged, set: (p, v) => { p.flagged = Boolean(v); } },
+      dueDate: { get: (p) => p.dueDate, set: (p, v) => { p.dueDate = toDate(v); } },
+      deferDate: { get: (p) => p.deferDate, set: (p, v) => { p.deferDate = toDate(v); } },
+      folder: { get: (p) => (p.folderId ? this.folder(p.folderId) : null) },
+      sequential: { get: (p) => p.sequential, set: (p, v) => { p.sequential = Boolean(v); } },
+      reviewInterval: {
+        get: (p) => ({ ...p.reviewInterval }),
+        set: (p, v) => { p.reviewInterval = this.toReviewInterval(v); },
+      },
+      lastReviewDate: { get: (p) => p.lastReviewDate, set: (p, v) => { p.lastReviewDate = toDate(v); } },
+      nextReviewDate: { get: (p) => p.nextReviewDate, set: (p, v) => { p.nextReviewDate = toDate(v); } },
+      tasks: {
+        get: (p) => this.elements(() => this.store.rootTasks(p.id).map((t) => this.task(t.id)), {
+          push: (item) => {
+            const task = this.attach<FakeTask>(item, "task");
+            task.projectId = p.id;
+            task.parentTaskId = null;
+          },
+        }),
+      },
+      flattenedTasks: {
+        get: (p) => this.elements(() => this.store.flattenedTasksOf(p.id).map((t) => this.task(t.id))),
+      },
+    }, {
+      markComplete: (p) => {
+        p.status = "done";
+        p.completionDate = new Date();
+      },
+      markDropped: (p) => {
+        p.status = "dropped";
+      },
+      markReviewed: (p) => {
+        const now = new Date();
+        p.lastReviewDate = now;
+        p.nextReviewDate = new Date(now.getTime() + reviewIntervalMs(p.reviewInterval));
+      },
+    });
+  }
+
+  folder(id: string, detached?: FakeFolder): JxaObject {
+    const store = this.store;
+    return this.makeObject<FakeFolder>({ kind: "folder", id, detached }, {
+      id: { get: (f) => f.id },
+      name: { get: (f) => f.name, set: (f, v) => { f.name = String(v); } },
+      hidden: { get: (f) => f.hidden, set: (f, v) => { f.hidden = Boolean(v); } },
+      folder: { get: (f) => (f.parentId ? this.folder(f.parentId) : null) },
+      projects: {
+        get: (f) => this.elements(
+          () => [...store.projects.values()].filter((p) => p.folderId === f.id).map((p) => this.project(p.id)),
+          { push: (item) => { this.attach<FakeProject>(item, "project").folderId = f.id; } },
+        ),
+      },
+      folders: {
+        get: (f) => this.elements(
+          () => [...store.folders.values()].filter((c) => c.parentId === f.id).map((c) => this.folder(c.id)),
+          { push: (item) => { this.attach<FakeFolder>(item, "folder").parentId = f.id; } },
+        ),
+      },
+    });
+  }
+
+  tag(id: string, detached?: FakeTag): JxaObject {
+    return this.makeObject<FakeTag>({ kind: "tag", id, detached }, {
+      id: { get: (t) => t.id },
+      name: { get: (t) => t.name, set: (t, v) => { t.name = String(v); } },
+      hidden: { get: (t) => t.status !== "active" },
+      allowsNextAction: { get: (t) => t.allowsNextAction, set: (t, v) => { t.allowsNextAction = Boolean(v); } },
+      tasks: {
+        get: (t) => this.elements(() => this.store.flattenedTasks()
+          .filter((task) => task.tagIds.includes(t.id))
+          .map((task) => this.task(task.id))),
+      },
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Document, window and application
+  // --------------------------------------------------------------------------
+
+  document(): JxaObject {
+    const store = this.store;
+    const window: JxaObject = {};
+    Object.defineProperty(window, "perspectiveName", {
+      get: () => () => store.windowPerspective,
+      set: (value: unknown) => {
+        // OmniFocus ignores unknown names; callers verify by reading it back.
+        this.mutation();
+        if (store.perspectives.some((p) => p.name === value)) {
+          store.windowPerspective = String(value);
+        }
+      },
+    });
+    window.content = () => ({
+      leaves: this.elements(() => {
+        const perspective = store.perspectives.find((p) => p.name === store.windowPerspective);
+        return store.flattenedTasks()
+          .filter((t) => perspective?.includes(t, store))
+          .map((t) => this.task(t.id));
+      }),
+    });
+
+    return {
+      name: () => "OmniFocus",
+      flattenedTasks: this.elements(() => store.flattenedTasks().map((t) => this.task(t.id))),
+      flattenedProjects: this.elements(() => [...store.projects.values()].map((p) => this.project(p.id))),
+      flattenedFolders: this.elements(() => [...store.folders.values()].map((f) => this.folder(f.id))),
+      flattenedTags: this.elements(() => [...store.tags.values()].map((t) => this.tag(t.id))),
+      inboxTasks: this.elements(() => store.rootTasks(null).map((t) => this.task(t.id)), {
+        push: (item) => {
+          const task = this.attach<FakeTask>(item, "task");
+          task.projectId = null;
+          task.parentTaskId = null;
+        },
+      }),
+      projects: this.elements(
+        () => [...store.projects.values()].filter((p) => p.folderId === null).map((p) => this.project(p.id)),
+        { push: (item) => { this.attach<FakeProject>(item, "project").folderId = null; } },
+      ),
+      folders: this.elements(
+        () => [...store.folders.values()].filter((f) => f.parentId === null).map((f) => this.folder(f.id)),
+        { push: (item) => { this.attach<FakeFolder>(item, "folder").parentId = null; } },
+      ),
+      tags: this.elements(
+        () => [...store.tags.values()].filter((t) => t.parentId === null).map((t) => this.tag(t.id)),
+        { push: (item) => { this.attach<FakeTag>(item, "tag").parentId = null; } },
+      ),
+      documentWindows: this.elements(() => [window]),
+    };
+  }
+
+  application(): JxaObject {
+    const store = this.store;
+    const applyProperties = (obj: JxaObject, properties: unknown) => {
+      Object.entries((properties ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+        obj[key] = value;
+      });
+      return obj;
+    };
+    const doc = this.document();
+
+    return {
+      name: () => "OmniFocus",
+      defaultDocument: () => doc,
+      Task: (properties?: unknown) => {
+        const record = store.newTask({ name: "" });
+        return applyProperties(this.task(record.id, record), properties);
+      },
+      InboxTask: (properties?: unknown) => {
+        const record = store.newTask({ name: "" });
+        return applyProperties(this.task(record.id, record), properties);
+      },
+      Project: (properties?: unknown) => {
+        const record = store.newProject({ name: "" });
+        return applyProperties(this.project(record.id, record), properties);
+      },
+      Folder: (properties?: unknown) => {
+        const record = store.newFolder({ name: "" });
+        return applyProperties(this.folder(record.id, record), properties);
+      },
+      Tag: (properties?: unknown) => {
+        const record = store.newTag({ name: "" });
+        return applyProperties(this.tag(record.id, record), properties);
+      },
+      add: (item: unknown, options: { to?: unknown } = {}) => {
+        this.mutation();
+        const hooks = typeof options.to === "function" ? this.hooks.get(options.to) : undefined;
+        if (!hooks?.add) throw jxaError("Can't add that element.", -1700);
+        hooks.add(item);
+      },
+      remove: (item: unknown, options: { from?: unknown } = {}) => {
+        this.mutation();
+        const hooks = typeof options.from === "function" ? this.hooks.get(options.from) : undefined;
+        if (!hooks?.remove) throw jxaError("Can't remove that element.", -1700);
+        hooks.remove(item);
+      },
+      delete: (item: unknown) => {
+        this.mutation();
+        const ref = this.refOf(item);
+        if (ref.kind === "task") store.deleteTask(ref.id);
+        else if (ref.kind === "project") store.deleteProject(ref.id);
+        else if (ref.kind === "folder") store.deleteFolder(ref.id);
+        else store.deleteTag(ref.id);
+      },
+      perspectives: this.elements(() => store.perspectives.map((p) => ({ id: () => p.id, name: () => p.name }))),
+      evaluateJavascript: (source: unknown) => {
+        this.mutation();
+        return this.evaluateOmniAutomation(String(source));
+      },
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  private descendants(task: FakeTask): FakeTask[] {
+    return this.store.childTasks(task.id).flatMap((child) => [child, ...this.descendants(child)]);
+  }
+
+  private moveTask(task: FakeTask, projectId: string): void {
+    task.projectId = projectId;
+    task.parentTaskId = null;
+    task.assignedProjectId = null;
+    this.descendants(task).forEach((child) => { child.projectId = projectId; });
+  }
+
+  private toReviewInterval(value: unknown): ReviewInterval {
+    const record = value as Partial<ReviewInterval> | null;
+    if (!record || typeof record !== "object" || typeof record.unit !== "string" || typeof record.steps !== "number") {
+      throw jxaError("Can't convert types.", -1700);
+    }
+    return { unit: record.unit, steps: record.steps };
+  }
+
+  /**
+   * Runs an Omni Automation snippet (app.evaluateJavascript). Only the Task
+   * repetition-rule API used by tools/tasks.ts is available.
+   */
+  private evaluateOmniAutomation(source: string): unknown {
+    const store = this.store;
+    class RepetitionRule {
+      constructor(readonly ruleString: string, readonly method: string) {}
+    }
+    const Task = {
+      RepetitionRule,
+      RepetitionMethod: { Fixed: "Fixed", DueDate: "DueDate", DeferUntilDate: "DeferUntilDate", None: "None" },
+      byIdentifier: (id: string) => {
+        const task = store.tasks.get(id);
+        if (!task) return null;
+        return {
+          get repetitionRule() {
+            return task.repetition ? new RepetitionRule(task.repetition.rule, task.repetition.method) : null;
+          },
+          set repetitionRule(rule: RepetitionRule | null) {
+            task.repetition = rule ? { rule: rule.ruleString, method: rule.method } : null;
+          },
+        };
+      },
+    };
+    return vm.runInNewContext(source, { Task });
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * In-memory OmniFocus document model used by the fake backend.
+ *
+ * Plain records keyed by ID, mirroring what the JXA scripts read and write:
+ * tasks (inbox, project and subtasks), projects, folders, tags and
+ * perspectives. Relationships are stored as IDs; ordering follows insertion
+ * order, which stands in for OmniFocus's document order.
+ */
+
+export type ProjectStatus = "active" | "on hold" | "done" | "dropped";
+export type TagStatus = "active" | "on hold" | "dropped";
+
+export interface ReviewInterval {
+  unit: string;
+  steps: number;
+}
+
+export interface FakeTask {
+  id: string;
+  name: string;
+  note: string;
+  completed: boolean;
+  completionDate: Date | null;
+  dropped: boolean;
+  droppedDate: Date | null;
+  flagged: boolean;
+  dueDate: Date | null;
+  deferDate: Date | null;
+  plannedDate: Date | null;
+  estimatedMinutes: number | null;
+  tagIds: string[];
+  /** Containing project; null for inbox tasks. */
+  projectId: string | null;
+  /** Direct parent task; null for top-level tasks. */
+  parentTaskId: string | null;
+  /** Project an inbox task is assigned to (moved there on cleanup). */
+  assignedProjectId: string | null;
+  repetition: { rule: string; method: string } | null;
+}
+
+export interface FakeProject {
+  id: string;
+  name: string;
+  note: string;
+  status: ProjectStatus;
+  completionDate: Date | null;
+  flagged: boolean;
+  dueDate: Date | null;
+  deferDate: Date | null;
+  folderId: string | null;
+  sequential: boolean;
+  reviewInterval: ReviewInterval;
+  lastReviewDate: Date | null;
+  nextReviewDate: Date | null;
+}
+
+export interface FakeFolder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  hidden: boolean;
+}
+
+export interface FakeTag {
+  id: string;
+  name: string;
+  parentId: string | null;
+  status: TagStatus;
+  allowsNextAction: boolean;
+}
+
+export interface FakePerspective {
+  id: string | null;
+  name: string;
+  /** Decides which tasks the perspective shows in a document window. */
+  includes: (task: FakeTask, store: FakeStore) => boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Converts a JXA review interval record into milliseconds. */
+export function reviewIntervalMs(interval: ReviewInterval): number {
+  const unitDays: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+  return (unitDays[interval.unit] ?? 7) * interval.steps * DAY_MS;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/**
+ * Advances a date to the next occurrence of an RRULE (FREQ, INTERVAL and, for
+ * weekly rules, BYDAY). Good enough for the rules buildRRule() produces.
+ */
+export function nextOccurrence(date: Date, rule: string): Date {
+  const parts = Object.fromEntries(rule.split(";").map((part) => part.split("=") as [string, string]));
+  const interval = Number(parts.INTERVAL ?? 1);
+  const next = new Date(date.getTime());
+  switch (parts.FREQ) {
+    case "DAILY":
+      next.setDate(next.getDate() + interval);
+      break;
+    case "WEEKLY": {
+      const days = parts.BYDAY ? parts.BYDAY.split(",").map((code) => WEEKDAY_CODES.indexOf(code)) : [];
+      const later = days.filter((day) => day > date.getDay()).sort((a, b) => a - b);
+      if (later.length > 0) {
+        next.setDate(next.getDate() + later[0] - date.getDay());
+      } else {
+        const first = days.length > 0 ? Math.min(...days) : date.getDay();
+        next.setDate(next.getDate() + 7 * interval - date.getDay() + first);
+      }
+      break;
+    }
+    case "MONTHLY":
+      next.setMonth(next.getMonth() + interval);
+      break;
+    case "YEARLY":
+      next.setFullYear(next.getFullYear() + interval);
+      break;
+    default:
+      throw new Error(`Unsupported repetition rule: ${rule}`);
+  }
+  return next;
+}
+
+function isActive(task: FakeTask): boolean {
+  return !task.completed && !task.dropped;
+}
+
+const BUILT_IN_PERSPECTIVES: FakePerspective[] = [
+  { id: null, name: "Inbox", includes: (t) => t.projectId === null && isActive(t) },
+  { id: null, name: "Projects", includes: (t) => t.projectId !== null && isActive(t) },
+  { id: null, name: "Tags", includes: (t) => t.tagIds.length > 0 && isActive(t) },
+  {
+    id: null,
+    name: "Forecast",
+    includes: (t) => isActive(t) && t.dueDate !== null && t.dueDate.getTime() <= Date.now() + DAY_MS,
+  },
+  { id: null, name: "Flagged", includes: (t) => t.flagged && isActive(t) },
+  { id: null, name: "Review", includes: () => false },
+];
+
+export class FakeStore {
+  readonly tasks = new Map<string, FakeTask>();
+  readonly projects = new Map<string, FakeProject>();
+  readonly folders = new Map<string, FakeFolder>();
+  readonly tags = new Map<string, FakeTag>();
+  readonly perspectives: FakePerspective[] = [...BUILT_IN_PERSPECTIVES];
+
+  /** Perspective shown in the front document window. */
+  windowPerspective = "Inbox";
+
+  /**
+   * When the document last changed through the store or the JXA object model.
+   * Tests that edit records directly should call touch() themselves.
+   */
+  modifiedAt = Date.now();
+
+  private idCounter = 0;
+
+  /** Records a change; strictly increasing, even within one millisecond. */
+  touch(): void {
+    this.modifiedAt = Math.max(Date.now(), this.modifiedAt + 1);
+  }
+
+  nextId(prefix: string): string {
+    this.idCounter += 1;
+    return `${prefix}-${this.idCounter}`;
+  }
+
+  // --------------------------------------------------------------------------
+  // Record factories (used by the JXA object model and to seed tests)
+  // --------------------------------------------------------------------------
+
+  newTask(fields: Partial<FakeTask> & { name: string }): FakeTask {
+    return {
+      id: fields.id ?? this.nextId("task"),
+      note: "",
+      completed: false,
+      completionDate: null,
+      dropped: false,
+      droppedDate: null,
+      flagged: false,
+      dueDate: null,
+      deferDate: null,
+      plannedDate: null,
+      estimatedMinutes: null,
+      tagIds: [],
+      projectId: null,
+      parentTaskId: null,
+      assignedProjectId: null,
+      repetition: null,
+      ...fields,
+    };
+  }
+
+  newProject(fields: Partial<FakeProject> & { name: string }): FakeProject {
+    return {
+      id: fields.id ?? this.nextId("project"),
+      note: "",
+      status: "active",
+      completionDate: null,
+      flagged: false,
+      dueDate: null,
+      deferDate: null,
+      folderId: null,
+      sequential: false,
+      reviewInterval: { unit: "week", steps: 1 },
+      lastReviewDate: null,
+      nextReviewDate: null,
+      ...fields,
+    };
+  }
+
+  newFolder(fields: Partial<FakeFolder> & { name: string }): FakeFolder {
+    return { id: fields.id ?? this.nextId("folder"), parentId: null, hidden: false, ...fields };
+  }
+
+  newTag(fields: Partial<FakeTag> & { name: string }): FakeTag {
+    return { id: fields.id ?? this.nextId("tag"), parentId: null, status: "active", allowsNextAction: true, ...fields };
+  }
+
+  addTask(fields: Partial<FakeTask> & { name: string }): FakeTask {
+    const task = this.newTask(fields);
+    if (task.parentTaskId) {
+      task.projectId = this.getTask(task.parentTaskId).projectId;
+    }
+    this.tasks.set(task.id, task);
+    this.touch();
+    return task;
+  }
+
+  addProject(fields: Partial<FakeProject> & { name: string }): FakeProject {
+    const project = this.newProject(fields);
+    this.projects.set(project.id, project);
+    this.touch();
+    return project;
+  }
+
+  addFolder(fields: Partial<FakeFolder> & { name: string }): FakeFolder {
+    const folder = this.newFolder(fields);
+    this.folders.set(folder.id, folder);
+    this.touch();
+    return folder;
+  }
+
+  addTag(fields: Partial<FakeTag> & { name: string }): FakeTag {
+    const tag = this.newTag(fields);
+    this.tags.set(tag.id, tag);
+    this.touch();
+    return tag;
+  }
+
+  // --------------------------------------------------------------------------
+  // Lookups
+  // --------------------------------------------------------------------------
+
+  getTask(id: string): FakeTask {
+    const task = this.tasks.get(id);
+    if (!task) throw new Error(`Unknown task: ${id}`);
+    return task;
+  }
+
+  /** Direct children of a task, in document order. */
+  childTasks(taskId: string): FakeTask[] {
+    return [...this.tasks.values()].filter((t) => t.parentTaskId === taskId);
+  }
+
+  /** Top-level tasks of a project (or of the inbox when projectId is null). */
+  rootTasks(projectId: string | null): FakeTask[] {
+    return [...this.tasks.values()].filter((t) => t.projectId === projectId && t.parentTaskId === null);
+  }
+
+  /** Depth-first list of a project's tasks (or the inbox's, for null). */
+  flattenedTasksOf(projectId: string | null, children = this.childIndex()): FakeTask[] {
+    const result: FakeTask[] = [];
+    const visit = (task: FakeTask) => {
+      result.push(task);
+      (children.get(task.id) ?? []).forEach(visit);
+    };
+    this.rootTasks(projectId).forEach(visit);
+    return result;
+  }
+
+  /** Every task in the document: inbox first, then each project's tasks. */
+  flattenedTasks(): FakeTask[] {
+    const children = this.childIndex();
+    return [
+      ...this.flattenedTasksOf(null, children),
+      ...[...this.projects.keys()].flatMap((id) => this.flattenedTasksOf(id, children)),
+    ];
+  }
+
+  /** Subtasks by parent task ID, built in one pass so traversals stay linear. */
+  private childIndex(): Map<string, FakeTask[]> {
+    const children = new Map<string, FakeTask[]>();
+    for (const task of this.tasks.values()) {
+      if (task.parentTaskId === null) continue;
+      const siblings = children.get(task.parentTaskId);
+      if (siblings) siblings.push(task);
+      else children.set(task.parentTaskId, [task]);
+    }
+    return children;
+  }
+
+  /**
+   * Adds the next instance of a repeating task right after it, the way
+   * OmniFocus does when a repeating task is completed or dropped. Dates move
+   * forward from the due date ("Fixed") or from now (after-completion methods).
+   */
+  repeatTask(task: FakeTask): FakeTask | null {
+    if (!task.repetition) return null;
+    const { rule, method } = task.repetition;
+    const base = method === "Fixed" ? task.dueDate ?? task.deferDate ?? new Date() : new Date();
+    const next = nextOccurrence(base, rule);
+    const shift = (date: Date | null) => (date ? new Date(date.getTime() + next.getTime() - base.getTime()) : null);
+
+    const clone = this.newTask({
+      ...task,
+      id: this.nextId("task"),
+      tagIds: [...task.tagIds],
+      completed: false,
+      completionDate: null,
+      dropped: false,
+      droppedDate: null,
+      dueDate: shift(task.dueDate),
+      deferDate: shift(task.deferDate),
+      plannedDate: shift(task.plannedDate),
+    });
+    // Re-insert so the clone directly follows the original in document order.
+    const entries = [...this.tasks.entries()];
+    const index = entries.findIndex(([id]) => id === task.id);
+    entries.splice(index + 1, 0, [clone.id, clone]);
+    this.tasks.clear();
+    entries.forEach(([id, record]) => this.tasks.set(id, record));
+    return clone;
+  }
+
+  // --------------------------------------------------------------------------
+  // Deletion (cascades like OmniFocus: children go with their container)
+  // --------------------------------------------------------------------------
+
+  deleteTask(id: string): void {
+    this.childTasks(id).forEach((child) => this.deleteTask(child.id));
+    this.tasks.delete(id);
+    this.touch();
+  }
+
+  deleteProject(id: string): void {
+    this.rootTasks(id).forEach((task) => this.deleteTask(task.id));
+    this.projects.delete(id);
+    this.touch();
+  }
+
+  deleteFolder(id: string): void {
+    [...this.folders.values()].filter((f) => f.parentId === id).forEach((f) => this.deleteFolder(f.id));
+    [...this.projects.values()].filter((p) => p.folderId === id).forEach((p) => this.deleteProject(p.id));
+    this.folders.delete(id);
+    this.touch();
+  }
+
+  deleteTag(id: string): void {
+    [...this.tags.values()].filter((t) => t.parentId === id).forEach((t) => this.deleteTag(t.id));
+    this.tasks.forEach((task) => {
+      task.tagIds = task.tagIds.filter((tagId) => tagId !== id);
+    });
+    this.tags.delete(id);
+    this.touch();
+  }
+}
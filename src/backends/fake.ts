@@ -0,0 +1,59 @@
+/**
+ * Fake backend: runs the generated JXA scripts in a Node `vm` context whose
+ * `Application("OmniFocus")` is backed by an in-memory FakeStore.
+ *
+ * The scripts are executed exactly as osascript would receive them, so tools
+ * and their end-to-end flows can be exercised on any platform.
+ */
+
+import vm from "node:vm";
+import type { OmniFocusBackend, ScriptParams } from "../backend.js";
+import { FakeStore } from "./fake-store.js";
+import { JxaObjectModel } from "./fake-jxa.js";
+
+const SCRIPT_TIMEOUT_MS = 10_000;
+
+export class FakeBackend implements OmniFocusBackend {
+  readonly name = "fake";
+  /** Apple events the scripts run so far would have sent to OmniFocus. */
+  appleEvents = 0;
+
+  constructor(readonly store: FakeStore = new FakeStore()) {}
+
+  async run(script: string, params: ScriptParams, signal?: AbortSignal): Promise<string> {
+    // Scripts run synchronously, so a signal can only stop them from starting.
+    if (signal?.aborted) {
+      throw new Error("execution error: aborted");
+    }
+    const model = new JxaObjectModel(this.store);
+    const context = vm.createContext({
+      Application: (name: string) => {
+        if (name !== "OmniFocus") {
+          throw new Error(`Application can't be found. (-2700)`);
+        }
+        return model.application();
+      },
+    });
+    // Parse inside the context so `params` holds that realm's plain objects,
+    // exactly as JSON.parse in osascript would produce them.
+    context.params = vm.runInContext("JSON.parse", context)(JSON.stringify(params));
+
+    try {
+      // Like osascript, the output is the value of the last expression.
+      const result = vm.runInContext(script, context, { timeout: SCRIPT_TIMEOUT_MS });
+      return result === undefined ? "" : String(result);
+    } catch (error) {
+      // Errors thrown by the script come from the context's realm, so
+      // instanceof Error is false for them; read name/message structurally.
+      const { name = "Error", message = String(error) } =
+        (typeof error === "object" && error !== null ? error : {}) as { name?: string; message?: string };
+      throw new Error(`execution error: ${name}: ${message}`);
+    } finally {
+      this.appleEvents += model.appleEvents;
+    }
+  }
+
+  async modificationTime(): Promise<number | null> {
+    return this.store.modifiedAt;
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Persistent osascript backend: long-lived `osascript -l JavaScript` worker
+ * processes run the scripts, instead of a new process per call.
+ *
+ * The worker is a small JXA REPL. It reads one JSON request per line from
+ * stdin ({ id, script, params } or { id, ping: true }), evaluates the script
+ * in a fresh function scope with `params` bound, and writes one JSON response
+ * per line to stdout ({ id, ok, result } or { id, ok: false, error }).
+ * Requests are answered in order; responses are matched to callers by id.
+ *
+ * If the process dies, pending calls are rejected and the next call starts a
+ * new worker. Aborting a call kills its worker, the only way to stop a running
+ * JXA script. While idle, workers are pinged periodically and replaced if they
+ * stop answering.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import type { OmniFocusBackend, ScriptParams } from "../backend.js";
+import { databaseModificationTime } from "./database.js";
+import { logger } from "../logger.js";
+
+/**
+ * The JXA REPL run by the worker process. Input is read through
+ * NSFileHandle, buffering bytes until they decode as UTF-8 so multi-byte
+ * characters split across pipe reads survive. Direct eval inside a top-level
+ * function keeps each script's declarations out of the next script's (and the
+ * loop's) way, and its completion value is the script's output, as with
+ * `osascript file.js`.
+ */
+export const WORKER_SCRIPT = `
+ObjC.import("Foundation");
+function runScript(script, params) {
+  return eval(script);
+}
+(function() {
+  var input = $.NSFileHandle.fileHandleWithStandardInput;
+  var output = $.NSFileHandle.fileHandleWithStandardOutput;
+  var pending = $.NSMutableData.data;
+  var buffer = "";
+
+  function readLine() {
+    while (true) {
+      var newline = buffer.indexOf("\\n");
+      if (newline !== -1) {
+        var line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        return line;
+      }
+      var chunk = input.availableData;
+      if (chunk.length === 0) { return null; }
+      pending.appendData(chunk);
+      var text = $.NSString.alloc.initWithDataEncoding(pending, $.NSUTF8StringEncoding);
+      if (!text.isNil()) {
+        buffer += ObjC.unwrap(text);
+        pending = $.NSMutableData.data;
+      }
+    }
+  }
+
+  function send(response) {
+    var line = $.NSString.alloc.initWithUTF8String(JSON.stringify(response) + "\\n");
+    output.writeData(line.dataUsingEncoding($.NSUTF8StringEncoding));
+  }
+
+  var line;
+  while ((line = readLine()) !== null) {
+    if (!line) { continue; }
+    var request = JSON.parse(line);
+    if (request.ping) {
+      send({ id: request.id, ok: true, result: "pong" });
+      continue;
+    }
+    try {
+      var result = runScript(request.script, request.params);
+      send({ id: request.id, ok: true, result: result === undefined ? "" : String(result) });
+    } catch (e) {
+      var message = String(e) + (e && e.errorNumber !== undefined ? " (" + e.errorNumber + ")" : "");
+      send({ id: request.id, ok: false, error: message });
+    }
+  }
+})();
+`;
+
+interface WorkerResponse {
+  id: number;
+  ok: boolean;
+  result?: string;
+  error?: string;
+}
+
+interface PendingCall {
+  resolve: (stdout: string) => void;
+  reject: (error: Error) => void;
+}
+
+/** Stdio handles of a child process are sockets, which can be (un)ref'd. */
+type Refable = { ref?: () => void; unref?: () => void };
+
+/**
+ * One worker process. Once it exits it stays dead; OsascriptWorkerBackend
+ * replaces it.
+ */
+export class OsascriptWorker {
+  private readonly child: ChildProcess;
+  private readonly pending = new Map<number, PendingCall>();
+  private nextId = 0;
+  private stdoutBuffer = "";
+  private exited = false;
+
+  constructor(private readonly onExit: (worker: OsascriptWorker, reason: string) => void) {
+    this.child = spawn("osascript", ["-l", "JavaScript", "-e", WORKER_SCRIPT], {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.child.stdout?.setEncoding("utf8");
+    this.child.stdout?.on("data", (chunk: string) => this.onStdout(chunk));
+    // osascript reports its own failures (syntax errors, crashes) on stderr.
+    let stderr = "";
+    this.child.stderr?.setEncoding("utf8");
+    this.child.stderr?.on("data", (chunk: string) => {
+      stderr = (stderr + chunk).slice(-4096);
+    });
+    // Writes racing the process's death fail with EPIPE; the exit handler
+    // below rejects those calls.
+    this.child.stdin?.on("error", () => {});
+    this.child.on("error", (error) => this.fail(error.message));
+    this.child.on("exit", (code, signal) => {
+      const status = signal ? `signal ${signal}` : `code ${code}`;
+      this.fail(stderr.trim() ? `${status}: ${stderr.trim()}` : status);
+    });
+    this.setRef(false);
+  }
+
+  get alive(): boolean {
+    return !this.exited;
+  }
+
+  get busy(): boolean {
+    return this.pending.size > 0;
+  }
+
+  /**
+   * Runs a complete JXA script in the worker and resolves with its output.
+   * A running JXA script cannot be interrupted, so aborting `signal` stops
+   * the whole worker (and fails anything else it was running).
+   */
+  async run(script: string, params: ScriptParams, signal?: AbortSignal): Promise<string> {
+    if (signal?.aborted) {
+      throw new Error("osascript worker call aborted");
+    }
+    const onAbort = () => this.close("aborted");
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      return await this.send({ script, params });
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /** Resolves once the worker answers a ping; rejects after `timeoutMs`. */
+  async ping(timeoutMs: number): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`osascript worker did not answer within ${timeoutMs}ms`)), timeoutMs);
+    });
+    try {
+      await Promise.race([this.send({ ping: true }), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /** Stops the worker. Pending calls are rejected. */
+  close(reason = "closed"): void {
+    if (this.exited) return;
+    this.fail(reason);
+    this.child.stdin?.end();
+    this.child.kill();
+  }
+
+  private send(request: Record<string, unknown>): Promise<string> {
+    if (this.exited) {
+      return Promise.reject(new Error("osascript worker is not running"));
+    }
+    const id = ++this.nextId;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.setRef(true);
+      this.child.stdin?.write(JSON.stringify({ id, ...request }) + "\n");
+    });
+  }
+
+  private onStdout(chunk: string): void {
+    this.stdoutBuffer += chunk;
+    let newline: number;
+    while ((newline = this.stdoutBuffer.indexOf("\n")) !== -1) {
+      const line = this.stdoutBuffer.slice(0, newline);
+      this.stdoutBuffer = this.stdoutBuffer.slice(newline + 1);
+      if (line.trim()) this.onResponse(line);
+    }
+  }
+
+  private onResponse(line: string): void {
+    let response: WorkerResponse;
+    try {
+      response = JSON.parse(line) as WorkerResponse;
+    } catch {
+      // Anything that is not a response means the protocol is broken; start over.
+      this.fail(`unexpected output: ${line.slice(0, 200)}`);
+      this.child.kill();
+      return;
+    }
+    const call = this.pending.get(response.id);
+    if (!call) return;
+    this.pending.delete(response.id);
+    if (this.pending.size === 0) this.setRef(false);
+    if (response.ok) {
+      call.resolve(response.result ?? "");
+    } else {
+      // Same shape as osascript's stderr, so the executor's translations apply.
+      call.reject(new Error(`execution error: ${response.error}`));
+    }
+  }
+
+  private fail(reason: string): void {
+    if (this.exited) return;
+    this.exited = true;
+    const error = new Error(`osascript worker exited (${reason})`);
+    for (const call of this.pending.values()) call.reject(error);
+    this.pending.clear();
+    this.onExit(this, reason);
+  }
+
+  /**
+   * An idle worker must not keep Node alive on its own: the server exits when
+   * its transport closes, and the worker exits when its stdin does.
+   */
+  private setRef(ref: boolean): void {
+    for (const handle of [this.child, this.child.stdin, this.child.stdout, this.child.stderr] as Refable[]) {
+      if (ref) handle?.ref?.();
+      else handle?.unref?.();
+    }
+  }
+}
+
+export interface OsascriptWorkerOptions {
+  /** How often an idle worker is pinged; 0 disables health checks. */
+  healthCheckIntervalMs?: number;
+  /** How long a ping may take before the worker is replaced. */
+  healthCheckTimeoutMs?: number;
+}
+
+/**
+ * Runs each script on an idle worker, starting another when all are busy.
+ * The executor's queue bounds how many scripts run at once, so the pool
+ * grows to at most its concurrency (one worker with the default of 1).
+ */
+export class OsascriptWorkerBackend implements OmniFocusBackend {
+  readonly name = "osascript";
+
+  private workers: OsascriptWorker[] = [];
+  private healthTimer: NodeJS.Timeout | null = null;
+  private readonly healthCheckIntervalMs: number;
+  private readonly healthCheckTimeoutMs: number;
+  /** Workers started so far, including replacements after a crash. */
+  starts = 0;
+
+  constructor(options: OsascriptWorkerOptions = {}) {
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? 30_000;
+    this.healthCheckTimeoutMs = options.healthCheckTimeoutMs ?? 5_000;
+  }
+
+  /** Live workers (for tests and health reporting). */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  async run(script: string, params: ScriptParams, signal?: AbortSignal): Promise<string> {
+    const worker = this.workers.find((w) => !w.busy) ?? this.startWorker();
+    return worker.run(script, params, signal);
+  }
+
+  /**
+   * Pings every idle worker (starting one if there are none) and replaces
+   * those that do not answer. Resolves to whether all of them answered. Busy
+   * workers count as healthy: pings queue behind running scripts.
+   */
+  async healthCheck(): Promise<boolean> {
+    const idle = this.workers.length > 0 ? this.workers.filter((w) => !w.busy) : [this.startWorker()];
+    const results = await Promise.all(idle.map(async (worker) => {
+      try {
+        await worker.ping(this.healthCheckTimeoutMs);
+        return true;
+      } catch (error) {
+        logger.warn("osascript worker failed its health check", { error });
+        worker.close();
+        return false;
+      }
+    }));
+    return results.every(Boolean);
+  }
+
+  /** When the OmniFocus database last changed, read from its files rather than through a worker. */
+  modificationTime(): Promise<number | null> {
+    return databaseModificationTime();
+  }
+
+  /** Stops the workers and the health checks. The next call starts a new worker. */
+  async close(): Promise<void> {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    const workers = this.workers;
+    this.workers = [];
+    workers.forEach((worker) => worker.close());
+  }
+
+  private startWorker(): OsascriptWorker {
+    const worker = new OsascriptWorker((exited, reason) => {
+      this.workers = this.workers.filter((w) => w !== exited);
+      if (reason !== "closed" && reason !== "aborted") {
+        logger.warn("osascript worker exited; a new one starts on the next call", { reason });
+      }
+    });
+    this.workers.push(worker);
+    this.starts += 1;
+    this.startHealthChecks();
+    return worker;
+  }
+
+  private startHealthChecks(): void {
+    if (this.healthTimer || this.healthCheckIntervalMs <= 0) return;
+    this.healthTimer = setInterval(() => {
+      if (this.workers.length > 0) void this.healthCheck();
+    }, this.healthCheckIntervalMs);
+    this.healthTimer.unref();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * osascript backend: runs JXA against the real OmniFocus on macOS, one
+ * osascript process per call. The default is the persistent worker in
+ * osascript-worker.ts; this one is the fallback (OMNIFOCUS_OSASCRIPT_WORKER=0).
+ *
+ * The script and its parameters go into two temp files. The parameters file's
+ * path is passed as the last osascript argument, and a loader prepended to the
+ * script reads and parses it through the Foundation bridge, so no parameter
+ * value is ever part of the script source.
+ */
+
+import { exec } from "child_process";
+import { promisify } from "util";
+import { writeFile, unlink } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { OmniFocusBackend, ScriptParams } from "../backend.js";
+import { databaseModificationTime } from "./database.js";
+
+const execAsync = promisify(exec);
+
+const PARAMS_LOADER = `
+  ObjC.import("Foundation");
+  const params = (function() {
+    var args = $.NSProcessInfo.processInfo.arguments;
+    var path = ObjC.unwrap(args.objectAtIndex(args.count - 1));
+    var json = $.NSString.stringWithContentsOfFileEncodingError(path, $.NSUTF8StringEncoding, $());
+    return JSON.parse(ObjC.unwrap(json));
+  })();
+`;
+
+export class OsascriptBackend implements OmniFocusBackend {
+  readonly name = "osascript";
+
+  async run(script: string, params: ScriptParams, signal?: AbortSignal): Promise<string> {
+    // Write to temp files to avoid shell escaping issues
+    const stamp = `${Date.now()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+    const tmpFile = join(tmpdir(), `omnifocus-script-${stamp}.js`);
+    const paramsFile = join(tmpdir(), `omnifocus-params-${stamp}.json`);
+    await writeFile(tmpFile, PARAMS_LOADER + script, "utf8");
+    await writeFile(paramsFile, JSON.stringify(params), { encoding: "utf8", mode: 0o600 });
+
+    try {
+      const { stdout, stderr } = await execAsync(
+        `osascript -l JavaScript "${tmpFile}" "${paramsFile}"`,
+        // Aborting kills the osascript process.
+        { maxBuffer: 10 * 1024 * 1024, signal }
+      );
+
+      if (stderr && !stdout) {
+        throw new Error(stderr);
+      }
+
+      return stdout;
+    } finally {
+      await unlink(tmpFile).catch(() => {});
+      await unlink(paramsFile).catch(() => {});
+    }
+  }
+
+  modificationTime(): Promise<number | null> {
+    return databaseModificationTime();
+  }
+}
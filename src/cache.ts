@@ -0,0 +1,211 @@
+/**
+ * Snapshot cache
+ *
+ * Read tools that walk the whole database (listing, search, due/flagged/
+ * planned tasks) can answer from a snapshot of every task, project, folder and
+ * tag instead of running a script of their own. The snapshot is fetched with
+ * one bulk script and served until it is older than the TTL, a mutating tool
+ * runs (server.ts calls invalidateCache), or the backend reports that the
+ * OmniFocus database changed, e.g. after an edit in the OmniFocus UI or a sync.
+ *
+ * Disabled by default; OMNIFOCUS_CACHE_TTL_MS > 0 enables it. getSnapshot()
+ * returns null while it is disabled and tools then run their own scripts.
+ */
+
+import { getBackend } from "./backend.js";
+import { executeAndParseJSON } from "./executor.js";
+import { observe } from "./metrics.js";
+import { logger } from "./logger.js";
+import { OmniFocusCancelledError } from "./errors.js";
+import { TASK_MAPPER, PROJECT_MAPPER, FOLDER_MAPPER, TAG_MAPPER } from "./mappers.js";
+import type { TaskData, ProjectData, FolderData, TagData } from "./types.js";
+
+export interface OmniFocusSnapshot {
+  /** Every task, in doc.flattenedTasks order. */
+  tasks: TaskData[];
+  projects: ProjectData[];
+  folders: FolderData[];
+  tags: TagData[];
+  /** Each project's task IDs, in project.flattenedTasks order. */
+  projectTaskIds: Record<string, string[]>;
+}
+
+export interface CacheConfig {
+  /** How long a snapshot is served, in milliseconds; 0 disables the cache. */
+  ttlMs: number;
+}
+
+/**
+ * Reads the cache settings from OMNIFOCUS_CACHE_TTL_MS.
+ */
+export function cacheConfigFromEnv(env: NodeJS.ProcessEnv = process.env): CacheConfig {
+  const value = env.OMNIFOCUS_CACHE_TTL_MS;
+  if (value === undefined || value === "") return { ttlMs: 0 };
+  const ttlMs = Number(value);
+  if (!Number.isInteger(ttlMs) || ttlMs < 0) {
+    throw new Error(`Invalid OMNIFOCUS_CACHE_TTL_MS: ${value}`);
+  }
+  return { ttlMs };
+}
+
+const SNAPSHOT_SCRIPT = `
+  ${TASK_MAPPER}
+  ${PROJECT_MAPPER}
+  ${FOLDER_MAPPER}
+  ${TAG_MAPPER}
+  var projects = doc.flattenedProjects;
+  var projectIds = projects.id();
+  var nestedTaskIds = readColumn(projects, projectIds.length, function(s) { return s.flattenedTasks.id(); }, function(p) {
+    return p.flattenedTasks.id();
+  });
+  var projectTaskIds = {};
+  projectIds.forEach(function(id, i) { projectTaskIds[id] = nestedTaskIds[i] || []; });
+  JSON.stringify({
+    tasks: mapTasks(doc.flattenedTasks),
+    projects: mapProjects(projects),
+    folders: doc.flattenedFolders().map(mapFolder),
+    tags: doc.flattenedTags().map(mapTag),
+    projectTaskIds: projectTaskIds
+  });
+`;
+
+interface CacheEntry {
+  snapshot: OmniFocusSnapshot;
+  fetchedAt: number;
+  /** The backend's modification time when the fetch started. */
+  modificationTime: number | null;
+}
+
+let config: CacheConfig | null = null;
+let entry: CacheEntry | null = null;
+let pending: Promise<OmniFocusSnapshot> | null = null;
+/** Bumped by invalidateCache so a fetch that was running then is not kept. */
+let generation = 0;
+const stats = { hits: 0, misses: 0, invalidations: 0 };
+
+observe("omnifocus_cache_hits_total", "Reads served from the snapshot cache.", "counter", () => stats.hits);
+observe("omnifocus_cache_misses_total", "Reads that fetched a new snapshot.", "counter", () => stats.misses);
+observe("omnifocus_cache_invalidations_total", "Snapshots dropped before their TTL.", "counter", () => stats.invalidations);
+
+function getConfig(): CacheConfig {
+  if (!config) config = cacheConfigFromEnv();
+  return config;
+}
+
+/**
+ * Overrides cache settings (tests, embedding). Drops the current snapshot.
+ */
+export function configureCache(options: Partial<CacheConfig>): void {
+  config = { ...getConfig(), ...options };
+  entry = null;
+  pending = null;
+  generation++;
+}
+
+export function getCacheStats(): { hits: number; misses: number; invalidations: number } {
+  return { ...stats };
+}
+
+/**
+ * Drops the snapshot, e.g. after a tool changed the database.
+ */
+export function invalidateCache(reason: string): void {
+  generation++;
+  pending = null;
+  if (entry) {
+    entry = null;
+    stats.invalidations++;
+    logger.debug("Snapshot cache invalidated", { reason });
+  }
+}
+
+async function fetchSnapshot(modificationTime: number | null): Promise<OmniFocusSnapshot> {
+  const startedGeneration = generation;
+  const started = Date.now();
+  const snapshot = await executeAndParseJSON<OmniFocusSnapshot>(SNAPSHOT_SCRIPT, {}, { retryable: true });
+  if (generation === startedGeneration) {
+    entry = { snapshot, fetchedAt: Date.now(), modificationTime };
+  }
+  logger.debug("Snapshot cache refreshed", { durationMs: Date.now() - started, tasks: snapshot.tasks.length });
+  return snapshot;
+}
+
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new OmniFocusCancelledError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new OmniFocusCancelledError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Returns the current snapshot, fetching a new one when there is none or it
+ * went stale. Resolves to null when the cache is disabled. Concurrent callers
+ * share one fetch; aborting `signal` stops waiting for it but not the fetch.
+ */
+export async function getSnapshot(signal?: AbortSignal): Promise<OmniFocusSnapshot | null> {
+  const { ttlMs } = getConfig();
+  if (ttlMs <= 0) return null;
+
+  const modificationTime = (await getBackend().modificationTime?.()) ?? null;
+  if (entry) {
+    const age = Date.now() - entry.fetchedAt;
+    const changed = modificationTime !== null && modificationTime !== entry.modificationTime;
+    if (age < ttlMs && !changed) {
+      stats.hits++;
+      logger.debug("Snapshot cache hit", { ageMs: age });
+      return entry.snapshot;
+    }
+    invalidateCache(changed ? "OmniFocus database changed" : "expired");
+  }
+
+  stats.misses++;
+  if (!pending) {
+    const fetching: Promise<OmniFocusSnapshot> = fetchSnapshot(modificationTime).finally(() => {
+      if (pending === fetching) pending = null;
+    });
+    pending = fetching;
+  }
+  return untilAborted(pending, signal);
+}
+
+// ============================================================================
+// Query helpers shared by the tools that read snapshots
+// ============================================================================
+
+/** Same semantics as generateTagFilter in helpers.ts. */
+export function filterByTags(tasks: TaskData[], tags: string[] | undefined, mode: "all" | "any" | "none"): TaskData[] {
+  if (!tags || tags.length === 0) return tasks;
+  return tasks.filter((task) => {
+    const matched = tags.filter((tag) => task.tags.includes(tag)).length;
+    return mode === "any" ? matched > 0 : mode === "none" ? matched === 0 : matched === tags.length;
+  });
+}
+
+/**
+ * "Now" and the end of the day `daysAhead` days from now, as ISO strings, the
+ * way the due/planned/review scripts compute them.
+ */
+export function dateWindow(daysAhead: number): { now: string; until: string } {
+  const now = new Date();
+  const until = new Date();
+  until.setDate(until.getDate() + daysAhead);
+  until.setHours(23, 59, 59, 999);
+  return { now: now.toISOString(), until: until.toISOString() };
+}
+
+/** Orders records by an ISO date field (ISO strings sort chronologically). */
+export function byDate<K extends string>(key: K) {
+  return (a: { [P in K]: string | null }, b: { [P in K]: string | null }): number => {
+    const x = a[key] ?? "";
+    const y = b[key] ?? "";
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+}
+
+/** Case-insensitive substring match, as the search scripts do it. */
+export function containsText(value: string | null, query: string): boolean {
+  return value !== null && value.toLowerCase().includes(query.toLowerCase());
+}
@@ -0,0 +1,563 @@
+/**
+ * Dry runs
+ *
+ * Every tool that is not read-only accepts `dryRun: true` (server.ts adds the
+ * flag to its input schema). A dry run resolves the objects the call names
+ * the way the tool would, validates its arguments, and reports the changes it
+ * would make (object IDs, old values and new values) without running the
+ * tool. MCP_DRY_RUN=1 makes every such call a dry run, whatever it passes.
+ *
+ * The targets are read with the journal's capture scripts (journal.ts); other
+ * objects the call refers to (projects to move to, tags to add) with the
+ * tools' own find scripts, and arguments are checked with the tools' own
+ * checks (helpers.ts). Nothing a dry run runs changes OmniFocus.
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import * as z4 from "zod/v4";
+import { toJsonSchemaCompat } from "@modelcontextprotocol/sdk/server/zod-json-schema-compat.js";
+import { executeAndParseJSON } from "./executor.js";
+import { OmniFocusNotFoundError, OmniFocusValidationError, toolErrorResult } from "./errors.js";
+import {
+  buildRRule,
+  generateFindFolderScript,
+  generateFindParentFolderScript,
+  generateFindParentTaskScript,
+  generateFindProjectScript,
+  generateFindTagScript,
+  generateFindTagsScript,
+  projectUpdateError,
+  referenceError,
+  taskUpdateError
+} from "./helpers.js";
+import { toolResult, DryRunOutputSchema } from "./outputs.js";
+import {
+  captureIds,
+  captureTargets,
+  entryToUndo,
+  journalTarget,
+  overwriteNote,
+  DERIVED_FIELDS,
+  type JournalKind,
+  type JournalRecord,
+  type ProjectRecord,
+  type TaskRecord
+} from "./journal.js";
+import type { FolderData } from "./types.js";
+import {
+  CreateTaskInputSchema,
+  CompleteTaskInputSchema,
+  UpdateTaskInputSchema,
+  DeleteTaskInputSchema,
+  BatchCompleteTaskInputSchema,
+  UpdateTaskNoteInputSchema,
+  AddTagInputSchema,
+  RemoveTagInputSchema,
+  BatchAddTagInputSchema,
+  BatchRemoveTagInputSchema,
+  CreateProjectInputSchema,
+  UpdateProjectInputSchema,
+  UpdateProjectNoteInputSchema,
+  DeleteProjectInputSchema,
+  MarkProjectReviewedInputSchema,
+  BatchMarkReviewedInputSchema,
+  CreateFolderInputSchema,
+  UpdateFolderInputSchema,
+  DeleteFolderInputSchema,
+  UndoChangeInputSchema,
+  DryRunFlagSchema
+} from "./schemas.js";
+
+export interface DryRunConfig {
+  /** Whether every call to a tool that is not read-only is a dry run. */
+  always: boolean;
+}
+
+/**
+ * Reads the dry-run setting from MCP_DRY_RUN.
+ */
+export function dryRunConfigFromEnv(env: NodeJS.ProcessEnv = process.env): DryRunConfig {
+  const value = env.MCP_DRY_RUN || "0";
+  if (value !== "0" && value !== "1") {
+    throw new Error(`Invalid MCP_DRY_RUN: ${value} (expected 0 or 1)`);
+  }
+  return { always: value === "1" };
+}
+
+let config: DryRunConfig | null = null;
+
+function getConfig(): DryRunConfig {
+  if (!config) config = dryRunConfigFromEnv();
+  return config;
+}
+
+/** Overrides the dry-run setting (tests, embedding). */
+export function configureDryRun(options: Partial<DryRunConfig>): void {
+  config = { ...getConfig(), ...options };
+}
+
+/** `schema` with the dryRun flag added, for tools that can be dry run. */
+export function withDryRunFlag<T>(schema: T): T {
+  return schema instanceof z.ZodObject ? (schema.extend({ dryRun: DryRunFlagSchema }) as T) : schema;
+}
+
+/**
+ * The output schema of a tool that can be dry run: its own output, unchanged,
+ * or a dry run's plan (DryRunOutputSchema), which alone has `dryRun: true`.
+ * An output schema must be a single object schema, so this one checks a value
+ * against the union of the two and advertises them as `oneOf`.
+ */
+export function withDryRunOutput(schema: z.AnyZodObject): z4.ZodObject {
+  const outputs = z.union([DryRunOutputSchema, schema]);
+  return z4.looseObject({})
+    .superRefine((value, ctx) => {
+      const parsed = outputs.safeParse(value);
+      if (!parsed.success) ctx.addIssue({ code: "custom", message: parsed.error.message });
+    })
+    .meta({ oneOf: [jsonSchemaOf(schema), jsonSchemaOf(DryRunOutputSchema)] });
+}
+
+/** `schema` as JSON Schema, to embed in another one. */
+function jsonSchemaOf(schema: z.AnyZodObject): Record<string, unknown> {
+  const { $schema: _dialect, ...json } = toJsonSchemaCompat(schema, { pipeStrategy: "output" });
+  return json;
+}
+
+/** Whether a call with these arguments is a dry run. */
+export function isDryRun(input: unknown): boolean {
+  return getConfig().always || (input as { dryRun?: unknown } | undefined)?.dryRun === true;
+}
+
+// ============================================================================
+// Plans
+// ============================================================================
+
+export interface PlannedChange {
+  kind: JournalKind;
+  action: "create" | "update" | "delete";
+  /** null for objects the call would create. */
+  id: string | null;
+  name: string;
+  /** The created object's values, or the deleted object's. */
+  values?: Record<string, unknown>;
+  /** Each changed field's value now and after the call. */
+  fields?: Record<string, { before: unknown; after: unknown }>;
+}
+
+interface Plan {
+  changes: PlannedChange[];
+  /** Objects a batch tool names that it would fail on, as it reports them. */
+  failures?: Array<Record<string, unknown>>;
+  /** What the changes above leave out, such as OmniFocus's own follow-ups. */
+  notes?: string[];
+}
+
+type Values = Record<string, unknown>;
+
+function created(kind: JournalKind, values: Values): PlannedChange {
+  return { kind, action: "create", id: null, name: String(values.name), values: definedOnly(values) };
+}
+
+function deleted(kind: JournalKind, record: JournalRecord): PlannedChange {
+  const { id, ...values } = record as unknown as Values;
+  return { kind, action: "delete", id: String(id), name: record.name, values };
+}
+
+/** The fields of `next` that differ from `record`; null when none do. */
+function updated(kind: JournalKind, record: JournalRecord, next: Values): PlannedChange | null {
+  const current = record as unknown as Values;
+  const fields: Record<string, { before: unknown; after: unknown }> = {};
+  Object.entries(next).forEach(([key, after]) => {
+    if (after !== undefined && JSON.stringify(current[key]) !== JSON.stringify(after)) {
+      fields[key] = { before: current[key], after };
+    }
+  });
+  return Object.keys(fields).length > 0 ? { kind, action: "update", id: record.id, name: record.name, fields } : null;
+}
+
+function definedOnly(values: Values): Values {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/** A date argument as the mappers report dates; null and undefined pass through. */
+function isoDate(value: string | null | undefined): string | null | undefined {
+  return value ? new Date(value).toISOString() : value;
+}
+
+/** Repetition method names from buildRRule, as JXA (and so the mappers) report them. */
+const REPETITION_METHOD_NAMES: Record<string, string> = {
+  Fixed: "fixed repetition",
+  DueDate: "due again after completion",
+};
+
+/** `date` moved on by a project's review interval. */
+function addInterval(date: Date, interval: { unit: string; steps: number }): Date {
+  const next = new Date(date);
+  if (interval.unit === "day") next.setDate(next.getDate() + interval.steps);
+  else if (interval.unit === "week") next.setDate(next.getDate() + 7 * interval.steps);
+  else if (interval.unit === "month") next.setMonth(next.getMonth() + interval.steps);
+  else if (interval.unit === "year") next.setFullYear(next.getFullYear() + interval.steps);
+  return next;
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+interface Found {
+  id: string;
+  name: string;
+}
+
+/**
+ * The object a find script from helpers.ts sets `variable` to, run with the
+ * call's arguments. Fails as the tool does when there is none.
+ */
+async function find(findScript: string, variable: string, args: Values, signal?: AbortSignal): Promise<Found> {
+  const script = `
+    ${findScript}
+    JSON.stringify({ id: ${variable}.id(), name: ${variable}.name() });
+  `;
+  return executeAndParseJSON<Found>(script, args, { signal, retryable: true });
+}
+
+/** The names in `args.tagNames` that a tag has, as omnifocus_create_task finds them. */
+async function existingTags(args: Values, signal?: AbortSignal): Promise<string[]> {
+  const script = `
+    ${generateFindTagsScript()}
+    JSON.stringify(foundTags.map(function(t) { return t.name(); }));
+  `;
+  return executeAndParseJSON<string[]>(script, args, { signal, retryable: true });
+}
+
+// ============================================================================
+// Planners
+// ============================================================================
+
+interface PlanContext {
+  signal?: AbortSignal;
+  /** The objects the call names, read as the journal reads them. */
+  targets(): Promise<{ records: JournalRecord[]; missing: string[] }>;
+}
+
+type Planner = (args: never, context: PlanContext) => Promise<Plan>;
+
+/** A planner for a tool taking `schema`'s arguments; the schema only types them. */
+function planner<S extends z.ZodTypeAny>(_schema: S, plan: (args: z.output<S>, context: PlanContext) => Promise<Plan>): Planner {
+  return plan as Planner;
+}
+
+const NOUNS: Record<JournalKind, string> = { task: "Task", project: "Project", folder: "Folder" };
+
+/** Throws the error from one of the tools' argument checks, if any. */
+function check(error: OmniFocusValidationError | null): void {
+  if (error) throw error;
+}
+
+/** The one object a call names, failing as the tool would when it is missing. */
+async function single<T extends JournalRecord>(kind: JournalKind, context: PlanContext): Promise<T> {
+  const { records, missing } = await context.targets();
+  if (missing.length > 0 || records.length === 0) {
+    throw new OmniFocusNotFoundError(`${NOUNS[kind]} not found with ID: ${missing[0]}`);
+  }
+  return records[0] as T;
+}
+
+/** Per-object failures as the batch tools report them. */
+function notFound(kind: "task" | "project", missing: string[]): Array<Record<string, unknown>> {
+  return missing.map((id) => ({ [`${kind}Id`]: id, code: "NOT_FOUND", error: `${NOUNS[kind]} not found` }));
+}
+
+function completion(task: TaskRecord, action: "complete" | "drop"): PlannedChange | null {
+  // Dropping clears the repetition rule first; see omnifocus_complete_task.
+  return action === "drop"
+    ? updated("task", task, { dropped: true, repetitionRule: null, repetitionMethod: null })
+    : updated("task", task, { completed: true });
+}
+
+function repeatNotes(tasks: TaskRecord[], action: "complete" | "drop"): string[] {
+  if (action === "drop") return [];
+  return tasks
+    .filter((task) => task.repetitionRule && !task.completed)
+    .map((task) => `Completing "${task.name}" makes OmniFocus create its next occurrence.`);
+}
+
+function review(project: ProjectRecord, days: number | undefined, now: Date): PlannedChange | null {
+  const interval = days ? { unit: "day", steps: days } : project.reviewInterval;
+  return updated("project", project, {
+    reviewInterval: days ? interval : undefined,
+    lastReviewDate: now.toISOString(),
+    nextReviewDate: interval ? addInterval(now, interval).toISOString() : undefined,
+  });
+}
+
+function compact(changes: Array<PlannedChange | null>): PlannedChange[] {
+  return changes.filter((change): change is PlannedChange => change !== null);
+}
+
+const PLANNERS: Record<string, Planner> = {
+  omnifocus_create_task: planner(CreateTaskInputSchema, async (args, { signal }) => {
+    const { name, note, projectName, parentTaskId, dueDate, deferDate, plannedDate, flagged, estimatedMinutes, tagNames, recurrence } = args;
+    let container: Values = { inInbox: true };
+    if (parentTaskId) {
+      await find(generateFindParentTaskScript(), "parentTask", args, signal);
+      container = { parentTaskId };
+    } else if (projectName) {
+      const project = await find(generateFindProjectScript("name"), "project", args, signal);
+      container = { projectId: project.id, projectName };
+    }
+    const tags = tagNames && tagNames.length > 0 ? await existingTags(args, signal) : [];
+    const rule = recurrence ? buildRRule(recurrence) : null;
+    const change = created("task", {
+      name,
+      note: note ?? "",
+      ...container,
+      dueDate: isoDate(dueDate) ?? null,
+      deferDate: isoDate(deferDate) ?? null,
+      plannedDate: isoDate(plannedDate) ?? null,
+      flagged: flagged ?? false,
+      estimatedMinutes: estimatedMinutes || null,
+      tags: (tagNames ?? []).filter((tag) => tags.includes(tag)),
+      repetitionRule: rule?.ruleString ?? null,
+      repetitionMethod: rule ? REPETITION_METHOD_NAMES[rule.method] : null,
+    });
+    const notes = (tagNames ?? []).filter((tag) => !tags.includes(tag)).map((tag) => `Tag "${tag}" does not exist and is not applied.`);
+    return { changes: [change], notes };
+  }),
+
+  omnifocus_complete_task: planner(CompleteTaskInputSchema, async (args, context) => {
+    check(referenceError("task", args.taskId, args.taskName));
+    const task = await single<TaskRecord>("task", context);
+    return { changes: compact([completion(task, args.action)]), notes: repeatNotes([task], args.action) };
+  }),
+
+  omnifocus_update_task: planner(UpdateTaskInputSchema, async (args, context) => {
+    const { taskId, taskName, name, note, dueDate, deferDate, plannedDate, flagged, estimatedMinutes, projectId, projectName, recurrence, clearRecurrence } = args;
+    check(referenceError("task", taskId, taskName) ?? taskUpdateError(args));
+    const task = await single<TaskRecord>("task", context);
+
+    let move: Values = {};
+    if (projectId || projectName) {
+      const project = await find(generateFindProjectScript(projectId ? "id" : "name"), "project", args, context.signal);
+      move = { projectId: project.id, projectName: project.name, inInbox: false };
+    }
+    const rule = recurrence ? buildRRule(recurrence) : null;
+    const clears = recurrence === null || clearRecurrence === true;
+    return {
+      changes: compact([updated("task", task, {
+        name,
+        note: note === null ? "" : note,
+        dueDate: isoDate(dueDate),
+        deferDate: isoDate(deferDate),
+        plannedDate: isoDate(plannedDate),
+        flagged,
+        estimatedMinutes: estimatedMinutes === 0 ? null : estimatedMinutes,
+        ...move,
+        repetitionRule: rule ? rule.ruleString : clears ? null : undefined,
+        repetitionMethod: rule ? REPETITION_METHOD_NAMES[rule.method] : clears ? null : undefined,
+      })]),
+    };
+  }),
+
+  omnifocus_delete_task: planner(DeleteTaskInputSchema, async (args, context) => {
+    check(referenceError("task", args.taskId, args.taskName));
+    await single("task", context);
+    const { records } = await context.targets();
+    return { changes: records.map((task) => deleted("task", task)) };
+  }),
+
+  omnifocus_batch_complete_task: planner(BatchCompleteTaskInputSchema, async (args, context) => {
+    const { records, missing } = await context.targets();
+    const tasks = records as TaskRecord[];
+    return {
+      changes: compact(tasks.map((task) => completion(task, args.action))),
+      failures: notFound("task", missing),
+      notes: repeatNotes(tasks, args.action),
+    };
+  }),
+
+  omnifocus_update_task_note: planner(UpdateTaskNoteInputSchema, async (args, context) => {
+    check(referenceError("task", args.taskId, args.taskName));
+    const task = await single<TaskRecord>("task", context);
+    return { changes: compact([updated("task", task, { note: args.append ? task.note + args.note : args.note })]) };
+  }),
+
+  omnifocus_add_tag_to_task: planner(AddTagInputSchema, async (args, context) => {
+    check(referenceError("task", args.taskId, args.taskName));
+    const task = await single<TaskRecord>("task", context);
+    await find(generateFindTagScript(), "tag", args, context.signal);
+    return { changes: compact([updated("task", task, { tags: task.tags.includes(args.tagName) ? task.tags : [...task.tags, args.tagName] })]) };
+  }),
+
+  omnifocus_remove_tag_from_task: planner(RemoveTagInputSchema, async (args, context) => {
+    check(referenceError("task", args.taskId, args.taskName));
+    const task = await single<TaskRecord>("task", context);
+    return { changes: compact([updated("task", task, { tags: task.tags.filter((tag) => tag !== args.tagName) })]) };
+  }),
+
+  omnifocus_batch_add_tag: planner(BatchAddTagInputSchema, async (args, context) => {
+    await find(generateFindTagScript(), "tag", args, context.signal);
+    const { records, missing } = await context.targets();
+    return {
+      changes: compact((records as TaskRecord[]).map((task) =>
+        updated("task", task, { tags: task.tags.includes(args.tagName) ? task.tags : [...task.tags, args.tagName] }))),
+      failures: notFound("task", missing),
+    };
+  }),
+
+  omnifocus_batch_remove_tag: planner(BatchRemoveTagInputSchema, async (args, context) => {
+    const { records, missing } = await context.targets();
+    return {
+      changes: compact((records as TaskRecord[]).map((task) => updated("task", task, { tags: task.tags.filter((tag) => tag !== args.tagName) }))),
+      failures: notFound("task", missing),
+    };
+  }),
+
+  omnifocus_create_project: planner(CreateProjectInputSchema, async (args, { signal }) => {
+    const { name, note, folderName, dueDate, deferDate, flagged, sequential, status } = args;
+    if (folderName) await find(generateFindFolderScript("name"), "folder", args, signal);
+    return {
+      changes: [created("project", {
+        name,
+        note: note ?? "",
+        status: `${status} status`,
+        flagged: flagged ?? false,
+        dueDate: isoDate(dueDate) ?? null,
+        deferDate: isoDate(deferDate) ?? null,
+        folderName: folderName ?? null,
+        sequential,
+      })],
+    };
+  }),
+
+  omnifocus_update_project: planner(UpdateProjectInputSchema, async (args, context) => {
+    const { projectId, projectName, name, note, status, flagged, dueDate, deferDate, sequential, reviewIntervalDays } = args;
+    check(referenceError("project", projectId, projectName) ?? projectUpdateError(args));
+    const project = await single<ProjectRecord>("project", context);
+    return {
+      changes: compact([updated("project", project, {
+        name,
+        note: note === null ? "" : note,
+        status: status === undefined ? undefined : `${status} status`,
+        completed: status === undefined ? undefined : status === "done",
+        flagged,
+        dueDate: isoDate(dueDate),
+        deferDate: isoDate(deferDate),
+        sequential,
+        reviewInterval: reviewIntervalDays === undefined ? undefined : { unit: "day", steps: reviewIntervalDays },
+      })]),
+    };
+  }),
+
+  omnifocus_update_project_note: planner(UpdateProjectNoteInputSchema, async (args, context) => {
+    check(referenceError("project", args.projectId, args.projectName));
+    const project = await single<ProjectRecord>("project", context);
+    return { changes: compact([updated("project", project, { note: args.append ? project.note + args.note : args.note })]) };
+  }),
+
+  omnifocus_delete_project: planner(DeleteProjectInputSchema, async (args, context) => {
+    check(referenceError("project", args.projectId, args.projectName));
+    const project = await single<ProjectRecord>("project", context);
+    const notes = ["Deleted projects cannot be restored with omnifocus_undo_change."];
+    if (project.taskCount > 0) notes.unshift(`Its ${project.taskCount} task(s) are deleted with it.`);
+    return { changes: [deleted("project", project)], notes };
+  }),
+
+  omnifocus_mark_project_reviewed: planner(MarkProjectReviewedInputSchema, async (args, context) => {
+    check(referenceError("project", args.projectId, args.projectName));
+    const project = await single<ProjectRecord>("project", context);
+    return { changes: compact([review(project, args.reviewIntervalDays, new Date())]) };
+  }),
+
+  omnifocus_batch_mark_reviewed: planner(BatchMarkReviewedInputSchema, async (args, context) => {
+    const { records, missing } = await context.targets();
+    const now = new Date();
+    return {
+      changes: compact((records as ProjectRecord[]).map((project) => review(project, args.reviewIntervalDays, now))),
+      failures: notFound("project", missing),
+    };
+  }),
+
+  omnifocus_create_folder: planner(CreateFolderInputSchema, async (args, { signal }) => {
+    const { name, parentFolderName } = args;
+    if (parentFolderName) await find(generateFindParentFolderScript(), "parentFolder", args, signal);
+    return { changes: [created("folder", { name, parentName: parentFolderName ?? null })] };
+  }),
+
+  omnifocus_update_folder: planner(UpdateFolderInputSchema, async (args, context) => {
+    check(referenceError("folder", args.folderId, args.folderName));
+    const folder = await single<FolderData>("folder", context);
+    return { changes: compact([updated("folder", folder, { name: args.name })]) };
+  }),
+
+  omnifocus_delete_folder: planner(DeleteFolderInputSchema, async (args, context) => {
+    check(referenceError("folder", args.folderId, args.folderName));
+    const folder = await single<FolderData>("folder", context);
+    const notes = ["Deleted folders cannot be restored with omnifocus_undo_change."];
+    if (folder.projectCount > 0 || folder.folderCount > 0) {
+      notes.unshift(`Its ${folder.projectCount} project(s) and ${folder.folderCount} folder(s) are deleted with it.`);
+    }
+    return { changes: [deleted("folder", folder)], notes };
+  }),
+
+  omnifocus_undo_change: planner(UndoChangeInputSchema, async (args, { signal }) => {
+    const entry = entryToUndo(args.changeId);
+    const current = new Map<string, JournalRecord | null>();
+    for (const kind of ["task", "project", "folder"] as const) {
+      const ids = entry.changes.filter((change) => change.kind === kind).map((change) => change.id);
+      if (ids.length === 0) continue;
+      const records = await captureIds(kind, ids, signal);
+      ids.forEach((id, i) => current.set(id, records[i]));
+    }
+    const changes = entry.changes.map((change) => {
+      const now = current.get(change.id) ?? null;
+      if (change.before === null) return now ? deleted(change.kind, now) : null;
+      const { id: _id, ...values } = change.before as unknown as Values;
+      if (!now) return created(change.kind, values);
+      const restored = Object.fromEntries(Object.entries(values).filter(([key]) => !DERIVED_FIELDS.has(key)));
+      return updated(change.kind, now, restored);
+    });
+    const overwritten = overwriteNote(entry);
+    return { changes: compact(changes), notes: overwritten ? [overwritten] : [] };
+  }),
+};
+
+/** Whether `tool` can be dry run. */
+export function canDryRun(tool: string): boolean {
+  return tool in PLANNERS;
+}
+
+/**
+ * The changes a call to `tool` with `input` would make, as a tool result.
+ * Fails, as a tool error result, the way the tool would for arguments it
+ * rejects and objects it cannot find.
+ */
+export async function planChanges(tool: string, input: unknown, signal?: AbortSignal): Promise<CallToolResult> {
+  const args = (input ?? {}) as Values;
+  const target = journalTarget(tool);
+  const context: PlanContext = {
+    signal,
+    targets: target
+      ? once(() => captureTargets(target, args, signal))
+      : async () => ({ records: [], missing: [] }),
+  };
+  try {
+    const plan = await PLANNERS[tool](args as never, context);
+    const output = {
+      dryRun: true,
+      tool,
+      changes: plan.changes,
+      ...(plan.failures && plan.failures.length > 0 ? { failures: plan.failures } : {}),
+      ...(plan.notes && plan.notes.length > 0 ? { notes: plan.notes } : {}),
+    };
+    return toolResult(`Dry run, nothing was changed. ${plan.changes.length} change(s) planned:\n${JSON.stringify(output, null, 2)}`, output);
+  } catch (error) {
+    return toolErrorResult(error);
+  }
+}
+
+function once<T>(fn: () => Promise<T>): () => Promise<T> {
+  let result: Promise<T> | null = null;
+  return () => (result ??= fn());
+}
@@ -0,0 +1,224 @@
+/**
+ * OmniFocus error taxonomy.
+ *
+ * Every failure a tool can report is an OmniFocusError with a stable `code`
+ * that agents can branch on (e.g. retry with an ID after AMBIGUOUS_MATCH)
+ * instead of parsing prose. Scripts raise coded errors with the
+ * `omnifocusError(code, message, details)` helper that wrapJxaScript()
+ * defines; the wrapper catches anything a script throws and prints it as an
+ * `{ "omnifocusError": ... }` envelope, which the executor turns back into
+ * one of these classes. Tool handlers report them with toolErrorResult().
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export type OmniFocusErrorCode =
+  | "NOT_RUNNING"
+  | "PERMISSION_DENIED"
+  | "NOT_FOUND"
+  | "AMBIGUOUS_MATCH"
+  | "VALIDATION"
+  | "TIMEOUT"
+  | "CANCELLED"
+  | "SCRIPT_ERROR";
+
+export class OmniFocusError extends Error {
+  /** Set by the executor when the call was retried before failing for good. */
+  retries?: number;
+
+  constructor(
+    readonly code: OmniFocusErrorCode,
+    message: string,
+    /** Structured context for the code, e.g. the candidates of an ambiguous match. */
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "OmniFocusError";
+  }
+}
+
+/** OmniFocus is not running (AppleEvent errors -600 / -609). */
+export class OmniFocusNotRunningError extends OmniFocusError {
+  constructor(message = "OmniFocus is not running. Please launch OmniFocus first.") {
+    super("NOT_RUNNING", message);
+    this.name = "OmniFocusNotRunningError";
+  }
+}
+
+/** macOS refused automation access to OmniFocus (-1743 / -1744). */
+export class OmniFocusPermissionError extends OmniFocusError {
+  constructor(message = "Script access to OmniFocus is not allowed. Enable automation permissions in System Preferences > Security & Privacy > Privacy > Automation.") {
+    super("PERMISSION_DENIED", message);
+    this.name = "OmniFocusPermissionError";
+  }
+}
+
+/** No task, project, folder, tag or perspective matched. */
+export class OmniFocusNotFoundError extends OmniFocusError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super("NOT_FOUND", message, details);
+    this.name = "OmniFocusNotFoundError";
+  }
+}
+
+/** A name matched several items; `details.matches` lists their IDs and names. */
+export class OmniFocusAmbiguousMatchError extends OmniFocusError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super("AMBIGUOUS_MATCH", message, details);
+    this.name = "OmniFocusAmbiguousMatchError";
+  }
+}
+
+/** The arguments were rejected before anything ran. */
+export class OmniFocusValidationError extends OmniFocusError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super("VALIDATION", message, details);
+    this.name = "OmniFocusValidationError";
+  }
+}
+
+/** A script ran longer than the per-call timeout and was stopped. */
+export class OmniFocusTimeoutError extends OmniFocusError {
+  constructor(readonly timeoutMs: number) {
+    super(
+      "TIMEOUT",
+      `Timed out after ${timeoutMs / 1000}s waiting for OmniFocus; the script was stopped. OmniFocus may be busy or showing a dialog.`,
+      { timeoutMs }
+    );
+    this.name = "OmniFocusTimeoutError";
+  }
+}
+
+/** The caller aborted the call (e.g. the MCP request was cancelled). */
+export class OmniFocusCancelledError extends OmniFocusError {
+  constructor() {
+    super("CANCELLED", "Request cancelled; the OmniFocus script was stopped.");
+    this.name = "OmniFocusCancelledError";
+  }
+}
+
+/** Anything else that went wrong running a script. */
+export class OmniFocusScriptError extends OmniFocusError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super("SCRIPT_ERROR", message, details);
+    this.name = "OmniFocusScriptError";
+  }
+}
+
+/** AppleEvent error numbers with a code of their own. */
+const ERROR_NUMBER_CODES: Record<number, OmniFocusErrorCode> = {
+  [-600]: "NOT_RUNNING",
+  [-609]: "NOT_RUNNING",
+  [-1743]: "PERMISSION_DENIED",
+  [-1744]: "PERMISSION_DENIED",
+};
+
+/**
+ * Builds the error class for a code. Script errors get the executor's usual
+ * "OmniFocus script error:" prefix; NOT_RUNNING and PERMISSION_DENIED use
+ * their standard advice rather than the raw AppleEvent message.
+ */
+export function createOmniFocusError(
+  code: OmniFocusErrorCode,
+  message: string,
+  details?: Record<string, unknown>
+): OmniFocusError {
+  switch (code) {
+    case "NOT_RUNNING":
+      return new OmniFocusNotRunningError();
+    case "PERMISSION_DENIED":
+      return new OmniFocusPermissionError();
+    case "NOT_FOUND":
+      return new OmniFocusNotFoundError(message, details);
+    case "AMBIGUOUS_MATCH":
+      return new OmniFocusAmbiguousMatchError(message, details);
+    case "VALIDATION":
+      return new OmniFocusValidationError(message, details);
+    case "CANCELLED":
+      return new OmniFocusCancelledError();
+    case "TIMEOUT":
+    case "SCRIPT_ERROR":
+    default:
+      return new OmniFocusScriptError(`OmniFocus script error: ${message}`, details);
+  }
+}
+
+/** What the JXA wrapper prints when a script throws. */
+interface ScriptErrorEnvelope {
+  omnifocusError: {
+    code: OmniFocusErrorCode | null;
+    message: string;
+    errorNumber: number | null;
+    details: Record<string, unknown> | null;
+  };
+}
+
+/**
+ * Returns the error a script reported through the wrapper's envelope, or null
+ * when `output` is an ordinary result.
+ */
+export function parseScriptError(output: string): OmniFocusError | null {
+  if (!output.startsWith('{"omnifocusError":')) return null;
+  let envelope: ScriptErrorEnvelope;
+  try {
+    envelope = JSON.parse(output) as ScriptErrorEnvelope;
+  } catch {
+    return null;
+  }
+  const { code, message, errorNumber, details } = envelope.omnifocusError;
+  const resolved = code ?? (errorNumber !== null ? ERROR_NUMBER_CODES[errorNumber] : undefined) ?? "SCRIPT_ERROR";
+  const text = errorNumber !== null && !code ? `${message} (${errorNumber})` : message;
+  return createOmniFocusError(resolved, text, details ?? undefined);
+}
+
+/**
+ * Classifies an error raised outside a script (osascript failing to start,
+ * the worker dying, ...) by its AppleEvent error number or, failing that, its
+ * message (osascript's English and Dutch wording for the two common cases).
+ */
+export function classifyBackendError(error: Error): OmniFocusError {
+  if (error instanceof OmniFocusError) return error;
+  const number = error.message.match(/\((-\d+)\)\s*$/);
+  const code = number ? ERROR_NUMBER_CODES[Number(number[1])] : undefined;
+  if (code) return createOmniFocusError(code, error.message);
+  if (error.message.includes("is not running")) {
+    return new OmniFocusNotRunningError();
+  }
+  if (error.message.includes("not allowed") || error.message.includes("niet toegestaan")) {
+    return new OmniFocusPermissionError();
+  }
+  return new OmniFocusScriptError(`OmniFocus script error: ${error.message}`);
+}
+
+/**
+ * Failures that tend to clear up on their own: OmniFocus not running yet
+ * (it is launching) or an AppleEvent that timed out (-1712) while OmniFocus
+ * was busy, typically syncing.
+ */
+export function isTransientError(error: OmniFocusError): boolean {
+  return error.code === "NOT_RUNNING" || /\(-1712\)/.test(error.message);
+}
+
+/**
+ * Tool result for a failure: `isError` plus a JSON body whose `error.code` is
+ * machine-readable. `context` prefixes the message ("Error creating task").
+ * `retries` is included when the executor retried before giving up.
+ */
+export function toolErrorResult(error: unknown, context?: string): CallToolResult {
+  const coded = error instanceof OmniFocusError
+    ? error
+    : new OmniFocusScriptError(error instanceof Error ? error.message : String(error));
+  const message = context ? `${context}: ${coded.message}` : coded.message;
+  const body = {
+    error: {
+      code: coded.code,
+      message,
+      ...(coded.details ? { details: coded.details } : {}),
+      ...(coded.retries ? { retries: coded.retries } : {})
+    }
+  };
+  return {
+    isError: true,
+    content: [{ type: "text", text: JSON.stringify(body, null, 2) }]
+  };
+}
@@ -1,78 +1,446 @@
 /**
  * JXA Script Executor
  *
- * Executes JavaScript for Automation scripts via osascript to interact
- * with OmniFocus. Extracted into its own module to enable test mocking.
+ * Executes JavaScript for Automation scripts to interact with OmniFocus through
+ * the active backend (osascript on macOS, or the in-memory fake). Extracted
+ * into its own module to enable test mocking.
+ *
+ * Calls go through a queue that runs at most `concurrency` scripts at once
+ * (OMNIFOCUS_CONCURRENCY, default 1: OmniFocus handles AppleEvents one at a
+ * time anyway). Each running script gets a timeout (OMNIFOCUS_SCRIPT_TIMEOUT_MS,
+ * default 60000, 0 disables it) and can be cancelled with an AbortSignal; in
+ * both cases the backend is told to kill the script.
+ *
+ * Transient AppleEvent failures (OmniFocus busy syncing or still launching)
+ * are retried with exponential backoff, but only for calls that are safe to
+ * repeat: read-only tools and calls carrying an idempotency key (server.ts
+ * sets this per tool call through runInCallContext). OMNIFOCUS_RETRIES
+ * (default 3) and OMNIFOCUS_RETRY_DELAY_MS (default 250, doubled per retry)
+ * tune it.
+ *
+ * OMNIFOCUS_FIXTURES=record saves every script's output to the fixture file
+ * at OMNIFOCUS_FIXTURES_PATH; OMNIFOCUS_FIXTURES=replay answers scripts from
+ * that file without a backend (see fixtures.ts).
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
+import { AsyncLocalStorage } from "async_hooks";
+import { getBackend, type ScriptParams } from "./backend.js";
+import {
+  OmniFocusError,
+  OmniFocusCancelledError,
+  OmniFocusScriptError,
+  OmniFocusTimeoutError,
+  classifyBackendError,
+  isTransientError,
+  parseScriptError
+} from "./errors.js";
+import { FixtureRecorder, FixtureReplayer, type FixtureMode } from "./fixtures.js";
+import { observe, scriptDuration } from "./metrics.js";
+import { logger } from "./logger.js";
 
 /**
- * Executes JXA (JavaScript for Automation) to interact with OmniFocus.
- * Note: doc.evaluate() for Omni Automation doesn't work from JXA due to type
- * conversion issues (-1700), so we use direct JXA property access. The one
- * exception is app.evaluateJavascript(), which does work and is used where
- * direct JXA cannot set a value (e.g. task repetition rules in tools/tasks.ts).
+ * Wraps a tool script in the preamble every script relies on: `app` and `doc`
+ * bound to OmniFocus and its default document, and `omnifocusError(code,
+ * message, details)` for throwing coded errors (see errors.ts). Whatever the
+ * script throws is caught and printed as an `{ "omnifocusError": ... }`
+ * envelope; otherwise the try statement's completion value, and so the
+ * script's output, is the script's last expression as before.
  */
-export async function executeOmniFocusScript(script: string): Promise<string> {
-  // The script is pure JXA - properties are accessed as methods: obj.name()
-  // No escaping needed here: the template literal interpolation is evaluated by
-  // Node.js at runtime (not re-parsed), and the script is written to a temp file
-  // (not passed as a shell argument). User input is already escaped by sanitizeInput().
-  const jxaScript = `
-    const app = Application("OmniFocus");
-    const doc = app.defaultDocument();
-    ${script}
+export function wrapJxaScript(script: string): string {
+  return `
+    function omnifocusError(code, message, details) {
+      var error = new Error(message);
+      error.omnifocusCode = code;
+      error.details = details;
+      return error;
+    }
+    try {
+      const app = Application("OmniFocus");
+      const doc = app.defaultDocument();
+      ${script}
+    } catch (e) {
+      JSON.stringify({ omnifocusError: {
+        code: e && e.omnifocusCode ? e.omnifocusCode : null,
+        message: e && e.message !== undefined ? String(e.message) : String(e),
+        errorNumber: e && typeof e.errorNumber === "number" ? e.errorNumber : null,
+        details: e && e.details ? e.details : null
+      } });
+    }
   `;
+}
 
-  // Write to temp file to avoid shell escaping issues
-  const fs = await import('fs/promises');
-  const os = await import('os');
-  const path = await import('path');
+// ============================================================================
+// Execution queue
+// ============================================================================
 
-  const tmpFile = path.join(os.tmpdir(), `omnifocus-script-${Date.now()}.js`);
-  await fs.writeFile(tmpFile, jxaScript, 'utf8');
+export interface ExecutorConfig {
+  /** Scripts allowed to run at the same time. */
+  concurrency: number;
+  /** Default per-call timeout in milliseconds; 0 disables it. */
+  timeoutMs: number;
+  /** Retries after a transient failure, for calls that may be retried. */
+  retries: number;
+  /** Delay before the first retry in milliseconds; doubles for each one after. */
+  retryDelayMs: number;
+  /** Whether scripts are recorded to, or answered from, `fixturesPath`. */
+  fixtures: FixtureMode;
+  fixturesPath: string | null;
+}
 
-  try {
-    const { stdout, stderr } = await execAsync(
-      `osascript -l JavaScript "${tmpFile}"`,
-      { maxBuffer: 10 * 1024 * 1024 }
-    );
+function intSetting(value: string | undefined, fallback: number, name: string, min: number): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
 
-    await fs.unlink(tmpFile).catch(() => {});
+/**
+ * Reads the executor settings from OMNIFOCUS_CONCURRENCY,
+ * OMNIFOCUS_SCRIPT_TIMEOUT_MS, OMNIFOCUS_RETRIES, OMNIFOCUS_RETRY_DELAY_MS,
+ * OMNIFOCUS_FIXTURES and OMNIFOCUS_FIXTURES_PATH.
+ */
+export function executorConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ExecutorConfig {
+  const fixtures = env.OMNIFOCUS_FIXTURES || "off";
+  if (fixtures !== "off" && fixtures !== "record" && fixtures !== "replay") {
+    throw new Error(`Invalid OMNIFOCUS_FIXTURES: ${fixtures} (expected "record" or "replay")`);
+  }
+  const fixturesPath = env.OMNIFOCUS_FIXTURES_PATH || null;
+  if (fixtures !== "off" && !fixturesPath) {
+    throw new Error(`OMNIFOCUS_FIXTURES=${fixtures} needs OMNIFOCUS_FIXTURES_PATH`);
+  }
+  return {
+    concurrency: intSetting(env.OMNIFOCUS_CONCURRENCY, 1, "OMNIFOCUS_CONCURRENCY", 1),
+    timeoutMs: intSetting(env.OMNIFOCUS_SCRIPT_TIMEOUT_MS, 60_000, "OMNIFOCUS_SCRIPT_TIMEOUT_MS", 0),
+    retries: intSetting(env.OMNIFOCUS_RETRIES, 3, "OMNIFOCUS_RETRIES", 0),
+    retryDelayMs: intSetting(env.OMNIFOCUS_RETRY_DELAY_MS, 250, "OMNIFOCUS_RETRY_DELAY_MS", 0),
+    fixtures,
+    fixturesPath,
+  };
+}
 
-    if (stderr && !stdout) {
-      throw new Error(stderr);
-    }
+/**
+ * First-in, first-out queue that runs at most `concurrency` tasks at once.
+ * A waiting task whose signal aborts leaves the queue without running.
+ */
+class ExecutionQueue {
+  private running = 0;
+  private readonly waiting: Array<{ start: () => void; signal?: AbortSignal; onAbort: () => void }> = [];
 
-    return stdout.trim();
-  } catch (error: unknown) {
-    await fs.unlink(tmpFile).catch(() => {});
+  constructor(public concurrency: number) {}
 
-    if (error instanceof Error) {
-      if (error.message.includes("is not running")) {
-        throw new Error("OmniFocus is not running. Please launch OmniFocus first.");
+  get active(): number {
+    return this.running;
+  }
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new OmniFocusCancelledError());
+        return;
       }
-      if (error.message.includes("not allowed") || error.message.includes("niet toegestaan")) {
-        throw new Error("Script access to OmniFocus is not allowed. Enable automation permissions in System Preferences > Security & Privacy > Privacy > Automation.");
+      const start = () => {
+        this.running += 1;
+        task().then(resolve, reject).finally(() => {
+          this.running -= 1;
+          this.next();
+        });
+      };
+      if (this.running < this.concurrency) {
+        start();
+        return;
       }
-      throw new Error(`OmniFocus script error: ${error.message}`);
+      const entry = {
+        start,
+        signal,
+        onAbort: () => {
+          this.waiting.splice(this.waiting.indexOf(entry), 1);
+          reject(new OmniFocusCancelledError());
+        },
+      };
+      signal?.addEventListener("abort", entry.onAbort, { once: true });
+      this.waiting.push(entry);
+    });
+  }
+
+  /** Starts waiting tasks while there is room (also after concurrency grows). */
+  next(): void {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      const entry = this.waiting.shift()!;
+      entry.signal?.removeEventListener("abort", entry.onAbort);
+      entry.start();
     }
-    throw error;
   }
 }
 
+let config: ExecutorConfig | null = null;
+let queue: ExecutionQueue | null = null;
+let fixtures: FixtureRecorder | FixtureReplayer | null = null;
+
+function getConfig(): ExecutorConfig {
+  if (!config) config = executorConfigFromEnv();
+  return config;
+}
+
+function getQueue(): ExecutionQueue {
+  if (!queue) queue = new ExecutionQueue(getConfig().concurrency);
+  return queue;
+}
+
+/**
+ * The recorder or replayer for the configured fixture mode, created on first
+ * use; a replay file is read then.
+ */
+function getFixtures(): FixtureRecorder | FixtureReplayer | null {
+  const { fixtures: mode, fixturesPath } = getConfig();
+  if (mode === "off" || !fixturesPath) return null;
+  if (!fixtures) {
+    fixtures = mode === "record" ? new FixtureRecorder(fixturesPath) : new FixtureReplayer(fixturesPath);
+  }
+  return fixtures;
+}
+
+/**
+ * Overrides executor settings (the rest keep their current values). Calls
+ * already running are unaffected; waiting calls start if concurrency grows.
+ * Setting the fixture mode or path starts a new recording, or rereads the
+ * replay file from the first response of each script.
+ */
+export function configureExecutor(options: Partial<ExecutorConfig>): void {
+  config = { ...getConfig(), ...options };
+  if (options.fixtures !== undefined || options.fixturesPath !== undefined) fixtures = null;
+  const q = getQueue();
+  q.concurrency = config.concurrency;
+  q.next();
+}
+
+/** Current queue occupancy: scripts running and calls waiting for a slot. */
+export function getExecutorStats(): { active: number; pending: number } {
+  const q = getQueue();
+  return { active: q.active, pending: q.pending };
+}
+
+observe("omnifocus_queue_active_scripts", "Scripts running on the backend.", "gauge", () => getQueue().active);
+observe("omnifocus_queue_pending_calls", "Calls waiting for a queue slot.", "gauge", () => getQueue().pending);
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+export interface ExecuteOptions {
+  /**
+   * Cancels the call: a queued call never runs and a running script is
+   * killed. Tool handlers pass the MCP request's signal.
+   */
+  signal?: AbortSignal;
+  /** Per-call timeout in milliseconds, overriding the configured default. */
+  timeoutMs?: number;
+  /**
+   * Whether the script may run again after a transient failure, overriding
+   * the tool call's context. Only set it for scripts that change nothing.
+   */
+  retryable?: boolean;
+}
+
+/** What the executor knows about the tool call a script runs for. */
+export interface CallContext {
+  /** Scripts may be retried: the tool is read-only or the call has an idempotency key. */
+  retryable: boolean;
+  /** Retries made so far, across all scripts of the call. */
+  retries: number;
+}
+
+const callContext = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Runs `fn` with `context` applying to every script it executes; the
+ * executor counts its retries into `context.retries`.
+ */
+export function runInCallContext<T>(context: CallContext, fn: () => T): T {
+  return callContext.run(context, fn);
+}
+
+function backoff(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new OmniFocusCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OmniFocusCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a script on the active backend, or answers it from the replay file.
+ * Recording happens here too, so errors the backend rejects with are not
+ * recorded but errors the script reports on stdout are.
+ */
+async function runScript(script: string, params: ScriptParams, signal: AbortSignal): Promise<string> {
+  const active = getFixtures();
+  if (active instanceof FixtureReplayer) return active.replay(script, params);
+  const stdout = (await getBackend().run(wrapJxaScript(script), params, signal)).trim();
+  if (active) {
+    try {
+      active.record(script, params, stdout);
+    } catch (error: unknown) {
+      logger.warn("Failed to record fixture", { path: active.path, error });
+    }
+  }
+  return stdout;
+}
+
+/**
+ * Executes JXA (JavaScript for Automation) to interact with OmniFocus.
+ * `params` is exposed to the script as the global `params`: pass user input
+ * there rather than interpolating it into the script source.
+ * The call waits for a queue slot first; the timeout only starts once the
+ * script does. Every failure rejects with an OmniFocusError: errors the
+ * script threw come back coded (NOT_FOUND, AMBIGUOUS_MATCH, ...), timeouts as
+ * OmniFocusTimeoutError and cancellations as OmniFocusCancelledError.
+ * Retryable calls that keep failing transiently reject with the last error,
+ * its `retries` set to the number of retries made.
+ * Note: doc.evaluate() for Omni Automation doesn't work from JXA due to type
+ * conversion issues (-1700), so we use direct JXA property access. The one
+ * exception is app.evaluateJavascript(), which does work and is used where
+ * direct JXA cannot set a value (e.g. task repetition rules in tools/tasks.ts).
+ */
+export async function executeOmniFocusScript(
+  script: string,
+  params: ScriptParams = {},
+  options: ExecuteOptions = {}
+): Promise<string> {
+  const context = callContext.getStore();
+  const retryable = options.retryable ?? context?.retryable ?? false;
+  const { retries, retryDelayMs } = getConfig();
+  for (let retry = 0; ; retry++) {
+    try {
+      return await runOnce(script, params, options);
+    } catch (error: unknown) {
+      if (!(error instanceof OmniFocusError) || !isTransientError(error)) throw error;
+      if (!retryable || retry >= retries) {
+        if (retry > 0) error.retries = retry;
+        throw error;
+      }
+      const wait = retryDelayMs * 2 ** retry;
+      logger.warn("OmniFocus script failed transiently, retrying", { errorCode: error.code, retry: retry + 1, retries, delayMs: wait });
+      if (context) context.retries++;
+      await backoff(wait, options.signal);
+    }
+  }
+}
+
+/** One attempt: waits for a queue slot, then runs the script under the timeout. */
+function runOnce(script: string, params: ScriptParams, options: ExecuteOptions): Promise<string> {
+  // The script is pure JXA - properties are accessed as methods: obj.name()
+  const timeoutMs = options.timeoutMs ?? getConfig().timeoutMs;
+
+  return getQueue().run(async () => {
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onCallerAbort, { once: true });
+    if (options.signal?.aborted) controller.abort();
+    let timedOut = false;
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+    // Settle on abort even if the backend ignores the signal.
+    const aborted = new Promise<never>((_, reject) => {
+      if (controller.signal.aborted) reject(new Error("aborted"));
+      controller.signal.addEventListener("abort", () => reject(new Error("aborted")), { once: true });
+    });
+
+    const backend = getFixtures() instanceof FixtureReplayer ? "replay" : getBackend().name;
+    const started = performance.now();
+    let outcome = "error";
+    let stdout: string;
+    try {
+      stdout = await Promise.race([runScript(script, params, controller.signal), aborted]);
+      outcome = "ok";
+    } catch (error: unknown) {
+      if (timedOut) {
+        outcome = "timeout";
+        throw new OmniFocusTimeoutError(timeoutMs);
+      }
+      if (controller.signal.aborted) {
+        outcome = "cancelled";
+        throw new OmniFocusCancelledError();
+      }
+      if (error instanceof Error) throw classifyBackendError(error);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onCallerAbort);
+      const seconds = (performance.now() - started) / 1000;
+      scriptDuration.observe({ backend, outcome }, seconds);
+      logger.debug("Script finished", { backend, outcome, durationMs: Math.round(seconds * 1000) });
+    }
+    const scriptError = parseScriptError(stdout);
+    if (scriptError) throw scriptError;
+    return stdout;
+  }, options.signal);
+}
+
 /**
  * Executes a script and parses the JSON result
  */
-export async function executeAndParseJSON<T>(script: string): Promise<T> {
-  const result = await executeOmniFocusScript(script);
+export async function executeAndParseJSON<T>(
+  script: string,
+  params: ScriptParams = {},
+  options: ExecuteOptions = {}
+): Promise<T> {
+  const result = await executeOmniFocusScript(script, params, options);
   try {
     return JSON.parse(result) as T;
   } catch {
-    throw new Error(`Failed to parse OmniFocus response: ${result}`);
+    throw new OmniFocusScriptError(`Failed to parse OmniFocus response: ${result}`);
   }
 }
+
+/**
+ * Checks that the active backend can run scripts; a hung or dead osascript
+ * worker is replaced along the way.
+ */
+export async function checkExecutorHealth(): Promise<boolean> {
+  const backend = getBackend();
+  return backend.healthCheck ? backend.healthCheck() : true;
+}
+
+/**
+ * Probes OmniFocus itself with a trivial script, through the queue like any
+ * tool call but without retries. Resolves to null when OmniFocus answered,
+ * otherwise to the error it failed with.
+ */
+export async function probeOmniFocus(timeoutMs = 5000): Promise<OmniFocusError | null> {
+  try {
+    await executeOmniFocusScript("JSON.stringify(app.name());", {}, { timeoutMs, retryable: false });
+    return null;
+  } catch (error: unknown) {
+    return error instanceof OmniFocusError
+      ? error
+      : new OmniFocusScriptError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Stops the active backend's worker processes, if it has any. Calls made
+ * afterwards start new ones.
+ */
+export async function shutdownExecutor(): Promise<void> {
+  await getBackend().close?.();
+}
@@ -0,0 +1,113 @@
+/**
+ * Script fixtures: recorded OmniFocus responses
+ *
+ * In record mode the executor saves every script it runs, with its params and
+ * the stdout OmniFocus produced, to a fixture file. In replay mode it answers
+ * scripts from that file instead of calling the backend, so traffic captured
+ * once against a real Mac can drive the tools on any platform.
+ *
+ * Recordings are keyed by the tool script (before wrapJxaScript adds its
+ * preamble) with whitespace collapsed, plus its params: re-indenting a script
+ * or editing the wrapper keeps fixtures valid, any other change to a script
+ * needs a new recording. A script run several times (e.g. listing the inbox
+ * before and after adding a task) is answered with its recordings in order,
+ * the last one repeating once they run out.
+ */
+
+import { createHash } from "crypto";
+import { readFileSync, writeFileSync } from "fs";
+import type { ScriptParams } from "./backend.js";
+import { OmniFocusScriptError } from "./errors.js";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export interface FixtureRecording {
+  key: string;
+  /** The normalized tool script, kept so mismatches can be diagnosed. */
+  script: string;
+  params: ScriptParams;
+  /** Trimmed stdout, including `{ "omnifocusError": ... }` envelopes. */
+  stdout: string;
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordings: FixtureRecording[];
+}
+
+/** Collapses whitespace so formatting-only changes keep the same key. */
+export function normalizeScript(script: string): string {
+  return script.replace(/\s+/g, " ").trim();
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** SHA-256 of the normalized script and its params (key order ignored). */
+export function fixtureKey(script: string, params: ScriptParams): string {
+  return createHash("sha256")
+    .update(normalizeScript(script))
+    .update("\n")
+    .update(canonicalJson(params))
+    .digest("hex");
+}
+
+/**
+ * Appends recordings to a fixture file, rewriting it after each one so an
+ * interrupted session keeps what it captured. Starts a new file rather than
+ * extending an existing one.
+ */
+export class FixtureRecorder {
+  private readonly recordings: FixtureRecording[] = [];
+
+  constructor(readonly path: string) {}
+
+  record(script: string, params: ScriptParams, stdout: string): void {
+    this.recordings.push({ key: fixtureKey(script, params), script: normalizeScript(script), params, stdout });
+    const file: FixtureFile = { version: 1, recordings: this.recordings };
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + "\n");
+  }
+}
+
+/**
+ * Serves the recordings of a fixture file. A script with no recording fails
+ * with SCRIPT_ERROR rather than reaching OmniFocus.
+ */
+export class FixtureReplayer {
+  private readonly byKey = new Map<string, string[]>();
+  private readonly served = new Map<string, number>();
+
+  constructor(readonly path: string) {
+    const file = JSON.parse(readFileSync(path, "utf8")) as FixtureFile;
+    if (file.version !== 1 || !Array.isArray(file.recordings)) {
+      throw new Error(`Unsupported fixture file: ${path}`);
+    }
+    for (const recording of file.recordings) {
+      const responses = this.byKey.get(recording.key) ?? [];
+      responses.push(recording.stdout);
+      this.byKey.set(recording.key, responses);
+    }
+  }
+
+  replay(script: string, params: ScriptParams): string {
+    const key = fixtureKey(script, params);
+    const responses = this.byKey.get(key);
+    if (!responses) {
+      throw new OmniFocusScriptError(
+        `No recorded response for this script in ${this.path}; record the fixtures again`,
+        { fixtureKey: key, script: normalizeScript(script).slice(0, 200), params }
+      );
+    }
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return responses[Math.min(index, responses.length - 1)];
+  }
+}
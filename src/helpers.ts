@@ -1,3 +1,7 @@
+import type { z } from "zod";
+import { OmniFocusValidationError } from "./errors.js";
+import type { UpdateProjectInputSchema, UpdateTaskInputSchema } from "./schemas.js";
+
 // ============================================================================
 // Shared Constants
 // ============================================================================
@@ -9,43 +13,88 @@ export const STATUS_MAP: Record<string, string> = {
   "onHold": "on hold status"
 };
 
+// ============================================================================
+// Shared Argument Checks
+// ============================================================================
+// Each returns the error a tool fails with for arguments it rejects, or null.
+// The tools return it as their result; their dry-run planners (dryrun.ts)
+// throw it.
+
+/**
+ * The error for a call that names its task, project or folder by neither
+ * `<kind>Id` nor `<kind>Name`.
+ */
+export function referenceError(kind: "task" | "project" | "folder", id: string | undefined, name: string | undefined): OmniFocusValidationError | null {
+  return !id && !name ? new OmniFocusValidationError(`Either ${kind}Id or ${kind}Name must be provided`) : null;
+}
+
+/**
+ * The error for an omnifocus_update_task call that changes nothing: no field,
+ * no project to move to and no recurrence to set or clear.
+ */
+export function taskUpdateError(args: z.output<typeof UpdateTaskInputSchema>): OmniFocusValidationError | null {
+  const { name, note, dueDate, deferDate, plannedDate, flagged, estimatedMinutes, projectId, projectName, recurrence, clearRecurrence } = args;
+  const fields = [name, note, dueDate, deferDate, plannedDate, flagged, estimatedMinutes];
+  const changes = fields.some((value) => value !== undefined) || projectId || projectName || recurrence !== undefined || clearRecurrence;
+  return changes ? null : new OmniFocusValidationError("No fields to update were provided");
+}
+
+/** The error for an omnifocus_update_project call that changes nothing. */
+export function projectUpdateError(args: z.output<typeof UpdateProjectInputSchema>): OmniFocusValidationError | null {
+  const { name, note, status, flagged, dueDate, deferDate, sequential, reviewIntervalDays } = args;
+  const fields = [name, note, status, flagged, dueDate, deferDate, sequential, reviewIntervalDays];
+  return fields.some((value) => value !== undefined) ? null : new OmniFocusValidationError("No fields to update were provided");
+}
+
 // ============================================================================
 // Shared JXA Script Helpers
 // ============================================================================
 
 /**
- * Generates JXA script to find a task by ID or name.
+ * Generates JXA script to find a task by ID (`params.taskId`) or by name
+ * (`params.taskName`: exact match first, then a unique partial match).
  * Used by omnifocus_complete_task, omnifocus_add_tag_to_task, omnifocus_remove_tag_from_task.
  */
-export function generateFindTaskScript(safeTaskId: string | null, safeTaskName: string | null): string {
-  if (safeTaskId) {
+export function generateFindTaskScript(by: "id" | "name"): string {
+  if (by === "id") {
     return `
-      var task = doc.flattenedTasks().find(function(t) { return t.id() === "${safeTaskId}"; });
-      if (!task) { throw new Error("Task not found with ID: ${safeTaskId}"); }
+      var task = doc.flattenedTasks().find(function(t) { return t.id() === params.taskId; });
+      if (!task) { throw omnifocusError("NOT_FOUND", "Task not found with ID: " + params.taskId); }
     `;
   }
   return `
     var allTasks = doc.flattenedTasks();
-    var task = allTasks.find(function(t) { return t.name() === "${safeTaskName}"; });
+    var task = allTasks.find(function(t) { return t.name() === params.taskName; });
     if (!task) {
-      var searchLower = "${safeTaskName!.toLowerCase()}";
+      var searchLower = params.taskName.toLowerCase();
       var matches = allTasks.filter(function(t) {
         return t.name().toLowerCase().indexOf(searchLower) !== -1;
       });
       if (matches.length === 0) {
-        throw new Error("No task found matching name: ${safeTaskName}");
+        throw omnifocusError("NOT_FOUND", "No task found matching name: " + params.taskName);
       } else if (matches.length > 1) {
         var matchList = matches.map(function(t) {
           var proj = t.containingProject();
           return "- " + t.name() + " (ID: " + t.id() + (proj ? ", Project: " + proj.name() : "") + ")";
         }).join("\\n");
-        throw new Error("Multiple tasks found matching '${safeTaskName}'. Please use taskId or be more specific:\\n" + matchList);
+        throw omnifocusError("AMBIGUOUS_MATCH", "Multiple tasks found matching '" + params.taskName + "'. Please use taskId or be more specific:\\n" + matchList, { matches: matches.map(function(m) { return { id: m.id(), name: m.name() }; }) });
       }
       task = matches[0];
     }
   `;
 }
 
+/**
+ * Generates JXA script to find the task named by `params.parentTaskId` as
+ * `parentTask`. Used by omnifocus_create_task and its dry run.
+ */
+export function generateFindParentTaskScript(): string {
+  return `
+      var parentTask = doc.flattenedTasks().find(function(t) { return t.id() === params.parentTaskId; });
+      if (!parentTask) { throw omnifocusError("NOT_FOUND", "Parent task not found with ID: " + params.parentTaskId); }
+    `;
+}
+
 /**
  * Generates a JXA statement that clears a task's repetition rule through the
  * Omni Automation bridge. Direct JXA cannot unset the rule (assigning it throws
@@ -114,19 +163,46 @@ export function generateSetRepetitionScript(taskVar: string, ruleString: string,
 }
 
 /**
- * Generates JXA script to find a project by ID or exact name.
- * Used by omnifocus_update_project and omnifocus_delete_project.
+ * Generates JXA script to find a project by ID (`params.projectId`), exact
+ * name (`params.projectName`), or with "match" the exact name first, then a
+ * unique partial match, as generateFindTaskScript("name") does for tasks.
+ * Used by omnifocus_update_project and omnifocus_delete_project ("name"), and
+ * omnifocus_update_project_note and omnifocus_mark_project_reviewed ("match");
+ * also finds the project omnifocus_create_task adds to and omnifocus_update_task
+ * moves to ("id" or "name").
  */
-export function generateFindProjectScript(safeProjectId: string | null, safeProjectName: string | null): string {
-  if (safeProjectId) {
+export function generateFindProjectScript(by: "id" | "name" | "match"): string {
+  if (by === "id") {
+    return `
+      var project = doc.flattenedProjects().find(function(p) { return p.id() === params.projectId; });
+      if (!project) { throw omnifocusError("NOT_FOUND", "Project not found with ID: " + params.projectId); }
+    `;
+  }
+  if (by === "match") {
     return `
-      var project = doc.flattenedProjects().find(function(p) { return p.id() === "${safeProjectId}"; });
-      if (!project) { throw new Error("Project not found with ID: ${safeProjectId}"); }
+      var allProjects = doc.flattenedProjects();
+      var project = allProjects.find(function(p) { return p.name() === params.projectName; });
+      if (!project) {
+        var searchLower = params.projectName.toLowerCase();
+        var matches = allProjects.filter(function(p) {
+          return p.name().toLowerCase().indexOf(searchLower) !== -1;
+        });
+        if (matches.length === 0) {
+          throw omnifocusError("NOT_FOUND", "No project found matching name: " + params.projectName);
+        } else if (matches.length > 1) {
+          var matchList = matches.map(function(p) {
+            var folder = p.folder();
+            return "- " + p.name() + " (ID: " + p.id() + (folder ? ", Folder: " + folder.name() : "") + ")";
+          }).join("\\n");
+          throw omnifocusError("AMBIGUOUS_MATCH", "Multiple projects found matching '" + params.projectName + "'. Please use projectId or be more specific:\\n" + matchList, { matches: matches.map(function(m) { return { id: m.id(), name: m.name() }; }) });
+        }
+        project = matches[0];
+      }
     `;
   }
   return `
-    var project = doc.flattenedProjects().find(function(p) { return p.name() === "${safeProjectName}"; });
-    if (!project) { throw new Error("Project not found: ${safeProjectName}"); }
+    var project = doc.flattenedProjects().find(function(p) { return p.name() === params.projectName; });
+    if (!project) { throw omnifocusError("NOT_FOUND", "Project not found: " + params.projectName); }
   `;
 }
 
@@ -146,39 +222,78 @@ export function generateSetProjectStatusScript(status: string): string {
 }
 
 /**
- * Generates JXA script to find a folder by ID or exact name.
- * Used by omnifocus_update_folder and omnifocus_delete_folder.
+ * Generates JXA script to find a folder by ID (`params.folderId`) or exact
+ * name (`params.folderName`).
+ * Used by omnifocus_update_folder and omnifocus_delete_folder, and ("name")
+ * to find the folder omnifocus_create_project adds to.
  */
-export function generateFindFolderScript(safeFolderId: string | null, safeFolderName: string | null): string {
-  if (safeFolderId) {
+export function generateFindFolderScript(by: "id" | "name"): string {
+  if (by === "id") {
     return `
-      var folder = doc.flattenedFolders().find(function(f) { return f.id() === "${safeFolderId}"; });
-      if (!folder) { throw new Error("Folder not found with ID: ${safeFolderId}"); }
+      var folder = doc.flattenedFolders().find(function(f) { return f.id() === params.folderId; });
+      if (!folder) { throw omnifocusError("NOT_FOUND", "Folder not found with ID: " + params.folderId); }
     `;
   }
   return `
-    var folder = doc.flattenedFolders().find(function(f) { return f.name() === "${safeFolderName}"; });
-    if (!folder) { throw new Error("Folder not found: ${safeFolderName}"); }
+    var folder = doc.flattenedFolders().find(function(f) { return f.name() === params.folderName; });
+    if (!folder) { throw omnifocusError("NOT_FOUND", "Folder not found: " + params.folderName); }
+  `;
+}
+
+/**
+ * Generates JXA script to find the folder named by `params.parentFolderName`
+ * as `parentFolder`. Used by omnifocus_create_folder and its dry run.
+ */
+export function generateFindParentFolderScript(): string {
+  return `
+    var parentFolder = doc.flattenedFolders().find(function(f) { return f.name() === params.parentFolderName; });
+    if (!parentFolder) { throw omnifocusError("NOT_FOUND", "Parent folder not found: " + params.parentFolderName); }
+  `;
+}
+
+/**
+ * Generates JXA script to find the tag named by `params.tagName` as `tag`.
+ * Used by omnifocus_add_tag_to_task, omnifocus_batch_add_tag and their dry runs.
+ */
+export function generateFindTagScript(): string {
+  return `
+    var tag = doc.flattenedTags().find(function(t) { return t.name() === params.tagName; });
+    if (!tag) { throw omnifocusError("NOT_FOUND", "Tag not found: " + params.tagName); }
+  `;
+}
+
+/**
+ * Generates JXA script that collects the existing tags named in
+ * `params.tagNames` as `foundTags`, skipping names no tag has.
+ * Used by omnifocus_create_task and its dry run.
+ */
+export function generateFindTagsScript(): string {
+  return `
+    var allTags = doc.flattenedTags();
+    var foundTags = [];
+    params.tagNames.forEach(function(tagName) {
+      var tag = allTags.find(function(t) { return t.name() === tagName; });
+      if (tag) { foundTags.push(tag); }
+    });
   `;
 }
 
 /**
- * Generates a JXA statement that filters an existing `tasks` array by tag names.
+ * Generates a JXA statement that filters an existing `tasks` array of mapped
+ * records (from mapTasks) by the tag names in `params.tags`.
  * mode: "all" (has every tag), "any" (has at least one), "none" (has none).
  * Returns an empty string when no tags are supplied.
  */
-export function generateTagFilter(safeTags: string[], mode: "all" | "any" | "none"): string {
-  if (!safeTags || safeTags.length === 0) return "";
-  const tagsJson = JSON.stringify(safeTags);
+export function generateTagFilter(tags: string[] | undefined, mode: "all" | "any" | "none"): string {
+  if (!tags || tags.length === 0) return "";
   const condition =
     mode === "any" ? "matched.length > 0" :
     mode === "none" ? "matched.length === 0" :
     "matched.length === wanted.length";
   return `
-      var wanted = ${tagsJson};
+      var wanted = params.tags;
       tasks = tasks.filter(function(t) {
-        var names = t.tags().map(function(tg) { return tg.name(); });
-        var matched = wanted.filter(function(w) { return names.indexOf(w) !== -1; });
+        var matched = wanted.filter(function(w) { return t.tags.indexOf(w) !== -1; });
         return ${condition};
       });`;
 }
@@ -8,39 +8,150 @@
  *
  * Auth: a shared secret, accepted either as `Authorization: Bearer <token>`
  * or as a path token (`/mcp/<token>`). The path form exists because claude.ai
- * custom connectors cannot send custom headers.
+ * custom connectors cannot send custom headers. With `oauth` set, the server
+ * is also an OAuth 2.1 authorization server (see oauth.ts) and accepts the
+ * access tokens it issues; the shared secret then approves clients on the
+ * consent page. `tokens` adds named API tokens limited to some scopes and
+ * tools (see tokens.ts); a session's server only offers the tools of the
+ * token that initialized it, and only that token may use the session.
  *
- * Sessions: single active session. Each MCP tool call is stateless (one JXA
- * round trip), so a new `initialize` simply replaces the previous session;
- * spec-compliant clients whose session was replaced get 404 and re-initialize.
+ * Abuse protection (see ratelimit.ts): requests are rate limited per client
+ * IP and per token, and an IP is locked out for a while after repeated failed
+ * authentication (including wrong owner tokens on the OAuth consent page).
+ * Both answer 429 with Retry-After. Behind a trusted proxy the client IP is
+ * taken from `CF-Connecting-IP`.
+ *
+ * Host and Origin (see origin.ts): requests must name this server in `Host`
+ * (localhost, the bind address, the OAuth public URL or `allowedHosts`), so
+ * DNS-rebinding pages cannot reach it, and browser requests from other sites
+ * are refused unless their origin is in `allowedOrigins`, which get CORS
+ * headers.
+ *
+ * Probes: `/health` answers as long as the process runs; `/ready` runs a
+ * trivial script to check that OmniFocus answers (the result is reused for
+ * `readyCacheMs`) for any valid token; `/metrics` serves the Prometheus
+ * metrics to tokens with the read scope.
+ *
+ * Listening: TCP on `host`:`port` by default, HTTPS when `tls` names a
+ * certificate and key (re-read on SIGHUP, so renewed certificates apply
+ * without a restart), or a Unix domain socket for a local reverse proxy.
+ *
+ * Logging (see logger.ts): each request gets an ID, taken from the
+ * `X-Request-Id` of a proxy in front or made up, returned in `X-Request-Id`
+ * and attached to every log line written while handling it, down to the
+ * tool calls and scripts it ran. One "HTTP request" line per request records
+ * its outcome, with path tokens removed.
+ *
+ * Sessions: every `initialize` starts a session with its own McpServer and
+ * transport, kept in a map keyed by the `mcp-session-id` it hands out, so
+ * several clients (two conversations, the iOS app and a desktop client) stay
+ * connected side by side. Sessions idle longer than `sessionIdleMs` are
+ * closed, and when `maxSessions` are open a new one evicts the least recently
+ * used. Clients whose session is gone get 404 and re-initialize.
  */
 
 import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { createServer as createHttpsServer, type Server as HttpsServer } from "node:https";
+import { chmodSync, lstatSync, readFileSync, unlinkSync } from "node:fs";
 import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
-import { server } from "./server.js";
+import { createMcpServer } from "./server.js";
+import { probeOmniFocus } from "./executor.js";
+import type { OmniFocusError } from "./errors.js";
+import { observe, renderMetrics } from "./metrics.js";
+import { addLogContext, logger, withLogContext } from "./logger.js";
+import { OAuthServer, type OAuthConfig } from "./oauth.js";
+import type { ApiToken } from "./tokens.js";
+import { AuthLockout, clientIp, RateLimiter, type RateLimitConfig } from "./ratelimit.js";
+import { classifyOrigin, corsHeaders, corsPreflightHeaders, isAllowedHost, LOOPBACK_HOSTS } from "./origin.js";
+
+/** Certificate and private key files (PEM) to serve HTTPS with. */
+export interface TlsFiles {
+  cert: string;
+  key: string;
+}
 
 export interface HttpServerOptions {
+  /** TCP port; ignored when `socketPath` is set. */
   port: number;
   host?: string;
+  /** Serves HTTPS instead of HTTP. */
+  tls?: TlsFiles;
+  /** Listens on this Unix domain socket instead of a TCP port. */
+  socketPath?: string;
+  /** File mode of the socket, e.g. 0o660 to let a proxy's group connect. Default 0o600. */
+  socketMode?: number;
   authToken: string;
+  /** Named API tokens with limited scopes, besides `authToken` which may call every tool. */
+  tokens?: ApiToken[];
+  /** Sessions kept open at once; a new session evicts the least recently used. Default 16. */
+  maxSessions?: number;
+  /** Milliseconds without requests after which a session is closed; 0 keeps sessions forever. Default 30 minutes. */
+  sessionIdleMs?: number;
+  /** Enables the OAuth 2.1 authorization server. */
+  oauth?: OAuthConfig;
+  /** Rate limits and failed-authentication lockout; on with their defaults when omitted. */
+  rateLimit?: RateLimitConfig;
+  /**
+   * Host names (or `host:port`) clients may reach the server by, besides
+   * localhost, the bind address and the OAuth public URL. `*` allows any.
+   */
+  allowedHosts?: string[];
+  /** Web origins (`https://app.example.com`) allowed to call the server from a browser, with CORS. */
+  allowedOrigins?: string[];
+  /** How long a /ready probe result is reused, in milliseconds. Default 5 seconds. */
+  readyCacheMs?: number;
+}
+
+/** Who a request authenticated as. */
+interface Principal {
+  /** Identifies the caller for session ownership: "owner", "token:<name>" or "oauth:<grant>". */
+  id: string;
+  /** Set for scoped API tokens, and for OAuth grants limited to some scopes. */
+  token?: ApiToken;
+}
+
+interface Session {
+  server: McpServer;
+  principal: string;
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  /** Open SSE streams (GET /mcp), which keep the session from going idle. */
+  streams: number;
 }
 
 const MAX_BODY_BYTES = 4 * 1024 * 1024;
 
+/** An `X-Request-Id` from a proxy in front is kept when it looks like one; otherwise the server picks one. */
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
 function safeEqual(a: string, b: string): boolean {
   const bufferA = Buffer.from(a);
   const bufferB = Buffer.from(b);
   return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
 }
 
-function isAuthorized(req: IncomingMessage, pathToken: string | null, authToken: string): boolean {
+function authenticate(
+  req: IncomingMessage,
+  pathToken: string | null,
+  authToken: string,
+  tokens: ApiToken[],
+  oauth: OAuthServer | null
+): Principal | null {
   const header = req.headers.authorization;
-  if (typeof header === "string" && header.startsWith("Bearer ") && safeEqual(header.slice(7), authToken)) {
-    return true;
+  const bearer = typeof header === "string" && header.startsWith("Bearer ") ? header.slice(7) : null;
+  for (const secret of [bearer, pathToken]) {
+    if (secret === null) continue;
+    if (safeEqual(secret, authToken)) return { id: "owner" };
+    const token = tokens.find((t) => safeEqual(secret, t.token));
+    if (token) return { id: `token:${token.name}`, token };
   }
-  return pathToken !== null && safeEqual(pathToken, authToken);
+  const grant = bearer !== null ? oauth?.verifyAccessToken(bearer, req) : null;
+  if (!grant) return null;
+  const id = `oauth:${grant.grantId}`;
+  return grant.scopes ? { id, token: { name: id, token: "", scopes: grant.scopes } } : { id };
 }
 
 function readJsonBody(req: IncomingMessage): Promise<unknown> {
@@ -77,12 +188,34 @@ function sendJson(res: ServerResponse, status: number, body: unknown, extraHeade
   res.end(JSON.stringify(body));
 }
 
+function readTlsFiles(tls: TlsFiles): { cert: Buffer; key: Buffer } {
+  return { cert: readFileSync(tls.cert), key: readFileSync(tls.key) };
+}
+
+/** Removes a socket file left behind by a previous run; refuses to remove anything else. */
+function removeStaleSocket(socketPath: string): void {
+  let stats;
+  try {
+    stats = lstatSync(socketPath);
+  } catch {
+    return;
+  }
+  if (!stats.isSocket()) {
+    throw new Error(`Refusing to listen on ${socketPath}: it exists and is not a socket`);
+  }
+  unlinkSync(socketPath);
+}
+
 function jsonRpcError(code: number, message: string) {
   return { jsonrpc: "2.0", error: { code, message }, id: null };
 }
 
+function sendTooManyRequests(res: ServerResponse, waitMs: number, message: string): void {
+  sendJson(res, 429, jsonRpcError(-32000, message), { "retry-after": String(Math.max(1, Math.ceil(waitMs / 1000))) });
+}
+
 export async function startHttpServer(options: HttpServerOptions): Promise<Server> {
-  const { port, host = "127.0.0.1", authToken } = options;
+  const { port, host = "127.0.0.1", authToken, tokens = [], maxSessions = 16, sessionIdleMs = 30 * 60_000 } = options;
 
   if (!authToken) {
     throw new Error(
@@ -91,15 +224,155 @@ export async function startHttpServer(options: HttpServerOptions): Promise<Serve
     );
   }
 
-  let transport: StreamableHTTPServerTransport | null = null;
+  if (!Number.isInteger(maxSessions) || maxSessions < 1) {
+    throw new Error(`Invalid maxSessions: ${maxSessions}`);
+  }
+
+  const {
+    ipPerMinute = 300,
+    tokenPerMinute = 120,
+    registerPerMinute = 10,
+    maxAuthFailures = 10,
+    authLockoutMs = 15 * 60_000,
+    trustedProxies = []
+  } = options.rateLimit ?? {};
+  for (const [name, value] of Object.entries({ ipPerMinute, tokenPerMinute, registerPerMinute, maxAuthFailures, authLockoutMs })) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid rateLimit.${name}: ${value}`);
+    }
+  }
+  const ipLimiter = new RateLimiter(ipPerMinute);
+  const tokenLimiter = new RateLimiter(tokenPerMinute);
+  const registerLimiter = new RateLimiter(registerPerMinute);
+  const lockout = new AuthLockout(maxAuthFailures, authLockoutMs);
+  const ipOf = (req: IncomingMessage) => clientIp(req.socket.remoteAddress, req.headers, trustedProxies);
+
+  function authFailed(ip: string): void {
+    if (lockout.fail(ip)) {
+      logger.warn("Locking out a client after repeated failed authentication", { ip, lockoutMs: authLockoutMs, failures: maxAuthFailures });
+    }
+  }
+
+  const allowedOrigins = options.allowedOrigins ?? [];
+  const allowedHosts = [...LOOPBACK_HOSTS, ...(options.allowedHosts ?? [])];
+  if (!["0.0.0.0", "::"].includes(host)) allowedHosts.push(host.includes(":") ? `[${host}]` : host);
+  if (options.oauth?.publicUrl) allowedHosts.push(new URL(options.oauth.publicUrl).host);
+
+  const reused = tokens.find((token) => safeEqual(token.token, authToken));
+  if (reused) {
+    throw new Error(`API token "${reused.name}" is the same as the auth token, which may call every tool`);
+  }
+
+  const oauth = options.oauth
+    ? new OAuthServer({
+        ...options.oauth,
+        isOwnerSecret: (secret, req) => {
+          const ok = safeEqual(secret, authToken);
+          if (ok) lockout.succeed(ipOf(req));
+          else authFailed(ipOf(req));
+          return ok;
+        }
+      })
+    : null;
+
+  const { readyCacheMs = 5000 } = options;
+  let readiness: { checkedAt: number; error: OmniFocusError | null } | null = null;
+  let probing: Promise<OmniFocusError | null> | null = null;
+
+  /** Probes OmniFocus unless a recent result exists; concurrent callers share one probe. */
+  async function checkReadiness(): Promise<{ checkedAt: number; error: OmniFocusError | null }> {
+    if (readiness && Date.now() - readiness.checkedAt < readyCacheMs) return readiness;
+    probing ??= probeOmniFocus().finally(() => {
+      probing = null;
+    });
+    const error = await probing;
+    readiness = { checkedAt: Date.now(), error };
+    return readiness;
+  }
+
+  // Insertion order is recency order: a request moves its session to the end,
+  // so the first entry is the least recently used.
+  const sessions = new Map<string, Session>();
 
-  const httpServer = createServer(async (req, res) => {
+  async function closeSession(sessionId: string, reason: string): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    logger.info("Closing MCP session", { sessionId, reason });
+    await session.server.close();
+  }
+
+  const stopObservingSessions = observe(
+    "omnifocus_http_sessions_active",
+    "MCP sessions open on the HTTP transport.",
+    "gauge",
+    () => sessions.size
+  );
+
+  const isIdle = (session: Session) => sessionIdleMs > 0 && session.streams === 0 && Date.now() - session.lastActive >= sessionIdleMs;
+  const sweep = sessionIdleMs > 0
+    ? setInterval(() => {
+        for (const [sessionId, session] of sessions) {
+          if (isIdle(session)) void closeSession(sessionId, "idle");
+        }
+      }, Math.min(sessionIdleMs, 60_000))
+    : undefined;
+  sweep?.unref();
+
+  /**
+   * Starts a session with its initialize request. When the request does not
+   * initialize it (the transport refused it, or handling it failed), the
+   * session's server is closed again rather than left behind.
+   */
+  async function openSession(principal: Principal, req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    while (sessions.size >= maxSessions) {
+      await closeSession(sessions.keys().next().value as string, `evicted, ${maxSessions} sessions open`);
+    }
+    const sessionServer = createMcpServer({ token: principal.token });
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableJsonResponse: true,
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { server: sessionServer, principal: principal.id, transport, lastActive: Date.now(), streams: 0 });
+      },
+      onsessionclosed: (sessionId) => {
+        sessions.delete(sessionId);
+      },
+    });
+    try {
+      await sessionServer.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      if (transport.sessionId === undefined || sessions.get(transport.sessionId)?.server !== sessionServer) {
+        await sessionServer.close();
+      }
+    }
+  }
+
+  const handleRequest = (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const forwardedId = req.headers["x-request-id"];
+    const requestId = typeof forwardedId === "string" && REQUEST_ID.test(forwardedId) ? forwardedId : randomUUID();
+    res.setHeader("x-request-id", requestId);
+    return withLogContext({ requestId }, () => routeRequest(req, res, requestId));
+  };
+
+  const routeRequest = async (req: IncomingMessage, res: ServerResponse, requestId: string): Promise<void> => {
+    const started = Date.now();
     let rpcMethod: string | undefined;
+    let principalId: string | undefined;
+    let ip: string | undefined;
+    // Listeners run outside the request's log context, hence requestId here.
     res.on("finish", () => {
-      const redactedPath = url ? url.pathname.replace(/^\/mcp\/[^/]+/, "/mcp/:token") : req.url;
-      console.error(
-        `${new Date().toISOString()} ${req.method} ${redactedPath}${rpcMethod ? ` [${rpcMethod}]` : ""} → ${res.statusCode}`
-      );
+      logger.info("HTTP request", {
+        requestId,
+        method: req.method,
+        path: url ? url.pathname.replace(/^\/mcp\/[^/]+/, "/mcp/:token") : "(invalid)",
+        rpcMethod,
+        status: res.statusCode,
+        durationMs: Date.now() - started,
+        ip,
+        principal: principalId,
+      });
     });
     let url: URL | undefined;
     try {
@@ -111,14 +384,107 @@ export async function startHttpServer(options: HttpServerOptions): Promise<Serve
         return;
       }
 
+      if (!isAllowedHost(req.headers.host, allowedHosts)) {
+        sendJson(res, 403, jsonRpcError(-32000, `Host not allowed: ${req.headers.host ?? "(none)"}`));
+        return;
+      }
+      const origin = req.headers.origin;
+      const originKind = classifyOrigin(origin, req.headers.host, allowedOrigins);
+      if (originKind === "forbidden") {
+        sendJson(res, 403, jsonRpcError(-32000, `Cross-origin requests from ${origin} are not allowed`));
+        return;
+      }
+      if (originKind === "cors") {
+        for (const [name, value] of Object.entries(corsHeaders(origin as string))) res.setHeader(name, value);
+      }
+      if (req.method === "OPTIONS") {
+        res.writeHead(204, originKind === "cors" ? corsPreflightHeaders(origin as string) : {});
+        res.end();
+        return;
+      }
+
+      ip = ipOf(req);
+      const lockedMs = lockout.lockedFor(ip);
+      if (lockedMs > 0) {
+        sendTooManyRequests(res, lockedMs, "Too many failed authentication attempts; try again later");
+        return;
+      }
+      const ipWaitMs = ipLimiter.take(ip);
+      if (ipWaitMs > 0) {
+        sendTooManyRequests(res, ipWaitMs, "Rate limit exceeded");
+        return;
+      }
+
+      if (oauth && req.method === "POST" && url.pathname === "/register") {
+        const registerWaitMs = registerLimiter.take(ip);
+        if (registerWaitMs > 0) {
+          sendTooManyRequests(res, registerWaitMs, "Too many client registrations; try again later");
+          return;
+        }
+      }
+
+      if (oauth && await oauth.handle(req, res, url)) {
+        return;
+      }
+
+      // Probing OmniFocus runs a script, so /ready needs a token too; /metrics
+      // describes what was called, so it needs one that may read.
+      if (req.method === "GET" && (url.pathname === "/ready" || url.pathname === "/metrics")) {
+        const probePrincipal = authenticate(req, null, authToken, tokens, oauth);
+        if (!probePrincipal) {
+          if (req.headers.authorization !== undefined) authFailed(ip);
+          sendJson(res, 401, jsonRpcError(-32001, "Unauthorized"), { "www-authenticate": "Bearer" });
+          return;
+        }
+        lockout.succeed(ip);
+        if (url.pathname === "/ready") {
+          const { checkedAt, error } = await checkReadiness();
+          const checked = new Date(checkedAt).toISOString();
+          if (error) {
+            sendJson(res, 503, { status: "unavailable", checkedAt: checked, error: { code: error.code, message: error.message } });
+          } else {
+            sendJson(res, 200, { status: "ready", checkedAt: checked });
+          }
+          return;
+        }
+        if (probePrincipal.token && !probePrincipal.token.scopes.includes("read")) {
+          sendJson(res, 403, jsonRpcError(-32001, `Token "${probePrincipal.token.name}" needs the "read" scope for metrics`));
+          return;
+        }
+        res.writeHead(200, { "content-type": "text/plain; version=0.0.4; charset=utf-8" });
+        res.end(renderMetrics());
+        return;
+      }
+
       if (segments[0] !== "mcp" || segments.length > 2) {
         sendJson(res, 404, jsonRpcError(-32000, "Not found"));
         return;
       }
 
-      const pathToken = segments.length === 2 ? decodeURIComponent(segments[1]) : null;
-      if (!isAuthorized(req, pathToken, authToken)) {
-        sendJson(res, 401, jsonRpcError(-32001, "Unauthorized"), { "www-authenticate": "Bearer" });
+      let pathToken: string | null = null;
+      if (segments.length === 2) {
+        try {
+          pathToken = decodeURIComponent(segments[1]);
+        } catch {
+          // Malformed percent-encoding: no token could look like that.
+          sendJson(res, 404, jsonRpcError(-32000, "Not found"));
+          return;
+        }
+      }
+      const principal = authenticate(req, pathToken, authToken, tokens, oauth);
+      if (!principal) {
+        // Requests without credentials are how OAuth clients discover the
+        // authorization server, not guesses.
+        if (pathToken !== null || req.headers.authorization !== undefined) authFailed(ip);
+        sendJson(res, 401, jsonRpcError(-32001, "Unauthorized"), { "www-authenticate": oauth ? oauth.challenge(req) : "Bearer" });
+        return;
+      }
+      lockout.succeed(ip);
+      principalId = principal.id;
+      addLogContext({ principal: principal.id });
+      const tokenWaitMs = tokenLimiter.take(principal.id);
+      if (tokenWaitMs > 0) {
+        sendTooManyRequests(res, tokenWaitMs, "Rate limit exceeded for this token");
         return;
       }
 
@@ -135,46 +501,96 @@ export async function startHttpServer(options: HttpServerOptions): Promise<Serve
         }
       }
 
-      if (req.method === "POST" && isInitializeRequest(body)) {
-        // Single active session: a new initialize replaces the previous one.
-        if (transport) {
-          await transport.close();
+      const sessionId = req.headers["mcp-session-id"];
+      if (typeof sessionId === "string") {
+        const session = sessions.get(sessionId);
+        if (session && isIdle(session)) {
+          await closeSession(sessionId, "idle");
         }
-        const newTransport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => randomUUID(),
-          enableJsonResponse: true,
-          onsessionclosed: () => {
-            if (transport === newTransport) {
-              transport = null;
-            }
-          },
-        });
-        transport = newTransport;
-        await server.connect(newTransport);
-      }
-
-      if (!transport) {
-        sendJson(res, 400, jsonRpcError(-32000, "No active session: send an initialize request first"));
+        if (!session || !sessions.has(sessionId)) {
+          sendJson(res, 404, jsonRpcError(-32001, "Session not found"));
+          return;
+        }
+        if (session.principal !== principal.id) {
+          sendJson(res, 403, jsonRpcError(-32001, "Session belongs to another token"));
+          return;
+        }
+        sessions.delete(sessionId);
+        sessions.set(sessionId, session);
+        session.lastActive = Date.now();
+        if (req.method === "GET") {
+          // The stream resource update notifications go out on.
+          session.streams++;
+          res.on("close", () => {
+            session.streams--;
+            session.lastActive = Date.now();
+          });
+        }
+        await session.transport.handleRequest(req, res, body);
         return;
       }
 
-      await transport.handleRequest(req, res, body);
+      if (req.method === "POST" && isInitializeRequest(body)) {
+        await openSession(principal, req, res, body);
+        return;
+      }
+
+      sendJson(res, 400, jsonRpcError(-32000, "No session: send an initialize request first"));
     } catch (error) {
-      console.error("HTTP transport error:", error);
+      logger.error("HTTP transport error", { error });
       if (!res.headersSent) {
         sendJson(res, 500, jsonRpcError(-32603, "Internal server error"));
       }
     }
-  });
+  };
 
-  await new Promise<void>((resolve, reject) => {
-    httpServer.once("error", reject);
-    httpServer.listen(port, host, () => resolve());
+  const { tls, socketPath, socketMode = 0o600 } = options;
+  const httpServer: Server = tls
+    ? createHttpsServer(readTlsFiles(tls), handleRequest)
+    : createServer(handleRequest);
+
+  // A failed reload (e.g. a half-written renewal) keeps the current certificate.
+  const reloadTls = () => {
+    if (!tls) return;
+    try {
+      (httpServer as HttpsServer).setSecureContext(readTlsFiles(tls));
+      logger.info("Reloaded TLS certificate", { cert: tls.cert });
+    } catch (error) {
+      logger.error("Failed to reload TLS certificate, keeping the current one", { cert: tls.cert, error });
+    }
+  };
+  if (tls) process.on("SIGHUP", reloadTls);
+
+  httpServer.on("close", () => {
+    clearInterval(sweep);
+    process.off("SIGHUP", reloadTls);
+    stopObservingSessions();
+    for (const sessionId of [...sessions.keys()]) void closeSession(sessionId, "server stopped");
   });
 
-  const address = httpServer.address();
-  const actualPort = address !== null && typeof address === "object" ? address.port : port;
-  console.error(`OmniFocus MCP Server listening on http://${host}:${actualPort}/mcp`);
+  if (socketPath) removeStaleSocket(socketPath);
+  // The socket is created owner-only and then given `socketMode`, so there is
+  // no moment when others may connect to it.
+  const umask = socketPath ? process.umask(0o177) : undefined;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      if (socketPath) httpServer.listen(socketPath, () => resolve());
+      else httpServer.listen(port, host, () => resolve());
+    });
+  } finally {
+    if (umask !== undefined) process.umask(umask);
+  }
+
+  const scheme = tls ? "https" : "http";
+  if (socketPath) {
+    chmodSync(socketPath, socketMode);
+    logger.info("OmniFocus MCP Server listening", { url: `${scheme}+unix://${socketPath}`, endpoint: "/mcp" });
+  } else {
+    const address = httpServer.address();
+    const actualPort = address !== null && typeof address === "object" ? address.port : port;
+    logger.info("OmniFocus MCP Server listening", { url: `${scheme}://${host}:${actualPort}/mcp` });
+  }
 
   return httpServer;
 }
@@ -9,31 +9,160 @@
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { server } from "./server.js";
-import { startHttpServer } from "./http.js";
-
-// Tool registrations (side-effect imports)
-import "./tools/tasks.js";
-import "./tools/projects.js";
-import "./tools/folders.js";
-import "./tools/tags.js";
-import "./tools/reviews.js";
-import "./tools/perspectives.js";
-import "./tools/search.js";
+import { startHttpServer, type TlsFiles } from "./http.js";
+import { loadTokensFile } from "./tokens.js";
+import { configureExecutor, executorConfigFromEnv } from "./executor.js";
+import { configureCache, cacheConfigFromEnv } from "./cache.js";
+import { configureLogger, logger, loggerConfigFromEnv } from "./logger.js";
+import { configureJournal, journalConfigFromEnv } from "./journal.js";
+import { configureDryRun, dryRunConfigFromEnv } from "./dryrun.js";
+import { configureSubscriptions, subscriptionConfigFromEnv } from "./subscriptions.js";
 
 // Re-exports so existing imports from index (tests, external consumers) keep working
 export type { TaskData, ProjectData, FolderData, TagData, PerspectiveData } from "./types.js";
+/** @deprecated Unused by the server since tool arguments are passed as data; see sanitization.ts. */
 export { sanitizeInput, sanitizeArray } from "./sanitization.js";
-export { executeOmniFocusScript, executeAndParseJSON } from "./executor.js";
+export {
+  executeOmniFocusScript,
+  executeAndParseJSON,
+  checkExecutorHealth,
+  shutdownExecutor,
+  configureExecutor,
+  executorConfigFromEnv,
+  getExecutorStats,
+  runInCallContext
+} from "./executor.js";
+export type { ExecuteOptions, ExecutorConfig, CallContext } from "./executor.js";
+export {
+  OmniFocusError,
+  OmniFocusNotRunningError,
+  OmniFocusPermissionError,
+  OmniFocusNotFoundError,
+  OmniFocusAmbiguousMatchError,
+  OmniFocusValidationError,
+  OmniFocusTimeoutError,
+  OmniFocusCancelledError,
+  OmniFocusScriptError,
+  isTransientError,
+  toolErrorResult
+} from "./errors.js";
+export type { OmniFocusErrorCode } from "./errors.js";
+export { configureCache, getCacheStats, invalidateCache, cacheConfigFromEnv } from "./cache.js";
+export type { CacheConfig, OmniFocusSnapshot } from "./cache.js";
+export { FixtureRecorder, FixtureReplayer, fixtureKey, normalizeScript } from "./fixtures.js";
+export type { FixtureMode, FixtureFile, FixtureRecording } from "./fixtures.js";
+export { getBackend, setBackend, createBackendFromEnv } from "./backend.js";
+export type { OmniFocusBackend } from "./backend.js";
+export { OsascriptBackend } from "./backends/osascript.js";
+export { OsascriptWorkerBackend } from "./backends/osascript-worker.js";
+export { FakeBackend } from "./backends/fake.js";
+export { FakeStore } from "./backends/fake-store.js";
 export { STATUS_MAP, generateFindTaskScript, generateFindProjectScript, generateFindFolderScript, generateTagFilter } from "./helpers.js";
 export { TASK_MAPPER, PROJECT_MAPPER, FOLDER_MAPPER, TAG_MAPPER, PERSPECTIVE_MAPPER } from "./mappers.js";
-export { server } from "./server.js";
+export { server, createMcpServer } from "./server.js";
+export type { McpServerOptions } from "./server.js";
+export { registerResources, readResource, RESOURCE_PAGE_SIZE, RESOURCE_NOT_FOUND } from "./resources.js";
+export { registerSubscriptions, configureSubscriptions, subscriptionConfigFromEnv } from "./subscriptions.js";
+export type { SubscriptionConfig } from "./subscriptions.js";
+export { registerPrompts } from "./prompts.js";
+export { suggestNames, rankNames, completeNames, NAME_KINDS } from "./names.js";
+export type { NameKind, NameMatch, NameSuggestion, SuggestOptions } from "./names.js";
 export { startHttpServer } from "./http.js";
+export type { HttpServerOptions, TlsFiles } from "./http.js";
+export type { OAuthConfig } from "./oauth.js";
+export { RateLimiter, AuthLockout, clientIp } from "./ratelimit.js";
+export { isAllowedHost, classifyOrigin, LOOPBACK_HOSTS } from "./origin.js";
+export type { RateLimitConfig } from "./ratelimit.js";
+export { loadTokensFile, parseTokensFile, requiredScope, toolDenial, TOKEN_SCOPES } from "./tokens.js";
+export type { ApiToken, TokenScope } from "./tokens.js";
+export { Counter, Histogram, observe, collectMetrics, renderMetrics } from "./metrics.js";
+export { logger, configureLogger, loggerConfigFromEnv, redact, withLogContext, addLogContext, currentLogContext, LOG_LEVELS } from "./logger.js";
+export type { LoggerConfig, LogLevel, LogFields } from "./logger.js";
+export { configureJournal, journalConfigFromEnv, listJournal, undoChange } from "./journal.js";
+export type { JournalConfig, JournalEntry, JournalChange, JournalKind, JournalRecord, TaskRecord, ProjectRecord, UndoResult } from "./journal.js";
+export { configureDryRun, dryRunConfigFromEnv, canDryRun, isDryRun, planChanges, withDryRunOutput } from "./dryrun.js";
+export type { DryRunConfig, PlannedChange } from "./dryrun.js";
+export type { MetricFamily, Labels } from "./metrics.js";
+export {
+  toolResult,
+  TaskDataSchema,
+  ProjectDataSchema,
+  FolderDataSchema,
+  TagDataSchema,
+  PerspectiveDataSchema,
+  TaskOutputSchema,
+  TaskListOutputSchema,
+  DatedTaskListOutputSchema,
+  BatchTaskOutputSchema,
+  DeletedOutputSchema,
+  ProjectOutputSchema,
+  ProjectListOutputSchema,
+  ReviewListOutputSchema,
+  BatchReviewOutputSchema,
+  FolderOutputSchema,
+  FolderListOutputSchema,
+  TagListOutputSchema,
+  PerspectiveListOutputSchema,
+  PerspectiveTasksOutputSchema,
+  SearchOutputSchema,
+  SuggestNamesOutputSchema,
+  MetricsOutputSchema,
+  RecentChangesOutputSchema,
+  UndoOutputSchema,
+  DryRunOutputSchema
+} from "./outputs.js";
 
 // ============================================================================
 // Main
 // ============================================================================
 
+/** An optional non-negative integer setting, or undefined when unset. */
+function envInt(name: string, min: number): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+/** An optional comma-separated list setting, or undefined when unset. */
+function envList(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+/** TLS files from MCP_TLS_CERT and MCP_TLS_KEY, which must be set together. */
+function tlsFromEnv(): TlsFiles | undefined {
+  const cert = process.env.MCP_TLS_CERT || undefined;
+  const key = process.env.MCP_TLS_KEY || undefined;
+  if (!cert && !key) return undefined;
+  if (!cert || !key) {
+    throw new Error("MCP_TLS_CERT and MCP_TLS_KEY must be set together");
+  }
+  return { cert, key };
+}
+
+/** An optional octal file mode setting such as 660. */
+function envMode(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  if (!/^0?[0-7]{3}$/.test(value)) {
+    throw new Error(`Invalid ${name}: ${value} (expected an octal mode such as 660)`);
+  }
+  return parseInt(value, 8);
+}
+
 async function main(): Promise<void> {
+  // Settings are read on first use elsewhere; a bad one should stop startup, not a request.
+  configureLogger(loggerConfigFromEnv());
+  configureExecutor(executorConfigFromEnv());
+  configureCache(cacheConfigFromEnv());
+  configureJournal(journalConfigFromEnv());
+  configureDryRun(dryRunConfigFromEnv());
+  configureSubscriptions(subscriptionConfigFromEnv());
   const transportMode = process.env.MCP_TRANSPORT ?? "stdio";
 
   if (transportMode === "http") {
@@ -44,12 +173,32 @@ async function main(): Promise<void> {
     await startHttpServer({
       port,
       host: process.env.MCP_HTTP_HOST ?? "127.0.0.1",
-      authToken: process.env.MCP_AUTH_TOKEN ?? ""
+      tls: tlsFromEnv(),
+      socketPath: process.env.MCP_HTTP_SOCKET || undefined,
+      socketMode: envMode("MCP_HTTP_SOCKET_MODE"),
+      authToken: process.env.MCP_AUTH_TOKEN ?? "",
+      tokens: process.env.MCP_TOKENS_FILE ? loadTokensFile(process.env.MCP_TOKENS_FILE) : undefined,
+      maxSessions: envInt("MCP_MAX_SESSIONS", 1),
+      sessionIdleMs: envInt("MCP_SESSION_IDLE_MS", 0),
+      oauth: process.env.MCP_OAUTH === "1"
+        ? { publicUrl: process.env.MCP_PUBLIC_URL || undefined, stateFile: process.env.MCP_OAUTH_STATE_FILE || undefined }
+        : undefined,
+      rateLimit: {
+        ipPerMinute: envInt("MCP_RATE_LIMIT_IP", 0),
+        tokenPerMinute: envInt("MCP_RATE_LIMIT_TOKEN", 0),
+        registerPerMinute: envInt("MCP_RATE_LIMIT_REGISTER", 0),
+        maxAuthFailures: envInt("MCP_AUTH_MAX_FAILURES", 0),
+        authLockoutMs: envInt("MCP_AUTH_LOCKOUT_MS", 0),
+        trustedProxies: envList("MCP_TRUSTED_PROXIES")
+      },
+      allowedHosts: envList("MCP_ALLOWED_HOSTS"),
+      allowedOrigins: envList("MCP_ALLOWED_ORIGINS"),
+      readyCacheMs: envInt("MCP_READY_CACHE_MS", 0)
     });
   } else if (transportMode === "stdio") {
     const transport = new StdioServerTransport();
     await server.connect(transport);
-    console.error("OmniFocus MCP Server running on stdio");
+    logger.info("OmniFocus MCP Server running on stdio");
   } else {
     throw new Error(`Unknown MCP_TRANSPORT: ${transportMode} (expected "stdio" or "http")`);
   }
@@ -63,7 +212,7 @@ const isDirectRun = process.argv[1] && (
 
 if (isDirectRun) {
   main().catch((error) => {
-    console.error("Fatal error:", error);
+    logger.error("Fatal error", { error });
     process.exit(1);
   });
 }
@@ -0,0 +1,616 @@
+/**
+ * Change journal
+ *
+ * server.ts runs every mutating tool call through journalCall(), which reads
+ * the tasks, projects or folders the call is about to change, runs it, reads
+ * them again and records both states as one entry. Creations are recorded
+ * with no "before", deletions with no "after" (deleting a task records its
+ * subtasks too). Calls that changed nothing are not recorded.
+ *
+ * undoChange() applies an entry's inverse: created objects are deleted,
+ * deleted tasks are recreated (with their subtasks, tags and notes) under
+ * their old parent, project or the inbox, and changed objects get their old
+ * field values back, reopening completed or dropped tasks. The undo is an
+ * entry of its own, so it can be undone in turn. Deleted projects and folders
+ * cannot be recreated with their contents and are not undoable.
+ *
+ * The latest OMNIFOCUS_JOURNAL_MAX_ENTRIES entries (default 1000) are kept in
+ * memory. With OMNIFOCUS_JOURNAL_FILE, every entry is also appended to that
+ * file (created with mode 0600; it holds task content) as one JSON line, and
+ * the file is read back on first use, so changes can be undone after a
+ * restart. OMNIFOCUS_JOURNAL=0 turns journaling off, saving the two extra
+ * scripts each mutating call runs.
+ */
+
+import { randomUUID } from "crypto";
+import { closeSync, existsSync, openSync, readFileSync, writeSync } from "fs";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { executeAndParseJSON } from "./executor.js";
+import { currentLogContext, logger } from "./logger.js";
+import { OmniFocusError, OmniFocusNotFoundError, OmniFocusValidationError } from "./errors.js";
+import { TASK_MAPPER, PROJECT_MAPPER, FOLDER_MAPPER } from "./mappers.js";
+import { generateFindTaskScript, generateFindProjectScript, generateFindFolderScript } from "./helpers.js";
+import type { TaskData, ProjectData, FolderData } from "./types.js";
+
+export type JournalKind = "task" | "project" | "folder";
+
+/** A task as the journal records it: what undo needs to put it back. */
+export interface TaskRecord extends TaskData {
+  /** ID of the containing project; null for inbox tasks. */
+  projectId: string | null;
+}
+
+export interface ProjectRecord extends ProjectData {
+  folderId: string | null;
+  lastReviewDate: string | null;
+  reviewInterval: { unit: string; steps: number } | null;
+}
+
+export type JournalRecord = TaskRecord | ProjectRecord | FolderData;
+
+export interface JournalChange {
+  kind: JournalKind;
+  id: string;
+  /** State before the call; null when the call created the object. */
+  before: JournalRecord | null;
+  /** State after the call; null when the call deleted the object. */
+  after: JournalRecord | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  /** When the call finished, as an ISO string. */
+  time: string;
+  tool: string;
+  arguments: unknown;
+  /** The HTTP request, MCP session and authenticated principal the call came with. */
+  requestId?: string;
+  sessionId?: string;
+  principal?: string;
+  changes: JournalChange[];
+  /** ID of the entry this one undid (omnifocus_undo_change). */
+  undoes?: string;
+}
+
+export interface JournalConfig {
+  /** Whether mutating calls are journaled at all. */
+  enabled: boolean;
+  /** File entries are appended to; memory only when null. */
+  file: string | null;
+  /** Entries kept in memory, and so listable and undoable. */
+  maxEntries: number;
+}
+
+/**
+ * Reads the journal settings from OMNIFOCUS_JOURNAL, OMNIFOCUS_JOURNAL_FILE
+ * and OMNIFOCUS_JOURNAL_MAX_ENTRIES.
+ */
+export function journalConfigFromEnv(env: NodeJS.ProcessEnv = process.env): JournalConfig {
+  const enabled = env.OMNIFOCUS_JOURNAL || "1";
+  if (enabled !== "0" && enabled !== "1") {
+    throw new Error(`Invalid OMNIFOCUS_JOURNAL: ${enabled} (expected 0 or 1)`);
+  }
+  const value = env.OMNIFOCUS_JOURNAL_MAX_ENTRIES;
+  const maxEntries = value === undefined || value === "" ? 1000 : Number(value);
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new Error(`Invalid OMNIFOCUS_JOURNAL_MAX_ENTRIES: ${value}`);
+  }
+  return { enabled: enabled === "1", file: env.OMNIFOCUS_JOURNAL_FILE || null, maxEntries };
+}
+
+let config: JournalConfig | null = null;
+/** Loaded from the file on first use. */
+let entries: JournalEntry[] | null = null;
+let fd: number | null = null;
+
+function getConfig(): JournalConfig {
+  if (!config) config = journalConfigFromEnv();
+  return config;
+}
+
+/**
+ * Overrides journal settings (the rest keep their current values). Entries
+ * are read again, from the new file if there is one.
+ */
+export function configureJournal(options: Partial<JournalConfig>): void {
+  config = { ...getConfig(), ...options };
+  entries = null;
+  if (fd !== null) {
+    closeSync(fd);
+    fd = null;
+  }
+}
+
+function loadEntries(): JournalEntry[] {
+  const { file, maxEntries } = getConfig();
+  if (!file || !existsSync(file)) return [];
+  const loaded: JournalEntry[] = [];
+  readFileSync(file, "utf8").split("\n").forEach((line, index) => {
+    if (line.trim() === "") return;
+    try {
+      loaded.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      logger.warn("Skipping unreadable journal line", { file, line: index + 1 });
+    }
+  });
+  return loaded.slice(-maxEntries);
+}
+
+function getEntries(): JournalEntry[] {
+  if (!entries) entries = loadEntries();
+  return entries;
+}
+
+function appendEntry(entry: JournalEntry): void {
+  const { file, maxEntries } = getConfig();
+  const current = getEntries();
+  current.push(entry);
+  if (current.length > maxEntries) current.splice(0, current.length - maxEntries);
+  if (file) {
+    if (fd === null) fd = openSync(file, "a", 0o600);
+    writeSync(fd, JSON.stringify(entry) + "\n");
+  }
+}
+
+function newEntry(tool: string, args: unknown, changes: JournalChange[], undoes?: string): JournalEntry {
+  const { requestId, sessionId, principal } = currentLogContext() as Record<string, string | undefined>;
+  return {
+    id: randomUUID(),
+    time: new Date().toISOString(),
+    tool,
+    arguments: args,
+    requestId,
+    sessionId,
+    principal,
+    changes,
+    undoes,
+  };
+}
+
+/** Journal entries, oldest first. */
+export function listJournal(): JournalEntry[] {
+  return [...getEntries()];
+}
+
+// ============================================================================
+// Capturing
+// ============================================================================
+
+export interface JournalTarget {
+  kind: JournalKind;
+  /** The call creates the object; its ID is read from the result. */
+  create?: boolean;
+  /** Deleting the object deletes its subtasks, which are recorded too. */
+  cascade?: boolean;
+  /** A project name may match partially, as generateFindProjectScript("match") does. */
+  partialName?: boolean;
+}
+
+/** The mutating tools that are journaled, and what they change. */
+const TARGETS: Record<string, JournalTarget> = {
+  omnifocus_create_task: { kind: "task", create: true },
+  omnifocus_complete_task: { kind: "task" },
+  omnifocus_update_task: { kind: "task" },
+  omnifocus_delete_task: { kind: "task", cascade: true },
+  omnifocus_batch_complete_task: { kind: "task" },
+  omnifocus_update_task_note: { kind: "task" },
+  omnifocus_add_tag_to_task: { kind: "task" },
+  omnifocus_remove_tag_from_task: { kind: "task" },
+  omnifocus_batch_add_tag: { kind: "task" },
+  omnifocus_batch_remove_tag: { kind: "task" },
+  omnifocus_create_project: { kind: "project", create: true },
+  omnifocus_update_project: { kind: "project" },
+  omnifocus_update_project_note: { kind: "project", partialName: true },
+  omnifocus_delete_project: { kind: "project" },
+  omnifocus_mark_project_reviewed: { kind: "project", partialName: true },
+  omnifocus_batch_mark_reviewed: { kind: "project" },
+  omnifocus_create_folder: { kind: "folder", create: true },
+  omnifocus_update_folder: { kind: "folder" },
+  omnifocus_delete_folder: { kind: "folder" },
+};
+
+/**
+ * The arguments naming the objects a tool changes. update_task's projectId
+ * and projectName name where the task moves, so only the kind's own keys
+ * are read.
+ */
+const REFERENCE_KEYS: Record<JournalKind, { id: string; ids: string; name: string }> = {
+  task: { id: "taskId", ids: "taskIds", name: "taskName" },
+  project: { id: "projectId", ids: "projectIds", name: "projectName" },
+  folder: { id: "folderId", ids: "folderIds", name: "folderName" },
+};
+
+// Read by the capture and undo scripts. recordTask adds the containing
+// project's ID, which mapTask leaves out; recordProject adds what
+// mark_project_reviewed and update_project change beyond mapProject.
+const RECORDERS = `
+  ${TASK_MAPPER}
+  ${PROJECT_MAPPER}
+  ${FOLDER_MAPPER}
+  function recordTask(t) {
+    var r = mapTask(t);
+    var p = t.containingProject();
+    r.projectId = p ? p.id() : null;
+    return r;
+  }
+  function recordProject(p) {
+    var r = mapProject(p);
+    var f = p.folder();
+    r.folderId = f ? f.id() : null;
+    r.lastReviewDate = null;
+    r.reviewInterval = null;
+    try {
+      var last = p.lastReviewDate();
+      r.lastReviewDate = last ? last.toISOString() : null;
+      var interval = p.reviewInterval();
+      r.reviewInterval = interval ? { unit: interval.unit, steps: interval.steps } : null;
+    } catch(e) {}
+    return r;
+  }
+  function record(kind, o) {
+    return kind === "task" ? recordTask(o) : kind === "project" ? recordProject(o) : mapFolder(o);
+  }
+  // OmniFocus resolves the whose() clause itself: one Apple event per lookup,
+  // however many objects the document has.
+  function findById(kind, id) {
+    var all = kind === "task" ? doc.flattenedTasks : kind === "project" ? doc.flattenedProjects : doc.flattenedFolders;
+    var matches = all.whose({id: id})();
+    return matches.length > 0 ? matches[0] : null;
+  }
+`;
+
+/** The journaled tool `tool` changes objects of, or undefined. */
+export function journalTarget(tool: string): JournalTarget | undefined {
+  return TARGETS[tool];
+}
+
+/**
+ * Script reading the objects with `params.ids` (null for missing ones, in
+ * order), then the one `params[name]` names when `byName` (found the way the
+ * target's tool finds it), then the subtasks of each when `cascade`.
+ */
+function generateCaptureScript(kind: JournalKind, byName: boolean, cascade: boolean, partialName = false): string {
+  const findByName = kind === "task" ? generateFindTaskScript("name")
+    : kind === "project" ? generateFindProjectScript(partialName ? "match" : "name")
+    : generateFindFolderScript("name");
+  return `
+  ${RECORDERS}
+  var found = params.ids.map(function(id) { return findById("${kind}", id); });
+  ${byName ? `${findByName}
+  found.push(${kind});` : ""}
+  var records = [];
+  function capture(o) {
+    records.push(o ? record("${kind}", o) : null);
+    ${cascade ? `if (o) o.tasks().forEach(capture);` : ""}
+  }
+  found.forEach(capture);
+  JSON.stringify(records);
+`;
+}
+
+/**
+ * The objects a call is about to change, as named by its arguments, and the
+ * IDs it names that do not exist. A name matching no object, or several,
+ * fails with the error the tool would report.
+ */
+export async function captureTargets(
+  target: JournalTarget,
+  input: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<{ records: JournalRecord[]; missing: string[] }> {
+  const keys = REFERENCE_KEYS[target.kind];
+  const id = input[keys.id];
+  const ids = Array.isArray(input[keys.ids]) ? (input[keys.ids] as string[]) : typeof id === "string" && id ? [id] : [];
+  const byName = ids.length === 0 && typeof input[keys.name] === "string" && input[keys.name] !== "";
+  if (ids.length === 0 && !byName) return { records: [], missing: [] };
+  const script = generateCaptureScript(target.kind, byName, target.cascade === true, target.partialName === true);
+  const found = await executeAndParseJSON<Array<JournalRecord | null>>(
+    script, { ids, [keys.name]: input[keys.name] }, { signal, retryable: true }
+  );
+  const records = found.filter((r): r is JournalRecord => r !== null);
+  return { records, missing: ids.filter((requested) => !records.some((r) => r.id === requested)) };
+}
+
+/** The objects with `ids` as they are now; null for deleted ones. */
+export function captureIds(kind: JournalKind, ids: string[], signal?: AbortSignal): Promise<Array<JournalRecord | null>> {
+  return executeAndParseJSON(generateCaptureScript(kind, false, false), { ids }, { signal, retryable: true });
+}
+
+/** The ID of the object a create tool returns in its structured content. */
+function createdIdOf(result: CallToolResult): string | null {
+  const id = result.isError ? undefined : result.structuredContent?.id;
+  return typeof id === "string" ? id : null;
+}
+
+/**
+ * Runs a tool call with `run`, recording what it changed when the tool is
+ * journaled. A failure to read the objects is logged and leaves the call
+ * unrecorded; it never fails the call.
+ */
+export async function journalCall(
+  tool: string,
+  input: unknown,
+  signal: AbortSignal | undefined,
+  run: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const target = TARGETS[tool];
+  if (!target || !getConfig().enabled) return run();
+
+  const args = (input ?? {}) as Record<string, unknown>;
+  let before: JournalRecord[] | null = [];
+  if (!target.create) {
+    before = await captureTargets(target, args, signal).then(({ records }) => records, (error: unknown) => {
+      // The tool fails the same way and changes nothing.
+      if (error instanceof OmniFocusError && (error.code === "NOT_FOUND" || error.code === "AMBIGUOUS_MATCH")) return [];
+      logger.warn("Could not read what a tool call is about to change; it is not journaled", { error });
+      return null;
+    });
+  }
+  const result = await run();
+  if (before === null) return result;
+
+  try {
+    const createdId = target.create ? createdIdOf(result) : null;
+    const ids = createdId ? [createdId] : before.map((r) => r.id);
+    if (ids.length === 0) return result;
+    // Not cancelled with the call: the changes were made either way.
+    const after = await captureIds(target.kind, ids);
+    const changes = ids
+      .map((id, i): JournalChange => ({ kind: target.kind, id, before: createdId ? null : before[i], after: after[i] }))
+      .filter((change) => JSON.stringify(change.before) !== JSON.stringify(change.after));
+    if (changes.length > 0) appendEntry(newEntry(tool, input, changes));
+  } catch (error: unknown) {
+    logger.warn("Could not read what a tool call changed; it is not journaled", { error });
+  }
+  return result;
+}
+
+// ============================================================================
+// Undoing
+// ============================================================================
+
+// Puts back each change's "before" in order (a deleted task's subtasks follow
+// it, so parents are recreated first), then reads the objects again: the
+// undo's own before and after states.
+const UNDO_SCRIPT = `
+  ${RECORDERS}
+  // Repetition method names as JXA reports them, to Omni Automation's.
+  var REPETITION_METHODS = {
+    "fixed repetition": "Fixed",
+    "due again after completion": "DueDate",
+    "start again after completion": "DeferUntilDate"
+  };
+  function toDate(value) { return value ? new Date(value) : null; }
+
+  // Direct JXA cannot assign or unset a repetition rule (see helpers.ts).
+  function setRepetition(task, rule, method) {
+    var id = JSON.stringify(task.id());
+    app.evaluateJavascript(rule
+      ? "(function(){var _t=Task.byIdentifier(" + id + ");_t.repetitionRule=new Task.RepetitionRule(" + JSON.stringify(rule) + ", Task.RepetitionMethod." + (REPETITION_METHODS[method] || "Fixed") + ");})()"
+      : "(function(){var _t=Task.byIdentifier(" + id + ");if(_t.repetitionRule){_t.repetitionRule=null;}})()");
+  }
+
+  function restoreTask(task, r) {
+    if (!r.completed && !r.dropped && (task.completed() || task.dropped())) task.markIncomplete();
+    task.name = r.name;
+    task.note = r.note;
+    task.flagged = r.flagged;
+    task.dueDate = toDate(r.dueDate);
+    task.deferDate = toDate(r.deferDate);
+    try { task.plannedDate = toDate(r.plannedDate); } catch(e) {}
+    task.estimatedMinutes = r.estimatedMinutes;
+
+    var allTags = doc.flattenedTags();
+    var tagNames = task.tags().map(function(tag) { return tag.name(); });
+    r.tags.forEach(function(name) {
+      if (tagNames.indexOf(name) !== -1) return;
+      var tag = allTags.find(function(t) { return t.name() === name; });
+      if (tag) app.add(tag, { to: task.tags });
+    });
+    task.tags().forEach(function(tag) {
+      if (r.tags.indexOf(tag.name()) === -1) app.remove(tag, { from: task.tags });
+    });
+
+    var project = task.containingProject();
+    if (r.projectId && (!project || project.id() !== r.projectId)) {
+      var target = findById("project", r.projectId);
+      if (target) task.assignedContainer = target;
+    }
+
+    var rule = null;
+    try {
+      var current = task.repetitionRule();
+      rule = current && current.recurrence ? String(current.recurrence) : null;
+    } catch(e) {}
+    if (rule !== r.repetitionRule) setRepetition(task, r.repetitionRule, r.repetitionMethod);
+
+    if (r.completed && !task.completed()) task.markComplete();
+    else if (r.dropped && !task.dropped()) task.markDropped();
+  }
+
+  // Recreates a deleted task under its old parent (or the parent's
+  // recreation), else its old project, else the inbox.
+  function recreateTask(r, newIds) {
+    var parent = r.parentTaskId ? findById("task", newIds[r.parentTaskId] || r.parentTaskId) : null;
+    var project = !parent && r.projectId ? findById("project", r.projectId) : null;
+    var task;
+    if (parent || project) {
+      task = app.Task({ name: r.name });
+      (parent || project).tasks.push(task);
+    } else {
+      task = app.InboxTask({ name: r.name });
+      doc.inboxTasks.push(task);
+    }
+    newIds[r.id] = task.id();
+    restoreTask(task, r);
+    return task;
+  }
+
+  function restoreProject(p, r) {
+    p.name = r.name;
+    p.note = r.note;
+    p.flagged = r.flagged;
+    p.dueDate = toDate(r.dueDate);
+    p.deferDate = toDate(r.deferDate);
+    p.sequential = r.sequential;
+    if (r.reviewInterval) p.reviewInterval = r.reviewInterval;
+    try {
+      p.lastReviewDate = toDate(r.lastReviewDate);
+      p.nextReviewDate = toDate(r.nextReviewDate);
+    } catch(e) {}
+    if (String(p.status()) !== r.status) {
+      if (r.status === "done status") p.markComplete();
+      else if (r.status === "dropped status") p.markDropped();
+      else p.status = r.status;
+    }
+  }
+
+  function remove(kind, o) {
+    if (kind === "project" && o.flattenedTasks().length > 0) {
+      throw omnifocusError("VALIDATION", "Project " + o.name() + " has tasks now; move or delete them first");
+    }
+    if (kind === "folder" && (o.projects().length > 0 || o.folders().length > 0)) {
+      throw omnifocusError("VALIDATION", "Folder " + o.name() + " is not empty now; move or delete its contents first");
+    }
+    app.delete(o);
+  }
+
+  var newIds = {};
+  // Recorded up front: removing a task removes its subtasks with it.
+  var befores = params.changes.map(function(change) {
+    var o = findById(change.kind, change.id);
+    return o ? record(change.kind, o) : null;
+  });
+  var undone = params.changes.map(function(change, i) {
+    var o = findById(change.kind, change.id);
+    var before = befores[i];
+    if (change.before === null) {
+      if (o) remove(change.kind, o);
+      return { kind: change.kind, id: change.id, before: before, removed: true };
+    }
+    if (!o) {
+      o = recreateTask(change.before, newIds);
+    } else if (change.kind === "task") {
+      restoreTask(o, change.before);
+    } else if (change.kind === "project") {
+      restoreProject(o, change.before);
+    } else {
+      o.name = change.before.name;
+    }
+    return { kind: change.kind, id: o.id(), before: before };
+  });
+  // Objects that were gone already are left out.
+  JSON.stringify(undone.filter(function(u) { return !u.removed || u.before !== null; }).map(function(u) {
+    var o = u.removed ? null : findById(u.kind, u.id);
+    return { kind: u.kind, id: u.id, before: u.before, after: o ? record(u.kind, o) : null };
+  }));
+`;
+
+/** Whether an entry can be undone: it is not already, and recreates nothing but tasks. */
+function undoableChanges(entry: JournalEntry): boolean {
+  return entry.changes.every((change) => change.kind === "task" || change.after !== null || change.before === null);
+}
+
+/** The entry that undid `entry`, if one did. */
+function undoneBy(entry: JournalEntry): JournalEntry | undefined {
+  return getEntries().find((e) => e.undoes === entry.id);
+}
+
+/**
+ * The entry with `id`, if it can be undone. Fails with NOT_FOUND for entries
+ * no longer kept, and VALIDATION for ones that were undone already or cannot
+ * be.
+ */
+export function entryToUndo(id: string): JournalEntry {
+  const entry = getEntries().find((e) => e.id === id);
+  if (!entry) {
+    throw new OmniFocusNotFoundError(`No journal entry with ID: ${id}`, { changeId: id });
+  }
+  const undo = undoneBy(entry);
+  if (undo) {
+    throw new OmniFocusValidationError(`Change ${id} was already undone by ${undo.id}`, { undoneBy: undo.id });
+  }
+  if (!undoableChanges(entry)) {
+    throw new OmniFocusValidationError(`Change ${id} deleted a project or folder, which cannot be restored`);
+  }
+  return entry;
+}
+
+/** A note naming the entries after `entry` that changed the same objects, which undoing it overwrites. */
+export function overwriteNote(entry: JournalEntry): string | null {
+  const all = getEntries();
+  const touched = new Set(entry.changes.map((change) => change.id));
+  const later = all.slice(all.indexOf(entry) + 1)
+    .filter((e) => e.undoes !== entry.id && e.changes.some((change) => touched.has(change.id)));
+  return later.length > 0 ? `Later changes to the same objects are overwritten: ${later.map((e) => e.id).join(", ")}.` : null;
+}
+
+export interface UndoResult {
+  entry: JournalEntry;
+  /** What the undo could not take back, for the caller to check. */
+  notes: string[];
+}
+
+/**
+ * Applies the inverse of the entry with `id` and records it as a new entry.
+ * Fails as entryToUndo() does.
+ */
+export async function undoChange(id: string, signal?: AbortSignal): Promise<UndoResult> {
+  const entry = entryToUndo(id);
+  const changes = await executeAndParseJSON<JournalChange[]>(UNDO_SCRIPT, { changes: entry.changes }, { signal });
+  const notes: string[] = [];
+  const overwritten = overwriteNote(entry);
+  if (overwritten) notes.push(overwritten);
+
+  const result = newEntry("omnifocus_undo_change", { changeId: id }, changes, id);
+  appendEntry(result);
+  entry.changes.forEach((change) => {
+    const before = change.before as TaskRecord | null;
+    const after = change.after as TaskRecord | null;
+    if (change.kind === "task" && before?.repetitionRule && !before.completed && after?.completed) {
+      notes.push(`Completing "${before.name}" created its next occurrence, which was left in place.`);
+    }
+  });
+  return { entry: result, notes };
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/** Fields that follow from other objects rather than being set on this one. */
+export const DERIVED_FIELDS = new Set(["hasChildren", "childTaskCount", "taskCount", "projectCount", "folderCount"]);
+
+/** A change as listed: what happened to which object, and the fields that changed. */
+function describeChange(change: JournalChange): Record<string, unknown> {
+  const current = (change.after ?? change.before) as Record<string, unknown> | null;
+  const action = change.before === null ? "created" : change.after === null ? "deleted" : "updated";
+  const described: Record<string, unknown> = { kind: change.kind, id: change.id, name: current?.name, action };
+  if (change.before && change.after) {
+    const before = change.before as unknown as Record<string, unknown>;
+    const after = change.after as unknown as Record<string, unknown>;
+    const fields: Record<string, { before: unknown; after: unknown }> = {};
+    Object.keys(after).forEach((key) => {
+      if (!DERIVED_FIELDS.has(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        fields[key] = { before: before[key], after: after[key] };
+      }
+    });
+    described.fields = fields;
+  }
+  return described;
+}
+
+/** An entry as omnifocus_list_recent_changes reports it. */
+export function describeEntry(entry: JournalEntry): Record<string, unknown> {
+  const undo = undoneBy(entry);
+  return {
+    id: entry.id,
+    time: entry.time,
+    tool: entry.tool,
+    principal: entry.principal,
+    undoes: entry.undoes,
+    undoneBy: undo?.id,
+    undoable: !undo && undoableChanges(entry),
+    changes: entry.changes.map(describeChange),
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Structured logging.
+ *
+ * Every line is one JSON object: `time`, `level`, `msg`, then fields. Lines
+ * go to stderr (stdout carries the stdio transport's messages), or are
+ * appended to OMNIFOCUS_LOG_FILE. OMNIFOCUS_LOG_LEVEL (debug, info, warn,
+ * error; default info) drops lines below it.
+ *
+ * withLogContext() adds fields to every line logged by the code it runs,
+ * across awaits. The HTTP transport sets `requestId` per request, and
+ * server.ts sets `tool` per tool call, so an HTTP request, the tool it called
+ * and the scripts that tool ran can be followed through the log.
+ *
+ * Values are redacted by key before they are written: secrets (tokens,
+ * authorization headers, passwords, OAuth codes) always, and task content
+ * (names, notes, search queries, error messages quoting them) unless
+ * OMNIFOCUS_LOG_CONTENT=1. IDs are kept, so what a call touched can still be
+ * looked up in OmniFocus.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { openSync, writeSync } from "fs";
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerConfig {
+  /** Lines below this level are dropped. */
+  level: LogLevel;
+  /** File lines are appended to; stderr when null. */
+  file: string | null;
+  /** Whether task content is logged as is instead of redacted. */
+  logContent: boolean;
+}
+
+/**
+ * Reads the logger settings from OMNIFOCUS_LOG_LEVEL, OMNIFOCUS_LOG_FILE and
+ * OMNIFOCUS_LOG_CONTENT.
+ */
+export function loggerConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LoggerConfig {
+  const level = env.OMNIFOCUS_LOG_LEVEL || "info";
+  if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+    throw new Error(`Invalid OMNIFOCUS_LOG_LEVEL: ${level} (expected ${LOG_LEVELS.join(", ")})`);
+  }
+  const logContent = env.OMNIFOCUS_LOG_CONTENT || "0";
+  if (logContent !== "0" && logContent !== "1") {
+    throw new Error(`Invalid OMNIFOCUS_LOG_CONTENT: ${logContent} (expected 0 or 1)`);
+  }
+  return { level: level as LogLevel, file: env.OMNIFOCUS_LOG_FILE || null, logContent: logContent === "1" };
+}
+
+let config: LoggerConfig | null = null;
+let fd: number | null = null;
+
+function getConfig(): LoggerConfig {
+  if (!config) config = loggerConfigFromEnv();
+  return config;
+}
+
+/**
+ * Overrides logger settings (the rest keep their current values). A new
+ * `file` is opened for appending (created with mode 0600) right away, so a
+ * path that cannot be written fails here rather than on the first line.
+ */
+export function configureLogger(options: Partial<LoggerConfig>): void {
+  const next = { ...getConfig(), ...options };
+  if (options.file !== undefined) {
+    fd = next.file ? openLogFile(next.file) : null;
+  }
+  config = next;
+}
+
+function openLogFile(path: string): number {
+  try {
+    return openSync(path, "a", 0o600);
+  } catch (error: unknown) {
+    throw new Error(`Cannot open log file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+const REDACTED = "[redacted]";
+
+/** Keys whose values are credentials. */
+const SECRET_KEY = /^(authorization|cookie|password|secret|client_secret|code|code_verifier)$|token$/i;
+
+/** Keys whose values are task content: what the user wrote in OmniFocus. */
+const CONTENT_KEYS = new Set([
+  "name",
+  "newName",
+  "note",
+  "taskName",
+  "projectName",
+  "folderName",
+  "parentFolderName",
+  "tagName",
+  "tagNames",
+  "tags",
+  "perspectiveName",
+  "query",
+  "errorMessage",
+]);
+
+/**
+ * `value` with secrets replaced, and task content too unless `logContent`.
+ * Objects and arrays are copied, not changed.
+ */
+export function redact(value: unknown, logContent = getConfig().logContent): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, logContent));
+  if (value === null || typeof value !== "object") return value;
+  const copy: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item !== undefined && (SECRET_KEY.test(key) || (!logContent && CONTENT_KEYS.has(key)))) {
+      copy[key] = REDACTED;
+    } else {
+      copy[key] = redact(item, logContent);
+    }
+  }
+  return copy;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/** Runs `fn` with `fields` added to every line it logs, on top of the current context. */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/** The fields of the current context, e.g. to record who made a call. */
+export function currentLogContext(): LogFields {
+  return { ...logContext.getStore() };
+}
+
+/** Adds `fields` to the current context, e.g. once a request has authenticated. */
+export function addLogContext(fields: LogFields): void {
+  const store = logContext.getStore();
+  if (store) Object.assign(store, fields);
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function write(level: LogLevel, msg: string, fields: LogFields): void {
+  const { level: threshold } = getConfig();
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(threshold)) return;
+  if (fd === null && config?.file) fd = openLogFile(config.file);
+  const entry = redact({ time: new Date().toISOString(), level, msg, ...logContext.getStore(), ...fields });
+  const line = JSON.stringify(entry);
+  if (fd !== null) {
+    writeSync(fd, line + "\n");
+  } else {
+    console.error(line);
+  }
+}
+
+export const logger = {
+  debug: (msg: string, fields: LogFields = {}) => write("debug", msg, fields),
+  info: (msg: string, fields: LogFields = {}) => write("info", msg, fields),
+  warn: (msg: string, fields: LogFields = {}) => write("warn", msg, fields),
+  error: (msg: string, fields: LogFields = {}) => write("error", msg, fields),
+};
@@ -0,0 +1,185 @@
+/**
+ * Prometheus metrics.
+ *
+ * Collected in every transport: tool calls and their errors (counted where
+ * tools are registered, see server.ts), how long OmniFocus scripts take on
+ * the backend (executor.ts), and values other modules report when asked,
+ * such as the queue length or open HTTP sessions. The HTTP transport serves
+ * them at /metrics in the Prometheus text format; the omnifocus_get_metrics
+ * tool returns the same text (or JSON) over stdio.
+ */
+
+export type Labels = Record<string, string>;
+
+/** One metric and its samples, as rendered. */
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples: Array<{ name: string; labels: Labels; value: number }>;
+}
+
+interface Metric {
+  collect(): MetricFamily;
+}
+
+const registry: Metric[] = [];
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+/** A counter per label combination, e.g. calls per tool. */
+export class Counter implements Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  /** The current count for `labels`. */
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: "counter",
+      samples: [...this.values.values()].map(({ labels, value }) => ({ name: this.name, labels, value })),
+    };
+  }
+}
+
+/** A histogram per label combination, with cumulative `le` buckets as Prometheus expects. */
+export class Histogram implements Metric {
+  private readonly values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /** Observations recorded for `labels`. */
+  count(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.count ?? 0;
+  }
+
+  collect(): MetricFamily {
+    const samples: MetricFamily["samples"] = [];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, i) => {
+        samples.push({ name: `${this.name}_bucket`, labels: { ...labels, le: String(bound) }, value: counts[i] });
+      });
+      samples.push({ name: `${this.name}_bucket`, labels: { ...labels, le: "+Inf" }, value: count });
+      samples.push({ name: `${this.name}_sum`, labels, value: sum });
+      samples.push({ name: `${this.name}_count`, labels, value: count });
+    }
+    return { name: this.name, help: this.help, type: "histogram", samples };
+  }
+}
+
+/**
+ * A value read when metrics are collected. Several sources may report the
+ * same metric (e.g. open sessions of two HTTP servers); their values add up.
+ */
+class Observed implements Metric {
+  readonly sources = new Set<() => number>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: "counter" | "gauge") {
+    registry.push(this);
+  }
+
+  collect(): MetricFamily {
+    let value = 0;
+    for (const read of this.sources) value += read();
+    return { name: this.name, help: this.help, type: this.type, samples: [{ name: this.name, labels: {}, value }] };
+  }
+}
+
+const observed = new Map<string, Observed>();
+
+/**
+ * Reports `read()` as the metric `name` whenever metrics are collected.
+ * Returns a function that stops reporting it.
+ */
+export function observe(name: string, help: string, type: "counter" | "gauge", read: () => number): () => void {
+  let metric = observed.get(name);
+  if (!metric) {
+    metric = new Observed(name, help, type);
+    observed.set(name, metric);
+  }
+  const target = metric;
+  target.sources.add(read);
+  return () => {
+    target.sources.delete(read);
+  };
+}
+
+// ============================================================================
+// The server's metrics
+// ============================================================================
+
+export const toolCalls = new Counter("omnifocus_tool_calls_total", "Tool calls, by tool.");
+
+export const toolErrors = new Counter(
+  "omnifocus_tool_errors_total",
+  "Tool calls that returned an error, by tool and error code."
+);
+
+export const scriptDuration = new Histogram(
+  "omnifocus_script_duration_seconds",
+  "Time OmniFocus scripts took on the backend, excluding the wait for a queue slot, by backend and outcome.",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/** Every metric with its current samples. */
+export function collectMetrics(): MetricFamily[] {
+  return registry.map((metric) => metric.collect());
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (!Number.isFinite(value)) return value > 0 ? "+Inf" : "-Inf";
+  return String(value);
+}
+
+/** The metrics in the Prometheus text exposition format (version 0.0.4). */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const family of collectMetrics()) {
+    lines.push(`# HELP ${family.name} ${family.help}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      const labels = Object.entries(sample.labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+      lines.push(`${sample.name}${labels.length > 0 ? `{${labels.join(",")}}` : ""} ${formatValue(sample.value)}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,169 @@
+/**
+ * Name suggestions for projects, tags, folders and perspectives.
+ *
+ * Tools look these up by exact name, which agents often guess wrong. Names are
+ * ranked against a query: exact matches first, then names starting with it,
+ * names with a word starting with it, names containing it, and last fuzzy
+ * matches (the query's letters in order, or a few typos away). Matching
+ * ignores case and accents. Used by omnifocus_suggest_names and by argument
+ * completion for prompts and resource templates.
+ */
+
+import { executeAndParseJSON } from "./executor.js";
+import { getSnapshot } from "./cache.js";
+import { logger } from "./logger.js";
+import { PERSPECTIVE_MAPPER } from "./mappers.js";
+
+export type NameKind = "project" | "tag" | "folder" | "perspective";
+
+export const NAME_KINDS: readonly NameKind[] = ["project", "tag", "folder", "perspective"];
+
+/** How a name matched the query, best first. */
+export type NameMatch = "exact" | "prefix" | "word" | "substring" | "fuzzy";
+
+export interface NameSuggestion {
+  kind: NameKind;
+  name: string;
+  id: string | null;
+  match: NameMatch;
+}
+
+interface Named {
+  id: string | null;
+  name: string;
+}
+
+const MATCH_ORDER: readonly NameMatch[] = ["exact", "prefix", "word", "substring", "fuzzy"];
+
+/** Perspectives read by the names script; more than anyone keeps. */
+const MAX_PERSPECTIVES = 1000;
+
+const NAMES_SCRIPT = `
+  ${PERSPECTIVE_MAPPER}
+  function entry(o) { return { id: o.id(), name: o.name() }; }
+  JSON.stringify({
+    project: params.kinds.indexOf("project") !== -1 ? doc.flattenedProjects().map(entry) : [],
+    tag: params.kinds.indexOf("tag") !== -1 ? doc.flattenedTags().map(entry) : [],
+    folder: params.kinds.indexOf("folder") !== -1 ? doc.flattenedFolders().map(entry) : [],
+    perspective: params.kinds.indexOf("perspective") !== -1 ? mapPerspectives(${MAX_PERSPECTIVES}) : []
+  });
+`;
+
+/** Lower case without accents, so "Café" matches "cafe". */
+function normalize(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/** Whether the characters of `query` appear in `name` in order. */
+function isSubsequence(query: string, name: string): boolean {
+  let i = 0;
+  for (const char of name) {
+    if (char === query[i]) i++;
+    if (i === query.length) return true;
+  }
+  return false;
+}
+
+/**
+ * Edit distance counting swapped neighbours as one edit (optimal string
+ * alignment), giving up (Infinity) once it exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    if (Math.min(...current) > max) return Infinity;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length] <= max ? previous[b.length] : Infinity;
+}
+
+/** How `name` matches `query` (both normalized), or null when it does not. */
+function matchName(query: string, name: string): NameMatch | null {
+  if (name === query) return "exact";
+  if (name.startsWith(query)) return "prefix";
+  if (name.split(/[^\p{L}\p{N}]+/u).some((word) => word.startsWith(query))) return "word";
+  if (name.includes(query)) return "substring";
+  // About one typo per four characters.
+  const typos = Math.max(1, Math.floor(query.length / 4));
+  if (isSubsequence(query, name) || editDistance(query, name, typos) <= typos) return "fuzzy";
+  return null;
+}
+
+/**
+ * Ranks `candidates` against `query`: by how they match, then shorter names
+ * first, then alphabetically. An empty query matches every name as a prefix.
+ */
+export function rankNames(query: string, candidates: Array<Named & { kind: NameKind }>): NameSuggestion[] {
+  const q = normalize(query.trim());
+  const seen = new Set<string>();
+  return candidates
+    .flatMap(({ kind, id, name }) => {
+      const match = q === "" ? "prefix" : matchName(q, normalize(name));
+      return match ? [{ kind, name, id, match }] : [];
+    })
+    .sort((a, b) =>
+      MATCH_ORDER.indexOf(a.match) - MATCH_ORDER.indexOf(b.match) ||
+      a.name.length - b.name.length ||
+      a.name.localeCompare(b.name))
+    // Nested tags and folders can share names; a name is only suggested once per kind.
+    .filter(({ kind, name }) => {
+      const key = `${kind}:${name}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** Every name of the given kinds, from the snapshot where it has them. */
+async function loadNames(kinds: readonly NameKind[], signal?: AbortSignal): Promise<Array<Named & { kind: NameKind }>> {
+  const snapshot = await getSnapshot(signal);
+  const fromScript = kinds.filter((kind) => !snapshot || kind === "perspective");
+  const read = fromScript.length > 0
+    ? await executeAndParseJSON<Record<NameKind, Named[]>>(NAMES_SCRIPT, { kinds: fromScript }, { signal, retryable: true })
+    : null;
+  const named = (kind: NameKind): Named[] => {
+    if (snapshot && kind !== "perspective") {
+      const items = { project: snapshot.projects, tag: snapshot.tags, folder: snapshot.folders }[kind];
+      return items.map(({ id, name }) => ({ id, name }));
+    }
+    return read?.[kind] ?? [];
+  };
+  return kinds.flatMap((kind) => named(kind).map(({ id, name }) => ({ kind, id, name })));
+}
+
+export interface SuggestOptions {
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/** Names of the given kinds that match `query`, best first. */
+export async function suggestNames(query: string, kinds: readonly NameKind[], { limit = 10, signal }: SuggestOptions = {}): Promise<NameSuggestion[]> {
+  return rankNames(query, await loadNames(kinds, signal)).slice(0, limit);
+}
+
+/**
+ * A completion callback for arguments naming a `kind`. Completion is only a
+ * convenience, so when OmniFocus cannot be read it offers nothing rather than
+ * failing.
+ */
+export function completeNames(kind: NameKind) {
+  return async (value: string | undefined): Promise<string[]> => {
+    try {
+      // The SDK sends the first 100 and reports whether there are more.
+      return rankNames(value ?? "", await loadNames([kind])).map((s) => s.name);
+    } catch (error) {
+      logger.warn("Could not complete names", { kind, error });
+      return [];
+    }
+  };
+}
@@ -0,0 +1,748 @@
+/**
+ * OAuth 2.1 authorization server for the HTTP transport.
+ *
+ * Lets remote MCP clients (claude.ai custom connectors, desktop clients)
+ * authenticate the standard way instead of with the shared secret in the URL:
+ *
+ * - discovery: authorization server metadata (RFC 8414) and protected
+ *   resource metadata for /mcp (RFC 9728);
+ * - dynamic client registration (RFC 7591);
+ * - the authorization code flow with PKCE (S256 only). The consent page asks
+ *   for the server's auth token, so only its owner can approve a client;
+ * - scopes: a client may ask for the API token scopes (see tokens.ts) and is
+ *   then limited to their tools;
+ * - short-lived access tokens and rotating refresh tokens;
+ * - revocation by clients (RFC 7009) and by the owner, one grant at a time.
+ *
+ * Tokens and client secrets are stored only as SHA-256 hashes and compared in
+ * constant time. Clients and grants live in memory, or in `stateFile` so
+ * connectors stay authorized across restarts.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  OAuthClientMetadataSchema,
+  type OAuthClientInformationFull,
+  type OAuthMetadata,
+  type OAuthProtectedResourceMetadata
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { z } from "zod";
+import { logger } from "./logger.js";
+import { TOKEN_SCOPES, type TokenScope } from "./tokens.js";
+
+export interface OAuthConfig {
+  /**
+   * Public base URL clients reach the server at (e.g. the tunnel's https
+   * URL). Derived from each request's Host and X-Forwarded-Proto when unset.
+   */
+  publicUrl?: string;
+  /** File clients and grants are saved to; kept in memory when unset. */
+  stateFile?: string;
+  /** Access token lifetime in milliseconds. Default 1 hour. */
+  accessTokenTtlMs?: number;
+  /** Refresh token lifetime in milliseconds. Default 30 days. */
+  refreshTokenTtlMs?: number;
+}
+
+export interface OAuthServerOptions extends OAuthConfig {
+  /**
+   * Checks the owner's secret typed into the consent page or sent to the
+   * grant endpoints; `req` lets the caller count failed attempts per client.
+   */
+  isOwnerSecret: (secret: string, req: IncomingMessage) => boolean;
+}
+
+/** What a valid access token grants. */
+export interface AccessTokenInfo {
+  clientId: string;
+  grantId: string;
+  scope?: string;
+  /**
+   * The API token scopes (see tokens.ts) the grant is limited to. Unset when
+   * the client asked for no scope, which grants all of them.
+   */
+  scopes?: TokenScope[];
+}
+
+/** A registered client; its secret is kept as a hash. */
+interface StoredClient extends Omit<OAuthClientInformationFull, "client_secret"> {
+  client_secret_hash?: string;
+}
+
+/** An approved authorization: one per consent, shared by its rotating refresh tokens. */
+interface Grant {
+  id: string;
+  clientId: string;
+  resource: string;
+  scope?: string;
+  createdAt: number;
+  lastUsedAt: number;
+  refreshTokenHash: string;
+  /**
+   * The refresh token rotated out last. Presenting it again means it was
+   * copied, so the whole grant is revoked.
+   */
+  previousRefreshTokenHash?: string;
+  refreshExpiresAt: number;
+}
+
+interface AccessToken {
+  grantId: string;
+  expiresAt: number;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  resource: string;
+  scope?: string;
+  expiresAt: number;
+}
+
+/** What `stateFile` holds. Token maps are keyed by token hash. */
+interface OAuthState {
+  clients: Record<string, StoredClient>;
+  grants: Record<string, Grant>;
+  accessTokens: Record<string, AccessToken>;
+}
+
+/** The parts of OAuthState the server reads; clients keep their other metadata as is. */
+const OAuthStateSchema = z.object({
+  clients: z.record(z.object({
+    client_id: z.string(),
+    client_id_issued_at: z.number().optional(),
+    client_name: z.string().optional(),
+    client_secret_hash: z.string().optional(),
+    redirect_uris: z.array(z.string()),
+  }).passthrough()),
+  grants: z.record(z.object({
+    id: z.string(),
+    clientId: z.string(),
+    resource: z.string(),
+    scope: z.string().optional(),
+    createdAt: z.number(),
+    lastUsedAt: z.number(),
+    refreshTokenHash: z.string(),
+    previousRefreshTokenHash: z.string().optional(),
+    refreshExpiresAt: z.number(),
+  })),
+  accessTokens: z.record(z.object({
+    grantId: z.string(),
+    expiresAt: z.number(),
+  })),
+});
+
+/** Reads and checks a saved state file; throws naming the file and the problem. */
+function loadState(path: string): OAuthState {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read OAuth state file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const parsed = OAuthStateSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid OAuth state file ${path}: ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  }
+  return parsed.data as OAuthState;
+}
+
+const CODE_TTL_MS = 60_000;
+/** Registered clients kept at most; registration is refused beyond that. */
+const MAX_CLIENTS = 100;
+/** How long a client that never obtained a grant is kept. */
+const UNUSED_CLIENT_TTL_MS = 60 * 60_000;
+const MAX_FORM_BYTES = 64 * 1024;
+const WELL_KNOWN_RESOURCE = "/.well-known/oauth-protected-resource";
+
+/** Thrown by the endpoints; becomes an RFC 6749 error response. */
+class OAuthError extends Error {
+  constructor(readonly error: string, description: string, readonly status = 400) {
+    super(description);
+  }
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/** Compares a presented secret's hash (or PKCE challenge) with a stored one in constant time. */
+function hashesEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * The API token scopes named by a space-separated OAuth `scope`, or null when
+ * it names something else.
+ */
+function parseScope(scope: string): TokenScope[] | null {
+  const names = scope.split(" ").filter(Boolean);
+  const known = names.filter((name): name is TokenScope => (TOKEN_SCOPES as readonly string[]).includes(name));
+  return known.length === names.length ? [...new Set(known)] : null;
+}
+
+/** What the consent page says a client may do with the given scopes. */
+function describeScopes(scopes: readonly TokenScope[]): string {
+  const verbs = scopes.map((scope) => ({ read: "read", write: "change", delete: "delete" })[scope]);
+  return verbs.length > 1 ? `${verbs.slice(0, -1).join(", ")} and ${verbs[verbs.length - 1]}` : verbs[0];
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_FORM_BYTES) {
+        reject(new OAuthError("invalid_request", "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const type = req.headers["content-type"] ?? "";
+  if (!type.startsWith("application/x-www-form-urlencoded")) {
+    throw new OAuthError("invalid_request", "Expected an application/x-www-form-urlencoded body");
+  }
+  return new URLSearchParams(await readBody(req));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json", "cache-control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Redirect URIs must not leak codes over plain HTTP to another machine:
+ * https, http on a loopback address, or a native app's private-use scheme.
+ */
+function isAllowedRedirectUri(uri: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return false;
+  }
+  if (url.hash) return false;
+  if (url.protocol === "https:") return true;
+  if (url.protocol === "http:") return ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  return !["javascript:", "data:", "file:", "vbscript:"].includes(url.protocol);
+}
+
+export class OAuthServer {
+  private readonly state: OAuthState = { clients: {}, grants: {}, accessTokens: {} };
+  private readonly codes = new Map<string, AuthorizationCode>();
+  private readonly accessTokenTtlMs: number;
+  private readonly refreshTokenTtlMs: number;
+
+  constructor(private readonly options: OAuthServerOptions) {
+    this.accessTokenTtlMs = options.accessTokenTtlMs ?? 60 * 60_000;
+    this.refreshTokenTtlMs = options.refreshTokenTtlMs ?? 30 * 24 * 60 * 60_000;
+    if (options.stateFile && existsSync(options.stateFile)) {
+      this.state = loadState(options.stateFile);
+    }
+  }
+
+  /** Base URL of this server as clients see it, without a trailing slash. */
+  baseUrl(req: IncomingMessage): string {
+    if (this.options.publicUrl) return this.options.publicUrl.replace(/\/+$/, "");
+    const forwarded = req.headers["x-forwarded-proto"];
+    const proto = (typeof forwarded === "string" ? forwarded.split(",")[0].trim() : "") || "http";
+    return `${proto}://${req.headers.host ?? "localhost"}`;
+  }
+
+  /** The protected resource (the MCP endpoint) tokens are issued for. */
+  resource(req: IncomingMessage): string {
+    return `${this.baseUrl(req)}/mcp`;
+  }
+
+  /** Value of the WWW-Authenticate header on a 401 from /mcp. */
+  challenge(req: IncomingMessage): string {
+    return `Bearer resource_metadata="${this.baseUrl(req)}${WELL_KNOWN_RESOURCE}/mcp"`;
+  }
+
+  /**
+   * Returns what an access token grants, or null when it is unknown, expired,
+   * revoked, or was issued for another resource.
+   */
+  verifyAccessToken(accessToken: string, req: IncomingMessage): AccessTokenInfo | null {
+    const key = hash(accessToken);
+    const stored = this.state.accessTokens[key];
+    if (!stored) return null;
+    const grant = this.state.grants[stored.grantId];
+    if (!grant || stored.expiresAt <= Date.now()) {
+      delete this.state.accessTokens[key];
+      return null;
+    }
+    if (grant.resource !== this.resource(req)) return null;
+    grant.lastUsedAt = Date.now();
+    return {
+      clientId: grant.clientId,
+      grantId: grant.id,
+      // A grant stored with a scope that names nothing known grants nothing.
+      ...(grant.scope ? { scope: grant.scope, scopes: parseScope(grant.scope) ?? [] } : {}),
+    };
+  }
+
+  /**
+   * Serves the OAuth endpoints. Resolves to false when `url` is not one of
+   * them, leaving the request to the caller.
+   */
+  async handle(req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> {
+    const route = `${req.method} ${url.pathname}`;
+    try {
+      if (route === "GET /.well-known/oauth-authorization-server") {
+        sendJson(res, 200, this.metadata(req));
+      } else if (route === `GET ${WELL_KNOWN_RESOURCE}` || route === `GET ${WELL_KNOWN_RESOURCE}/mcp`) {
+        sendJson(res, 200, this.resourceMetadata(req));
+      } else if (route === "POST /register") {
+        await this.register(req, res);
+      } else if (route === "GET /authorize") {
+        this.showConsent(req, res, url.searchParams);
+      } else if (route === "POST /authorize") {
+        await this.decide(req, res);
+      } else if (route === "POST /token") {
+        await this.token(req, res);
+      } else if (route === "POST /revoke") {
+        await this.revoke(req, res);
+      } else if (url.pathname === "/oauth/grants" || url.pathname.startsWith("/oauth/grants/")) {
+        this.manageGrants(req, res, url);
+      } else {
+        return false;
+      }
+    } catch (error) {
+      if (!(error instanceof OAuthError)) throw error;
+      if (!res.headersSent) {
+        if (error.status === 401) res.setHeader("www-authenticate", "Basic");
+        sendJson(res, error.status, { error: error.error, error_description: error.message });
+      }
+    }
+    return true;
+  }
+
+  // ==========================================================================
+  // Discovery
+  // ==========================================================================
+
+  private metadata(req: IncomingMessage): OAuthMetadata {
+    const base = this.baseUrl(req);
+    return {
+      issuer: base,
+      authorization_endpoint: `${base}/authorize`,
+      token_endpoint: `${base}/token`,
+      registration_endpoint: `${base}/register`,
+      revocation_endpoint: `${base}/revoke`,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      token_endpoint_auth_methods_supported: ["none", "client_secret_post", "client_secret_basic"],
+      revocation_endpoint_auth_methods_supported: ["none", "client_secret_post", "client_secret_basic"],
+      code_challenge_methods_supported: ["S256"],
+      scopes_supported: [...TOKEN_SCOPES],
+    };
+  }
+
+  private resourceMetadata(req: IncomingMessage): OAuthProtectedResourceMetadata {
+    return {
+      resource: this.resource(req),
+      authorization_servers: [this.baseUrl(req)],
+      bearer_methods_supported: ["header"],
+      scopes_supported: [...TOKEN_SCOPES],
+      resource_name: "OmniFocus MCP Server",
+    };
+  }
+
+  // ==========================================================================
+  // Dynamic client registration
+  // ==========================================================================
+
+  /**
+   * Registers a client. Anyone may register, so clients that never obtain a
+   * grant are dropped after a while, at most MAX_CLIENTS are kept, and a new
+   * client is only written to `stateFile` with its first grant.
+   */
+  private async register(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      throw new OAuthError("invalid_client_metadata", "Expected a JSON body");
+    }
+    const parsed = OAuthClientMetadataSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new OAuthError("invalid_client_metadata", parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; "));
+    }
+    const metadata = parsed.data;
+    const badUri = metadata.redirect_uris.find((uri) => !isAllowedRedirectUri(uri));
+    if (metadata.redirect_uris.length === 0 || badUri !== undefined) {
+      throw new OAuthError("invalid_redirect_uri", badUri ? `Redirect URI not allowed: ${badUri}` : "redirect_uris is required");
+    }
+    const authMethod = metadata.token_endpoint_auth_method ?? "client_secret_basic";
+    if (!["none", "client_secret_post", "client_secret_basic"].includes(authMethod)) {
+      throw new OAuthError("invalid_client_metadata", `Unsupported token_endpoint_auth_method: ${authMethod}`);
+    }
+
+    this.prune();
+    if (Object.keys(this.state.clients).length >= MAX_CLIENTS) {
+      throw new OAuthError("temporarily_unavailable", "Too many registered clients; try again later", 503);
+    }
+
+    const clientId = randomBytes(16).toString("hex");
+    const clientSecret = authMethod === "none" ? undefined : randomToken();
+    const client: StoredClient = {
+      ...metadata,
+      token_endpoint_auth_method: authMethod,
+      grant_types: metadata.grant_types ?? ["authorization_code", "refresh_token"],
+      response_types: metadata.response_types ?? ["code"],
+      client_id: clientId,
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      ...(clientSecret ? { client_secret_hash: hash(clientSecret), client_secret_expires_at: 0 } : {}),
+    };
+    this.state.clients[clientId] = client;
+    logger.info("OAuth client registered", { clientId, clientName: client.client_name });
+
+    const { client_secret_hash: _secretHash, ...registered } = client;
+    sendJson(res, 201, { ...registered, ...(clientSecret ? { client_secret: clientSecret } : {}) });
+  }
+
+  // ==========================================================================
+  // Authorization endpoint and consent page
+  // ==========================================================================
+
+  /**
+   * Validates an authorization request. Problems with the client or redirect
+   * URI throw (the user must not be sent to an unverified URI); the rest are
+   * reported to the client through the redirect.
+   */
+  private authorizationRequest(params: URLSearchParams, req: IncomingMessage): {
+    client: StoredClient;
+    redirectUri: string;
+    error?: string;
+  } {
+    const client = this.state.clients[params.get("client_id") ?? ""];
+    if (!client) throw new OAuthError("invalid_client", "Unknown client_id");
+    const requested = params.get("redirect_uri");
+    const redirectUri = requested ?? (client.redirect_uris.length === 1 ? client.redirect_uris[0] : undefined);
+    if (!redirectUri || !client.redirect_uris.includes(redirectUri)) {
+      throw new OAuthError("invalid_request", "redirect_uri does not match a registered redirect URI");
+    }
+    let error: string | undefined;
+    if (params.get("response_type") !== "code") {
+      error = "unsupported_response_type";
+    } else if (!params.get("code_challenge") || params.get("code_challenge_method") !== "S256") {
+      error = "invalid_request";
+    } else if (params.has("resource") && params.get("resource")?.replace(/\/+$/, "") !== this.resource(req)) {
+      error = "invalid_target";
+    } else if (parseScope(params.get("scope") ?? "") === null) {
+      error = "invalid_scope";
+    }
+    return { client, redirectUri, error };
+  }
+
+  private redirect(res: ServerResponse, redirectUri: string, params: Record<string, string | null>): void {
+    const target = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== null) target.searchParams.set(key, value);
+    }
+    res.writeHead(302, { location: target.toString(), "cache-control": "no-store" });
+    res.end();
+  }
+
+  private showConsent(req: IncomingMessage, res: ServerResponse, params: URLSearchParams, message?: string): void {
+    const { client, redirectUri, error } = this.authorizationRequest(params, req);
+    if (error) {
+      this.redirect(res, redirectUri, { error, state: params.get("state") });
+      return;
+    }
+    const fields = ["client_id", "redirect_uri", "response_type", "code_challenge", "code_challenge_method", "state", "scope", "resource"]
+      .filter((name) => params.has(name))
+      .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? "")}">`)
+      .join("\n      ");
+    const name = escapeHtml(client.client_name ?? client.client_id);
+    const scopes = parseScope(params.get("scope") ?? "") ?? [];
+    const html = `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Authorize ${name}</title>
+  <style>
+    body { font: 16px -apple-system, system-ui, sans-serif; max-width: 28rem; margin: 3rem auto; padding: 0 1rem; }
+    code { word-break: break-all; }
+    input[type=password] { width: 100%; padding: .5rem; margin: .5rem 0 1rem; box-sizing: border-box; }
+    button { padding: .5rem 1rem; margin-right: .5rem; }
+    .error { color: #b00020; }
+  </style>
+</head>
+<body>
+  <h1>Connect to OmniFocus?</h1>
+  <p><strong>${name}</strong> wants to ${describeScopes(scopes.length > 0 ? scopes : TOKEN_SCOPES)} your OmniFocus tasks, projects, folders and tags.</p>
+  <p>After approval you will be sent to <code>${escapeHtml(redirectUri)}</code>.</p>
+  ${message ? `<p class="error">${escapeHtml(message)}</p>` : ""}
+  <form method="post" action="/authorize">
+      ${fields}
+    <label>Server auth token (<code>MCP_AUTH_TOKEN</code>)
+      <input type="password" name="owner_token" autocomplete="current-password" required>
+    </label>
+    <button type="submit" name="decision" value="approve">Approve</button>
+    <button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+  </form>
+</body>
+</html>`;
+    res.writeHead(message ? 401 : 200, {
+      "content-type": "text/html; charset=utf-8",
+      "cache-control": "no-store",
+      "x-frame-options": "DENY",
+      "content-security-policy": "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors 'none'",
+    });
+    res.end(html);
+  }
+
+  private async decide(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const form = await readForm(req);
+    const { client, redirectUri, error } = this.authorizationRequest(form, req);
+    const state = form.get("state");
+    if (error) {
+      this.redirect(res, redirectUri, { error, state });
+      return;
+    }
+    if (form.get("decision") !== "approve") {
+      this.redirect(res, redirectUri, { error: "access_denied", state });
+      return;
+    }
+    if (!this.options.isOwnerSecret(form.get("owner_token") ?? "", req)) {
+      this.showConsent(req, res, form, "That is not this server's auth token.");
+      return;
+    }
+
+    const code = randomToken();
+    this.codes.set(hash(code), {
+      clientId: client.client_id,
+      redirectUri,
+      codeChallenge: form.get("code_challenge") as string,
+      resource: this.resource(req),
+      ...(form.get("scope") ? { scope: form.get("scope") as string } : {}),
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+    logger.info("OAuth client authorized", { clientId: client.client_id, clientName: client.client_name });
+    this.redirect(res, redirectUri, { code, state });
+  }
+
+  // ==========================================================================
+  // Token and revocation endpoints
+  // ==========================================================================
+
+  /** Authenticates the client of a token or revocation request. */
+  private authenticateClient(req: IncomingMessage, form: URLSearchParams): StoredClient {
+    let clientId = form.get("client_id");
+    let secret = form.get("client_secret");
+    const header = req.headers.authorization;
+    if (typeof header === "string" && header.startsWith("Basic ")) {
+      const decoded = Buffer.from(header.slice(6), "base64").toString("utf8");
+      const colon = decoded.indexOf(":");
+      try {
+        clientId = decodeURIComponent(decoded.slice(0, colon));
+        secret = decodeURIComponent(decoded.slice(colon + 1));
+      } catch {
+        throw new OAuthError("invalid_client", "Malformed Basic credentials", 401);
+      }
+    }
+    const client = this.state.clients[clientId ?? ""];
+    if (!client) throw new OAuthError("invalid_client", "Unknown client", 401);
+    if (client.client_secret_hash && (!secret || !hashesEqual(hash(secret), client.client_secret_hash))) {
+      throw new OAuthError("invalid_client", "Client authentication failed", 401);
+    }
+    return client;
+  }
+
+  private issueTokens(res: ServerResponse, grant: Grant): void {
+    const accessToken = randomToken();
+    const refreshToken = randomToken();
+    const now = Date.now();
+    this.state.accessTokens[hash(accessToken)] = { grantId: grant.id, expiresAt: now + this.accessTokenTtlMs };
+    if (grant.refreshTokenHash) grant.previousRefreshTokenHash = grant.refreshTokenHash;
+    grant.refreshTokenHash = hash(refreshToken);
+    grant.refreshExpiresAt = now + this.refreshTokenTtlMs;
+    grant.lastUsedAt = now;
+    this.state.grants[grant.id] = grant;
+    this.prune();
+    this.save();
+    sendJson(res, 200, {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: Math.floor(this.accessTokenTtlMs / 1000),
+      refresh_token: refreshToken,
+      ...(grant.scope ? { scope: grant.scope } : {}),
+    });
+  }
+
+  private async token(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const form = await readForm(req);
+    const client = this.authenticateClient(req, form);
+    const grantType = form.get("grant_type");
+
+    if (grantType === "authorization_code") {
+      const key = hash(form.get("code") ?? "");
+      const code = this.codes.get(key);
+      // Codes are single-use, whatever happens next.
+      this.codes.delete(key);
+      if (!code || code.expiresAt <= Date.now() || code.clientId !== client.client_id) {
+        throw new OAuthError("invalid_grant", "Invalid or expired authorization code");
+      }
+      if (form.has("redirect_uri") && form.get("redirect_uri") !== code.redirectUri) {
+        throw new OAuthError("invalid_grant", "redirect_uri does not match the authorization request");
+      }
+      const verifier = form.get("code_verifier") ?? "";
+      if (!hashesEqual(createHash("sha256").update(verifier).digest("base64url"), code.codeChallenge)) {
+        throw new OAuthError("invalid_grant", "PKCE verification failed");
+      }
+      const now = Date.now();
+      this.issueTokens(res, {
+        id: randomBytes(8).toString("hex"),
+        clientId: client.client_id,
+        resource: code.resource,
+        ...(code.scope ? { scope: code.scope } : {}),
+        createdAt: now,
+        lastUsedAt: now,
+        refreshTokenHash: "",
+        refreshExpiresAt: 0,
+      });
+      return;
+    }
+
+    if (grantType === "refresh_token") {
+      const refreshHash = hash(form.get("refresh_token") ?? "");
+      // A rotated-out token coming back means two parties hold the grant's
+      // tokens; neither can be trusted, so the grant ends for both.
+      const reused = Object.values(this.state.grants)
+        .find((g) => g.previousRefreshTokenHash && hashesEqual(g.previousRefreshTokenHash, refreshHash));
+      if (reused) {
+        this.revokeGrant(reused.id);
+        this.save();
+        logger.warn("OAuth refresh token reused; grant revoked", { grantId: reused.id, clientId: reused.clientId });
+        throw new OAuthError("invalid_grant", "Invalid or expired refresh token");
+      }
+      const grant = Object.values(this.state.grants).find((g) => hashesEqual(g.refreshTokenHash, refreshHash));
+      if (!grant || grant.clientId !== client.client_id || grant.refreshExpiresAt <= Date.now()) {
+        throw new OAuthError("invalid_grant", "Invalid or expired refresh token");
+      }
+      // Rotation: the presented refresh token stops working once this succeeds.
+      this.issueTokens(res, grant);
+      return;
+    }
+
+    throw new OAuthError("unsupported_grant_type", `Unsupported grant_type: ${grantType ?? "(none)"}`);
+  }
+
+  private async revoke(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const form = await readForm(req);
+    const client = this.authenticateClient(req, form);
+    const key = hash(form.get("token") ?? "");
+    // RFC 7009: unknown tokens and other clients' tokens are not an error.
+    const accessToken = this.state.accessTokens[key];
+    if (accessToken && this.state.grants[accessToken.grantId]?.clientId === client.client_id) {
+      delete this.state.accessTokens[key];
+    }
+    const grant = Object.values(this.state.grants).find((g) => hashesEqual(g.refreshTokenHash, key));
+    if (grant && grant.clientId === client.client_id) {
+      this.revokeGrant(grant.id);
+      logger.info("OAuth grant revoked by its client", { grantId: grant.id });
+    }
+    this.save();
+    res.writeHead(200, { "cache-control": "no-store" });
+    res.end();
+  }
+
+  // ==========================================================================
+  // Owner endpoints: list and revoke grants
+  // ==========================================================================
+
+  private manageGrants(req: IncomingMessage, res: ServerResponse, url: URL): void {
+    const header = req.headers.authorization;
+    if (typeof header !== "string" || !header.startsWith("Bearer ") || !this.options.isOwnerSecret(header.slice(7), req)) {
+      res.setHeader("www-authenticate", "Bearer");
+      sendJson(res, 401, { error: "invalid_token", error_description: "Requires the server auth token" });
+      return;
+    }
+    const grantId = url.pathname.slice("/oauth/grants/".length);
+    if (req.method === "GET" && url.pathname === "/oauth/grants") {
+      this.prune();
+      sendJson(res, 200, {
+        grants: Object.values(this.state.grants).map((grant) => ({
+          id: grant.id,
+          clientId: grant.clientId,
+          clientName: this.state.clients[grant.clientId]?.client_name ?? null,
+          scope: grant.scope ?? null,
+          createdAt: new Date(grant.createdAt).toISOString(),
+          lastUsedAt: new Date(grant.lastUsedAt).toISOString(),
+        })),
+      });
+    } else if (req.method === "DELETE" && grantId) {
+      if (!this.state.grants[grantId]) {
+        sendJson(res, 404, { error: "not_found", error_description: `No grant ${grantId}` });
+        return;
+      }
+      this.revokeGrant(grantId);
+      this.save();
+      logger.info("OAuth grant revoked by the owner", { grantId });
+      res.writeHead(204);
+      res.end();
+    } else {
+      sendJson(res, 405, { error: "invalid_request", error_description: "Method not allowed" });
+    }
+  }
+
+  /** Revokes a grant's refresh token and every access token issued under it. */
+  private revokeGrant(grantId: string): void {
+    delete this.state.grants[grantId];
+    for (const [key, accessToken] of Object.entries(this.state.accessTokens)) {
+      if (accessToken.grantId === grantId) delete this.state.accessTokens[key];
+    }
+  }
+
+  // ==========================================================================
+  // Storage
+  // ==========================================================================
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, accessToken] of Object.entries(this.state.accessTokens)) {
+      if (accessToken.expiresAt <= now) delete this.state.accessTokens[key];
+    }
+    for (const [id, grant] of Object.entries(this.state.grants)) {
+      if (grant.refreshExpiresAt <= now) this.revokeGrant(id);
+    }
+    for (const [key, code] of this.codes) {
+      if (code.expiresAt <= now) this.codes.delete(key);
+    }
+    const inUse = new Set([...Object.values(this.state.grants), ...this.codes.values()].map((used) => used.clientId));
+    for (const [id, client] of Object.entries(this.state.clients)) {
+      const registeredAt = (client.client_id_issued_at ?? 0) * 1000;
+      if (!inUse.has(id) && now - registeredAt >= UNUSED_CLIENT_TTL_MS) delete this.state.clients[id];
+    }
+  }
+
+  private save(): void {
+    if (!this.options.stateFile) return;
+    writeFileSync(this.options.stateFile, JSON.stringify(this.state, null, 2) + "\n", { mode: 0o600 });
+  }
+}
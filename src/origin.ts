@@ -0,0 +1,81 @@
+/**
+ * Host and Origin validation for the HTTP transport.
+ *
+ * DNS rebinding lets a web page on an attacker's domain reach a server bound
+ * to localhost: the domain is re-pointed at 127.0.0.1, and the browser sends
+ * the page's requests there with the attacker's name in `Host`. Refusing
+ * unknown `Host` values stops that. Cross-site requests from pages the user
+ * merely visits carry an `Origin` header, and are refused unless that origin
+ * was approved; approved origins get CORS headers so web-based MCP clients
+ * can call the server.
+ */
+
+/** Host names a server on this machine is always reached by. */
+export const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+const CORS_ALLOW_HEADERS = "authorization, content-type, accept, mcp-session-id, mcp-protocol-version, last-event-id";
+const CORS_EXPOSE_HEADERS = "mcp-session-id, www-authenticate, retry-after";
+
+/**
+ * Whether a `Host` header names this server. Entries of `allowed` are host
+ * names, which match any port, or `host:port`; `*` allows every host.
+ */
+export function isAllowedHost(host: string | undefined, allowed: readonly string[]): boolean {
+  if (allowed.includes("*")) return true;
+  if (!host) return false;
+  let url: URL;
+  try {
+    url = new URL(`http://${host}`);
+  } catch {
+    return false;
+  }
+  const hostname = url.hostname.toLowerCase();
+  return allowed.some((entry) => {
+    const lower = entry.toLowerCase();
+    return lower === hostname || lower === url.host.toLowerCase();
+  });
+}
+
+/**
+ * How to treat a request's `Origin`: "none" when there is none (not a
+ * browser, or a top-level navigation), "same" when it is this server's own
+ * page (the OAuth consent form), "cors" for an approved web client, and
+ * "forbidden" for any other site.
+ */
+export function classifyOrigin(
+  origin: string | undefined,
+  host: string | undefined,
+  allowedOrigins: readonly string[]
+): "none" | "same" | "cors" | "forbidden" {
+  if (origin === undefined) return "none";
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return "forbidden";
+  }
+  if (host && url.host.toLowerCase() === host.toLowerCase()) return "same";
+  if (allowedOrigins.includes("*") || allowedOrigins.some((allowed) => allowed.replace(/\/+$/, "").toLowerCase() === url.origin)) {
+    return "cors";
+  }
+  return "forbidden";
+}
+
+/** CORS headers for a response to an approved `origin`. */
+export function corsHeaders(origin: string): Record<string, string> {
+  return {
+    "access-control-allow-origin": origin,
+    "access-control-expose-headers": CORS_EXPOSE_HEADERS,
+    vary: "Origin"
+  };
+}
+
+/** Extra headers answering a CORS preflight from an approved `origin`. */
+export function corsPreflightHeaders(origin: string): Record<string, string> {
+  return {
+    ...corsHeaders(origin),
+    "access-control-allow-methods": "GET, POST, DELETE, OPTIONS",
+    "access-control-allow-headers": CORS_ALLOW_HEADERS,
+    "access-control-max-age": "600"
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Zod output schemas for all MCP tools.
+ *
+ * Each tool declares one as its outputSchema and returns a matching object as
+ * structuredContent, alongside the text block it has always returned. The data
+ * schemas mirror the interfaces in types.ts, and fail to compile when the two
+ * drift apart.
+ */
+
+import { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { TaskData, ProjectData, FolderData, TagData, PerspectiveData } from "./types.js";
+
+// ============================================================================
+// Data (types.ts)
+// ============================================================================
+
+export const TaskDataSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  note: z.string(),
+  completed: z.boolean(),
+  dropped: z.boolean(),
+  flagged: z.boolean(),
+  dueDate: z.string().nullable(),
+  deferDate: z.string().nullable(),
+  plannedDate: z.string().nullable(),
+  estimatedMinutes: z.number().nullable(),
+  tags: z.array(z.string()),
+  projectName: z.string().nullable(),
+  assignedProject: z.string().nullable(),
+  inInbox: z.boolean(),
+  repetitionRule: z.string().nullable(),
+  repetitionMethod: z.string().nullable(),
+  parentTaskId: z.string().nullable(),
+  parentTaskName: z.string().nullable(),
+  hasChildren: z.boolean(),
+  childTaskCount: z.number()
+}).strict();
+
+export const ProjectDataSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  note: z.string(),
+  status: z.string(),
+  completed: z.boolean(),
+  flagged: z.boolean(),
+  dueDate: z.string().nullable(),
+  deferDate: z.string().nullable(),
+  folderName: z.string().nullable(),
+  taskCount: z.number(),
+  sequential: z.boolean(),
+  nextReviewDate: z.string().nullable()
+}).strict();
+
+export const FolderDataSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.string(),
+  projectCount: z.number(),
+  folderCount: z.number(),
+  parentName: z.string().nullable()
+}).strict();
+
+export const TagDataSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.string(),
+  taskCount: z.number(),
+  allowsNextAction: z.boolean(),
+  parentName: z.string().nullable()
+}).strict();
+
+export const PerspectiveDataSchema = z.object({
+  id: z.string().nullable(),
+  name: z.string()
+}).strict();
+
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+// Does not compile when a schema above and its interface in types.ts differ.
+const dataSchemasMatchTypes: [
+  Same<z.output<typeof TaskDataSchema>, TaskData>,
+  Same<z.output<typeof ProjectDataSchema>, ProjectData>,
+  Same<z.output<typeof FolderDataSchema>, FolderData>,
+  Same<z.output<typeof TagDataSchema>, TagData>,
+  Same<z.output<typeof PerspectiveDataSchema>, PerspectiveData>
+] = [true, true, true, true, true];
+void dataSchemasMatchTypes;
+
+// ============================================================================
+// Tasks
+// ============================================================================
+
+export const TaskOutputSchema = TaskDataSchema;
+
+export const TaskListOutputSchema = z.object({
+  count: z.number(),
+  tasks: z.array(TaskDataSchema)
+}).strict();
+
+export const DatedTaskListOutputSchema = z.object({
+  count: z.number(),
+  daysAhead: z.number(),
+  tasks: z.array(TaskDataSchema)
+}).strict();
+
+export const BatchTaskOutputSchema = z.object({
+  totalRequested: z.number(),
+  successCount: z.number(),
+  failureCount: z.number(),
+  tasks: z.array(TaskDataSchema),
+  failures: z.array(z.object({
+    taskId: z.string(),
+    code: z.string(),
+    error: z.string()
+  }).strict())
+}).strict();
+
+/** The delete tools: what was deleted. */
+export const DeletedOutputSchema = z.object({
+  deleted: z.literal(true),
+  name: z.string()
+}).strict();
+
+// ============================================================================
+// Projects, folders, tags and perspectives
+// ============================================================================
+
+export const ProjectOutputSchema = ProjectDataSchema;
+
+export const ProjectListOutputSchema = z.object({
+  count: z.number(),
+  projects: z.array(ProjectDataSchema)
+}).strict();
+
+export const ReviewListOutputSchema = z.object({
+  count: z.number(),
+  daysAhead: z.number(),
+  projects: z.array(ProjectDataSchema)
+}).strict();
+
+export const BatchReviewOutputSchema = z.object({
+  totalRequested: z.number(),
+  successCount: z.number(),
+  failureCount: z.number(),
+  reviewedProjects: z.array(ProjectDataSchema),
+  failures: z.array(z.object({
+    projectId: z.string(),
+    code: z.string(),
+    error: z.string()
+  }).strict())
+}).strict();
+
+export const FolderOutputSchema = FolderDataSchema;
+
+export const FolderListOutputSchema = z.object({
+  count: z.number(),
+  folders: z.array(FolderDataSchema)
+}).strict();
+
+export const TagListOutputSchema = z.object({
+  count: z.number(),
+  tags: z.array(TagDataSchema)
+}).strict();
+
+export const PerspectiveListOutputSchema = z.object({
+  count: z.number(),
+  perspectives: z.array(PerspectiveDataSchema)
+}).strict();
+
+export const PerspectiveTasksOutputSchema = z.object({
+  perspectiveName: z.string(),
+  count: z.number(),
+  tasks: z.array(TaskDataSchema)
+}).strict();
+
+// ============================================================================
+// Search
+// ============================================================================
+
+export const SearchOutputSchema = z.object({
+  query: z.string(),
+  totalCount: z.number(),
+  results: z.object({
+    tasks: z.array(TaskDataSchema).optional(),
+    projects: z.array(ProjectDataSchema).optional(),
+    folders: z.array(FolderDataSchema).optional(),
+    tags: z.array(TagDataSchema).optional()
+  }).strict()
+}).strict();
+
+export const SuggestNamesOutputSchema = z.object({
+  query: z.string(),
+  count: z.number(),
+  suggestions: z.array(z.object({
+    kind: z.enum(["project", "tag", "folder", "perspective"]),
+    name: z.string(),
+    id: z.string().nullable(),
+    match: z.enum(["exact", "prefix", "word", "substring", "fuzzy"])
+  }).strict())
+}).strict();
+
+// ============================================================================
+// Diagnostics and journal
+// ============================================================================
+
+export const MetricsOutputSchema = z.object({
+  metrics: z.array(z.object({
+    name: z.string(),
+    help: z.string(),
+    type: z.enum(["counter", "gauge", "histogram"]),
+    samples: z.array(z.object({
+      name: z.string(),
+      labels: z.record(z.string()),
+      value: z.number()
+    }).strict())
+  }).strict())
+}).strict();
+
+const FieldChangesSchema = z.record(z.object({ before: z.unknown(), after: z.unknown() }).strict());
+
+/** A journal entry as describeEntry (journal.ts) reports it. */
+const ChangeEntrySchema = z.object({
+  id: z.string(),
+  time: z.string(),
+  tool: z.string(),
+  principal: z.string().optional(),
+  undoes: z.string().optional(),
+  undoneBy: z.string().optional(),
+  undoable: z.boolean(),
+  changes: z.array(z.object({
+    kind: z.enum(["task", "project", "folder"]),
+    id: z.string(),
+    name: z.string(),
+    action: z.enum(["created", "updated", "deleted"]),
+    fields: FieldChangesSchema.optional()
+  }).strict())
+}).strict();
+
+export const RecentChangesOutputSchema = z.object({
+  count: z.number(),
+  changes: z.array(ChangeEntrySchema)
+}).strict();
+
+export const UndoOutputSchema = ChangeEntrySchema.extend({
+  notes: z.array(z.string())
+}).strict();
+
+// ============================================================================
+// Dry runs (dryrun.ts)
+// ============================================================================
+
+export const DryRunOutputSchema = z.object({
+  dryRun: z.literal(true),
+  tool: z.string(),
+  changes: z.array(z.object({
+    kind: z.enum(["task", "project", "folder"]),
+    action: z.enum(["create", "update", "delete"]),
+    id: z.string().nullable(),
+    name: z.string(),
+    values: z.record(z.unknown()).optional(),
+    fields: FieldChangesSchema.optional()
+  }).strict()),
+  failures: z.array(z.record(z.unknown())).optional(),
+  notes: z.array(z.string()).optional()
+}).strict();
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Tool result for a success: `output` as structuredContent, and `text` for
+ * clients that read the content blocks.
+ */
+export function toolResult(text: string, output: object): CallToolResult {
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: output as Record<string, unknown>
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * MCP prompts: GTD workflows a client can start from a menu.
+ *
+ * Each prompt is a single user message with instructions for the workflow and
+ * the OmniFocus data it starts from, read the way the matching tools read it
+ * (omnifocus_get_projects_for_review, omnifocus_list_inbox,
+ * omnifocus_get_due_tasks). When OmniFocus cannot be read the message says so
+ * in place of the data, so the workflow can still go ahead through the tools.
+ * Folder arguments complete to folder names (names.ts).
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { ErrorCode, McpError, type GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+import { completeNames } from "./names.js";
+import { listInboxTasks, getDueTasks } from "./tools/tasks.js";
+import { getProjectsForReview } from "./tools/reviews.js";
+import {
+  WeeklyReviewPromptArgs,
+  ProcessInboxPromptArgs,
+  PlanMyDayPromptArgs,
+  ProjectKickoffPromptArgs
+} from "./schemas.js";
+
+// Marking a schema completable changes it in place, so it is done once here
+// rather than for every server.
+const WEEKLY_REVIEW_ARGS = {
+  ...WeeklyReviewPromptArgs,
+  folder: completable(WeeklyReviewPromptArgs.folder, completeNames("folder"))
+};
+
+const PROJECT_KICKOFF_ARGS = {
+  ...ProjectKickoffPromptArgs,
+  folder: completable(ProjectKickoffPromptArgs.folder, completeNames("folder"))
+};
+
+/** How far ahead plan_my_day can plan, in days. */
+const MAX_PLAN_DAYS = 30;
+
+/** Items of each kind embedded in a prompt. */
+const DATA_LIMIT = 100;
+
+/**
+ * A data section: `title`, then what `load` returns as JSON, or a note that
+ * it could not be read.
+ */
+async function section(title: string, load: () => Promise<unknown>): Promise<string> {
+  try {
+    return `## ${title}\n\n${JSON.stringify(await load(), null, 2)}`;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn("Could not read prompt data", { section: title, error });
+    return `## ${title}\n\nCould not be read from OmniFocus (${message}). Use the tools to look it up.`;
+  }
+}
+
+function message(...parts: string[]): GetPromptResult {
+  return {
+    messages: [{ role: "user", content: { type: "text", text: parts.join("\n\n") } }]
+  };
+}
+
+/** `date` in local time, as YYYY-MM-DD. */
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Days from today to `date` (YYYY-MM-DD, local time). Rejects dates that do
+ * not exist, are in the past or are more than MAX_PLAN_DAYS away.
+ */
+function daysUntil(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(year, month - 1, day);
+  if (localDate(target) !== date) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid date: ${date}`);
+  }
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const days = Math.round((target.getTime() - today.getTime()) / 86_400_000);
+  if (days < 0 || days > MAX_PLAN_DAYS) {
+    throw new McpError(ErrorCode.InvalidParams, `Date must be between today and ${MAX_PLAN_DAYS} days from now: ${date}`);
+  }
+  return days;
+}
+
+const ENERGY_GUIDANCE: Record<"low" | "medium" | "high", string> = {
+  low: "My energy is low: favour short, routine tasks (small estimates, errands, admin) and keep the list short.",
+  medium: "My energy is medium: mix one or two substantial tasks with routine ones.",
+  high: "My energy is high: put the hardest, most important work first, ideally in one uninterrupted block."
+};
+
+/** Registers the GTD workflow prompts on `server`. */
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "weekly_review",
+    {
+      title: "Weekly Review",
+      description: "Walk through a GTD weekly review: get the inbox to zero, review projects that are due for review, and look at the week ahead.",
+      argsSchema: WEEKLY_REVIEW_ARGS
+    },
+    async ({ folder }, { signal }) => {
+      const inFolder = folder?.toLowerCase();
+      return message(
+        `Guide me through my weekly review${folder ? ` of the projects in the "${folder}" folder` : ""}, one step at a time:`,
+        [
+          "1. Get clear: go through the inbox below and help me clarify each item (omnifocus_update_task, omnifocus_complete_task, omnifocus_delete_task).",
+          "2. Get current: for each project due for review, check it has a next action and still matters. Once I confirm a project is reviewed, call omnifocus_mark_project_reviewed (or omnifocus_batch_mark_reviewed for several).",
+          "3. Get creative: with the week's due tasks in mind, ask me what is missing and capture it with omnifocus_create_task."
+        ].join("\n"),
+        await section("Inbox", () => listInboxTasks({ includeCompleted: false, limit: DATA_LIMIT, tagMatchMode: "all" }, signal)),
+        await section("Projects due for review in the next 7 days", async () => {
+          const projects = await getProjectsForReview({ daysAhead: 7, status: "active", limit: DATA_LIMIT }, signal);
+          return inFolder ? projects.filter((p) => p.folderName?.toLowerCase() === inFolder) : projects;
+        }),
+        await section("Tasks due in the next 7 days (and overdue)", () =>
+          getDueTasks({ daysAhead: 7, includeOverdue: true, limit: DATA_LIMIT, tagMatchMode: "all" }, signal))
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "process_inbox",
+    {
+      title: "Process Inbox",
+      description: "Clarify and organize inbox items one at a time, GTD style.",
+      argsSchema: ProcessInboxPromptArgs
+    },
+    async ({ limit }, { signal }) => message(
+      "Help me process my OmniFocus inbox, one item at a time, in order. For each item ask: is it actionable?",
+      [
+        "- Not actionable: delete it (omnifocus_delete_task), or keep it as reference in a note.",
+        "- Takes under two minutes: tell me to do it now, then complete it (omnifocus_complete_task).",
+        "- Someone else's: tag it as waiting and note who has it (omnifocus_update_task).",
+        "- Otherwise: rename it to start with a verb, and move it to a project with tags, dates and an estimate (omnifocus_update_task). If it needs several steps, suggest a project (omnifocus_create_project).",
+        "Confirm each change with me before making it; preview larger ones with dryRun: true."
+      ].join("\n"),
+      await section("Inbox", () =>
+        listInboxTasks({ includeCompleted: false, limit: limit ? Number(limit) : 25, tagMatchMode: "all" }, signal))
+    )
+  );
+
+  server.registerPrompt(
+    "plan_my_day",
+    {
+      title: "Plan My Day",
+      description: "Pick a realistic list of tasks for a day from what is due and overdue, matched to your energy level.",
+      argsSchema: PlanMyDayPromptArgs
+    },
+    async ({ date = localDate(new Date()), energy }, { signal }) => {
+      const daysAhead = daysUntil(date);
+      return message(
+        `Help me plan ${daysAhead === 0 ? "today" : date}. From the tasks below, suggest a short, realistic list in the order to do them, with overdue and due items first unless they can wait. Use estimates where tasks have them and say when the list will not fit in a day.`,
+        ...(energy ? [ENERGY_GUIDANCE[energy]] : []),
+        "Once I agree, flag the chosen tasks or set their planned date (omnifocus_update_task).",
+        await section(`Tasks due by ${date} (and overdue)`, () =>
+          getDueTasks({ daysAhead, includeOverdue: true, limit: DATA_LIMIT, tagMatchMode: "all" }, signal)),
+        await section("Inbox count", async () =>
+          (await listInboxTasks({ includeCompleted: false, limit: DATA_LIMIT, tagMatchMode: "all" }, signal)).length)
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "project_kickoff",
+    {
+      title: "Project Kickoff",
+      description: "Plan a new project: define the outcome, brainstorm and order the next actions, then create it in OmniFocus.",
+      argsSchema: PROJECT_KICKOFF_ARGS
+    },
+    async ({ name, outcome, folder }, { signal }) => message(
+      `Help me kick off a new project, "${name}"${folder ? ` in the "${folder}" folder` : ""}.`,
+      [
+        outcome ? `1. The outcome I want: ${outcome}. Help me sharpen it into one sentence describing done.` : "1. Ask me what done looks like and write it as one sentence.",
+        "2. Brainstorm the steps with me, then order them and mark the very next action.",
+        "3. Check the deadlines below so the new work fits around what is already due.",
+        `4. Create the project with omnifocus_create_project${folder ? ` (folderName "${folder}")` : ""}, the outcome as its note, then its tasks with omnifocus_create_task. Preview with dryRun: true and create only once I confirm.`
+      ].join("\n"),
+      await section("Tasks due in the next 14 days (and overdue)", () =>
+        getDueTasks({ daysAhead: 14, includeOverdue: true, limit: DATA_LIMIT, tagMatchMode: "all" }, signal))
+    )
+  );
+}
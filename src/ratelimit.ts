@@ -0,0 +1,150 @@
+/**
+ * Rate limiting and failed-authentication lockout for the HTTP transport.
+ *
+ * Both are keyed by strings (a client IP, a token's principal) and live in
+ * memory: they protect OmniFocus from a leaked token or a guessing client
+ * hammering the endpoint, not from a distributed attack, which the tunnel in
+ * front of the server is better placed to stop.
+ */
+
+export interface RateLimitConfig {
+  /** Requests per minute from one client IP; 0 disables the limit. Default 300. */
+  ipPerMinute?: number;
+  /** Requests per minute with one token (or OAuth grant); 0 disables the limit. Default 120. */
+  tokenPerMinute?: number;
+  /** OAuth client registrations per minute from one client IP; 0 disables the limit. Default 10. */
+  registerPerMinute?: number;
+  /** Failed authentication attempts from one IP before it is locked out; 0 disables lockout. Default 10. */
+  maxAuthFailures?: number;
+  /** How long a locked out IP is refused, in milliseconds. Default 15 minutes. */
+  authLockoutMs?: number;
+  /**
+   * Addresses of reverse proxies (e.g. `cloudflared` on this Mac, so
+   * `127.0.0.1`, or `unix` for a proxy on the Unix socket) whose
+   * `CF-Connecting-IP` header names the real client. The header is ignored
+   * on connections from anywhere else.
+   */
+  trustedProxies?: string[];
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** Buckets kept before full ones (clients that went quiet) are dropped. */
+const MAX_IDLE_BUCKETS = 1000;
+
+/**
+ * Token buckets holding up to `perMinute` requests each and refilling at
+ * `perMinute` per minute, so a client can spend a minute's allowance at once
+ * but not more.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(readonly perMinute: number) {}
+
+  /**
+   * Takes a request from `key`'s bucket. Returns 0 when the request may go
+   * ahead, otherwise the milliseconds until it could.
+   */
+  take(key: string, now = Date.now()): number {
+    if (this.perMinute <= 0) return 0;
+    const bucket = this.refill(key, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - bucket.tokens) * 60_000) / this.perMinute);
+  }
+
+  private refill(key: string, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_IDLE_BUCKETS) this.prune(now);
+      bucket = { tokens: this.perMinute, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(this.perMinute, bucket.tokens + (elapsed * this.perMinute) / 60_000);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + ((now - bucket.updatedAt) * this.perMinute) / 60_000 >= this.perMinute) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Locks a key out for `lockoutMs` after `maxFailures` failed authentication
+ * attempts, each within `lockoutMs` of the one before. A success resets the
+ * count.
+ */
+export class AuthLockout {
+  private readonly failures = new Map<string, { count: number; lastFailureAt: number; lockedUntil: number }>();
+
+  constructor(readonly maxFailures: number, readonly lockoutMs: number) {}
+
+  /** Milliseconds `key` remains locked out, or 0. */
+  lockedFor(key: string, now = Date.now()): number {
+    const entry = this.failures.get(key);
+    if (!entry || entry.lockedUntil <= now) return 0;
+    return entry.lockedUntil - now;
+  }
+
+  /** Records a failed attempt; returns true when it locked `key` out. */
+  fail(key: string, now = Date.now()): boolean {
+    if (this.maxFailures <= 0) return false;
+    let entry = this.failures.get(key);
+    if (!entry || this.isStale(entry, now)) {
+      if (!entry && this.failures.size >= MAX_IDLE_BUCKETS) this.prune(now);
+      entry = { count: 0, lastFailureAt: now, lockedUntil: 0 };
+      this.failures.set(key, entry);
+    }
+    entry.count++;
+    entry.lastFailureAt = now;
+    if (entry.count < this.maxFailures) return false;
+    entry.lockedUntil = now + this.lockoutMs;
+    entry.count = 0;
+    return true;
+  }
+
+  succeed(key: string): void {
+    this.failures.delete(key);
+  }
+
+  private isStale(entry: { lastFailureAt: number; lockedUntil: number }, now: number): boolean {
+    return entry.lockedUntil <= now && now - Math.max(entry.lastFailureAt, entry.lockedUntil) >= this.lockoutMs;
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.failures) {
+      if (this.isStale(entry, now)) this.failures.delete(key);
+    }
+  }
+}
+
+/**
+ * The client's IP: the socket's peer address, or `CF-Connecting-IP` when the
+ * peer is a trusted proxy. Connections over a Unix socket have no address and
+ * count as `unix`.
+ */
+export function clientIp(
+  remoteAddress: string | undefined,
+  headers: Record<string, string | string[] | undefined>,
+  trustedProxies: readonly string[]
+): string {
+  const peer = (remoteAddress ?? "unix").replace(/^::ffff:/, "");
+  const forwarded = headers["cf-connecting-ip"];
+  if (typeof forwarded === "string" && forwarded.trim() !== "" && trustedProxies.includes(peer)) {
+    return forwarded.trim();
+  }
+  return peer;
+}
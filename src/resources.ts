@@ -0,0 +1,304 @@
+/**
+ * MCP resources: OmniFocus objects a client can attach as context without a
+ * tool call.
+ *
+ * Templates read one task, project, folder or tag; fixed resources read the
+ * inbox and today's forecast. Every resource is JSON built from the same
+ * mappers as the tools. resources/list pages through the fixed resources and
+ * every project, folder and tag (tasks are too many to list; they are read
+ * through the template). The tag template's name completes to tag names
+ * (names.ts).
+ */
+
+import { ResourceTemplate, type CompleteResourceTemplateCallback, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, ListResourcesRequestSchema, McpError, type ReadResourceResult, type Resource } from "@modelcontextprotocol/sdk/types.js";
+import { UriTemplate, type Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { executeAndParseJSON } from "./executor.js";
+import { getSnapshot } from "./cache.js";
+import { OmniFocusError } from "./errors.js";
+import { logger, withLogContext } from "./logger.js";
+import { TASK_MAPPER, PROJECT_MAPPER, FOLDER_MAPPER, TAG_MAPPER } from "./mappers.js";
+import { completeNames } from "./names.js";
+
+/** Resources per resources/list page. */
+export const RESOURCE_PAGE_SIZE = 100;
+
+/** JSON-RPC error code for unknown resources, as the MCP specification suggests. */
+export const RESOURCE_NOT_FOUND = -32002;
+
+const MIME_TYPE = "application/json";
+
+const FIXED_RESOURCES: Resource[] = [
+  {
+    uri: "omnifocus://inbox",
+    name: "inbox",
+    title: "Inbox",
+    description: "Remaining tasks in the OmniFocus inbox",
+    mimeType: MIME_TYPE
+  },
+  {
+    uri: "omnifocus://forecast/today",
+    name: "forecast-today",
+    title: "Today's Forecast",
+    description: "Remaining tasks that are overdue, due today or planned for today",
+    mimeType: MIME_TYPE
+  }
+];
+
+// ============================================================================
+// Scripts
+// ============================================================================
+
+const TASK_SCRIPT = `
+  ${TASK_MAPPER}
+  var task = doc.flattenedTasks().find(function(t) { return t.id() === params.id; });
+  if (!task) { throw omnifocusError("NOT_FOUND", "Task not found with ID: " + params.id); }
+  JSON.stringify(mapTask(task));
+`;
+
+const PROJECT_SCRIPT = `
+  ${PROJECT_MAPPER}
+  ${TASK_MAPPER}
+  var project = doc.flattenedProjects().find(function(p) { return p.id() === params.id; });
+  if (!project) { throw omnifocusError("NOT_FOUND", "Project not found with ID: " + params.id); }
+  JSON.stringify({ project: mapProject(project), tasks: mapTasks(project.flattenedTasks.whose({completed: false})) });
+`;
+
+const FOLDER_SCRIPT = `
+  ${FOLDER_MAPPER}
+  ${PROJECT_MAPPER}
+  var folder = doc.flattenedFolders().find(function(f) { return f.id() === params.id; });
+  if (!folder) { throw omnifocusError("NOT_FOUND", "Folder not found with ID: " + params.id); }
+  JSON.stringify({ folder: mapFolder(folder), projects: folder.projects().map(mapProject), folders: folder.folders().map(mapFolder) });
+`;
+
+const TAG_SCRIPT = `
+  ${TAG_MAPPER}
+  ${TASK_MAPPER}
+  var tag = doc.flattenedTags().find(function(t) { return t.name() === params.name; });
+  if (!tag) { throw omnifocusError("NOT_FOUND", "Tag not found: " + params.name); }
+  JSON.stringify({ tag: mapTag(tag), tasks: mapTasks(tag.tasks.whose({completed: false})) });
+`;
+
+const INBOX_SCRIPT = `
+  ${TASK_MAPPER}
+  var tasks = mapTasks(doc.inboxTasks.whose({completed: false}));
+  JSON.stringify({ count: tasks.length, tasks: tasks });
+`;
+
+// Dates are compared as ISO strings, between the bounds of the local day in params.
+const FORECAST_SCRIPT = `
+  ${TASK_MAPPER}
+  var tasks = mapTasks(doc.flattenedTasks.whose({completed: false}));
+  function by(key) {
+    return function(a, b) { return a[key] < b[key] ? -1 : a[key] > b[key] ? 1 : 0; };
+  }
+  JSON.stringify({
+    date: params.date,
+    overdue: tasks.filter(function(t) { return t.dueDate !== null && t.dueDate < params.start; }).sort(by("dueDate")),
+    dueToday: tasks.filter(function(t) { return t.dueDate !== null && t.dueDate >= params.start && t.dueDate <= params.end; }).sort(by("dueDate")),
+    plannedToday: tasks.filter(function(t) { return t.plannedDate !== null && t.plannedDate >= params.start && t.plannedDate <= params.end; }).sort(by("plannedDate"))
+  });
+`;
+
+const LIST_SCRIPT = `
+  function entry(o) { return { id: o.id(), name: o.name() }; }
+  JSON.stringify({
+    projects: doc.flattenedProjects().map(entry),
+    folders: doc.flattenedFolders().map(entry),
+    tags: doc.flattenedTags().map(entry)
+  });
+`;
+
+/** Today in local time: its date, and its first and last millisecond as ISO strings. */
+function today(): { date: string; start: string; end: string } {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setHours(23, 59, 59, 999);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date = `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+  return { date, start: start.toISOString(), end: end.toISOString() };
+}
+
+// ============================================================================
+// Listing
+// ============================================================================
+
+interface Named {
+  id: string;
+  name: string;
+}
+
+/** Every listed resource: the fixed ones, then each project, folder and tag. */
+async function listResources(signal?: AbortSignal): Promise<Resource[]> {
+  const snapshot = await getSnapshot(signal);
+  const { projects, folders, tags } = snapshot
+    ? snapshot
+    : await executeAndParseJSON<{ projects: Named[]; folders: Named[]; tags: Named[] }>(LIST_SCRIPT, {}, { signal, retryable: true });
+  const listed = (kind: string, key: string) => (o: Named): Resource => ({
+    uri: `omnifocus://${kind}/${encodeURIComponent(key === "name" ? o.name : o.id)}`,
+    name: o.name,
+    mimeType: MIME_TYPE
+  });
+  return [
+    ...FIXED_RESOURCES,
+    ...projects.map(listed("project", "id")),
+    ...folders.map(listed("folder", "id")),
+    ...tags.map(listed("tag", "name"))
+  ];
+}
+
+/** Cursors are the offset of the page's first resource. */
+function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString("base64url");
+}
+
+function decodeCursor(cursor: string | undefined): number {
+  if (cursor === undefined) return 0;
+  const offset = Number(Buffer.from(cursor, "base64url").toString());
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+  return offset;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+export interface ReadOptions {
+  signal?: AbortSignal;
+  /** Log the read at debug level rather than info (subscription polls). */
+  quiet?: boolean;
+}
+
+/**
+ * Reads a resource as JSON with `script`, logging the read. OmniFocus errors
+ * become JSON-RPC errors: NOT_FOUND the specification's resource-not-found
+ * code, others an internal error carrying their code.
+ */
+async function read(uri: URL, script: string, params: Record<string, unknown>, { signal, quiet }: ReadOptions): Promise<ReadResourceResult> {
+  return withLogContext({ resource: uri.href }, async () => {
+    const startedAt = Date.now();
+    const log = quiet ? logger.debug : logger.info;
+    try {
+      const data = await executeAndParseJSON<unknown>(script, params, { signal, retryable: true });
+      log("Resource read", { durationMs: Date.now() - startedAt, outcome: "ok" });
+      return { contents: [{ uri: uri.href, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }] };
+    } catch (error) {
+      const code = error instanceof OmniFocusError ? error.code : "INTERNAL";
+      log("Resource read", { durationMs: Date.now() - startedAt, outcome: "error", errorCode: code });
+      const message = error instanceof Error ? error.message : String(error);
+      throw new McpError(code === "NOT_FOUND" ? RESOURCE_NOT_FOUND : ErrorCode.InternalError, message, { code, uri: uri.href });
+    }
+  });
+}
+
+/** A URI template variable, decoded. Malformed percent-encoding is invalid params. */
+function variable(value: string | string[]): string {
+  const encoded = Array.isArray(value) ? value[0] : value;
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid percent-encoding in resource URI: ${encoded}`);
+  }
+}
+
+interface TemplateDefinition {
+  name: string;
+  uriTemplate: UriTemplate;
+  title: string;
+  description: string;
+  script: string;
+  params(variables: Variables): Record<string, unknown>;
+  /** Completion for the template's variables, by name. */
+  complete?: Record<string, CompleteResourceTemplateCallback>;
+}
+
+const TEMPLATES: TemplateDefinition[] = [
+  {
+    name: "task",
+    uriTemplate: new UriTemplate("omnifocus://task/{id}"),
+    title: "Task",
+    description: "A task, by ID",
+    script: TASK_SCRIPT,
+    params: ({ id }) => ({ id: variable(id) })
+  },
+  {
+    name: "project",
+    uriTemplate: new UriTemplate("omnifocus://project/{id}"),
+    title: "Project",
+    description: "A project, by ID, with its remaining tasks",
+    script: PROJECT_SCRIPT,
+    params: ({ id }) => ({ id: variable(id) })
+  },
+  {
+    name: "folder",
+    uriTemplate: new UriTemplate("omnifocus://folder/{id}"),
+    title: "Folder",
+    description: "A folder, by ID, with the projects and folders directly in it",
+    script: FOLDER_SCRIPT,
+    params: ({ id }) => ({ id: variable(id) })
+  },
+  {
+    name: "tag",
+    uriTemplate: new UriTemplate("omnifocus://tag/{name}"),
+    title: "Tag",
+    description: "A tag, by name, with its remaining tasks",
+    script: TAG_SCRIPT,
+    params: ({ name }) => ({ name: variable(name) }),
+    complete: { name: completeNames("tag") }
+  }
+];
+
+const FIXED_SCRIPTS: Record<string, { script: string; params(): Record<string, unknown> }> = {
+  "omnifocus://inbox": { script: INBOX_SCRIPT, params: () => ({}) },
+  "omnifocus://forecast/today": { script: FORECAST_SCRIPT, params: today }
+};
+
+/**
+ * The resource at `uri`, as resources/read returns it. Fails with the
+ * resource-not-found error for URIs that name no resource or no object.
+ */
+export async function readResource(uri: string, options: ReadOptions = {}): Promise<ReadResourceResult> {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`, { uri });
+  }
+  const fixed = FIXED_SCRIPTS[url.href];
+  if (fixed) return read(url, fixed.script, fixed.params(), options);
+  for (const template of TEMPLATES) {
+    const variables = template.uriTemplate.match(url.href);
+    if (variables) return read(url, template.script, template.params(variables), options);
+  }
+  throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+}
+
+/** Registers the OmniFocus resources and resource templates on `server`. */
+export function registerResources(server: McpServer): void {
+  for (const { name, uriTemplate, title, description, complete } of TEMPLATES) {
+    server.registerResource(
+      name,
+      new ResourceTemplate(uriTemplate, { list: undefined, complete }),
+      { title, description, mimeType: MIME_TYPE },
+      (uri, _variables, { signal }) => readResource(uri.href, { signal })
+    );
+  }
+  for (const { uri, name, ...metadata } of FIXED_RESOURCES) {
+    server.registerResource(name, uri, metadata, (url, { signal }) => readResource(url.href, { signal }));
+  }
+
+  // Replaces the SDK's handler, which lists everything at once.
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request, { signal }) => {
+    const offset = decodeCursor(request.params?.cursor);
+    const resources = await listResources(signal);
+    const end = offset + RESOURCE_PAGE_SIZE;
+    return {
+      resources: resources.slice(offset, end),
+      ...(end < resources.length ? { nextCursor: encodeCursor(end) } : {})
+    };
+  });
+}
@@ -1,6 +1,10 @@
 // ============================================================================
 // Input Sanitization - Security Layer
 // ============================================================================
+// Deprecated. The server no longer uses these: tool arguments reach scripts as
+// data in `params` and are never interpolated into the source (see the
+// README). They stay exported from index for existing consumers and will be
+// removed in the next major version.
 
 /**
  * Sanitizes user input to prevent JXA injection attacks.
@@ -14,6 +18,7 @@
  * @param maxLength - Maximum allowed length (default: 500)
  * @returns Sanitized and escaped string safe for JXA execution
  * @throws Error if input is invalid or contains dangerous patterns
+ * @deprecated Pass values to scripts in `params` instead of interpolating them.
  */
 export function sanitizeInput(input: string, maxLength: number = 500): string {
   // 1. Type validation
@@ -77,6 +82,7 @@ export function sanitizeInput(input: string, maxLength: number = 500): string {
  * @param maxItems - Maximum number of items allowed
  * @returns Array of sanitized strings
  * @throws Error if validation fails
+ * @deprecated Pass values to scripts in `params` instead of interpolating them.
  */
 export function sanitizeArray(
   items: string[],
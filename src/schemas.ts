@@ -6,7 +6,7 @@ import { z } from "zod";
 
 // Shared tag-filter fields, spread into task-returning tool schemas.
 export const tagFilterFields = {
-  tags: z.array(z.string())
+  tags: z.array(z.string().max(200))
     .max(20)
     .optional()
     .describe("Filter to tasks matching these tag names (combined per tagMatchMode)"),
@@ -33,6 +33,7 @@ export const ListProjectsInputSchema = z.object({
     .default("active")
     .describe("Filter by project status"),
   folderName: z.string()
+    .max(500)
     .optional()
     .describe("Filter by folder name (case-insensitive partial match)"),
   limit: z.number()
@@ -45,6 +46,7 @@ export const ListProjectsInputSchema = z.object({
 
 export const GetProjectTasksInputSchema = z.object({
   projectId: z.string()
+    .max(100)
     .describe("The ID of the project to get tasks for"),
   includeCompleted: z.boolean()
     .default(false)
@@ -120,9 +122,11 @@ export const CreateTaskInputSchema = z.object({
     .optional()
     .describe("Optional note/description for the task"),
   projectName: z.string()
+    .max(500)
     .optional()
     .describe("Name of project to add task to (creates in inbox if not specified)"),
   parentTaskId: z.string()
+    .max(100)
     .optional()
     .describe("ID of parent task to create this as a subtask (makes this task a child of the parent)"),
   dueDate: z.string()
@@ -146,7 +150,8 @@ export const CreateTaskInputSchema = z.object({
     .max(9999)
     .optional()
     .describe("Estimated time in minutes"),
-  tagNames: z.array(z.string())
+  tagNames: z.array(z.string().max(200))
+    .max(50)
     .optional()
     .describe("Array of tag names to apply"),
   recurrence: RecurrenceObjectSchema
@@ -156,9 +161,11 @@ export const CreateTaskInputSchema = z.object({
 
 export const CompleteTaskInputSchema = z.object({
   taskId: z.string()
+    .max(100)
     .optional()
     .describe("The task ID (primaryKey) to update. Takes priority if both taskId and taskName are provided."),
   taskName: z.string()
+    .max(500)
     .optional()
     .describe("The task name to search for. Used if taskId is not provided."),
   action: z.enum(["complete", "drop"])
@@ -168,31 +175,39 @@ export const CompleteTaskInputSchema = z.object({
 
 export const AddTagInputSchema = z.object({
   taskId: z.string()
+    .max(100)
     .optional()
     .describe("The task ID to add the tag to. Takes priority if both taskId and taskName are provided."),
   taskName: z.string()
+    .max(500)
     .optional()
     .describe("The task name to search for. Used if taskId is not provided."),
   tagName: z.string()
+    .max(200)
     .describe("The name of the tag to add")
 }).strict();
 
 export const RemoveTagInputSchema = z.object({
   taskId: z.string()
+    .max(100)
     .optional()
     .describe("The task ID to remove the tag from. Takes priority if both taskId and taskName are provided."),
   taskName: z.string()
+    .max(500)
     .optional()
     .describe("The task name to search for. Used if taskId is not provided."),
   tagName: z.string()
+    .max(200)
     .describe("The name of the tag to remove")
 }).strict();
 
 export const UpdateTaskNoteInputSchema = z.object({
   taskId: z.string()
+    .max(100)
     .optional()
     .describe("The task ID to update. Takes priority if both taskId and taskName are provided."),
   taskName: z.string()
+    .max(500)
     .optional()
     .describe("The task name to search for. Used if taskId is not provided."),
   note: z.string()
@@ -205,9 +220,11 @@ export const UpdateTaskNoteInputSchema = z.object({
 
 export const UpdateProjectNoteInputSchema = z.object({
   projectId: z.string()
+    .max(100)
     .optional()
     .describe("The project ID to update. Takes priority if both projectId and projectName are provided."),
   projectName: z.string()
+    .max(500)
     .optional()
     .describe("The project name to search for. Used if projectId is not provided."),
   note: z.string()
@@ -234,6 +251,22 @@ export const SearchInputSchema = z.object({
     .describe("Maximum results per type")
 }).strict();
 
+export const SuggestNamesInputSchema = z.object({
+  query: z.string()
+    .min(1)
+    .max(200)
+    .describe("Name, or part of one, to look up"),
+  nameType: z.enum(["projects", "tags", "folders", "perspectives", "all"])
+    .default("all")
+    .describe("Kind of names to suggest"),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(10)
+    .describe("Maximum suggestions to return")
+}).strict();
+
 export const GetDueTasksInputSchema = z.object({
   daysAhead: z.number()
     .int()
@@ -305,9 +338,11 @@ export const GetProjectsForReviewInputSchema = z.object({
 
 export const MarkProjectReviewedInputSchema = z.object({
   projectId: z.string()
+    .max(100)
     .optional()
     .describe("The project ID to mark as reviewed. Takes priority if both projectId and projectName are provided."),
   projectName: z.string()
+    .max(500)
     .optional()
     .describe("The project name to search for. Used if projectId is not provided."),
   reviewIntervalDays: z.number()
@@ -319,7 +354,7 @@ export const MarkProjectReviewedInputSchema = z.object({
 }).strict();
 
 export const BatchMarkReviewedInputSchema = z.object({
-  projectIds: z.array(z.string())
+  projectIds: z.array(z.string().max(100))
     .min(1)
     .max(100)
     .describe("Array of project IDs to mark as reviewed"),
@@ -387,9 +422,11 @@ export const CreateProjectInputSchema = z.object({
 
 export const UpdateTaskInputSchema = z.object({
   taskId: z.string()
+    .max(100)
     .optional()
     .describe("The task ID to update. Takes priority if both taskId and taskName are provided."),
   taskName: z.string()
+    .max(500)
     .optional()
     .describe("The task name to search for. At least one of taskId or taskName is required."),
   name: z.string()
@@ -403,14 +440,17 @@ export const UpdateTaskInputSchema = z.object({
     .optional()
     .describe("New note text. Pass null to clear the note."),
   dueDate: z.string()
+    .max(100)
     .nullable()
     .optional()
     .describe("New due date in ISO 8601 format. Pass null to clear."),
   deferDate: z.string()
+    .max(100)
     .nullable()
     .optional()
     .describe("New defer/start date in ISO 8601 format. Pass null to clear."),
   plannedDate: z.string()
+    .max(100)
     .nullable()
     .optional()
     .describe("New planned date in ISO 8601 format. Pass null to clear."),
@@ -424,9 +464,11 @@ export const UpdateTaskInputSchema = z.object({
     .optional()
     .describe("Estimated time in minutes. Pass 0 to clear."),
   projectId: z.string()
+    .max(100)
     .optional()
     .describe("ID of the project to move the task to."),
   projectName: z.string()
+    .max(500)
     .optional()
     .describe("Name of the project to move the task to. Ignored if projectId is provided."),
   recurrence: RecurrenceObjectSchema
@@ -440,15 +482,17 @@ export const UpdateTaskInputSchema = z.object({
 
 export const DeleteTaskInputSchema = z.object({
   taskId: z.string()
+    .max(100)
     .optional()
     .describe("The task ID to delete. Takes priority if both taskId and taskName are provided."),
   taskName: z.string()
+    .max(500)
     .optional()
     .describe("The task name to search for. At least one of taskId or taskName is required.")
 }).strict();
 
 export const BatchCompleteTaskInputSchema = z.object({
-  taskIds: z.array(z.string())
+  taskIds: z.array(z.string().max(100))
     .min(1)
     .max(100)
     .describe("Array of task IDs to complete or drop (1-100 tasks)"),
@@ -458,28 +502,32 @@ export const BatchCompleteTaskInputSchema = z.object({
 }).strict();
 
 export const BatchAddTagInputSchema = z.object({
-  taskIds: z.array(z.string())
+  taskIds: z.array(z.string().max(100))
     .min(1)
     .max(100)
     .describe("Array of task IDs to add the tag to (1-100 tasks)"),
   tagName: z.string()
+    .max(200)
     .describe("Name of the tag to add (must already exist)")
 }).strict();
 
 export const BatchRemoveTagInputSchema = z.object({
-  taskIds: z.array(z.string())
+  taskIds: z.array(z.string().max(100))
     .min(1)
     .max(100)
     .describe("Array of task IDs to remove the tag from (1-100 tasks)"),
   tagName: z.string()
+    .max(200)
     .describe("Name of the tag to remove")
 }).strict();
 
 export const UpdateProjectInputSchema = z.object({
   projectId: z.string()
+    .max(100)
     .optional()
     .describe("The project ID to update. Takes priority if both projectId and projectName are provided."),
   projectName: z.string()
+    .max(500)
     .optional()
     .describe("The project name to search for. At least one of projectId or projectName is required."),
   name: z.string()
@@ -499,10 +547,12 @@ export const UpdateProjectInputSchema = z.object({
     .optional()
     .describe("Set flagged state"),
   dueDate: z.string()
+    .max(100)
     .nullable()
     .optional()
     .describe("New due date in ISO 8601 format. Pass null to clear."),
   deferDate: z.string()
+    .max(100)
     .nullable()
     .optional()
     .describe("New defer/start date in ISO 8601 format. Pass null to clear."),
@@ -519,9 +569,11 @@ export const UpdateProjectInputSchema = z.object({
 
 export const DeleteProjectInputSchema = z.object({
   projectId: z.string()
+    .max(100)
     .optional()
     .describe("The project ID to delete. Takes priority if both projectId and projectName are provided."),
   projectName: z.string()
+    .max(500)
     .optional()
     .describe("The project name to search for. At least one of projectId or projectName is required.")
 }).strict();
@@ -539,9 +591,11 @@ export const CreateFolderInputSchema = z.object({
 
 export const UpdateFolderInputSchema = z.object({
   folderId: z.string()
+    .max(100)
     .optional()
     .describe("The folder ID to update. Takes priority if both folderId and folderName are provided."),
   folderName: z.string()
+    .max(500)
     .optional()
     .describe("The folder name to search for. At least one of folderId or folderName is required."),
   name: z.string()
@@ -552,9 +606,85 @@ export const UpdateFolderInputSchema = z.object({
 
 export const DeleteFolderInputSchema = z.object({
   folderId: z.string()
+    .max(100)
     .optional()
     .describe("The folder ID to delete. Takes priority if both folderId and folderName are provided."),
   folderName: z.string()
+    .max(500)
     .optional()
     .describe("The folder name to search for. At least one of folderId or folderName is required.")
 }).strict();
+
+export const GetMetricsInputSchema = z.object({
+  format: z.enum(["prometheus", "json"])
+    .default("prometheus")
+    .describe("Prometheus text exposition format, or JSON")
+}).strict();
+
+export const ListRecentChangesInputSchema = z.object({
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe("Maximum changes to return, newest first (default: 20)"),
+  objectId: z.string()
+    .max(100)
+    .optional()
+    .describe("Only list changes to the task, project or folder with this ID")
+}).strict();
+
+export const UndoChangeInputSchema = z.object({
+  changeId: z.string()
+    .min(1)
+    .max(100)
+    .describe("ID of the change to undo, from omnifocus_list_recent_changes")
+}).strict();
+
+/** Added by the server to every tool that is not read-only (dryrun.ts). */
+export const DryRunFlagSchema = z.boolean()
+  .optional()
+  .describe("If true, report the changes this call would make (object IDs, old and new values) without making them");
+
+// ============================================================================
+// Prompt arguments (prompts.ts). MCP passes prompt arguments as strings.
+// ============================================================================
+
+export const WeeklyReviewPromptArgs = {
+  folder: z.string()
+    .max(500)
+    .optional()
+    .describe("Only review projects in this folder")
+};
+
+export const ProcessInboxPromptArgs = {
+  limit: z.string()
+    .regex(/^([1-9]\d?|100)$/, "Must be a number from 1 to 100")
+    .optional()
+    .describe("Maximum inbox items to process (1-100, default 25)")
+};
+
+export const PlanMyDayPromptArgs = {
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date such as 2024-12-31")
+    .optional()
+    .describe("Day to plan, as YYYY-MM-DD (default: today)"),
+  energy: z.enum(["low", "medium", "high"])
+    .optional()
+    .describe("Your energy level: low, medium or high")
+};
+
+export const ProjectKickoffPromptArgs = {
+  name: z.string()
+    .min(1)
+    .max(500)
+    .describe("Name of the new project"),
+  outcome: z.string()
+    .max(2000)
+    .optional()
+    .describe("What done looks like, if you know already"),
+  folder: z.string()
+    .max(500)
+    .optional()
+    .describe("Folder to create the project in")
+};
@@ -1,10 +1,183 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AnySchema } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { z } from "zod";
+import { invalidateCache } from "./cache.js";
+import { runInCallContext, type CallContext } from "./executor.js";
+import { toolDenial, type ApiToken } from "./tokens.js";
+import { toolCalls, toolErrors } from "./metrics.js";
+import { addLogContext, logger, withLogContext, type LogFields } from "./logger.js";
+import { journalCall } from "./journal.js";
+import { canDryRun, isDryRun, planChanges, withDryRunFlag, withDryRunOutput } from "./dryrun.js";
+import { registerTaskTools } from "./tools/tasks.js";
+import { registerProjectTools } from "./tools/projects.js";
+import { registerFolderTools } from "./tools/folders.js";
+import { registerTagTools } from "./tools/tags.js";
+import { registerReviewTools } from "./tools/reviews.js";
+import { registerPerspectiveTools } from "./tools/perspectives.js";
+import { registerSearchTools } from "./tools/search.js";
+import { registerDiagnosticsTools } from "./tools/diagnostics.js";
+import { registerJournalTools } from "./tools/journal.js";
+import { registerResources } from "./resources.js";
+import { registerSubscriptions } from "./subscriptions.js";
+import { registerPrompts } from "./prompts.js";
 
 // ============================================================================
 // MCP Server Setup
 // ============================================================================
 
-export const server = new McpServer({
-  name: "omnifocus-mcp-server",
-  version: "1.0.0"
-});
+/** The `error` of a toolErrorResult body; INTERNAL for other failures. */
+function errorOf(result: CallToolResult | undefined): { code: string; message?: string } {
+  const first = result?.content?.[0];
+  try {
+    const error = first?.type === "text" ? (JSON.parse(first.text) as { error?: { code?: unknown; message?: unknown } }).error : undefined;
+    if (typeof error?.code === "string") {
+      return { code: error.code, message: typeof error.message === "string" ? error.message : undefined };
+    }
+  } catch {
+    // Not a toolErrorResult body
+  }
+  return { code: "INTERNAL", message: first?.type === "text" ? first.text : undefined };
+}
+
+/**
+ * Counts a finished call in the tool metrics and logs it with its arguments
+ * (redacted by the logger), duration and outcome.
+ */
+function recordCall(name: string, input: unknown, startedAt: number, result: CallToolResult | undefined, retries = 0): void {
+  toolCalls.inc({ tool: name });
+  const failed = !result || result.isError === true;
+  const error = failed ? errorOf(result) : null;
+  if (error) toolErrors.inc({ tool: name, code: error.code });
+  logger.info("Tool call", {
+    arguments: input,
+    durationMs: Date.now() - startedAt,
+    outcome: error ? "error" : "ok",
+    errorCode: error?.code,
+    errorMessage: error?.message,
+    retries: retries > 0 ? retries : undefined,
+  });
+}
+
+export interface McpServerOptions {
+  /**
+   * API token the server's client authenticated with. Tools it may not call
+   * are registered disabled: left out of tools/list, and refused when called
+   * anyway.
+   */
+  token?: ApiToken;
+}
+
+/** What a tool handler gets besides its arguments: the request's signal, session and so on. */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** A tool's metadata and schemas, as the tool modules declare them. */
+export interface ToolConfig<Input extends z.AnyZodObject> {
+  title: string;
+  description: string;
+  inputSchema: Input;
+  outputSchema: z.AnyZodObject;
+  annotations: ToolAnnotations;
+}
+
+/** Where the tool modules (tools/*.ts) register their tools. */
+export interface ToolServer {
+  registerTool<Input extends z.AnyZodObject>(
+    name: string,
+    config: ToolConfig<Input>,
+    handler: (params: z.output<Input>, extra: ToolExtra) => Promise<CallToolResult>
+  ): RegisteredTool;
+}
+
+/** Log fields identifying a tool call: the tool, and the session and JSON-RPC ID it came with. */
+function callLogContext(name: string, extra: ToolExtra): LogFields {
+  return { tool: name, sessionId: extra.sessionId, rpcId: extra.requestId };
+}
+
+/**
+ * The idempotency key a client sent in the request's `_meta`, which marks a
+ * mutating call as safe to repeat.
+ */
+function idempotencyKeyOf(extra: ToolExtra): string | undefined {
+  const key = extra._meta?.idempotencyKey;
+  return typeof key === "string" && key !== "" ? key : undefined;
+}
+
+// Registers tools on `server` with their handlers wrapped. Every tool runs in
+// a call context telling the executor whether its scripts may be retried
+// (read-only tools, or calls with an idempotency key); retries made are
+// reported in the result's _meta. Tools not marked read-only drop the
+// snapshot cache when they finish, failed or not: a batch tool may have
+// applied part of its changes before an error; what they changed is recorded
+// in the journal (journal.ts). They also take a dryRun flag; a dry run only
+// plans the call's changes (dryrun.ts), so it is retryable and neither
+// journaled nor dropping the cache, and their output schema also admits the
+// plan. Every call is counted in the tool metrics and logged, with its error
+// code when it fails; lines logged during the call carry the tool's name.
+// With a `token`, tools it may not call are disabled.
+function toolServer(server: McpServer, token?: ApiToken): ToolServer {
+  return {
+    registerTool(name, config, callback) {
+      const readOnly = config.annotations.readOnlyHint === true;
+      const dryRunnable = !readOnly && canDryRun(name);
+      const inputSchema: z.AnyZodObject = dryRunnable ? withDryRunFlag(config.inputSchema) : config.inputSchema;
+      const outputSchema: AnySchema = dryRunnable ? withDryRunOutput(config.outputSchema) : config.outputSchema;
+      const handler = async (input: Record<string, unknown>, extra: ToolExtra) => withLogContext(callLogContext(name, extra), async () => {
+        const dryRun = dryRunnable && isDryRun(input);
+        const { dryRun: _flag, ...rest } = input;
+        // The SDK parsed `input` with the tool's input schema; only the dryRun flag is extra.
+        const params = (dryRunnable ? rest : input) as z.output<typeof config.inputSchema>;
+        if (dryRun) addLogContext({ dryRun: true });
+        const context: CallContext = { retryable: readOnly || dryRun || idempotencyKeyOf(extra) !== undefined, retries: 0 };
+        const startedAt = Date.now();
+        let result: CallToolResult | undefined;
+        try {
+          const run = () => runInCallContext(context, () => callback(params, extra));
+          result = dryRun ? await runInCallContext(context, () => planChanges(name, params, extra.signal))
+            : readOnly ? await run()
+            : await journalCall(name, params, extra.signal, run);
+          return context.retries > 0 ? { ...result, _meta: { ...result._meta, retries: context.retries } } : result;
+        } finally {
+          recordCall(name, params, startedAt, result, context.retries);
+          if (!readOnly && !dryRun) invalidateCache(`${name} ran`);
+        }
+      });
+      const tool = server.registerTool(name, { ...config, inputSchema, outputSchema }, handler);
+      if (token && toolDenial(token, name, config.annotations) !== null) tool.disable();
+      return tool;
+    }
+  };
+}
+
+/**
+ * Creates an MCP server with every OmniFocus tool and resource registered. A server
+ * connects to one transport at a time, so the HTTP transport creates one per
+ * session; all of them share the executor, its queue and the snapshot cache.
+ */
+export function createMcpServer(options: McpServerOptions = {}): McpServer {
+  const server = new McpServer({
+    name: "omnifocus-mcp-server",
+    version: "1.0.0"
+  });
+  const tools = toolServer(server, options.token);
+  registerTaskTools(tools);
+  registerProjectTools(tools);
+  registerFolderTools(tools);
+  registerTagTools(tools);
+  registerReviewTools(tools);
+  registerPerspectiveTools(tools);
+  registerSearchTools(tools);
+  registerDiagnosticsTools(tools);
+  registerJournalTools(tools);
+  // Resources and prompts read OmniFocus; a token without the read scope gets none.
+  if (!options.token || options.token.scopes.includes("read")) {
+    registerResources(server);
+    registerSubscriptions(server);
+    registerPrompts(server);
+  }
+  return server;
+}
+
+/** The server used over stdio, and by tests and embedders. */
+export const server = createMcpServer();
@@ -0,0 +1,154 @@
+/**
+ * Resource subscriptions
+ *
+ * Clients subscribe to resources (resources.ts) with resources/subscribe and
+ * get notifications/resources/updated when one's contents change. Each
+ * session polls its subscribed resources every MCP_SUBSCRIPTION_POLL_MS,
+ * re-reading them only when the backend reports that the OmniFocus database
+ * changed (or cannot tell); the forecast is re-read every time, since it also
+ * changes with the date. A resource whose object is deleted counts as changed
+ * once. Over HTTP the notifications go out on the session's SSE stream (GET
+ * /mcp); sessions without one miss them.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, SubscribeRequestSchema, UnsubscribeRequestSchema, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { getBackend } from "./backend.js";
+import { logger } from "./logger.js";
+import { readResource, RESOURCE_NOT_FOUND } from "./resources.js";
+
+export interface SubscriptionConfig {
+  /** How often each session polls its subscriptions, in milliseconds. */
+  pollMs: number;
+  /** Subscriptions one session may hold at once. */
+  maxPerSession: number;
+}
+
+/**
+ * Reads the subscription settings from MCP_SUBSCRIPTION_POLL_MS and
+ * MCP_MAX_SUBSCRIPTIONS.
+ */
+export function subscriptionConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SubscriptionConfig {
+  const setting = (name: string, fallback: number, min: number): number => {
+    const value = env[name];
+    if (value === undefined || value === "") return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  };
+  return {
+    pollMs: setting("MCP_SUBSCRIPTION_POLL_MS", 30_000, 100),
+    maxPerSession: setting("MCP_MAX_SUBSCRIPTIONS", 50, 1),
+  };
+}
+
+let config: SubscriptionConfig | null = null;
+
+function getConfig(): SubscriptionConfig {
+  if (!config) config = subscriptionConfigFromEnv();
+  return config;
+}
+
+/** Overrides the subscription settings (tests, embedding). Sessions polling already keep their interval. */
+export function configureSubscriptions(options: Partial<SubscriptionConfig>): void {
+  config = { ...getConfig(), ...options };
+}
+
+/** Resources whose contents change with the clock, not only with the database. */
+const CLOCK_DEPENDENT = new Set(["omnifocus://forecast/today"]);
+
+/** A deleted object's resource; distinct from any contents. */
+const GONE = "";
+
+function textOf({ contents }: ReadResourceResult): string {
+  return contents.map((c) => ("text" in c ? c.text : c.blob)).join("\n");
+}
+
+/** A resource's contents, or GONE when its object no longer exists. */
+async function contentsOf(uri: string, signal: AbortSignal): Promise<string> {
+  try {
+    return textOf(await readResource(uri, { signal, quiet: true }));
+  } catch (error) {
+    if (error instanceof McpError && error.code === RESOURCE_NOT_FOUND) return GONE;
+    throw error;
+  }
+}
+
+/**
+ * Handles resources/subscribe and resources/unsubscribe on `server` and polls
+ * the resources its client subscribed to until it closes.
+ */
+export function registerSubscriptions(server: McpServer): void {
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  const watched = new Map<string, string>();
+  let closed = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  let polling = false;
+  let lastModified: number | null = null;
+
+  async function poll(): Promise<void> {
+    if (polling) return;
+    polling = true;
+    try {
+      const modified = (await getBackend().modificationTime?.()) ?? null;
+      const unchanged = modified !== null && modified === lastModified;
+      lastModified = modified;
+      for (const [uri, previous] of watched) {
+        if (unchanged && !CLOCK_DEPENDENT.has(uri)) continue;
+        const current = await contentsOf(uri, closed.signal);
+        // Unsubscribed while reading.
+        if (!watched.has(uri) || current === previous) continue;
+        watched.set(uri, current);
+        await server.server.sendResourceUpdated({ uri });
+      }
+    } catch (error) {
+      if (!closed.signal.aborted) {
+        logger.warn("Could not poll subscribed resources; retrying next interval", { error });
+        // Re-read everything next time, as changes may have been missed.
+        lastModified = null;
+      }
+    } finally {
+      polling = false;
+    }
+  }
+
+  function stop(): void {
+    clearInterval(timer);
+    timer = undefined;
+  }
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, { signal }) => {
+    const { uri } = request.params;
+    if (watched.has(uri)) return {};
+    const { maxPerSession, pollMs } = getConfig();
+    if (watched.size >= maxPerSession) {
+      throw new McpError(ErrorCode.InvalidRequest, `At most ${maxPerSession} resource subscriptions per session`, { maxPerSession });
+    }
+    // Fails for URIs that are not resources; the contents are the baseline changes are noticed against.
+    watched.set(uri, textOf(await readResource(uri, { signal })));
+    if (!timer) {
+      timer = setInterval(() => void poll(), pollMs);
+      timer.unref();
+    }
+    logger.debug("Resource subscribed", { resource: uri, subscriptions: watched.size });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    watched.delete(request.params.uri);
+    if (watched.size === 0) stop();
+    return {};
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    stop();
+    watched.clear();
+    closed.abort();
+    closed = new AbortController();
+    onclose?.();
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Scoped API tokens for the HTTP transport.
+ *
+ * Besides the owner's `MCP_AUTH_TOKEN`, which may call every tool, the HTTP
+ * transport accepts named tokens from a token file, each limited to some
+ * scopes and optionally to a list of tools:
+ *
+ * ```json
+ * {
+ *   "tokens": [
+ *     { "name": "phone", "token": "…", "scopes": ["read", "write"], "denyTools": ["omnifocus_update_task"] },
+ *     { "name": "dashboard", "token": "…", "scopes": ["read"], "allowTools": ["omnifocus_get_due_tasks"] }
+ *   ]
+ * }
+ * ```
+ *
+ * The scope a tool needs follows from its annotations: `read` for read-only
+ * tools, `delete` for destructive ones, `write` for everything else. A token
+ * may call a tool when it has that scope, the tool is in `allowTools` (if
+ * given) and the tool is not in `denyTools`.
+ */
+
+import { readFileSync } from "fs";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+
+export const TOKEN_SCOPES = ["read", "write", "delete"] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export interface ApiToken {
+  /** Shown in logs and in errors; never the secret itself. */
+  name: string;
+  token: string;
+  scopes: TokenScope[];
+  /** When set, the only tools the token may call (within its scopes). */
+  allowTools?: string[];
+  /** Tools the token may never call, whatever its scopes. */
+  denyTools?: string[];
+}
+
+/** The scope a tool needs, from its annotations. */
+export function requiredScope(annotations?: ToolAnnotations): TokenScope {
+  if (annotations?.readOnlyHint === true) return "read";
+  // MCP's default for tools that are not read-only is destructive.
+  return annotations?.destructiveHint === false ? "write" : "delete";
+}
+
+/**
+ * Why `token` may not call `tool`, or null when it may. The reason is a
+ * sentence meant for the client.
+ */
+export function toolDenial(token: ApiToken, tool: string, annotations?: ToolAnnotations): string | null {
+  if (token.denyTools?.includes(tool)) {
+    return `API token "${token.name}" may not call ${tool}: the tool is on its deny list`;
+  }
+  if (token.allowTools && !token.allowTools.includes(tool)) {
+    return `API token "${token.name}" may not call ${tool}: the tool is not on its allow list`;
+  }
+  const scope = requiredScope(annotations);
+  if (!token.scopes.includes(scope)) {
+    return `API token "${token.name}" may not call ${tool}: it needs the "${scope}" scope`;
+  }
+  return null;
+}
+
+function stringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+  return value;
+}
+
+/**
+ * Validates the contents of a token file. Names and secrets must be unique,
+ * and every token needs at least one scope.
+ */
+export function parseTokensFile(data: unknown): ApiToken[] {
+  const entries = (data as { tokens?: unknown } | null)?.tokens;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected an object with a "tokens" array');
+  }
+  const names = new Set<string>();
+  const secrets = new Set<string>();
+  return entries.map((entry: Record<string, unknown>, index) => {
+    const where = `tokens[${index}]`;
+    if (typeof entry?.name !== "string" || entry.name === "") {
+      throw new Error(`${where}.name must be a non-empty string`);
+    }
+    if (typeof entry.token !== "string" || entry.token.length < 16) {
+      throw new Error(`${where}.token must be a string of at least 16 characters`);
+    }
+    const scopes = stringList(entry.scopes, `${where}.scopes`) ?? [];
+    const unknown = scopes.find((scope) => !(TOKEN_SCOPES as readonly string[]).includes(scope));
+    if (scopes.length === 0 || unknown !== undefined) {
+      throw new Error(`${where}.scopes must list one or more of ${TOKEN_SCOPES.join(", ")}${unknown ? ` (got "${unknown}")` : ""}`);
+    }
+    if (names.has(entry.name)) throw new Error(`Duplicate token name: ${entry.name}`);
+    if (secrets.has(entry.token)) throw new Error(`${where}.token is the same as another token's`);
+    names.add(entry.name);
+    secrets.add(entry.token);
+
+    const allowTools = stringList(entry.allowTools, `${where}.allowTools`);
+    const denyTools = stringList(entry.denyTools, `${where}.denyTools`);
+    return {
+      name: entry.name,
+      token: entry.token,
+      scopes: scopes as TokenScope[],
+      ...(allowTools ? { allowTools } : {}),
+      ...(denyTools ? { denyTools } : {})
+    };
+  });
+}
+
+/** Reads and validates a token file (JSON, see above). */
+export function loadTokensFile(path: string): ApiToken[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read token file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return parseTokensFile(data);
+  } catch (error) {
+    throw new Error(`Invalid token file ${path}: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Diagnostics tools: the server's own metrics.
+ */
+
+import { collectMetrics, renderMetrics } from "../metrics.js";
+import { GetMetricsInputSchema } from "../schemas.js";
+import { toolResult, MetricsOutputSchema } from "../outputs.js";
+import type { ToolServer } from "../server.js";
+
+/** Registers the diagnostics tools on `server`. */
+export function registerDiagnosticsTools(server: ToolServer): void {
+  // ============================================================================
+  // Tool: Get Metrics
+  // ============================================================================
+
+  server.registerTool(
+    "omnifocus_get_metrics",
+    {
+      title: "Get Server Metrics",
+      description: `Get this server's metrics: tool calls, tool errors by code, OmniFocus script latency, queue and cache figures, and open HTTP sessions.
+
+The same metrics the HTTP transport serves at /metrics; useful over stdio, where there is no endpoint to scrape. Counts start when the server starts.
+
+Args:
+  - format ('prometheus' | 'json'): Prometheus text exposition format, or JSON (default: 'prometheus')
+
+Returns:
+  Prometheus text, or a JSON array of metrics with name, help, type and samples (name, labels, value)
+
+Examples:
+  - Prometheus text: {}
+  - JSON: { format: "json" }`,
+      inputSchema: GetMetricsInputSchema,
+      outputSchema: MetricsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params) => {
+      const { format } = params;
+
+      const metrics = collectMetrics();
+      const text = format === "json" ? JSON.stringify(metrics, null, 2) : renderMetrics();
+      return toolResult(text, { metrics });
+    }
+  );
+}
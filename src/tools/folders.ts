@@ -2,28 +2,32 @@
  * Folder tools: list, create, rename, delete.
  */
 
-import { server } from "../server.js";
 import { executeAndParseJSON } from "../executor.js";
+import { getSnapshot } from "../cache.js";
+import { toolErrorResult } from "../errors.js";
 import type { FolderData } from "../types.js";
-import { sanitizeInput } from "../sanitization.js";
 import { FOLDER_MAPPER } from "../mappers.js";
-import { generateFindFolderScript } from "../helpers.js";
+import { generateFindFolderScript, generateFindParentFolderScript, referenceError } from "../helpers.js";
 import {
   ListFoldersInputSchema,
   CreateFolderInputSchema,
   UpdateFolderInputSchema,
   DeleteFolderInputSchema
 } from "../schemas.js";
+import { toolResult, DeletedOutputSchema, FolderListOutputSchema, FolderOutputSchema } from "../outputs.js";
+import type { ToolServer } from "../server.js";
 
-// ============================================================================
-// Tool: List Folders
-// ============================================================================
+/** Registers the folder tools on `server`. */
+export function registerFolderTools(server: ToolServer): void {
+  // ============================================================================
+  // Tool: List Folders
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_list_folders",
-  {
-    title: "List Folders",
-    description: `List folders in OmniFocus.
+  server.registerTool(
+    "omnifocus_list_folders",
+    {
+      title: "List Folders",
+      description: `List folders in OmniFocus.
 
 Folders are used to organize projects hierarchically.
 
@@ -37,65 +41,62 @@ Returns:
 Examples:
   - List active folders: {}
   - List all folders: { status: "all" }`,
-    inputSchema: ListFoldersInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { status, limit } = params;
-    
-    let statusFilter = "";
-    if (status === "active") {
-      statusFilter = `.filter(function(f) { return !f.hidden(); })`;
-    } else if (status === "dropped") {
-      statusFilter = `.filter(function(f) { return f.hidden(); })`;
-    }
+      inputSchema: ListFoldersInputSchema,
+      outputSchema: FolderListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { status, limit } = params;
+      
+      let statusFilter = "";
+      if (status === "active") {
+        statusFilter = `.filter(function(f) { return !f.hidden(); })`;
+      } else if (status === "dropped") {
+        statusFilter = `.filter(function(f) { return f.hidden(); })`;
+      }
 
-    const script = `
+      const script = `
       ${FOLDER_MAPPER}
       var folders = doc.flattenedFolders()${statusFilter}.slice(0, ${limit});
       JSON.stringify(folders.map(mapFolder));
     `;
-    
-    try {
-      const folders = await executeAndParseJSON<FolderData[]>(script);
       
-      if (folders.length === 0) {
-        return {
-          content: [{ type: "text", text: "No folders found." }]
+      try {
+        const snapshot = await getSnapshot(signal);
+        const folders = snapshot
+          ? snapshot.folders.filter((f) => status === "all" || f.status === status).slice(0, limit)
+          : await executeAndParseJSON<FolderData[]>(script, {}, { signal });
+        
+        if (folders.length === 0) {
+          return toolResult("No folders found.", { count: 0, folders: [] });
+        }
+        
+        const output = {
+          count: folders.length,
+          folders: folders
         };
+        
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error listing folders");
       }
-      
-      const output = {
-        count: folders.length,
-        folders: folders
-      };
-      
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error listing folders: ${error instanceof Error ? error.message : String(error)}` }]
-      };
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Create Folder
-// ============================================================================
+  // ============================================================================
+  // Tool: Create Folder
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_create_folder",
-  {
-    title: "Create Folder",
-    description: `Create a new folder in OmniFocus.
+  server.registerTool(
+    "omnifocus_create_folder",
+    {
+      title: "Create Folder",
+      description: `Create a new folder in OmniFocus.
 
 Creates a folder at the top level or nested inside an existing folder.
 
@@ -109,64 +110,53 @@ Returns:
 Examples:
   - Top-level folder: { name: "Work" }
   - Nested folder: { name: "Q1", parentFolderName: "Work" }`,
-    inputSchema: CreateFolderInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { name, parentFolderName } = params;
-
-    const safeName = sanitizeInput(name, 500);
-    const safeParentName = parentFolderName ? sanitizeInput(parentFolderName, 500) : null;
-
-    const createScript = safeParentName
-      ? `
-        var parentFolder = doc.flattenedFolders().find(function(f) { return f.name() === "${safeParentName}"; });
-        if (!parentFolder) { throw new Error("Parent folder not found: ${safeParentName}"); }
-        var folder = app.Folder({name: "${safeName}"});
+      inputSchema: CreateFolderInputSchema,
+      outputSchema: FolderOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { name, parentFolderName } = params;
+
+      const createScript = parentFolderName
+        ? `
+        ${generateFindParentFolderScript()}
+        var folder = app.Folder({name: params.name});
         parentFolder.folders.push(folder);
       `
-      : `
-        var folder = app.Folder({name: "${safeName}"});
+        : `
+        var folder = app.Folder({name: params.name});
         doc.folders.push(folder);
       `;
 
-    const script = `
+      const script = `
       ${FOLDER_MAPPER}
       ${createScript}
       JSON.stringify(mapFolder(folder));
     `;
 
-    try {
-      const folder = await executeAndParseJSON<FolderData>(script);
-      return {
-        content: [{
-          type: "text",
-          text: `Folder created successfully:\n${JSON.stringify(folder, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error creating folder: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const folder = await executeAndParseJSON<FolderData>(script, params, { signal });
+        return toolResult(`Folder created successfully:\n${JSON.stringify(folder, null, 2)}`, folder);
+      } catch (error) {
+        return toolErrorResult(error, "Error creating folder");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Update Folder
-// ============================================================================
+  // ============================================================================
+  // Tool: Update Folder
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_update_folder",
-  {
-    title: "Update Folder",
-    description: `Rename an existing folder in OmniFocus.
+  server.registerTool(
+    "omnifocus_update_folder",
+    {
+      title: "Update Folder",
+      description: `Rename an existing folder in OmniFocus.
 
 Args:
   - folderId (string, optional): The folder's ID. Takes priority if both folderId and folderName provided.
@@ -181,62 +171,50 @@ Returns:
 Examples:
   - Rename by ID: { folderId: "abc123", name: "Archive" }
   - Rename by name: { folderName: "Q1", name: "Q1 2027" }`,
-    inputSchema: UpdateFolderInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { folderId, folderName, name } = params;
-
-    const safeFolderId = folderId ? sanitizeInput(folderId, 100) : null;
-    const safeFolderName = folderName ? sanitizeInput(folderName, 500) : null;
-
-    if (!safeFolderId && !safeFolderName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either folderId or folderName must be provided" }]
-      };
-    }
+      inputSchema: UpdateFolderInputSchema,
+      outputSchema: FolderOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { folderId, folderName, name } = params;
+
+      const invalid = referenceError("folder", folderId, folderName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const findFolderScript = generateFindFolderScript(safeFolderId, safeFolderName);
+      const findFolderScript = generateFindFolderScript(folderId ? "id" : "name");
 
-    const script = `
+      const script = `
       ${FOLDER_MAPPER}
       ${findFolderScript}
-      folder.name = "${sanitizeInput(name, 500)}";
+      folder.name = params.name;
       JSON.stringify(mapFolder(folder));
     `;
 
-    try {
-      const folder = await executeAndParseJSON<FolderData>(script);
-      return {
-        content: [{
-          type: "text",
-          text: `Folder updated:\n${JSON.stringify(folder, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error updating folder: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const folder = await executeAndParseJSON<FolderData>(script, params, { signal });
+        return toolResult(`Folder updated:\n${JSON.stringify(folder, null, 2)}`, folder);
+      } catch (error) {
+        return toolErrorResult(error, "Error updating folder");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Delete Folder
-// ============================================================================
+  // ============================================================================
+  // Tool: Delete Folder
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_delete_folder",
-  {
-    title: "Delete Folder",
-    description: `Permanently delete a folder from OmniFocus, including any projects and folders it contains. This cannot be undone via MCP.
+  server.registerTool(
+    "omnifocus_delete_folder",
+    {
+      title: "Delete Folder",
+      description: `Permanently delete a folder from OmniFocus, including any projects and folders it contains. This cannot be undone via MCP.
 
 Use either the folder ID from list/search results, or the folder name.
 
@@ -250,49 +228,38 @@ Returns:
 Examples:
   - Delete by ID: { folderId: "abc123" }
   - Delete by name: { folderName: "Old folder" }`,
-    inputSchema: DeleteFolderInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { folderId, folderName } = params;
-
-    const safeFolderId = folderId ? sanitizeInput(folderId, 100) : null;
-    const safeFolderName = folderName ? sanitizeInput(folderName, 500) : null;
-
-    if (!safeFolderId && !safeFolderName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either folderId or folderName must be provided" }]
-      };
-    }
+      inputSchema: DeleteFolderInputSchema,
+      outputSchema: DeletedOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { folderId, folderName } = params;
 
-    const findFolderScript = generateFindFolderScript(safeFolderId, safeFolderName);
+      const invalid = referenceError("folder", folderId, folderName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const script = `
+      const findFolderScript = generateFindFolderScript(folderId ? "id" : "name");
+
+      const script = `
       ${findFolderScript}
       var deletedName = folder.name();
       app.delete(folder);
       JSON.stringify({ deleted: true, name: deletedName });
     `;
 
-    try {
-      const result = await executeAndParseJSON<{ deleted: boolean; name: string }>(script);
-      return {
-        content: [{
-          type: "text",
-          text: `Folder deleted: "${result.name}"`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error deleting folder: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const result = await executeAndParseJSON<{ deleted: boolean; name: string }>(script, params, { signal });
+        return toolResult(`Folder deleted: "${result.name}"`, result);
+      } catch (error) {
+        return toolErrorResult(error, "Error deleting folder");
+      }
     }
-  }
-);
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * Journal tools: list the changes mutating tools made, and undo one.
+ */
+
+import { toolErrorResult } from "../errors.js";
+import { describeEntry, listJournal, undoChange } from "../journal.js";
+import { ListRecentChangesInputSchema, UndoChangeInputSchema } from "../schemas.js";
+import { toolResult, RecentChangesOutputSchema, UndoOutputSchema } from "../outputs.js";
+import type { ToolServer } from "../server.js";
+
+/** Registers the journal tools on `server`. */
+export function registerJournalTools(server: ToolServer): void {
+  // ============================================================================
+  // Tool: List Recent Changes
+  // ============================================================================
+
+  server.registerTool(
+    "omnifocus_list_recent_changes",
+    {
+      title: "List Recent Changes",
+      description: `List recent changes made through this server, newest first, with the IDs omnifocus_undo_change takes.
+
+Every create, update, complete, tag, review and delete call is recorded with the state of the tasks, projects or folders it changed before and after. Changes made in the OmniFocus app itself are not.
+
+Args:
+  - limit (number): Maximum changes to return, 1-100 (default: 20)
+  - objectId (string, optional): Only list changes to the task, project or folder with this ID
+
+Returns:
+  Changes with id, time, tool, principal (HTTP client), undoes/undoneBy (IDs of related undos), undoable, and per object: kind, id, name, action (created, updated, deleted) and, for updates, the changed fields with their before and after values
+
+Examples:
+  - Latest changes: {}
+  - History of one task: { objectId: "abc123" }`,
+      inputSchema: ListRecentChangesInputSchema,
+      outputSchema: RecentChangesOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params) => {
+      const { limit, objectId } = params;
+
+      const entries = listJournal()
+        .reverse()
+        .filter((entry) => !objectId || entry.changes.some((change) => change.id === objectId))
+        .slice(0, limit);
+
+      if (entries.length === 0) {
+        return toolResult("No changes recorded.", { count: 0, changes: [] });
+      }
+
+      const output = {
+        count: entries.length,
+        changes: entries.map(describeEntry)
+      };
+
+      return toolResult(JSON.stringify(output, null, 2), output);
+    }
+  );
+
+  // ============================================================================
+  // Tool: Undo Change
+  // ============================================================================
+
+  server.registerTool(
+    "omnifocus_undo_change",
+    {
+      title: "Undo Change",
+      description: `Undo a change listed by omnifocus_list_recent_changes by applying its inverse.
+
+Created tasks, projects and folders are deleted (projects and folders only while empty). Deleted tasks are recreated with their subtasks, notes and tags in their old project or the inbox; they get new IDs. Changed tasks and projects get their old field values back, and completed or dropped tasks are reopened. Changes that deleted a project or folder cannot be undone.
+
+The undo is recorded as a change itself, so it can be undone in turn. Changes made to the same objects after the undone one are overwritten.
+
+Args:
+  - changeId (string): ID of the change to undo
+
+Returns:
+  The change the undo made (same shape as omnifocus_list_recent_changes), with notes on anything it could not take back, such as the next occurrence of a completed repeating task
+
+Examples:
+  - Undo: { changeId: "2f1c7f0e-..." }`,
+      inputSchema: UndoChangeInputSchema,
+      outputSchema: UndoOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { changeId } = params;
+
+      try {
+        const { entry, notes } = await undoChange(changeId, signal);
+        const output = { ...describeEntry(entry), notes };
+        return toolResult(`Change undone:\n${JSON.stringify(output, null, 2)}`, output);
+      } catch (error) {
+        return toolErrorResult(error, "Error undoing change");
+      }
+    }
+  );
+}
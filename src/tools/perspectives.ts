@@ -2,25 +2,28 @@
  * Perspective tools: list perspectives and read a perspective's tasks.
  */
 
-import { server } from "../server.js";
 import { executeAndParseJSON } from "../executor.js";
+import { toolErrorResult } from "../errors.js";
 import type { PerspectiveData, TaskData } from "../types.js";
-import { sanitizeInput } from "../sanitization.js";
 import { PERSPECTIVE_MAPPER, TASK_MAPPER } from "../mappers.js";
 import {
   ListPerspectivesInputSchema,
   GetPerspectiveTasksInputSchema
 } from "../schemas.js";
+import { toolResult, PerspectiveListOutputSchema, PerspectiveTasksOutputSchema } from "../outputs.js";
+import type { ToolServer } from "../server.js";
 
-// ============================================================================
-// Tool: List Perspectives
-// ============================================================================
+/** Registers the perspective tools on `server`. */
+export function registerPerspectiveTools(server: ToolServer): void {
+  // ============================================================================
+  // Tool: List Perspectives
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_list_perspectives",
-  {
-    title: "List Perspectives",
-    description: `List perspectives in OmniFocus.
+  server.registerTool(
+    "omnifocus_list_perspectives",
+    {
+      title: "List Perspectives",
+      description: `List perspectives in OmniFocus.
 
 Perspectives are saved views/filters that show specific subsets of tasks. Includes both built-in and custom perspectives.
 
@@ -33,57 +36,51 @@ Returns:
 Examples:
   - List perspectives: {}
   - Limit results: { limit: 10 }`,
-    inputSchema: ListPerspectivesInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { limit } = params;
+      inputSchema: ListPerspectivesInputSchema,
+      outputSchema: PerspectiveListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { limit } = params;
 
-    const script = `
+      const script = `
       ${PERSPECTIVE_MAPPER}
       JSON.stringify(mapPerspectives(${limit}));
     `;
 
-    try {
-      const perspectives = await executeAndParseJSON<PerspectiveData[]>(script);
+      try {
+        const perspectives = await executeAndParseJSON<PerspectiveData[]>(script, {}, { signal });
+
+        if (perspectives.length === 0) {
+          return toolResult("No perspectives found.", { count: 0, perspectives: [] });
+        }
 
-      if (perspectives.length === 0) {
-        return {
-          content: [{ type: "text", text: "No perspectives found." }]
+        const output = {
+          count: perspectives.length,
+          perspectives: perspectives
         };
-      }
 
-      const output = {
-        count: perspectives.length,
-        perspectives: perspectives
-      };
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error listing perspectives: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error listing perspectives");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Get Perspective Tasks
-// ============================================================================
+  // ============================================================================
+  // Tool: Get Perspective Tasks
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_get_perspective_tasks",
-  {
-    title: "Get Perspective Tasks",
-    description: `Get tasks shown in a specific OmniFocus perspective.
+  server.registerTool(
+    "omnifocus_get_perspective_tasks",
+    {
+      title: "Get Perspective Tasks",
+      description: `Get tasks shown in a specific OmniFocus perspective.
 
 Switches the front OmniFocus window to the named perspective, reads the tasks it displays, then restores the original perspective.
 
@@ -97,30 +94,29 @@ Returns:
 Examples:
   - Get tasks from a perspective: { perspectiveName: "Next" }
   - With limit: { perspectiveName: "Forecast", limit: 10 }`,
-    inputSchema: GetPerspectiveTasksInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { perspectiveName, limit } = params;
-
-    const safePerspectiveName = sanitizeInput(perspectiveName, 200);
+      inputSchema: GetPerspectiveTasksInputSchema,
+      outputSchema: PerspectiveTasksOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { perspectiveName, limit } = params;
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
       var win = doc.documentWindows[0];
       if (!win) { throw new Error("No OmniFocus window is open. Please open OmniFocus."); }
 
       var originalPerspective = win.perspectiveName();
-      win.perspectiveName = "${safePerspectiveName}";
+      win.perspectiveName = params.perspectiveName;
 
       // Verify the perspective was applied
-      if (win.perspectiveName() !== "${safePerspectiveName}") {
-        throw new Error("Perspective not found: ${safePerspectiveName}");
+      if (win.perspectiveName() !== params.perspectiveName) {
+        throw omnifocusError("NOT_FOUND", "Perspective not found: " + params.perspectiveName);
       }
 
       var content = win.content();
@@ -133,37 +129,31 @@ Examples:
       var idSet = {};
       leafIds.forEach(function(id) { idSet[id] = true; });
 
-      // Find matching tasks and map them
-      var matched = doc.flattenedTasks().filter(function(t) {
-        return idSet[t.id()] === true;
+      // Map all tasks in bulk and keep the ones the perspective shows
+      var matched = mapTasks(doc.flattenedTasks).filter(function(t) {
+        return idSet[t.id] === true;
       }).slice(0, ${limit});
 
-      JSON.stringify(matched.map(mapTask));
+      JSON.stringify(matched);
     `;
 
-    try {
-      const tasks = await executeAndParseJSON<TaskData[]>(script);
+      try {
+        const tasks = await executeAndParseJSON<TaskData[]>(script, params, { signal });
+
+        if (tasks.length === 0) {
+          return toolResult(`No tasks found in perspective "${perspectiveName}".`, { perspectiveName, count: 0, tasks: [] });
+        }
 
-      if (tasks.length === 0) {
-        return {
-          content: [{ type: "text", text: `No tasks found in perspective "${perspectiveName}".` }]
+        const output = {
+          perspectiveName,
+          count: tasks.length,
+          tasks
         };
-      }
 
-      const output = {
-        perspectiveName,
-        count: tasks.length,
-        tasks
-      };
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error getting perspective tasks: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error getting perspective tasks");
+      }
     }
-  }
-);
+  );
+}
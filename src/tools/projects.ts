@@ -2,12 +2,12 @@
  * Project tools: list, project tasks, create/update/delete, and notes.
  */
 
-import { server } from "../server.js";
 import { executeAndParseJSON } from "../executor.js";
+import { getSnapshot, containsText, type OmniFocusSnapshot } from "../cache.js";
+import { toolErrorResult, OmniFocusNotFoundError } from "../errors.js";
 import type { ProjectData, TaskData } from "../types.js";
-import { sanitizeInput } from "../sanitization.js";
 import { PROJECT_MAPPER, TASK_MAPPER } from "../mappers.js";
-import { STATUS_MAP, generateFindProjectScript, generateSetProjectStatusScript } from "../helpers.js";
+import { STATUS_MAP, generateFindProjectScript, generateFindFolderScript, generateSetProjectStatusScript, referenceError, projectUpdateError } from "../helpers.js";
 import {
   ListProjectsInputSchema,
   GetProjectTasksInputSchema,
@@ -16,16 +16,31 @@ import {
   DeleteProjectInputSchema,
   UpdateProjectNoteInputSchema
 } from "../schemas.js";
+import { toolResult, DeletedOutputSchema, ProjectListOutputSchema, ProjectOutputSchema, TaskListOutputSchema } from "../outputs.js";
+import type { ToolServer } from "../server.js";
 
-// ============================================================================
-// Tool: List Projects
-// ============================================================================
-
-server.registerTool(
-  "omnifocus_list_projects",
-  {
-    title: "List Projects",
-    description: `List projects in OmniFocus.
+/** A project's tasks from a snapshot, in project.flattenedTasks order. */
+function projectTasksFromSnapshot(snapshot: OmniFocusSnapshot, projectId: string, includeCompleted: boolean): TaskData[] {
+  if (!Object.hasOwn(snapshot.projectTaskIds, projectId)) {
+    throw new OmniFocusNotFoundError(`Project not found with ID: ${projectId}`);
+  }
+  const tasksById = new Map(snapshot.tasks.map((task) => [task.id, task]));
+  return snapshot.projectTaskIds[projectId]
+    .map((id) => tasksById.get(id))
+    .filter((task): task is TaskData => task !== undefined && (includeCompleted || !task.completed));
+}
+
+/** Registers the project tools on `server`. */
+export function registerProjectTools(server: ToolServer): void {
+  // ============================================================================
+  // Tool: List Projects
+  // ============================================================================
+
+  server.registerTool(
+    "omnifocus_list_projects",
+    {
+      title: "List Projects",
+      description: `List projects in OmniFocus.
 
 Returns projects with their status, dates, and folder information.
 
@@ -41,72 +56,70 @@ Examples:
   - List active projects: {}
   - List all projects: { status: "all" }
   - Projects in a folder: { folderName: "Work" }`,
-    inputSchema: ListProjectsInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { status, folderName, limit } = params;
+      inputSchema: ListProjectsInputSchema,
+      outputSchema: ProjectListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { status, folderName, limit } = params;
 
-    let statusFilter = "";
-    if (status !== "all") {
-      statusFilter = `.filter(function(p) { return String(p.status()) === "${STATUS_MAP[status]}"; })`;
-    }
+      let statusFilter = "";
+      if (status !== "all") {
+        statusFilter = `.filter(function(p) { return p.status === "${STATUS_MAP[status]}"; })`;
+      }
 
-    let folderFilter = "";
-    if (folderName) {
-      const safeFolderName = sanitizeInput(folderName, 500);
-      folderFilter = `.filter(function(p) {
-        var pf = p.folder();
-        return pf && pf.name().toLowerCase().indexOf("${safeFolderName.toLowerCase()}") !== -1;
+      let folderFilter = "";
+      if (folderName) {
+        folderFilter = `.filter(function(p) {
+        return p.folderName !== null && p.folderName.toLowerCase().indexOf(params.folderName.toLowerCase()) !== -1;
       })`;
-    }
+      }
 
-    const script = `
+      const script = `
       ${PROJECT_MAPPER}
-      var projects = doc.flattenedProjects()${statusFilter}${folderFilter}.slice(0, ${limit});
-      JSON.stringify(projects.map(mapProject));
+      var projects = mapProjects(doc.flattenedProjects)${statusFilter}${folderFilter}.slice(0, ${limit});
+      JSON.stringify(projects);
     `;
-    
-    try {
-      const projects = await executeAndParseJSON<ProjectData[]>(script);
       
-      if (projects.length === 0) {
-        return {
-          content: [{ type: "text", text: "No projects found matching criteria." }]
+      try {
+        const snapshot = await getSnapshot(signal);
+        const projects = snapshot
+          ? snapshot.projects
+            .filter((p) => status === "all" || p.status === STATUS_MAP[status])
+            .filter((p) => !folderName || containsText(p.folderName, folderName))
+            .slice(0, limit)
+          : await executeAndParseJSON<ProjectData[]>(script, params, { signal });
+        
+        if (projects.length === 0) {
+          return toolResult("No projects found matching criteria.", { count: 0, projects: [] });
+        }
+        
+        const output = {
+          count: projects.length,
+          projects: projects
         };
+        
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error listing projects");
       }
-      
-      const output = {
-        count: projects.length,
-        projects: projects
-      };
-      
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error listing projects: ${error instanceof Error ? error.message : String(error)}` }]
-      };
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Get Project Tasks
-// ============================================================================
+  // ============================================================================
+  // Tool: Get Project Tasks
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_get_project_tasks",
-  {
-    title: "Get Project Tasks",
-    description: `Get all tasks belonging to a specific project in OmniFocus.
+  server.registerTool(
+    "omnifocus_get_project_tasks",
+    {
+      title: "Get Project Tasks",
+      description: `Get all tasks belonging to a specific project in OmniFocus.
 
 Returns the tasks within a project, including subtasks. Use omnifocus_list_projects to find project IDs first.
 
@@ -121,65 +134,59 @@ Returns:
 Examples:
   - Get tasks for a project: { projectId: "abc123" }
   - Include completed: { projectId: "abc123", includeCompleted: true }`,
-    inputSchema: GetProjectTasksInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { projectId, includeCompleted, limit } = params;
-    const safeProjectId = sanitizeInput(projectId, 500);
+      inputSchema: GetProjectTasksInputSchema,
+      outputSchema: TaskListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { projectId, includeCompleted, limit } = params;
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
-      var project = doc.flattenedProjects().find(function(p) { return p.id() === "${safeProjectId}"; });
+      var project = doc.flattenedProjects().find(function(p) { return p.id() === params.projectId; });
       if (!project) {
-        throw new Error("Project not found with ID: ${safeProjectId}");
+        throw omnifocusError("NOT_FOUND", "Project not found with ID: " + params.projectId);
       }
-      var tasks = project.flattenedTasks();
-      ${!includeCompleted ? 'tasks = tasks.filter(function(t) { return !t.completed(); });' : ''}
-      tasks = tasks.slice(0, ${limit});
-      JSON.stringify(tasks.map(mapTask));
+      var tasks = mapTasks(${includeCompleted ? 'project.flattenedTasks' : 'project.flattenedTasks.whose({completed: false})'});
+      JSON.stringify(tasks.slice(0, ${limit}));
     `;
 
-    try {
-      const tasks = await executeAndParseJSON<TaskData[]>(script);
+      try {
+        const snapshot = await getSnapshot(signal);
+        const tasks = snapshot
+          ? projectTasksFromSnapshot(snapshot, projectId, includeCompleted).slice(0, limit)
+          : await executeAndParseJSON<TaskData[]>(script, params, { signal });
+
+        if (tasks.length === 0) {
+          return toolResult("No tasks found in this project.", { count: 0, tasks: [] });
+        }
 
-      if (tasks.length === 0) {
-        return {
-          content: [{ type: "text", text: "No tasks found in this project." }]
+        const output = {
+          count: tasks.length,
+          tasks: tasks
         };
-      }
 
-      const output = {
-        count: tasks.length,
-        tasks: tasks
-      };
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error getting project tasks: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error getting project tasks");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Create Project
-// ============================================================================
+  // ============================================================================
+  // Tool: Create Project
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_create_project",
-  {
-    title: "Create Project",
-    description: `Create a new project in OmniFocus.
+  server.registerTool(
+    "omnifocus_create_project",
+    {
+      title: "Create Project",
+      description: `Create a new project in OmniFocus.
 
 Creates a project at the top level or inside a specific folder. Optional properties like due date, defer date, flags, and sequential ordering can be set.
 
@@ -200,73 +207,59 @@ Examples:
   - Simple project: { name: "Launch website" }
   - In a folder: { name: "Q1 Planning", folderName: "Work" }
   - With details: { name: "Write book", dueDate: "2024-12-31T17:00:00", sequential: true, flagged: true }`,
-    inputSchema: CreateProjectInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { name, note, folderName, dueDate, deferDate, flagged, sequential, status } = params;
-
-    const safeName = sanitizeInput(name, 500);
-    const safeNote = note ? sanitizeInput(note, 10000) : "";
-    const safeFolderName = folderName ? sanitizeInput(folderName, 500) : null;
-    const safeDueDate = dueDate ? sanitizeInput(dueDate, 100) : null;
-    const safeDeferDate = deferDate ? sanitizeInput(deferDate, 100) : null;
-
-    const createScript = safeFolderName
-      ? `
-        var folder = doc.flattenedFolders().find(function(f) { return f.name() === "${safeFolderName}"; });
-        if (!folder) { throw new Error("Folder not found: ${safeFolderName}"); }
-        var project = app.Project({name: "${safeName}"});
+      inputSchema: CreateProjectInputSchema,
+      outputSchema: ProjectOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { name, note, folderName, dueDate, deferDate, flagged, sequential, status } = params;
+
+      const createScript = folderName
+        ? `
+        ${generateFindFolderScript("name")}
+        var project = app.Project({name: params.name});
         folder.projects.push(project);
       `
-      : `
-        var project = app.Project({name: "${safeName}"});
+        : `
+        var project = app.Project({name: params.name});
         doc.projects.push(project);
       `;
 
-    const script = `
+      const script = `
       ${PROJECT_MAPPER}
       ${createScript}
-      ${safeNote ? `project.note = "${safeNote}";` : ""}
-      ${safeDueDate ? `project.dueDate = new Date("${safeDueDate}");` : ""}
-      ${safeDeferDate ? `project.deferDate = new Date("${safeDeferDate}");` : ""}
+      ${note ? `project.note = params.note;` : ""}
+      ${dueDate ? `project.dueDate = new Date(params.dueDate);` : ""}
+      ${deferDate ? `project.deferDate = new Date(params.deferDate);` : ""}
       ${flagged ? `project.flagged = true;` : ""}
       project.sequential = ${sequential};
       ${generateSetProjectStatusScript(status)}
       JSON.stringify(mapProject(project));
     `;
 
-    try {
-      const project = await executeAndParseJSON<ProjectData>(script);
-      return {
-        content: [{
-          type: "text",
-          text: `Project created successfully:\n${JSON.stringify(project, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error creating project: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const project = await executeAndParseJSON<ProjectData>(script, params, { signal });
+        return toolResult(`Project created successfully:\n${JSON.stringify(project, null, 2)}`, project);
+      } catch (error) {
+        return toolErrorResult(error, "Error creating project");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Update Project
-// ============================================================================
+  // ============================================================================
+  // Tool: Update Project
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_update_project",
-  {
-    title: "Update Project",
-    description: `Update properties of an existing project in OmniFocus.
+  server.registerTool(
+    "omnifocus_update_project",
+    {
+      title: "Update Project",
+      description: `Update properties of an existing project in OmniFocus.
 
 Only the fields you provide are changed. Use null to clear a date or note field.
 
@@ -294,103 +287,83 @@ Examples:
   - Drop the project: { projectId: "abc123", status: "dropped" }
   - Set review interval: { projectId: "abc123", reviewIntervalDays: 14 }
   - Clear due date: { projectId: "abc123", dueDate: null }`,
-    inputSchema: UpdateProjectInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { projectId, projectName, name, note, status, flagged, dueDate, deferDate, sequential, reviewIntervalDays } = params;
-
-    const safeProjectId = projectId ? sanitizeInput(projectId, 100) : null;
-    const safeProjectName = projectName ? sanitizeInput(projectName, 500) : null;
-
-    if (!safeProjectId && !safeProjectName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either projectId or projectName must be provided" }]
-      };
-    }
+      inputSchema: UpdateProjectInputSchema,
+      outputSchema: ProjectOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { projectId, projectName, name, note, status, flagged, dueDate, deferDate, sequential, reviewIntervalDays } = params;
 
-    const findProjectScript = generateFindProjectScript(safeProjectId, safeProjectName);
+      const invalid = referenceError("project", projectId, projectName) ?? projectUpdateError(params);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const updateLines: string[] = [];
+      const findProjectScript = generateFindProjectScript(projectId ? "id" : "name");
 
-    if (name !== undefined) {
-      updateLines.push(`project.name = "${sanitizeInput(name, 500)}";`);
-    }
-    if (note !== undefined) {
-      const safeNote = note === null ? "" : sanitizeInput(note, 10000);
-      updateLines.push(`project.note = "${safeNote}";`);
-    }
-    if (status !== undefined) {
-      updateLines.push(generateSetProjectStatusScript(status));
-    }
-    if (flagged !== undefined) {
-      updateLines.push(`project.flagged = ${flagged};`);
-    }
-    if (dueDate !== undefined) {
-      updateLines.push(dueDate === null
-        ? `project.dueDate = null;`
-        : `project.dueDate = new Date("${sanitizeInput(dueDate, 100)}");`);
-    }
-    if (deferDate !== undefined) {
-      updateLines.push(deferDate === null
-        ? `project.deferDate = null;`
-        : `project.deferDate = new Date("${sanitizeInput(deferDate, 100)}");`);
-    }
-    if (sequential !== undefined) {
-      updateLines.push(`project.sequential = ${sequential};`);
-    }
-    if (reviewIntervalDays !== undefined) {
-      // reviewInterval is a record {unit, steps} in OmniFocus JXA; assigning a
-      // raw number of seconds segfaults osascript.
-      updateLines.push(`project.reviewInterval = {unit: "day", steps: ${reviewIntervalDays}};`);
-    }
+      const updateLines: string[] = [];
 
-    if (updateLines.length === 0) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "No fields to update were provided" }]
-      };
-    }
+      if (name !== undefined) {
+        updateLines.push(`project.name = params.name;`);
+      }
+      if (note !== undefined) {
+        updateLines.push(note === null ? `project.note = "";` : `project.note = params.note;`);
+      }
+      if (status !== undefined) {
+        updateLines.push(generateSetProjectStatusScript(status));
+      }
+      if (flagged !== undefined) {
+        updateLines.push(`project.flagged = ${flagged};`);
+      }
+      if (dueDate !== undefined) {
+        updateLines.push(dueDate === null
+          ? `project.dueDate = null;`
+          : `project.dueDate = new Date(params.dueDate);`);
+      }
+      if (deferDate !== undefined) {
+        updateLines.push(deferDate === null
+          ? `project.deferDate = null;`
+          : `project.deferDate = new Date(params.deferDate);`);
+      }
+      if (sequential !== undefined) {
+        updateLines.push(`project.sequential = ${sequential};`);
+      }
+      if (reviewIntervalDays !== undefined) {
+        // reviewInterval is a record {unit, steps} in OmniFocus JXA; assigning a
+        // raw number of seconds segfaults osascript.
+        updateLines.push(`project.reviewInterval = {unit: "day", steps: ${reviewIntervalDays}};`);
+      }
 
-    const script = `
+      const script = `
       ${PROJECT_MAPPER}
       ${findProjectScript}
       ${updateLines.join("\n      ")}
       JSON.stringify(mapProject(project));
     `;
 
-    try {
-      const project = await executeAndParseJSON<ProjectData>(script);
-      return {
-        content: [{
-          type: "text",
-          text: `Project updated:\n${JSON.stringify(project, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error updating project: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const project = await executeAndParseJSON<ProjectData>(script, params, { signal });
+        return toolResult(`Project updated:\n${JSON.stringify(project, null, 2)}`, project);
+      } catch (error) {
+        return toolErrorResult(error, "Error updating project");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Delete Project
-// ============================================================================
+  // ============================================================================
+  // Tool: Delete Project
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_delete_project",
-  {
-    title: "Delete Project",
-    description: `Permanently delete a project from OmniFocus, including its tasks. This cannot be undone via MCP.
+  server.registerTool(
+    "omnifocus_delete_project",
+    {
+      title: "Delete Project",
+      description: `Permanently delete a project from OmniFocus, including its tasks. This cannot be undone via MCP.
 
 Use either the project ID from list/search results, or the project name.
 
@@ -404,62 +377,50 @@ Returns:
 Examples:
   - Delete by ID: { projectId: "abc123" }
   - Delete by name: { projectName: "Old project" }`,
-    inputSchema: DeleteProjectInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { projectId, projectName } = params;
-
-    const safeProjectId = projectId ? sanitizeInput(projectId, 100) : null;
-    const safeProjectName = projectName ? sanitizeInput(projectName, 500) : null;
-
-    if (!safeProjectId && !safeProjectName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either projectId or projectName must be provided" }]
-      };
-    }
+      inputSchema: DeleteProjectInputSchema,
+      outputSchema: DeletedOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { projectId, projectName } = params;
 
-    const findProjectScript = generateFindProjectScript(safeProjectId, safeProjectName);
+      const invalid = referenceError("project", projectId, projectName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
+
+      const findProjectScript = generateFindProjectScript(projectId ? "id" : "name");
 
-    const script = `
+      const script = `
       ${findProjectScript}
       var deletedName = project.name();
       app.delete(project);
       JSON.stringify({ deleted: true, name: deletedName });
     `;
 
-    try {
-      const result = await executeAndParseJSON<{ deleted: boolean; name: string }>(script);
-      return {
-        content: [{
-          type: "text",
-          text: `Project deleted: "${result.name}"`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error deleting project: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const result = await executeAndParseJSON<{ deleted: boolean; name: string }>(script, params, { signal });
+        return toolResult(`Project deleted: "${result.name}"`, result);
+      } catch (error) {
+        return toolErrorResult(error, "Error deleting project");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Update Project Note
-// ============================================================================
+  // ============================================================================
+  // Tool: Update Project Note
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_update_project_note",
-  {
-    title: "Update Project Note",
-    description: `Update the note/description on an existing project in OmniFocus.
+  server.registerTool(
+    "omnifocus_update_project_note",
+    {
+      title: "Update Project Note",
+      description: `Update the note/description on an existing project in OmniFocus.
 
 Use either the project ID or project name to identify the project.
 
@@ -477,83 +438,43 @@ Examples:
   - Set note by name: { projectName: "Work Project", note: "Started Jan 2024" }
   - Clear note: { projectId: "abc123", note: "" }
   - Append to note: { projectId: "abc123", note: "\\nNew update", append: true }`,
-    inputSchema: UpdateProjectNoteInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { projectId, projectName, note, append } = params;
-
-    // Sanitize user inputs
-    const safeProjectId = projectId ? sanitizeInput(projectId, 100) : null;
-    const safeProjectName = projectName ? sanitizeInput(projectName, 500) : null;
-    const safeNote = sanitizeInput(note, 10000);
-
-    if (!safeProjectId && !safeProjectName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either projectId or projectName must be provided" }]
-      };
-    }
+      inputSchema: UpdateProjectNoteInputSchema,
+      outputSchema: ProjectOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { projectId, projectName, note, append } = params;
 
-    let findProjectScript: string;
-    if (safeProjectId) {
-      findProjectScript = `
-        var project = doc.flattenedProjects().find(function(p) { return p.id() === "${safeProjectId}"; });
-        if (!project) { throw new Error("Project not found with ID: ${safeProjectId}"); }
-      `;
-    } else {
-      findProjectScript = `
-        var allProjects = doc.flattenedProjects();
-        var project = allProjects.find(function(p) { return p.name() === "${safeProjectName}"; });
-        if (!project) {
-          var searchLower = "${safeProjectName!.toLowerCase()}";
-          var matches = allProjects.filter(function(p) {
-            return p.name().toLowerCase().indexOf(searchLower) !== -1;
-          });
-          if (matches.length === 0) {
-            throw new Error("No project found matching name: ${safeProjectName}");
-          } else if (matches.length > 1) {
-            var matchList = matches.map(function(p) {
-              var folder = p.folder();
-              return "- " + p.name() + " (ID: " + p.id() + (folder ? ", Folder: " + folder.name() : "") + ")";
-            }).join("\\n");
-            throw new Error("Multiple projects found matching '${safeProjectName}'. Please use projectId or be more specific:\\n" + matchList);
-          }
-          project = matches[0];
-        }
-      `;
-    }
+      const invalid = referenceError("project", projectId, projectName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const noteAssignment = append
-      ? `var existing = project.note() ? String(project.note()) : ""; project.note = existing + "${safeNote}";`
-      : `project.note = "${safeNote}";`;
+      const findProjectScript = generateFindProjectScript(projectId ? "id" : "match");
 
-    const script = `
+      const noteAssignment = append
+        ? `var existing = project.note() ? String(project.note()) : ""; project.note = existing + params.note;`
+        : `project.note = params.note;`;
+
+      const script = `
       ${PROJECT_MAPPER}
       ${findProjectScript}
       ${noteAssignment}
       JSON.stringify(mapProject(project));
     `;
 
-    try {
-      const project = await executeAndParseJSON<ProjectData>(script);
-
-      return {
-        content: [{
-          type: "text",
-          text: `Project note updated:\n${JSON.stringify(project, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error updating project note: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const project = await executeAndParseJSON<ProjectData>(script, params, { signal });
+
+        return toolResult(`Project note updated:\n${JSON.stringify(project, null, 2)}`, project);
+      } catch (error) {
+        return toolErrorResult(error, "Error updating project note");
+      }
     }
-  }
-);
+  );
+}
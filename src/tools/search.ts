@@ -1,23 +1,29 @@
 /**
- * Search tool: find tasks, projects, folders, and tags by query.
+ * Search tools: find tasks, projects, folders, and tags by query, and suggest
+ * the exact names other tools expect.
  */
 
-import { server } from "../server.js";
 import { executeAndParseJSON } from "../executor.js";
+import { getSnapshot, containsText } from "../cache.js";
+import { toolErrorResult } from "../errors.js";
 import type { TaskData, ProjectData, FolderData, TagData } from "../types.js";
-import { sanitizeInput } from "../sanitization.js";
 import { TASK_MAPPER, PROJECT_MAPPER, FOLDER_MAPPER, TAG_MAPPER } from "../mappers.js";
-import { SearchInputSchema } from "../schemas.js";
+import { suggestNames, NAME_KINDS, type NameKind } from "../names.js";
+import { SearchInputSchema, SuggestNamesInputSchema } from "../schemas.js";
+import { toolResult, SearchOutputSchema, SuggestNamesOutputSchema } from "../outputs.js";
+import type { ToolServer } from "../server.js";
 
-// ============================================================================
-// Tool: Search
-// ============================================================================
+/** Registers the search tools on `server`. */
+export function registerSearchTools(server: ToolServer): void {
+  // ============================================================================
+  // Tool: Search
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_search",
-  {
-    title: "Search OmniFocus",
-    description: `Search for tasks, projects, folders, or tags in OmniFocus.
+  server.registerTool(
+    "omnifocus_search",
+    {
+      title: "Search OmniFocus",
+      description: `Search for tasks, projects, folders, or tags in OmniFocus.
 
 Uses OmniFocus's smart matching to find items.
 
@@ -32,93 +38,145 @@ Returns:
 Examples:
   - Search all: { query: "report" }
   - Search projects only: { query: "work", searchType: "projects" }`,
-    inputSchema: SearchInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { query, searchType, limit } = params;
-
-    // Sanitize search query
-    const safeQuery = sanitizeInput(query, 200);
-
-    const results: Record<string, unknown[]> = {};
-
-    try {
-      if (searchType === "tasks" || searchType === "all") {
-        const taskScript = `
-          ${TASK_MAPPER}
-          var q = "${safeQuery}".toLowerCase();
-          var matched = doc.flattenedTasks().filter(function(t) {
-            var name = t.name().toLowerCase();
-            var note = t.note();
-            var noteStr = note ? String(note).toLowerCase() : "";
-            return name.indexOf(q) !== -1 || noteStr.indexOf(q) !== -1;
-          }).slice(0, ${limit});
-          JSON.stringify(matched.map(mapTask));
-        `;
-        results.tasks = await executeAndParseJSON<TaskData[]>(taskScript);
+      inputSchema: SearchInputSchema,
+      outputSchema: SearchOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
       }
+    },
+    async (params, { signal }) => {
+      const { query, searchType, limit } = params;
 
-      if (searchType === "projects" || searchType === "all") {
-        const projectScript = `
-          ${PROJECT_MAPPER}
-          var q = "${safeQuery}".toLowerCase();
-          var matched = doc.flattenedProjects().filter(function(p) {
-            return p.name().toLowerCase().indexOf(q) !== -1;
-          }).slice(0, ${limit});
-          JSON.stringify(matched.map(mapProject));
-        `;
-        results.projects = await executeAndParseJSON<ProjectData[]>(projectScript);
-      }
+      const results: Record<string, unknown[]> = {};
+
+      try {
+        const snapshot = await getSnapshot(signal);
+        if (snapshot) {
+          const matches = <T extends { name: string }>(items: T[], also?: (item: T) => string) =>
+            items.filter((item) => containsText(item.name, query) || (also !== undefined && containsText(also(item), query)))
+              .slice(0, limit);
+          if (searchType === "tasks" || searchType === "all") results.tasks = matches(snapshot.tasks, (t) => t.note);
+          if (searchType === "projects" || searchType === "all") results.projects = matches(snapshot.projects);
+          if (searchType === "folders" || searchType === "all") results.folders = matches(snapshot.folders);
+          if (searchType === "tags" || searchType === "all") results.tags = matches(snapshot.tags);
+        } else {
+          if (searchType === "tasks" || searchType === "all") {
+            const taskScript = `
+            ${TASK_MAPPER}
+            var q = params.query.toLowerCase();
+            var matched = mapTasks(doc.flattenedTasks).filter(function(t) {
+              return t.name.toLowerCase().indexOf(q) !== -1 || t.note.toLowerCase().indexOf(q) !== -1;
+            }).slice(0, ${limit});
+            JSON.stringify(matched);
+          `;
+            results.tasks = await executeAndParseJSON<TaskData[]>(taskScript, params, { signal });
+          }
+
+          if (searchType === "projects" || searchType === "all") {
+            const projectScript = `
+            ${PROJECT_MAPPER}
+            var q = params.query.toLowerCase();
+            var matched = mapProjects(doc.flattenedProjects).filter(function(p) {
+              return p.name.toLowerCase().indexOf(q) !== -1;
+            }).slice(0, ${limit});
+            JSON.stringify(matched);
+          `;
+            results.projects = await executeAndParseJSON<ProjectData[]>(projectScript, params, { signal });
+          }
+
+          if (searchType === "folders" || searchType === "all") {
+            const folderScript = `
+            ${FOLDER_MAPPER}
+            var q = params.query.toLowerCase();
+            var matched = doc.flattenedFolders().filter(function(f) {
+              return f.name().toLowerCase().indexOf(q) !== -1;
+            }).slice(0, ${limit});
+            JSON.stringify(matched.map(mapFolder));
+          `;
+            results.folders = await executeAndParseJSON<FolderData[]>(folderScript, params, { signal });
+          }
+
+          if (searchType === "tags" || searchType === "all") {
+            const tagScript = `
+            ${TAG_MAPPER}
+            var q = params.query.toLowerCase();
+            var matched = doc.flattenedTags().filter(function(t) {
+              return t.name().toLowerCase().indexOf(q) !== -1;
+            }).slice(0, ${limit});
+            JSON.stringify(matched.map(mapTag));
+          `;
+            results.tags = await executeAndParseJSON<TagData[]>(tagScript, params, { signal });
+          }
+        }
 
-      if (searchType === "folders" || searchType === "all") {
-        const folderScript = `
-          ${FOLDER_MAPPER}
-          var q = "${safeQuery}".toLowerCase();
-          var matched = doc.flattenedFolders().filter(function(f) {
-            return f.name().toLowerCase().indexOf(q) !== -1;
-          }).slice(0, ${limit});
-          JSON.stringify(matched.map(mapFolder));
-        `;
-        results.folders = await executeAndParseJSON<FolderData[]>(folderScript);
+        const totalCount = Object.values(results).reduce((sum, arr) => sum + arr.length, 0);
+        
+        if (totalCount === 0) {
+          return toolResult(`No results found for "${query}".`, { query, totalCount: 0, results });
+        }
+        
+        const output = { query, totalCount, results };
+
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error searching");
       }
+    }
+  );
+
+  // ============================================================================
+  // Tool: Suggest Names
+  // ============================================================================
+
+  server.registerTool(
+    "omnifocus_suggest_names",
+    {
+      title: "Suggest Names",
+      description: `Suggest exact project, tag, folder, or perspective names for a guess.
+
+Use this before passing projectName, tagName, folderName, or perspectiveName to another tool when unsure of the exact name. Matching ignores case and accents and tolerates typos.
 
-      if (searchType === "tags" || searchType === "all") {
-        const tagScript = `
-          ${TAG_MAPPER}
-          var q = "${safeQuery}".toLowerCase();
-          var matched = doc.flattenedTags().filter(function(t) {
-            return t.name().toLowerCase().indexOf(q) !== -1;
-          }).slice(0, ${limit});
-          JSON.stringify(matched.map(mapTag));
-        `;
-        results.tags = await executeAndParseJSON<TagData[]>(tagScript);
+Args:
+  - query (string): Name, or part of one
+  - nameType (string): 'projects', 'tags', 'folders', 'perspectives', or 'all' (default: 'all')
+  - limit (number): Max suggestions, 1-50 (default: 10)
+
+Returns:
+  Suggestions, best first, each with: kind, name, id, match ('exact', 'prefix', 'word', 'substring', or 'fuzzy')
+
+Examples:
+  - Any kind: { query: "grocer" }
+  - Tags only: { query: "urgnt", nameType: "tags" }`,
+      inputSchema: SuggestNamesInputSchema,
+      outputSchema: SuggestNamesOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
       }
-      
-      const totalCount = Object.values(results).reduce((sum, arr) => sum + arr.length, 0);
-      
-      if (totalCount === 0) {
-        return {
-          content: [{ type: "text", text: `No results found for "${query}".` }]
-        };
+    },
+    async (params, { signal }) => {
+      const { query, nameType, limit } = params;
+
+      const kinds: readonly NameKind[] = nameType === "all" ? NAME_KINDS : [nameType.slice(0, -1) as NameKind];
+
+      try {
+        const suggestions = await suggestNames(query, kinds, { limit, signal });
+
+        if (suggestions.length === 0) {
+          return toolResult(`No names found matching "${query}".`, { query, count: 0, suggestions: [] });
+        }
+
+        const output = { query, count: suggestions.length, suggestions };
+
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error suggesting names");
       }
-      
-      return {
-        content: [{ 
-          type: "text", 
-          text: JSON.stringify({ query, totalCount, results }, null, 2) 
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error searching: ${error instanceof Error ? error.message : String(error)}` }]
-      };
     }
-  }
-);
+  );
+}
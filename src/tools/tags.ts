@@ -2,12 +2,12 @@
  * Tag tools: list, add/remove on a single task, and batch add/remove.
  */
 
-import { server } from "../server.js";
 import { executeAndParseJSON } from "../executor.js";
+import { getSnapshot } from "../cache.js";
+import { toolErrorResult, type OmniFocusErrorCode } from "../errors.js";
 import type { TagData, TaskData } from "../types.js";
-import { sanitizeInput, sanitizeArray } from "../sanitization.js";
 import { TAG_MAPPER, TASK_MAPPER } from "../mappers.js";
-import { generateFindTaskScript } from "../helpers.js";
+import { generateFindTaskScript, generateFindTagScript, referenceError } from "../helpers.js";
 import {
   ListTagsInputSchema,
   AddTagInputSchema,
@@ -15,16 +15,20 @@ import {
   BatchAddTagInputSchema,
   BatchRemoveTagInputSchema
 } from "../schemas.js";
+import { toolResult, BatchTaskOutputSchema, TagListOutputSchema, TaskOutputSchema } from "../outputs.js";
+import type { ToolServer } from "../server.js";
 
-// ============================================================================
-// Tool: List Tags
-// ============================================================================
+/** Registers the tag tools on `server`. */
+export function registerTagTools(server: ToolServer): void {
+  // ============================================================================
+  // Tool: List Tags
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_list_tags",
-  {
-    title: "List Tags",
-    description: `List tags in OmniFocus.
+  server.registerTool(
+    "omnifocus_list_tags",
+    {
+      title: "List Tags",
+      description: `List tags in OmniFocus.
 
 Tags (formerly contexts) are used to categorize tasks by context, person, tool, etc.
 
@@ -38,67 +42,64 @@ Returns:
 Examples:
   - List active tags: {}
   - List all tags: { status: "all" }`,
-    inputSchema: ListTagsInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { status, limit } = params;
-    
-    let statusFilter = "";
-    if (status !== "all") {
-      if (status === "active") {
-        statusFilter = `.filter(function(t) { return !t.hidden(); })`;
-      } else if (status === "dropped" || status === "onHold") {
-        statusFilter = `.filter(function(t) { return t.hidden(); })`;
+      inputSchema: ListTagsInputSchema,
+      outputSchema: TagListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { status, limit } = params;
+      
+      let statusFilter = "";
+      if (status !== "all") {
+        if (status === "active") {
+          statusFilter = `.filter(function(t) { return !t.hidden(); })`;
+        } else if (status === "dropped" || status === "onHold") {
+          statusFilter = `.filter(function(t) { return t.hidden(); })`;
+        }
       }
-    }
 
-    const script = `
+      const script = `
       ${TAG_MAPPER}
       var allTags = doc.flattenedTags()${statusFilter}.slice(0, ${limit});
       JSON.stringify(allTags.map(mapTag));
     `;
-    
-    try {
-      const tags = await executeAndParseJSON<TagData[]>(script);
       
-      if (tags.length === 0) {
-        return {
-          content: [{ type: "text", text: "No tags found." }]
+      try {
+        const snapshot = await getSnapshot(signal);
+        const tags = snapshot
+          ? snapshot.tags.filter((t) => status === "all" || t.status === (status === "active" ? "active" : "dropped")).slice(0, limit)
+          : await executeAndParseJSON<TagData[]>(script, {}, { signal });
+        
+        if (tags.length === 0) {
+          return toolResult("No tags found.", { count: 0, tags: [] });
+        }
+        
+        const output = {
+          count: tags.length,
+          tags: tags
         };
+        
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error listing tags");
       }
-      
-      const output = {
-        count: tags.length,
-        tags: tags
-      };
-      
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error listing tags: ${error instanceof Error ? error.message : String(error)}` }]
-      };
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Add Tag to Task
-// ============================================================================
+  // ============================================================================
+  // Tool: Add Tag to Task
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_add_tag_to_task",
-  {
-    title: "Add Tag to Task",
-    description: `Add a tag to a task in OmniFocus.
+  server.registerTool(
+    "omnifocus_add_tag_to_task",
+    {
+      title: "Add Tag to Task",
+      description: `Add a tag to a task in OmniFocus.
 
 Use either the task ID or task name to identify the task.
 
@@ -113,40 +114,33 @@ Returns:
 Examples:
   - By ID: { taskId: "abc123", tagName: "Urgent" }
   - By name: { taskName: "Write report", tagName: "Urgent" }`,
-    inputSchema: AddTagInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskId, taskName, tagName } = params;
-
-    // Sanitize user inputs
-    const safeTaskId = taskId ? sanitizeInput(taskId, 100) : null;
-    const safeTaskName = taskName ? sanitizeInput(taskName, 500) : null;
-    const safeTagName = sanitizeInput(tagName, 200);
-
-    if (!safeTaskId && !safeTaskName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either taskId or taskName must be provided" }]
-      };
-    }
+      inputSchema: AddTagInputSchema,
+      outputSchema: TaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskId, taskName, tagName } = params;
+
+      const invalid = referenceError("task", taskId, taskName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const findTaskScript = generateFindTaskScript(safeTaskId, safeTaskName);
+      const findTaskScript = generateFindTaskScript(taskId ? "id" : "name");
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
       ${findTaskScript}
 
-      var tag = doc.flattenedTags().find(function(t) { return t.name() === "${safeTagName}"; });
-      if (!tag) { throw new Error("Tag not found: ${safeTagName}"); }
+      ${generateFindTagScript()}
 
       // Check if tag is already on task
-      var existingTag = task.tags().find(function(t) { return t.name() === "${safeTagName}"; });
+      var existingTag = task.tags().find(function(t) { return t.name() === params.tagName; });
       if (!existingTag) {
         app.add(tag, { to: task.tags });
       }
@@ -154,33 +148,25 @@ Examples:
       JSON.stringify(mapTask(task));
     `;
 
-    try {
-      const task = await executeAndParseJSON<TaskData>(script);
-
-      return {
-        content: [{
-          type: "text",
-          text: `Tag added:\n${JSON.stringify(task, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error adding tag: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const task = await executeAndParseJSON<TaskData>(script, params, { signal });
+
+        return toolResult(`Tag added:\n${JSON.stringify(task, null, 2)}`, task);
+      } catch (error) {
+        return toolErrorResult(error, "Error adding tag");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Remove Tag from Task
-// ============================================================================
+  // ============================================================================
+  // Tool: Remove Tag from Task
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_remove_tag_from_task",
-  {
-    title: "Remove Tag from Task",
-    description: `Remove a tag from a task in OmniFocus.
+  server.registerTool(
+    "omnifocus_remove_tag_from_task",
+    {
+      title: "Remove Tag from Task",
+      description: `Remove a tag from a task in OmniFocus.
 
 Use either the task ID or task name to identify the task.
 
@@ -195,36 +181,30 @@ Returns:
 Examples:
   - By ID: { taskId: "abc123", tagName: "Urgent" }
   - By name: { taskName: "Old task", tagName: "Done" }`,
-    inputSchema: RemoveTagInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskId, taskName, tagName } = params;
-
-    // Sanitize user inputs
-    const safeTaskId = taskId ? sanitizeInput(taskId, 100) : null;
-    const safeTaskName = taskName ? sanitizeInput(taskName, 500) : null;
-    const safeTagName = sanitizeInput(tagName, 200);
-
-    if (!safeTaskId && !safeTaskName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either taskId or taskName must be provided" }]
-      };
-    }
+      inputSchema: RemoveTagInputSchema,
+      outputSchema: TaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskId, taskName, tagName } = params;
+
+      const invalid = referenceError("task", taskId, taskName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const findTaskScript = generateFindTaskScript(safeTaskId, safeTaskName);
+      const findTaskScript = generateFindTaskScript(taskId ? "id" : "name");
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
       ${findTaskScript}
 
-      var tagOnTask = task.tags().find(function(t) { return t.name() === "${safeTagName}"; });
+      var tagOnTask = task.tags().find(function(t) { return t.name() === params.tagName; });
       if (tagOnTask) {
         app.remove(tagOnTask, { from: task.tags });
       }
@@ -232,33 +212,25 @@ Examples:
       JSON.stringify(mapTask(task));
     `;
 
-    try {
-      const task = await executeAndParseJSON<TaskData>(script);
-
-      return {
-        content: [{
-          type: "text",
-          text: `Tag removed:\n${JSON.stringify(task, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error removing tag: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const task = await executeAndParseJSON<TaskData>(script, params, { signal });
+
+        return toolResult(`Tag removed:\n${JSON.stringify(task, null, 2)}`, task);
+      } catch (error) {
+        return toolErrorResult(error, "Error removing tag");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Batch Add Tag to Tasks
-// ============================================================================
+  // ============================================================================
+  // Tool: Batch Add Tag to Tasks
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_batch_add_tag",
-  {
-    title: "Batch Add Tag to Tasks",
-    description: `Add the same tag to multiple tasks in one operation.
+  server.registerTool(
+    "omnifocus_batch_add_tag",
+    {
+      title: "Batch Add Tag to Tasks",
+      description: `Add the same tag to multiple tasks in one operation.
 
 The tag must already exist. Tasks that already have the tag are left unchanged.
 
@@ -271,27 +243,23 @@ Returns:
 
 Examples:
   - Tag several tasks: { taskIds: ["id1", "id2"], tagName: "Urgent" }`,
-    inputSchema: BatchAddTagInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskIds, tagName } = params;
-
-    const safeTaskIds = sanitizeArray(taskIds, 100, 100);
-    const taskIdsJson = JSON.stringify(safeTaskIds);
-    const safeTagName = sanitizeInput(tagName, 200);
+      inputSchema: BatchAddTagInputSchema,
+      outputSchema: BatchTaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskIds, tagName } = params;
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
-      var tag = doc.flattenedTags().find(function(t) { return t.name() === "${safeTagName}"; });
-      if (!tag) { throw new Error("Tag not found: ${safeTagName}"); }
+      ${generateFindTagScript()}
 
-      var targetIds = ${taskIdsJson};
+      var targetIds = params.taskIds;
       var allTasks = doc.flattenedTasks();
       var results = { successful: [], failed: [] };
 
@@ -299,60 +267,52 @@ Examples:
         try {
           var task = allTasks.find(function(t) { return t.id() === taskId; });
           if (!task) {
-            results.failed.push({ taskId: taskId, error: "Task not found" });
+            results.failed.push({ taskId: taskId, code: "NOT_FOUND", error: "Task not found" });
             return;
           }
-          var existingTag = task.tags().find(function(t) { return t.name() === "${safeTagName}"; });
+          var existingTag = task.tags().find(function(t) { return t.name() === params.tagName; });
           if (!existingTag) {
             app.add(tag, { to: task.tags });
           }
           results.successful.push(mapTask(task));
         } catch (e) {
-          results.failed.push({ taskId: taskId, error: String(e) });
+          results.failed.push({ taskId: taskId, code: e && e.omnifocusCode ? e.omnifocusCode : "SCRIPT_ERROR", error: String(e) });
         }
       });
 
       JSON.stringify(results);
     `;
 
-    try {
-      const results = await executeAndParseJSON<{
-        successful: TaskData[];
-        failed: Array<{ taskId: string; error: string }>;
-      }>(script);
-
-      const output = {
-        totalRequested: taskIds.length,
-        successCount: results.successful.length,
-        failureCount: results.failed.length,
-        tasks: results.successful,
-        failures: results.failed
-      };
-
-      return {
-        content: [{
-          type: "text",
-          text: `Tag "${tagName}" added to ${results.successful.length} task(s)${results.failed.length > 0 ? ` (${results.failed.length} failed)` : ""}:\n${JSON.stringify(output, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error in batch add tag: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const results = await executeAndParseJSON<{
+          successful: TaskData[];
+          failed: Array<{ taskId: string; code: OmniFocusErrorCode; error: string }>;
+        }>(script, params, { signal });
+
+        const output = {
+          totalRequested: taskIds.length,
+          successCount: results.successful.length,
+          failureCount: results.failed.length,
+          tasks: results.successful,
+          failures: results.failed
+        };
+
+        return toolResult(`Tag "${tagName}" added to ${results.successful.length} task(s)${results.failed.length > 0 ? ` (${results.failed.length} failed)` : ""}:\n${JSON.stringify(output, null, 2)}`, output);
+      } catch (error) {
+        return toolErrorResult(error, "Error in batch add tag");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Batch Remove Tag from Tasks
-// ============================================================================
+  // ============================================================================
+  // Tool: Batch Remove Tag from Tasks
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_batch_remove_tag",
-  {
-    title: "Batch Remove Tag from Tasks",
-    description: `Remove the same tag from multiple tasks in one operation.
+  server.registerTool(
+    "omnifocus_batch_remove_tag",
+    {
+      title: "Batch Remove Tag from Tasks",
+      description: `Remove the same tag from multiple tasks in one operation.
 
 Tasks that do not have the tag are left unchanged.
 
@@ -365,24 +325,21 @@ Returns:
 
 Examples:
   - Untag several tasks: { taskIds: ["id1", "id2"], tagName: "Waiting" }`,
-    inputSchema: BatchRemoveTagInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskIds, tagName } = params;
-
-    const safeTaskIds = sanitizeArray(taskIds, 100, 100);
-    const taskIdsJson = JSON.stringify(safeTaskIds);
-    const safeTagName = sanitizeInput(tagName, 200);
+      inputSchema: BatchRemoveTagInputSchema,
+      outputSchema: BatchTaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskIds, tagName } = params;
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
-      var targetIds = ${taskIdsJson};
+      var targetIds = params.taskIds;
       var allTasks = doc.flattenedTasks();
       var results = { successful: [], failed: [] };
 
@@ -390,47 +347,40 @@ Examples:
         try {
           var task = allTasks.find(function(t) { return t.id() === taskId; });
           if (!task) {
-            results.failed.push({ taskId: taskId, error: "Task not found" });
+            results.failed.push({ taskId: taskId, code: "NOT_FOUND", error: "Task not found" });
             return;
           }
-          var tagOnTask = task.tags().find(function(t) { return t.name() === "${safeTagName}"; });
+          var tagOnTask = task.tags().find(function(t) { return t.name() === params.tagName; });
           if (tagOnTask) {
             app.remove(tagOnTask, { from: task.tags });
           }
           results.successful.push(mapTask(task));
         } catch (e) {
-          results.failed.push({ taskId: taskId, error: String(e) });
+          results.failed.push({ taskId: taskId, code: e && e.omnifocusCode ? e.omnifocusCode : "SCRIPT_ERROR", error: String(e) });
         }
       });
 
       JSON.stringify(results);
     `;
 
-    try {
-      const results = await executeAndParseJSON<{
-        successful: TaskData[];
-        failed: Array<{ taskId: string; error: string }>;
-      }>(script);
-
-      const output = {
-        totalRequested: taskIds.length,
-        successCount: results.successful.length,
-        failureCount: results.failed.length,
-        tasks: results.successful,
-        failures: results.failed
-      };
-
-      return {
-        content: [{
-          type: "text",
-          text: `Tag "${tagName}" removed from ${results.successful.length} task(s)${results.failed.length > 0 ? ` (${results.failed.length} failed)` : ""}:\n${JSON.stringify(output, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error in batch remove tag: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const results = await executeAndParseJSON<{
+          successful: TaskData[];
+          failed: Array<{ taskId: string; code: OmniFocusErrorCode; error: string }>;
+        }>(script, params, { signal });
+
+        const output = {
+          totalRequested: taskIds.length,
+          successCount: results.successful.length,
+          failureCount: results.failed.length,
+          tasks: results.successful,
+          failures: results.failed
+        };
+
+        return toolResult(`Tag "${tagName}" removed from ${results.successful.length} task(s)${results.failed.length > 0 ? ` (${results.failed.length} failed)` : ""}:\n${JSON.stringify(output, null, 2)}`, output);
+      } catch (error) {
+        return toolErrorResult(error, "Error in batch remove tag");
+      }
     }
-  }
-);
+  );
+}
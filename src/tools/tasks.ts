@@ -3,12 +3,24 @@
  * complete/drop, notes, and due/flagged/planned queries.
  */
 
-import { server } from "../server.js";
+import type { z } from "zod";
 import { executeAndParseJSON } from "../executor.js";
+import { getSnapshot, filterByTags, dateWindow, byDate } from "../cache.js";
+import { toolErrorResult, type OmniFocusErrorCode } from "../errors.js";
 import type { TaskData } from "../types.js";
-import { sanitizeInput, sanitizeArray } from "../sanitization.js";
 import { TASK_MAPPER } from "../mappers.js";
-import { generateFindTaskScript, generateTagFilter, generateClearRepetitionScript, buildRRule, generateSetRepetitionScript } from "../helpers.js";
+import {
+  generateFindTaskScript,
+  generateFindParentTaskScript,
+  generateFindProjectScript,
+  generateFindTagsScript,
+  generateTagFilter,
+  generateClearRepetitionScript,
+  buildRRule,
+  generateSetRepetitionScript,
+  referenceError,
+  taskUpdateError
+} from "../helpers.js";
 import {
   ListInboxInputSchema,
   CreateTaskInputSchema,
@@ -21,16 +33,86 @@ import {
   GetFlaggedTasksInputSchema,
   GetPlannedTasksInputSchema
 } from "../schemas.js";
+import { toolResult, BatchTaskOutputSchema, DatedTaskListOutputSchema, DeletedOutputSchema, TaskListOutputSchema, TaskOutputSchema } from "../outputs.js";
+import type { ToolServer } from "../server.js";
+
+/**
+ * Inbox tasks as omnifocus_list_inbox lists them, from the snapshot when the
+ * cache is enabled. Also embedded in prompts (prompts.ts).
+ */
+export async function listInboxTasks(params: z.output<typeof ListInboxInputSchema>, signal?: AbortSignal): Promise<TaskData[]> {
+  const { includeCompleted, limit, tags, tagMatchMode } = params;
+
+  const tagFilter = generateTagFilter(tags, tagMatchMode);
+
+  const script = `
+      ${TASK_MAPPER}
+      var tasks = mapTasks(${includeCompleted ? 'doc.inboxTasks' : 'doc.inboxTasks.whose({completed: false})'});
+      ${tagFilter}
+      tasks = tasks.slice(0, ${limit});
+      JSON.stringify(tasks);
+    `;
 
-// ============================================================================
-// Tool: List Inbox Tasks
-// ============================================================================
+  const snapshot = await getSnapshot(signal);
+  return snapshot
+    ? filterByTags(
+      snapshot.tasks.filter((t) => t.inInbox && t.parentTaskId === null && (includeCompleted || !t.completed)),
+      tags, tagMatchMode
+    ).slice(0, limit)
+    : executeAndParseJSON<TaskData[]>(script, params, { signal });
+}
+
+/**
+ * Remaining tasks due within `daysAhead` days, soonest first, as
+ * omnifocus_get_due_tasks lists them. Also embedded in prompts (prompts.ts).
+ */
+export async function getDueTasks(params: z.output<typeof GetDueTasksInputSchema>, signal?: AbortSignal): Promise<TaskData[]> {
+  const { daysAhead, includeOverdue, limit, tags, tagMatchMode } = params;
 
-server.registerTool(
-  "omnifocus_list_inbox",
-  {
-    title: "List Inbox Tasks",
-    description: `List tasks in the OmniFocus inbox.
+  const tagFilter = generateTagFilter(tags, tagMatchMode);
+
+  const script = `
+      ${TASK_MAPPER}
+      var now = new Date();
+      var futureDate = new Date();
+      futureDate.setDate(futureDate.getDate() + ${daysAhead});
+      futureDate.setHours(23, 59, 59, 999);
+
+      var tasks = mapTasks(doc.flattenedTasks.whose({_and: [
+        {completed: false},
+        {dueDate: {_lessThanEquals: futureDate}}${includeOverdue ? '' : ', {dueDate: {_greaterThanEquals: now}}'}
+      ]})).sort(function(a, b) {
+        return a.dueDate < b.dueDate ? -1 : a.dueDate > b.dueDate ? 1 : 0;
+      });
+      ${tagFilter}
+      tasks = tasks.slice(0, ${limit});
+
+      JSON.stringify(tasks);
+    `;
+
+  const snapshot = await getSnapshot(signal);
+  const { now, until } = dateWindow(daysAhead);
+  return snapshot
+    ? filterByTags(
+      snapshot.tasks
+        .filter((t) => !t.completed && t.dueDate !== null && t.dueDate <= until && (includeOverdue || t.dueDate >= now))
+        .sort(byDate("dueDate")),
+      tags, tagMatchMode
+    ).slice(0, limit)
+    : executeAndParseJSON<TaskData[]>(script, params, { signal });
+}
+
+/** Registers the task tools on `server`. */
+export function registerTaskTools(server: ToolServer): void {
+  // ============================================================================
+  // Tool: List Inbox Tasks
+  // ============================================================================
+
+  server.registerTool(
+    "omnifocus_list_inbox",
+    {
+      title: "List Inbox Tasks",
+      description: `List tasks in the OmniFocus inbox.
 
 Returns tasks that haven't been assigned to a project yet. These are typically newly captured items awaiting processing.
 
@@ -47,63 +129,46 @@ Examples:
   - List all inbox items: {}
   - Include completed: { includeCompleted: true }
   - Only untagged-by-Work items: { tags: ["Work"], tagMatchMode: "none" }`,
-    inputSchema: ListInboxInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { includeCompleted, limit, tags, tagMatchMode } = params;
+      inputSchema: ListInboxInputSchema,
+      outputSchema: TaskListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { includeCompleted, limit, tags, tagMatchMode } = params;
 
-    const tagFilter = tags ? generateTagFilter(sanitizeArray(tags, 200, 20), tagMatchMode) : "";
+      try {
+        const tasks = await listInboxTasks({ includeCompleted, limit, tags, tagMatchMode }, signal);
 
-    const script = `
-      ${TASK_MAPPER}
-      var tasks = doc.inboxTasks();
-      ${!includeCompleted ? 'tasks = tasks.filter(function(t) { return !t.completed(); });' : ''}
-      ${tagFilter}
-      tasks = tasks.slice(0, ${limit});
-      JSON.stringify(tasks.map(mapTask));
-    `;
-    
-    try {
-      const tasks = await executeAndParseJSON<TaskData[]>(script);
-      
-      if (tasks.length === 0) {
-        return {
-          content: [{ type: "text", text: "No tasks found in inbox." }]
+        if (tasks.length === 0) {
+          return toolResult("No tasks found in inbox.", { count: 0, tasks: [] });
+        }
+        
+        const output = {
+          count: tasks.length,
+          tasks: tasks
         };
+        
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error listing inbox");
       }
-      
-      const output = {
-        count: tasks.length,
-        tasks: tasks
-      };
-      
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error listing inbox: ${error instanceof Error ? error.message : String(error)}` }]
-      };
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Create Task
-// ============================================================================
+  // ============================================================================
+  // Tool: Create Task
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_create_task",
-  {
-    title: "Create Task",
-    description: `Create a new task in OmniFocus.
+  server.registerTool(
+    "omnifocus_create_task",
+    {
+      title: "Create Task",
+      description: `Create a new task in OmniFocus.
 
 Creates a task in the inbox or a specific project. Tags, due dates, planned dates and other properties can be set. Supports repeating/recurring tasks.
 
@@ -138,112 +203,85 @@ Examples:
   - Repeat from completion: { name: "Review quarterly", recurrence: { frequency: "monthly", interval: 3, repeatFrom: "completion-date" } }
   - Task with planning: { name: "Write article", plannedDate: "2024-12-15T09:00:00", dueDate: "2024-12-31T17:00:00" }
   - Task with tags: { name: "Call John", tagNames: ["Calls", "Urgent"] }`,
-    inputSchema: CreateTaskInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { name, note, projectName, parentTaskId, dueDate, deferDate, plannedDate, flagged, estimatedMinutes, tagNames, recurrence } = params;
-
-    // Sanitize user inputs to prevent injection attacks
-    const safeName = sanitizeInput(name, 500);
-    const safeNote = note ? sanitizeInput(note, 10000) : "";
-    const safeProjectName = projectName ? sanitizeInput(projectName, 500) : null;
-    const safeParentTaskId = parentTaskId ? sanitizeInput(parentTaskId, 100) : null;
-    const safeDueDate = dueDate ? sanitizeInput(dueDate, 100) : null;
-    const safeDeferDate = deferDate ? sanitizeInput(deferDate, 100) : null;
-    const safePlannedDate = plannedDate ? sanitizeInput(plannedDate, 100) : null;
-
-    let createScript: string;
-    if (safeParentTaskId) {
-      // Create as a subtask of an existing task
-      createScript = `
-        var parentTask = doc.flattenedTasks().find(function(t) { return t.id() === "${safeParentTaskId}"; });
-        if (!parentTask) { throw new Error("Parent task not found with ID: ${safeParentTaskId}"); }
-        var task = app.Task({name: "${safeName}"});
+      inputSchema: CreateTaskInputSchema,
+      outputSchema: TaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { name, note, projectName, parentTaskId, dueDate, deferDate, plannedDate, flagged, estimatedMinutes, tagNames, recurrence } = params;
+
+      let createScript: string;
+      if (parentTaskId) {
+        // Create as a subtask of an existing task
+        createScript = `
+        ${generateFindParentTaskScript()}
+        var task = app.Task({name: params.name});
         parentTask.tasks.push(task);
       `;
-    } else if (safeProjectName) {
-      createScript = `
-        var project = doc.flattenedProjects().find(function(p) { return p.name() === "${safeProjectName}"; });
-        if (!project) { throw new Error("Project not found: ${safeProjectName}"); }
-        var task = app.Task({name: "${safeName}"});
+      } else if (projectName) {
+        createScript = `
+        ${generateFindProjectScript("name")}
+        var task = app.Task({name: params.name});
         project.tasks.push(task);
       `;
-    } else {
-      createScript = `
-        var task = app.InboxTask({name: "${safeName}"});
+      } else {
+        createScript = `
+        var task = app.InboxTask({name: params.name});
         doc.inboxTasks.push(task);
       `;
-    }
-
-    // Generate recurrence rule script if provided. OmniFocus repetition rules
-    // cannot be assigned via direct JXA (a -1700 type-conversion error), so
-    // buildRRule + generateSetRepetitionScript apply it through the Omni
-    // Automation bridge. Same helpers are used by update_task.
-    let recurrenceScript = "";
-    if (recurrence) {
-      const { ruleString, method } = buildRRule(recurrence);
-      recurrenceScript = generateSetRepetitionScript("task", ruleString, method);
-    }
+      }
 
-    // Sanitize tag names if provided
-    const safeTagNames = tagNames && tagNames.length > 0
-      ? sanitizeArray(tagNames, 200, 50)
-      : [];
+      // Generate recurrence rule script if provided. OmniFocus repetition rules
+      // cannot be assigned via direct JXA (a -1700 type-conversion error), so
+      // buildRRule + generateSetRepetitionScript apply it through the Omni
+      // Automation bridge. Same helpers are used by update_task.
+      let recurrenceScript = "";
+      if (recurrence) {
+        const { ruleString, method } = buildRRule(recurrence);
+        recurrenceScript = generateSetRepetitionScript("task", ruleString, method);
+      }
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
       ${createScript}
-      ${note ? `task.note = "${safeNote}";` : ""}
-      ${safeDueDate ? `task.dueDate = new Date("${safeDueDate}");` : ""}
-      ${safeDeferDate ? `task.deferDate = new Date("${safeDeferDate}");` : ""}
-      ${safePlannedDate ? `try { task.plannedDate = new Date("${safePlannedDate}"); } catch(e) {}` : ""}
+      ${note ? `task.note = params.note;` : ""}
+      ${dueDate ? `task.dueDate = new Date(params.dueDate);` : ""}
+      ${deferDate ? `task.deferDate = new Date(params.deferDate);` : ""}
+      ${plannedDate ? `try { task.plannedDate = new Date(params.plannedDate); } catch(e) {}` : ""}
       ${flagged ? `task.flagged = true;` : ""}
       ${estimatedMinutes ? `task.estimatedMinutes = ${estimatedMinutes};` : ""}
-      ${safeTagNames.length > 0 ? `
-        var tagNamesToAdd = ${JSON.stringify(safeTagNames)};
-        var allTags = doc.flattenedTags();
-        tagNamesToAdd.forEach(function(tagName) {
-          var tag = allTags.find(function(t) { return t.name() === tagName; });
-          if (tag) { app.add(tag, { to: task.tags }); }
-        });
+      ${tagNames && tagNames.length > 0 ? `
+        ${generateFindTagsScript()}
+        foundTags.forEach(function(tag) { app.add(tag, { to: task.tags }); });
       ` : ""}
       ${recurrenceScript}
       JSON.stringify(mapTask(task));
     `;
-    
-    try {
-      const task = await executeAndParseJSON<TaskData>(script);
       
-      return {
-        content: [{ 
-          type: "text", 
-          text: `Task created successfully:\n${JSON.stringify(task, null, 2)}` 
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error creating task: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const task = await executeAndParseJSON<TaskData>(script, params, { signal });
+        
+        return toolResult(`Task created successfully:\n${JSON.stringify(task, null, 2)}`, task);
+      } catch (error) {
+        return toolErrorResult(error, "Error creating task");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Complete/Drop Task
-// ============================================================================
+  // ============================================================================
+  // Tool: Complete/Drop Task
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_complete_task",
-  {
-    title: "Complete or Drop Task",
-    description: `Mark a task as complete or dropped in OmniFocus.
+  server.registerTool(
+    "omnifocus_complete_task",
+    {
+      title: "Complete or Drop Task",
+      description: `Mark a task as complete or dropped in OmniFocus.
 
 Use either the task ID from list/search results, or the task name for natural language interactions.
 
@@ -263,73 +301,60 @@ Examples:
   - Complete by ID: { taskId: "abc123" }
   - Complete by name: { taskName: "Write documentation" }
   - Drop by name: { taskName: "Old task", action: "drop" }`,
-    inputSchema: CompleteTaskInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskId, taskName, action } = params;
-
-    // Sanitize user inputs
-    const safeTaskId = taskId ? sanitizeInput(taskId, 100) : null;
-    const safeTaskName = taskName ? sanitizeInput(taskName, 500) : null;
-
-    // Dropping a recurring task otherwise rolls it forward to the next instance
-    // (leaving an active clone). Clear the repetition rule first so a drop
-    // cancels the whole series. Completing still repeats, as expected.
-    const actionCode = action === "drop"
-      ? `${generateClearRepetitionScript("task")}
+      inputSchema: CompleteTaskInputSchema,
+      outputSchema: TaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskId, taskName, action } = params;
+
+      // Dropping a recurring task otherwise rolls it forward to the next instance
+      // (leaving an active clone). Clear the repetition rule first so a drop
+      // cancels the whole series. Completing still repeats, as expected.
+      const actionCode = action === "drop"
+        ? `${generateClearRepetitionScript("task")}
       task.markDropped();`
-      : "task.markComplete();";
+        : "task.markComplete();";
 
-    if (!safeTaskId && !safeTaskName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either taskId or taskName must be provided" }]
-      };
-    }
+      const invalid = referenceError("task", taskId, taskName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const findTaskScript = generateFindTaskScript(safeTaskId, safeTaskName);
+      const findTaskScript = generateFindTaskScript(taskId ? "id" : "name");
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
       ${findTaskScript}
       ${actionCode}
       JSON.stringify(mapTask(task));
     `;
 
-    try {
-      const task = await executeAndParseJSON<TaskData>(script);
-      const actionVerb = action === "drop" ? "dropped" : "completed";
-
-      return {
-        content: [{
-          type: "text",
-          text: `Task ${actionVerb}:\n${JSON.stringify(task, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error updating task: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const task = await executeAndParseJSON<TaskData>(script, params, { signal });
+        const actionVerb = action === "drop" ? "dropped" : "completed";
+
+        return toolResult(`Task ${actionVerb}:\n${JSON.stringify(task, null, 2)}`, task);
+      } catch (error) {
+        return toolErrorResult(error, "Error updating task");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Update Task
-// ============================================================================
+  // ============================================================================
+  // Tool: Update Task
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_update_task",
-  {
-    title: "Update Task",
-    description: `Update properties of an existing task in OmniFocus.
+  server.registerTool(
+    "omnifocus_update_task",
+    {
+      title: "Update Task",
+      description: `Update properties of an existing task in OmniFocus.
 
 Only the fields you provide are changed. Use null to clear a date or note field.
 
@@ -358,99 +383,75 @@ Examples:
   - Make it recurring weekly: { taskId: "abc123", recurrence: { frequency: "weekly", daysOfWeek: ["Monday"] } }
   - Turn off recurring: { taskId: "abc123", clearRecurrence: true }
   - Flag and estimate: { taskId: "abc123", flagged: true, estimatedMinutes: 30 }`,
-    inputSchema: UpdateTaskInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskId, taskName, name, note, dueDate, deferDate, plannedDate, flagged, estimatedMinutes, projectId, projectName, recurrence, clearRecurrence } = params;
-
-    const safeTaskId = taskId ? sanitizeInput(taskId, 100) : null;
-    const safeTaskName = taskName ? sanitizeInput(taskName, 500) : null;
-
-    if (!safeTaskId && !safeTaskName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either taskId or taskName must be provided" }]
-      };
-    }
+      inputSchema: UpdateTaskInputSchema,
+      outputSchema: TaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskId, taskName, name, note, dueDate, deferDate, plannedDate, flagged, estimatedMinutes, projectId, projectName, recurrence, clearRecurrence } = params;
 
-    const findTaskScript = generateFindTaskScript(safeTaskId, safeTaskName);
+      const invalid = referenceError("task", taskId, taskName) ?? taskUpdateError(params);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const updateLines: string[] = [];
+      const findTaskScript = generateFindTaskScript(taskId ? "id" : "name");
 
-    if (name !== undefined) {
-      const safeName = sanitizeInput(name, 500);
-      updateLines.push(`task.name = "${safeName}";`);
-    }
-    if (note !== undefined) {
-      const safeNote = note === null ? "" : sanitizeInput(note, 10000);
-      updateLines.push(`task.note = "${safeNote}";`);
-    }
-    if (dueDate !== undefined) {
-      updateLines.push(dueDate === null
-        ? `task.dueDate = null;`
-        : `task.dueDate = new Date("${sanitizeInput(dueDate, 100)}");`);
-    }
-    if (deferDate !== undefined) {
-      updateLines.push(deferDate === null
-        ? `task.deferDate = null;`
-        : `task.deferDate = new Date("${sanitizeInput(deferDate, 100)}");`);
-    }
-    if (plannedDate !== undefined) {
-      updateLines.push(plannedDate === null
-        ? `try { task.plannedDate = null; } catch(e) {}`
-        : `try { task.plannedDate = new Date("${sanitizeInput(plannedDate, 100)}"); } catch(e) {}`);
-    }
-    if (flagged !== undefined) {
-      updateLines.push(`task.flagged = ${flagged};`);
-    }
-    if (estimatedMinutes !== undefined) {
-      updateLines.push(estimatedMinutes === 0
-        ? `task.estimatedMinutes = null;`
-        : `task.estimatedMinutes = ${estimatedMinutes};`);
-    }
+      const updateLines: string[] = [];
 
-    let moveToProjectScript = "";
-    if (projectId !== undefined || projectName !== undefined) {
-      const safeProjectId = projectId ? sanitizeInput(projectId, 100) : null;
-      const safeProjectName = projectName ? sanitizeInput(projectName, 500) : null;
-      if (safeProjectId) {
-        moveToProjectScript = `
-      var targetProject = doc.flattenedProjects().find(function(p) { return p.id() === "${safeProjectId}"; });
-      if (!targetProject) { throw new Error("Project not found with ID: ${safeProjectId}"); }
-      task.assignedContainer = targetProject;`;
-      } else if (safeProjectName) {
-        moveToProjectScript = `
-      var targetProject = doc.flattenedProjects().find(function(p) { return p.name() === "${safeProjectName}"; });
-      if (!targetProject) { throw new Error("Project not found: ${safeProjectName}"); }
-      task.assignedContainer = targetProject;`;
+      if (name !== undefined) {
+        updateLines.push(`task.name = params.name;`);
+      }
+      if (note !== undefined) {
+        updateLines.push(note === null ? `task.note = "";` : `task.note = params.note;`);
+      }
+      if (dueDate !== undefined) {
+        updateLines.push(dueDate === null
+          ? `task.dueDate = null;`
+          : `task.dueDate = new Date(params.dueDate);`);
+      }
+      if (deferDate !== undefined) {
+        updateLines.push(deferDate === null
+          ? `task.deferDate = null;`
+          : `task.deferDate = new Date(params.deferDate);`);
+      }
+      if (plannedDate !== undefined) {
+        updateLines.push(plannedDate === null
+          ? `try { task.plannedDate = null; } catch(e) {}`
+          : `try { task.plannedDate = new Date(params.plannedDate); } catch(e) {}`);
+      }
+      if (flagged !== undefined) {
+        updateLines.push(`task.flagged = ${flagged};`);
+      }
+      if (estimatedMinutes !== undefined) {
+        updateLines.push(estimatedMinutes === 0
+          ? `task.estimatedMinutes = null;`
+          : `task.estimatedMinutes = ${estimatedMinutes};`);
       }
-    }
-
-    // Setting or clearing recurring requires the Omni Automation bridge (direct
-    // JXA cannot assign or unset a repetition rule). A recurrence object sets the
-    // rule; recurrence: null or clearRecurrence: true removes it.
-    let recurrenceScript = "";
-    if (recurrence) {
-      const { ruleString, method } = buildRRule(recurrence);
-      recurrenceScript = generateSetRepetitionScript("task", ruleString, method);
-    } else if (recurrence === null || clearRecurrence) {
-      recurrenceScript = generateClearRepetitionScript("task");
-    }
 
-    if (updateLines.length === 0 && moveToProjectScript === "" && recurrenceScript === "") {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "No fields to update were provided" }]
-      };
-    }
+      const moveToProjectScript = projectId || projectName
+        ? `
+      ${generateFindProjectScript(projectId ? "id" : "name")}
+      task.assignedContainer = project;`
+        : "";
+
+      // Setting or clearing recurring requires the Omni Automation bridge (direct
+      // JXA cannot assign or unset a repetition rule). A recurrence object sets the
+      // rule; recurrence: null or clearRecurrence: true removes it.
+      let recurrenceScript = "";
+      if (recurrence) {
+        const { ruleString, method } = buildRRule(recurrence);
+        recurrenceScript = generateSetRepetitionScript("task", ruleString, method);
+      } else if (recurrence === null || clearRecurrence) {
+        recurrenceScript = generateClearRepetitionScript("task");
+      }
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
       ${findTaskScript}
       ${moveToProjectScript}
@@ -459,32 +460,24 @@ Examples:
       JSON.stringify(mapTask(task));
     `;
 
-    try {
-      const task = await executeAndParseJSON<TaskData>(script);
-      return {
-        content: [{
-          type: "text",
-          text: `Task updated:\n${JSON.stringify(task, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error updating task: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const task = await executeAndParseJSON<TaskData>(script, params, { signal });
+        return toolResult(`Task updated:\n${JSON.stringify(task, null, 2)}`, task);
+      } catch (error) {
+        return toolErrorResult(error, "Error updating task");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Delete Task
-// ============================================================================
+  // ============================================================================
+  // Tool: Delete Task
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_delete_task",
-  {
-    title: "Delete Task",
-    description: `Permanently delete a task from OmniFocus. This cannot be undone via MCP.
+  server.registerTool(
+    "omnifocus_delete_task",
+    {
+      title: "Delete Task",
+      description: `Permanently delete a task from OmniFocus, including its subtasks. omnifocus_undo_change can recreate them, with new IDs.
 
 Use either the task ID from list/search results, or the task name.
 
@@ -498,62 +491,50 @@ Returns:
 Examples:
   - Delete by ID: { taskId: "abc123" }
   - Delete by name: { taskName: "Old draft" }`,
-    inputSchema: DeleteTaskInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: false,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskId, taskName } = params;
-
-    const safeTaskId = taskId ? sanitizeInput(taskId, 100) : null;
-    const safeTaskName = taskName ? sanitizeInput(taskName, 500) : null;
-
-    if (!safeTaskId && !safeTaskName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either taskId or taskName must be provided" }]
-      };
-    }
+      inputSchema: DeleteTaskInputSchema,
+      outputSchema: DeletedOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskId, taskName } = params;
 
-    const findTaskScript = generateFindTaskScript(safeTaskId, safeTaskName);
+      const invalid = referenceError("task", taskId, taskName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const script = `
+      const findTaskScript = generateFindTaskScript(taskId ? "id" : "name");
+
+      const script = `
       ${findTaskScript}
       var deletedName = task.name();
       app.delete(task);
       JSON.stringify({ deleted: true, name: deletedName });
     `;
 
-    try {
-      const result = await executeAndParseJSON<{ deleted: boolean; name: string }>(script);
-      return {
-        content: [{
-          type: "text",
-          text: `Task deleted: "${result.name}"`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error deleting task: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const result = await executeAndParseJSON<{ deleted: boolean; name: string }>(script, params, { signal });
+        return toolResult(`Task deleted: "${result.name}"`, result);
+      } catch (error) {
+        return toolErrorResult(error, "Error deleting task");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Batch Complete/Drop Tasks
-// ============================================================================
+  // ============================================================================
+  // Tool: Batch Complete/Drop Tasks
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_batch_complete_task",
-  {
-    title: "Batch Complete/Drop Tasks",
-    description: `Complete or drop multiple tasks in one operation.
+  server.registerTool(
+    "omnifocus_batch_complete_task",
+    {
+      title: "Batch Complete/Drop Tasks",
+      description: `Complete or drop multiple tasks in one operation.
 
 Args:
   - taskIds (array): Array of task IDs to complete or drop (1-100)
@@ -565,29 +546,28 @@ Returns:
 Examples:
   - Complete several: { taskIds: ["id1", "id2", "id3"] }
   - Drop several: { taskIds: ["id1", "id2"], action: "drop" }`,
-    inputSchema: BatchCompleteTaskInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskIds, action } = params;
-
-    const safeTaskIds = sanitizeArray(taskIds, 100, 100);
-    const taskIdsJson = JSON.stringify(safeTaskIds);
-    // See omnifocus_complete_task: clear the repetition rule before dropping so a
-    // recurring task's series stops instead of rolling to its next instance.
-    const actionCode = action === "drop"
-      ? `${generateClearRepetitionScript("task")}
+      inputSchema: BatchCompleteTaskInputSchema,
+      outputSchema: BatchTaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskIds, action } = params;
+
+      // See omnifocus_complete_task: clear the repetition rule before dropping so a
+      // recurring task's series stops instead of rolling to its next instance.
+      const actionCode = action === "drop"
+        ? `${generateClearRepetitionScript("task")}
           task.markDropped();`
-      : "task.markComplete();";
+        : "task.markComplete();";
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
-      var targetIds = ${taskIdsJson};
+      var targetIds = params.taskIds;
       var allTasks = doc.flattenedTasks();
       var results = { successful: [], failed: [] };
 
@@ -595,58 +575,50 @@ Examples:
         try {
           var task = allTasks.find(function(t) { return t.id() === taskId; });
           if (!task) {
-            results.failed.push({ taskId: taskId, error: "Task not found" });
+            results.failed.push({ taskId: taskId, code: "NOT_FOUND", error: "Task not found" });
             return;
           }
           ${actionCode}
           results.successful.push(mapTask(task));
         } catch (e) {
-          results.failed.push({ taskId: taskId, error: String(e) });
+          results.failed.push({ taskId: taskId, code: e && e.omnifocusCode ? e.omnifocusCode : "SCRIPT_ERROR", error: String(e) });
         }
       });
 
       JSON.stringify(results);
     `;
 
-    try {
-      const results = await executeAndParseJSON<{
-        successful: TaskData[];
-        failed: Array<{ taskId: string; error: string }>;
-      }>(script);
-
-      const actionVerb = action === "drop" ? "dropped" : "completed";
-      const output = {
-        totalRequested: taskIds.length,
-        successCount: results.successful.length,
-        failureCount: results.failed.length,
-        tasks: results.successful,
-        failures: results.failed
-      };
-
-      return {
-        content: [{
-          type: "text",
-          text: `${results.successful.length} task(s) ${actionVerb}${results.failed.length > 0 ? ` (${results.failed.length} failed)` : ""}:\n${JSON.stringify(output, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error in batch complete: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const results = await executeAndParseJSON<{
+          successful: TaskData[];
+          failed: Array<{ taskId: string; code: OmniFocusErrorCode; error: string }>;
+        }>(script, params, { signal });
+
+        const actionVerb = action === "drop" ? "dropped" : "completed";
+        const output = {
+          totalRequested: taskIds.length,
+          successCount: results.successful.length,
+          failureCount: results.failed.length,
+          tasks: results.successful,
+          failures: results.failed
+        };
+
+        return toolResult(`${results.successful.length} task(s) ${actionVerb}${results.failed.length > 0 ? ` (${results.failed.length} failed)` : ""}:\n${JSON.stringify(output, null, 2)}`, output);
+      } catch (error) {
+        return toolErrorResult(error, "Error in batch complete");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Update Task Note
-// ============================================================================
+  // ============================================================================
+  // Tool: Update Task Note
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_update_task_note",
-  {
-    title: "Update Task Note",
-    description: `Update the note/description on an existing task in OmniFocus.
+  server.registerTool(
+    "omnifocus_update_task_note",
+    {
+      title: "Update Task Note",
+      description: `Update the note/description on an existing task in OmniFocus.
 
 Use either the task ID or task name to identify the task.
 
@@ -664,69 +636,55 @@ Examples:
   - Set note by name: { taskName: "Write report", note: "Draft due Friday" }
   - Clear note: { taskId: "abc123", note: "" }
   - Append to note: { taskId: "abc123", note: "\\nAdditional info here", append: true }`,
-    inputSchema: UpdateTaskNoteInputSchema,
-    annotations: {
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { taskId, taskName, note, append } = params;
-
-    // Sanitize user inputs
-    const safeTaskId = taskId ? sanitizeInput(taskId, 100) : null;
-    const safeTaskName = taskName ? sanitizeInput(taskName, 500) : null;
-    const safeNote = sanitizeInput(note, 10000);
-
-    if (!safeTaskId && !safeTaskName) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: "Either taskId or taskName must be provided" }]
-      };
-    }
+      inputSchema: UpdateTaskNoteInputSchema,
+      outputSchema: TaskOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { taskId, taskName, note, append } = params;
+
+      const invalid = referenceError("task", taskId, taskName);
+      if (invalid) {
+        return toolErrorResult(invalid);
+      }
 
-    const findTaskScript = generateFindTaskScript(safeTaskId, safeTaskName);
+      const findTaskScript = generateFindTaskScript(taskId ? "id" : "name");
 
-    const noteAssignment = append
-      ? `var existing = task.note() ? String(task.note()) : ""; task.note = existing + "${safeNote}";`
-      : `task.note = "${safeNote}";`;
+      const noteAssignment = append
+        ? `var existing = task.note() ? String(task.note()) : ""; task.note = existing + params.note;`
+        : `task.note = params.note;`;
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
       ${findTaskScript}
       ${noteAssignment}
       JSON.stringify(mapTask(task));
     `;
 
-    try {
-      const task = await executeAndParseJSON<TaskData>(script);
-
-      return {
-        content: [{
-          type: "text",
-          text: `Task note updated:\n${JSON.stringify(task, null, 2)}`
-        }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error updating task note: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+      try {
+        const task = await executeAndParseJSON<TaskData>(script, params, { signal });
+
+        return toolResult(`Task note updated:\n${JSON.stringify(task, null, 2)}`, task);
+      } catch (error) {
+        return toolErrorResult(error, "Error updating task note");
+      }
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Get Due Tasks
-// ============================================================================
+  // ============================================================================
+  // Tool: Get Due Tasks
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_get_due_tasks",
-  {
-    title: "Get Due Tasks",
-    description: `Get tasks that are due within a specified timeframe.
+  server.registerTool(
+    "omnifocus_get_due_tasks",
+    {
+      title: "Get Due Tasks",
+      description: `Get tasks that are due within a specified timeframe.
 
 Args:
   - daysAhead (number): Days to look ahead, 0-365 (default: 7)
@@ -742,77 +700,47 @@ Examples:
   - Due this week: {}
   - Due today: { daysAhead: 0 }
   - Due in 30 days: { daysAhead: 30 }`,
-    inputSchema: GetDueTasksInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { daysAhead, includeOverdue, limit, tags, tagMatchMode } = params;
-
-    const tagFilter = tags ? generateTagFilter(sanitizeArray(tags, 200, 20), tagMatchMode) : "";
+      inputSchema: GetDueTasksInputSchema,
+      outputSchema: DatedTaskListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { daysAhead, includeOverdue, limit, tags, tagMatchMode } = params;
 
-    const script = `
-      ${TASK_MAPPER}
-      var now = new Date();
-      var futureDate = new Date();
-      futureDate.setDate(futureDate.getDate() + ${daysAhead});
-      futureDate.setHours(23, 59, 59, 999);
+      try {
+        const tasks = await getDueTasks({ daysAhead, includeOverdue, limit, tags, tagMatchMode }, signal);
 
-      var tasks = doc.flattenedTasks().filter(function(t) {
-        if (t.completed()) return false;
-        var due = t.dueDate();
-        if (!due) return false;
-        ${includeOverdue ? '' : 'if (due < now) return false;'}
-        return due <= futureDate;
-      }).sort(function(a, b) {
-        return a.dueDate() - b.dueDate();
-      });
-      ${tagFilter}
-      tasks = tasks.slice(0, ${limit});
-
-      JSON.stringify(tasks.map(mapTask));
-    `;
-    
-    try {
-      const tasks = await executeAndParseJSON<TaskData[]>(script);
-      
-      if (tasks.length === 0) {
-        return {
-          content: [{ type: "text", text: `No tasks due within ${daysAhead} days.` }]
+        if (tasks.length === 0) {
+          return toolResult(`No tasks due within ${daysAhead} days.`, { count: 0, daysAhead, tasks: [] });
+        }
+        
+        const output = {
+          count: tasks.length,
+          daysAhead,
+          tasks
         };
+        
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error getting due tasks");
       }
-      
-      const output = {
-        count: tasks.length,
-        daysAhead,
-        tasks
-      };
-      
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error getting due tasks: ${error instanceof Error ? error.message : String(error)}` }]
-      };
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Get Flagged Tasks
-// ============================================================================
+  // ============================================================================
+  // Tool: Get Flagged Tasks
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_get_flagged_tasks",
-  {
-    title: "Get Flagged Tasks",
-    description: `Get all flagged tasks in OmniFocus.
+  server.registerTool(
+    "omnifocus_get_flagged_tasks",
+    {
+      title: "Get Flagged Tasks",
+      description: `Get all flagged tasks in OmniFocus.
 
 Args:
   - includeCompleted (boolean): Include completed tasks (default: false)
@@ -826,66 +754,64 @@ Returns:
 Examples:
   - Active flagged: {}
   - All flagged: { includeCompleted: true }`,
-    inputSchema: GetFlaggedTasksInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { includeCompleted, limit, tags, tagMatchMode } = params;
+      inputSchema: GetFlaggedTasksInputSchema,
+      outputSchema: TaskListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { includeCompleted, limit, tags, tagMatchMode } = params;
 
-    const tagFilter = tags ? generateTagFilter(sanitizeArray(tags, 200, 20), tagMatchMode) : "";
+      const tagFilter = generateTagFilter(tags, tagMatchMode);
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
-      var tasks = doc.flattenedTasks().filter(function(t) {
-        if (!t.flagged()) return false;
-        ${!includeCompleted ? 'if (t.completed()) return false;' : ''}
-        return true;
-      });
+      var tasks = mapTasks(doc.flattenedTasks.whose(${includeCompleted
+          ? '{flagged: true}'
+          : '{_and: [{flagged: true}, {completed: false}]}'}));
       ${tagFilter}
       tasks = tasks.slice(0, ${limit});
-      JSON.stringify(tasks.map(mapTask));
+      JSON.stringify(tasks);
     `;
-    
-    try {
-      const tasks = await executeAndParseJSON<TaskData[]>(script);
       
-      if (tasks.length === 0) {
-        return {
-          content: [{ type: "text", text: "No flagged tasks found." }]
+      try {
+        const snapshot = await getSnapshot(signal);
+        const tasks = snapshot
+          ? filterByTags(
+            snapshot.tasks.filter((t) => t.flagged && (includeCompleted || !t.completed)),
+            tags, tagMatchMode
+          ).slice(0, limit)
+          : await executeAndParseJSON<TaskData[]>(script, params, { signal });
+        
+        if (tasks.length === 0) {
+          return toolResult("No flagged tasks found.", { count: 0, tasks: [] });
+        }
+        
+        const output = {
+          count: tasks.length,
+          tasks
         };
+        
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error getting flagged tasks");
       }
-      
-      const output = {
-        count: tasks.length,
-        tasks
-      };
-      
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error getting flagged tasks: ${error instanceof Error ? error.message : String(error)}` }]
-      };
     }
-  }
-);
+  );
 
-// ============================================================================
-// Tool: Get Planned Tasks
-// ============================================================================
+  // ============================================================================
+  // Tool: Get Planned Tasks
+  // ============================================================================
 
-server.registerTool(
-  "omnifocus_get_planned_tasks",
-  {
-    title: "Get Planned Tasks",
-    description: `Get tasks that are planned within a specified timeframe.
+  server.registerTool(
+    "omnifocus_get_planned_tasks",
+    {
+      title: "Get Planned Tasks",
+      description: `Get tasks that are planned within a specified timeframe.
 
 Planned dates represent when you intend to work on a task, separate from the due date.
 
@@ -903,74 +829,70 @@ Examples:
   - Planned this week: {}
   - Planned today: { daysAhead: 0 }
   - Planned in 30 days: { daysAhead: 30 }`,
-    inputSchema: GetPlannedTasksInputSchema,
-    annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false
-    }
-  },
-  async (params) => {
-    const { daysAhead, includeOverdue, limit, tags, tagMatchMode } = params;
+      inputSchema: GetPlannedTasksInputSchema,
+      outputSchema: DatedTaskListOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params, { signal }) => {
+      const { daysAhead, includeOverdue, limit, tags, tagMatchMode } = params;
 
-    const tagFilter = tags ? generateTagFilter(sanitizeArray(tags, 200, 20), tagMatchMode) : "";
+      const tagFilter = generateTagFilter(tags, tagMatchMode);
 
-    const script = `
+      const script = `
       ${TASK_MAPPER}
       var now = new Date();
       var futureDate = new Date();
       futureDate.setDate(futureDate.getDate() + ${daysAhead});
       futureDate.setHours(23, 59, 59, 999);
 
-      var tasks = doc.flattenedTasks().filter(function(t) {
-        if (t.completed()) return false;
-        var planned = null;
-        try {
-          planned = t.plannedDate ? t.plannedDate() : null;
-        } catch(e) {}
-        if (!planned) return false;
-        ${includeOverdue ? '' : 'if (planned < now) return false;'}
-        return planned <= futureDate;
+      // Filtered after mapping rather than in whose(): OmniFocus versions
+      // without planned dates reject the clause, while mapTasks reads them as null.
+      var nowIso = now.toISOString();
+      var futureIso = futureDate.toISOString();
+      var tasks = mapTasks(doc.flattenedTasks.whose({completed: false})).filter(function(t) {
+        if (!t.plannedDate) return false;
+        ${includeOverdue ? '' : 'if (t.plannedDate < nowIso) return false;'}
+        return t.plannedDate <= futureIso;
       }).sort(function(a, b) {
-        var aPlanned = null;
-        var bPlanned = null;
-        try {
-          aPlanned = a.plannedDate ? a.plannedDate() : null;
-          bPlanned = b.plannedDate ? b.plannedDate() : null;
-        } catch(e) {}
-        if (!aPlanned || !bPlanned) return 0;
-        return aPlanned - bPlanned;
+        return a.plannedDate < b.plannedDate ? -1 : a.plannedDate > b.plannedDate ? 1 : 0;
       });
       ${tagFilter}
       tasks = tasks.slice(0, ${limit});
 
-      JSON.stringify(tasks.map(mapTask));
+      JSON.stringify(tasks);
     `;
 
-    try {
-      const tasks = await executeAndParseJSON<TaskData[]>(script);
+      try {
+        const snapshot = await getSnapshot(signal);
+        const { now, until } = dateWindow(daysAhead);
+        const tasks = snapshot
+          ? filterByTags(
+            snapshot.tasks
+              .filter((t) => !t.completed && t.plannedDate !== null && t.plannedDate <= until && (includeOverdue || t.plannedDate >= now))
+              .sort(byDate("plannedDate")),
+            tags, tagMatchMode
+          ).slice(0, limit)
+          : await executeAndParseJSON<TaskData[]>(script, params, { signal });
+
+        if (tasks.length === 0) {
+          return toolResult(`No tasks planned within ${daysAhead} days.`, { count: 0, daysAhead, tasks: [] });
+        }
 
-      if (tasks.length === 0) {
-        return {
-          content: [{ type: "text", text: `No tasks planned within ${daysAhead} days.` }]
+        const output = {
+          count: tasks.length,
+          daysAhead,
+          tasks
         };
-      }
 
-      const output = {
-        count: tasks.length,
-        daysAhead,
-        tasks
-      };
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(output, null, 2) }]
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error getting planned tasks: ${error instanceof Error ? error.message : String(error)}` }]
-      };
+        return toolResult(JSON.stringify(output, null, 2), output);
+      } catch (error) {
+        return toolErrorResult(error, "Error getting planned tasks");
+      }
     }
-  }
-);
+  );
+}
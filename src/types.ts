@@ -59,6 +59,7 @@ export interface TagData {
 }
 
 export interface PerspectiveData {
-  id: string;
+  /** null for perspectives OmniFocus reports no ID for. */
+  id: string | null;
   name: string;
 }
@@ -4,6 +4,8 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    // Tool calls and requests log at info; tests that check the log lower the level.
+    env: { OMNIFOCUS_LOG_LEVEL: 'warn' },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],